@@ -5,7 +5,7 @@
  * We use the 'pg' library (node-postgres) to connect.
  */
 
-import { Pool } from 'pg';
+import { Pool, PoolClient } from 'pg';
 import dotenv from 'dotenv';
 
 dotenv.config();
@@ -37,4 +37,23 @@ export const query = (text: string, params?: any[]) => {
   return pool.query(text, params);
 };
 
+/**
+ * Run several queries in one database transaction.
+ * Everything is rolled back if the callback throws.
+ */
+export const withTransaction = async <T>(callback: (client: PoolClient) => Promise<T>): Promise<T> => {
+  const client = await pool.connect();
+  try {
+    await client.query('BEGIN');
+    const result = await callback(client);
+    await client.query('COMMIT');
+    return result;
+  } catch (error) {
+    await client.query('ROLLBACK');
+    throw error;
+  } finally {
+    client.release();
+  }
+};
+
 export default pool;
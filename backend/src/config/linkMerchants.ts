@@ -0,0 +1,33 @@
+/**
+ * Link Existing Transactions to Merchants
+ *
+ * New imports are linked to merchants as they are processed. This links
+ * transactions imported before merchant normalization existed.
+ * Run this with: npm run link-merchants
+ */
+
+import { pool } from './database';
+import { MerchantNormalizationService } from '../services/merchantNormalizationService';
+
+async function linkMerchants() {
+  try {
+    console.log('🏪 Linking transactions to merchants...');
+
+    const users = await pool.query(
+      'SELECT DISTINCT user_id FROM transactions WHERE merchant_id IS NULL'
+    );
+
+    let linked = 0;
+    for (const user of users.rows) {
+      linked += await MerchantNormalizationService.linkExisting(user.user_id);
+    }
+    console.log(`✅ Linked ${linked} transaction(s) for ${users.rows.length} user(s).`);
+
+    process.exit(0);
+  } catch (error) {
+    console.error('❌ Linking merchants failed:', error);
+    process.exit(1);
+  }
+}
+
+linkMerchants();
@@ -0,0 +1,39 @@
+/**
+ * Encryption Key Rotation
+ *
+ * Re-wraps every user's data key with the current master key (the first
+ * entry in FILE_ENCRYPTION_KEYS). Once this has run, older master keys
+ * can be removed from the configuration.
+ * With --data-keys, also gives every user a new data key and re-encrypts
+ * their stored files with it.
+ * Run this with: npm run rotate-keys [-- --data-keys]
+ */
+
+import { pool } from './database';
+import { EncryptionService } from '../services/encryptionService';
+
+async function rotateKeys() {
+  try {
+    console.log('🔑 Starting key rotation...');
+
+    const rewrapped = await EncryptionService.rewrapDataKeys();
+    console.log(`✅ Re-wrapped ${rewrapped} data key(s) with the current master key.`);
+
+    if (process.argv.includes('--data-keys')) {
+      const users = await pool.query('SELECT id FROM users ORDER BY created_at');
+
+      let files = 0;
+      for (const user of users.rows) {
+        files += await EncryptionService.rotateUserKey(user.id);
+      }
+      console.log(`✅ Rotated data keys for ${users.rows.length} user(s), re-encrypting ${files} file(s).`);
+    }
+
+    process.exit(0);
+  } catch (error) {
+    console.error('❌ Key rotation failed:', error);
+    process.exit(1);
+  }
+}
+
+rotateKeys();
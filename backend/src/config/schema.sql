@@ -21,6 +21,12 @@ CREATE TABLE IF NOT EXISTS users (
 -- Create an index on email for faster lookups
 CREATE INDEX IF NOT EXISTS idx_users_email ON users(email);
 
+-- Queue uploaded statements for processing straight away
+ALTER TABLE users ADD COLUMN IF NOT EXISTS auto_process_uploads BOOLEAN DEFAULT FALSE NOT NULL;
+
+-- Remove the original statement file once its transactions have been imported
+ALTER TABLE users ADD COLUMN IF NOT EXISTS delete_statements_after_processing BOOLEAN DEFAULT FALSE NOT NULL;
+
 -- Uploaded Files Table
 -- Tracks all bank statements uploaded by users
 CREATE TABLE IF NOT EXISTS uploaded_files (
@@ -30,7 +36,7 @@ CREATE TABLE IF NOT EXISTS uploaded_files (
     file_path VARCHAR(500) NOT NULL,
     file_size INTEGER,
     mime_type VARCHAR(100),
-    status VARCHAR(50) DEFAULT 'pending', -- pending, processing, completed, error
+    status VARCHAR(50) DEFAULT 'pending', -- pending, queued, processing, review, completed, error, quarantined
     uploaded_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
     processed_at TIMESTAMP,
     deleted_at TIMESTAMP -- Soft delete for compliance
@@ -39,6 +45,69 @@ CREATE TABLE IF NOT EXISTS uploaded_files (
 CREATE INDEX IF NOT EXISTS idx_uploaded_files_user_id ON uploaded_files(user_id);
 CREATE INDEX IF NOT EXISTS idx_uploaded_files_status ON uploaded_files(status);
 
+-- How signed amounts in a CSV/Excel file should be read
+-- (credit card exports usually show charges as positive numbers)
+ALTER TABLE uploaded_files ADD COLUMN IF NOT EXISTS sign_convention VARCHAR(30) DEFAULT 'negative_is_expense';
+
+-- Statement balances and the reconciliation check run after processing
+-- (balanced, mismatch, or unavailable when the file doesn't print both balances)
+ALTER TABLE uploaded_files ADD COLUMN IF NOT EXISTS period_start DATE;
+ALTER TABLE uploaded_files ADD COLUMN IF NOT EXISTS period_end DATE;
+ALTER TABLE uploaded_files ADD COLUMN IF NOT EXISTS opening_balance DECIMAL(12, 2);
+ALTER TABLE uploaded_files ADD COLUMN IF NOT EXISTS closing_balance DECIMAL(12, 2);
+ALTER TABLE uploaded_files ADD COLUMN IF NOT EXISTS reconciliation_status VARCHAR(20);
+ALTER TABLE uploaded_files ADD COLUMN IF NOT EXISTS reconciliation_difference DECIMAL(12, 2);
+
+-- Rows the parser couldn't read, shown on the import review screen
+ALTER TABLE uploaded_files ADD COLUMN IF NOT EXISTS parse_warnings JSONB;
+
+-- Why an upload was quarantined (contents didn't match its type, unsafe PDF,
+-- virus found); quarantined files are kept but never processed
+ALTER TABLE uploaded_files ADD COLUMN IF NOT EXISTS quarantine_reason TEXT;
+
+-- ZIP archive the statement was unpacked from, if any
+ALTER TABLE uploaded_files ADD COLUMN IF NOT EXISTS source_archive VARCHAR(255);
+
+-- SHA-256 of the file's contents, to spot the same statement uploaded twice
+-- (duplicate_of_file_id is set when the user chose to keep the copy anyway)
+ALTER TABLE uploaded_files ADD COLUMN IF NOT EXISTS content_hash VARCHAR(64);
+ALTER TABLE uploaded_files ADD COLUMN IF NOT EXISTS duplicate_of_file_id UUID REFERENCES uploaded_files(id) ON DELETE SET NULL;
+CREATE INDEX IF NOT EXISTS idx_uploaded_files_content_hash ON uploaded_files(user_id, content_hash);
+
+-- Account the statement is for (when the file says) and an earlier statement
+-- of that account whose period overlaps this one, found when processing
+ALTER TABLE uploaded_files ADD COLUMN IF NOT EXISTS account_id VARCHAR(100);
+ALTER TABLE uploaded_files ADD COLUMN IF NOT EXISTS overlaps_file_id UUID REFERENCES uploaded_files(id) ON DELETE SET NULL;
+
+-- User Data Keys Table
+-- Uploaded files are encrypted with a key per user; the keys themselves are
+-- stored wrapped (encrypted) by a master key from configuration
+CREATE TABLE IF NOT EXISTS user_data_keys (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    user_id UUID NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+    wrapped_key TEXT NOT NULL,
+    master_key_id VARCHAR(50) NOT NULL,
+    status VARCHAR(20) DEFAULT 'active' NOT NULL, -- active, retired
+    created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+    retired_at TIMESTAMP
+);
+
+-- One active key per user
+CREATE UNIQUE INDEX IF NOT EXISTS idx_user_data_keys_active ON user_data_keys(user_id) WHERE status = 'active';
+
+-- Data key the stored file is encrypted with (NULL for files stored before encryption)
+ALTER TABLE uploaded_files ADD COLUMN IF NOT EXISTS encryption_key_id UUID REFERENCES user_data_keys(id);
+
+-- file_path holds a storage key ("statements/<id>"), not a path on this machine.
+-- Files stored before that were recorded by absolute path under uploads/
+UPDATE uploaded_files SET file_path = regexp_replace(file_path, '^.*/uploads/', '')
+WHERE file_path LIKE '/%/uploads/%';
+
+-- Retention: when the stored file was removed (the row is kept for its import history).
+-- Soft-deleted files are purged entirely after RETENTION_GRACE_DAYS.
+ALTER TABLE uploaded_files ADD COLUMN IF NOT EXISTS file_purged_at TIMESTAMP;
+CREATE INDEX IF NOT EXISTS idx_uploaded_files_deleted_at ON uploaded_files(deleted_at) WHERE deleted_at IS NOT NULL;
+
 -- Transactions Table (Phase 2)
 -- Stores individual transactions extracted from bank statements
 CREATE TABLE IF NOT EXISTS transactions (
@@ -59,6 +128,20 @@ CREATE INDEX IF NOT EXISTS idx_transactions_user_id ON transactions(user_id);
 CREATE INDEX IF NOT EXISTS idx_transactions_date ON transactions(transaction_date);
 CREATE INDEX IF NOT EXISTS idx_transactions_category ON transactions(category);
 
+-- Bank-assigned IDs (OFX FITID) for exact duplicate detection
+ALTER TABLE transactions ADD COLUMN IF NOT EXISTS external_id VARCHAR(255);
+ALTER TABLE transactions ADD COLUMN IF NOT EXISTS account_id VARCHAR(100);
+
+-- Extra statement details from structured formats (CAMT.053, MT940, OFX)
+ALTER TABLE transactions ADD COLUMN IF NOT EXISTS value_date DATE;
+ALTER TABLE transactions ADD COLUMN IF NOT EXISTS counterparty VARCHAR(255);
+ALTER TABLE transactions ADD COLUMN IF NOT EXISTS currency VARCHAR(3);
+
+-- OCR confidence (0-100) for transactions read from scanned statements
+ALTER TABLE transactions ADD COLUMN IF NOT EXISTS ocr_confidence SMALLINT;
+
+CREATE INDEX IF NOT EXISTS idx_transactions_external_id ON transactions(user_id, external_id);
+
 -- Budgets Table (Phase 3)
 -- Stores AI-generated and user-modified budgets
 CREATE TABLE IF NOT EXISTS budgets (
@@ -123,6 +206,32 @@ CREATE TABLE IF NOT EXISTS categories (
 
 CREATE INDEX IF NOT EXISTS idx_categories_name ON categories(name);
 
+-- Custom categories: user_id is NULL for the built-in defaults, which every
+-- user sees. parent_id makes a category a subcategory of another (one level
+-- deep); transactions.subcategory holds the name of a child of
+-- transactions.category. Archived categories are hidden from pickers, but
+-- transactions keep them.
+ALTER TABLE categories ADD COLUMN IF NOT EXISTS user_id UUID REFERENCES users(id) ON DELETE CASCADE;
+ALTER TABLE categories ADD COLUMN IF NOT EXISTS parent_id UUID REFERENCES categories(id) ON DELETE CASCADE;
+ALTER TABLE categories ADD COLUMN IF NOT EXISTS archived_at TIMESTAMP;
+ALTER TABLE categories ADD COLUMN IF NOT EXISTS updated_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP;
+
+-- Link subcategories that only recorded their parent's name
+UPDATE categories c
+SET parent_id = p.id
+FROM categories p
+WHERE c.parent_id IS NULL
+AND c.parent_category IS NOT NULL
+AND p.name = c.parent_category
+AND p.parent_id IS NULL
+AND p.user_id IS NOT DISTINCT FROM c.user_id;
+
+CREATE INDEX IF NOT EXISTS idx_categories_user_id ON categories(user_id);
+CREATE INDEX IF NOT EXISTS idx_categories_parent_id ON categories(parent_id);
+CREATE UNIQUE INDEX IF NOT EXISTS idx_categories_user_name ON categories(
+    user_id, COALESCE(parent_id, '00000000-0000-0000-0000-000000000000'::uuid), LOWER(name)
+) WHERE user_id IS NOT NULL;
+
 -- Monthly Insights Table
 -- AI-generated insights about spending patterns
 CREATE TABLE IF NOT EXISTS monthly_insights (
@@ -139,3 +248,196 @@ CREATE TABLE IF NOT EXISTS monthly_insights (
 
 CREATE INDEX IF NOT EXISTS idx_monthly_insights_user_id ON monthly_insights(user_id);
 CREATE INDEX IF NOT EXISTS idx_monthly_insights_date ON monthly_insights(year, month);
+
+-- Import Profiles Table
+-- Saved per-bank CSV column mappings, matched to uploads by header signature
+CREATE TABLE IF NOT EXISTS import_profiles (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    user_id UUID NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+    name VARCHAR(100) NOT NULL,
+    header_signature TEXT NOT NULL,
+    date_column VARCHAR(255) NOT NULL,
+    date_format VARCHAR(20),
+    description_columns JSONB NOT NULL DEFAULT '[]',
+    amount_column VARCHAR(255),
+    debit_column VARCHAR(255),
+    credit_column VARCHAR(255),
+    sign_convention VARCHAR(30) DEFAULT 'negative_is_expense', -- negative_is_expense, positive_is_expense
+    skip_rows INTEGER DEFAULT 0,
+    last_used_at TIMESTAMP,
+    created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+    updated_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+    UNIQUE(user_id, name)
+);
+
+CREATE INDEX IF NOT EXISTS idx_import_profiles_user_id ON import_profiles(user_id);
+CREATE INDEX IF NOT EXISTS idx_import_profiles_signature ON import_profiles(user_id, header_signature);
+
+-- Import Batches Table
+-- One row per processing run of a file. A batch is staged for review, then
+-- committed (its transactions point back to it) or discarded; a committed
+-- batch can later be reverted, removing exactly the transactions it inserted.
+CREATE TABLE IF NOT EXISTS import_batches (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    user_id UUID NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+    file_id UUID NOT NULL REFERENCES uploaded_files(id) ON DELETE CASCADE,
+    status VARCHAR(20) NOT NULL DEFAULT 'staged', -- staged, committed, discarded, reverted
+    format VARCHAR(20), -- Parser used (ofx, csv, pdf, ...)
+    import_profile_id UUID REFERENCES import_profiles(id) ON DELETE SET NULL,
+    transaction_count INTEGER DEFAULT 0,
+    created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+    committed_at TIMESTAMP,
+    reverted_at TIMESTAMP
+);
+
+CREATE INDEX IF NOT EXISTS idx_import_batches_file_id ON import_batches(file_id, status);
+
+ALTER TABLE transactions ADD COLUMN IF NOT EXISTS import_batch_id UUID REFERENCES import_batches(id) ON DELETE SET NULL;
+CREATE INDEX IF NOT EXISTS idx_transactions_import_batch_id ON transactions(import_batch_id);
+
+-- Staged Transactions Table
+-- Parsed rows waiting for the user to review them before they're imported
+CREATE TABLE IF NOT EXISTS staged_transactions (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    user_id UUID NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+    file_id UUID NOT NULL REFERENCES uploaded_files(id) ON DELETE CASCADE,
+    row_index INTEGER NOT NULL, -- Order the rows appeared in the file
+    transaction_date DATE NOT NULL,
+    description VARCHAR(500),
+    amount DECIMAL(10, 2) NOT NULL,
+    category VARCHAR(100),
+    subcategory VARCHAR(100),
+    is_income BOOLEAN DEFAULT FALSE,
+    external_id VARCHAR(255),
+    account_id VARCHAR(100),
+    value_date DATE,
+    counterparty VARCHAR(255),
+    currency VARCHAR(3),
+    ocr_confidence SMALLINT,
+    duplicate_of UUID REFERENCES transactions(id) ON DELETE SET NULL, -- Existing transaction this row matches
+    excluded BOOLEAN DEFAULT FALSE,
+    warnings JSONB NOT NULL DEFAULT '[]',
+    created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP
+);
+
+CREATE INDEX IF NOT EXISTS idx_staged_transactions_file_id ON staged_transactions(file_id, row_index);
+
+-- Categorization Rules Table
+-- User-defined rules that run before AI categorization ("anything containing
+-- ACME PAYROLL is Income/Salary"). Every condition that is set must match.
+CREATE TABLE IF NOT EXISTS categorization_rules (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    user_id UUID NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+    name VARCHAR(100) NOT NULL,
+    priority INTEGER NOT NULL DEFAULT 0, -- Lower runs first
+    enabled BOOLEAN NOT NULL DEFAULT TRUE,
+    -- Conditions
+    description_contains VARCHAR(255),
+    description_regex VARCHAR(255),
+    merchant_equals VARCHAR(255),
+    amount_min DECIMAL(10, 2),
+    amount_max DECIMAL(10, 2),
+    account_id VARCHAR(100),
+    direction VARCHAR(10), -- income, expense (NULL matches both)
+    -- Actions
+    set_category VARCHAR(100),
+    set_subcategory VARCHAR(100),
+    add_tags JSONB NOT NULL DEFAULT '[]',
+    set_description VARCHAR(500),
+    created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+    updated_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP
+);
+
+CREATE INDEX IF NOT EXISTS idx_categorization_rules_user_id ON categorization_rules(user_id, priority);
+
+-- What rules did to a transaction: tags, the bank's description when a rule
+-- replaced it, and the rule that set the category
+ALTER TABLE transactions ADD COLUMN IF NOT EXISTS tags JSONB NOT NULL DEFAULT '[]';
+ALTER TABLE transactions ADD COLUMN IF NOT EXISTS original_description VARCHAR(500);
+ALTER TABLE transactions ADD COLUMN IF NOT EXISTS categorization_rule_id UUID REFERENCES categorization_rules(id) ON DELETE SET NULL;
+ALTER TABLE staged_transactions ADD COLUMN IF NOT EXISTS tags JSONB NOT NULL DEFAULT '[]';
+ALTER TABLE staged_transactions ADD COLUMN IF NOT EXISTS original_description VARCHAR(500);
+ALTER TABLE staged_transactions ADD COLUMN IF NOT EXISTS categorization_rule_id UUID REFERENCES categorization_rules(id) ON DELETE SET NULL;
+
+-- Learned Categories Table
+-- Merchant -> category memory built from the user's manual corrections.
+-- Consulted before AI categorization, so the next import doesn't repeat the mistake.
+CREATE TABLE IF NOT EXISTS learned_categories (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    user_id UUID NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+    merchant_key VARCHAR(255) NOT NULL, -- Normalized merchant (see MerchantNormalizationService)
+    merchant_name VARCHAR(255) NOT NULL, -- Merchant's display name
+    category VARCHAR(100) NOT NULL,
+    subcategory VARCHAR(100),
+    times_corrected INTEGER NOT NULL DEFAULT 1,
+    times_applied INTEGER NOT NULL DEFAULT 0, -- Imported transactions it categorized
+    last_applied_at TIMESTAMP,
+    created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+    updated_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+    UNIQUE(user_id, merchant_key)
+);
+
+-- Merchants Table
+-- Canonical merchants behind raw statement descriptions ("SQ *BLUE BOTTLE 0423
+-- SAN FRANCISCO CA" -> Blue Bottle Coffee). Each user has their own records,
+-- created on import from the normalized name (see MerchantNormalizationService);
+-- well-known merchants start with a default category and colour.
+CREATE TABLE IF NOT EXISTS merchants (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    user_id UUID NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+    name VARCHAR(255) NOT NULL,
+    normalized_key VARCHAR(255) NOT NULL,
+    default_category VARCHAR(100), -- Used when no rule or correction decides
+    logo_url VARCHAR(500),
+    color VARCHAR(20),
+    created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+    updated_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+    UNIQUE(user_id, normalized_key)
+);
+
+ALTER TABLE transactions ADD COLUMN IF NOT EXISTS merchant_id UUID REFERENCES merchants(id) ON DELETE SET NULL;
+ALTER TABLE staged_transactions ADD COLUMN IF NOT EXISTS merchant_id UUID REFERENCES merchants(id) ON DELETE SET NULL;
+
+CREATE INDEX IF NOT EXISTS idx_transactions_merchant_id ON transactions(merchant_id);
+
+-- Background Jobs Table
+-- Postgres-backed work queue (see JobQueueService). Workers claim queued jobs
+-- with FOR UPDATE SKIP LOCKED; failures are retried with backoff until
+-- max_attempts, then dead-lettered (status 'dead') for inspection.
+CREATE TABLE IF NOT EXISTS jobs (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    user_id UUID REFERENCES users(id) ON DELETE CASCADE,
+    type VARCHAR(50) NOT NULL,
+    payload JSONB NOT NULL DEFAULT '{}',
+    status VARCHAR(20) NOT NULL DEFAULT 'queued', -- queued, running, completed, dead
+    attempts INTEGER NOT NULL DEFAULT 0,
+    max_attempts INTEGER NOT NULL DEFAULT 3,
+    run_at TIMESTAMP NOT NULL DEFAULT CURRENT_TIMESTAMP, -- Not before (retry backoff)
+    locked_by VARCHAR(255), -- Worker running the job
+    locked_at TIMESTAMP,
+    last_error TEXT,
+    result JSONB,
+    created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+    updated_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+    completed_at TIMESTAMP
+);
+
+CREATE INDEX IF NOT EXISTS idx_jobs_queue ON jobs(status, run_at);
+CREATE INDEX IF NOT EXISTS idx_jobs_user_id ON jobs(user_id);
+
+-- The job currently processing (or last processed) a file
+ALTER TABLE uploaded_files ADD COLUMN IF NOT EXISTS processing_job_id UUID REFERENCES jobs(id) ON DELETE SET NULL;
+
+-- Latest progress event of that job (see ProcessingProgressService)
+ALTER TABLE uploaded_files ADD COLUMN IF NOT EXISTS processing_progress JSONB;
+
+-- Account numbers are stored masked to their last four characters ("****4300",
+-- see AccountNumber); mask any stored in full before that
+UPDATE uploaded_files SET account_id = '****' || UPPER(RIGHT(REGEXP_REPLACE(account_id, '[^0-9A-Za-z]', '', 'g'), 4))
+WHERE account_id IS NOT NULL AND account_id NOT LIKE '****%';
+UPDATE transactions SET account_id = '****' || UPPER(RIGHT(REGEXP_REPLACE(account_id, '[^0-9A-Za-z]', '', 'g'), 4))
+WHERE account_id IS NOT NULL AND account_id NOT LIKE '****%';
+UPDATE staged_transactions SET account_id = '****' || UPPER(RIGHT(REGEXP_REPLACE(account_id, '[^0-9A-Za-z]', '', 'g'), 4))
+WHERE account_id IS NOT NULL AND account_id NOT LIKE '****%';
+UPDATE categorization_rules SET account_id = '****' || UPPER(RIGHT(REGEXP_REPLACE(account_id, '[^0-9A-Za-z]', '', 'g'), 4))
+WHERE account_id IS NOT NULL AND account_id NOT LIKE '****%';
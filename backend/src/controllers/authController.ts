@@ -137,4 +137,34 @@ export class AuthController {
       res.status(500).json({ error: 'Failed to get user data' });
     }
   }
+
+  /**
+   * Update current user's preferences
+   * PATCH /api/auth/me/preferences
+   * Body: { auto_process_uploads, delete_statements_after_processing }
+   */
+  static async updatePreferences(req: Request, res: Response): Promise<void> {
+    try {
+      if (!req.user) {
+        res.status(401).json({ error: 'Not authenticated' });
+        return;
+      }
+
+      const user = await UserModel.updatePreferences(req.user.userId, {
+        auto_process_uploads: req.body.auto_process_uploads,
+        delete_statements_after_processing: req.body.delete_statements_after_processing,
+      });
+      if (!user) {
+        res.status(404).json({ error: 'User not found' });
+        return;
+      }
+
+      res.json({
+        user: UserModel.toResponse(user),
+      });
+    } catch (error) {
+      console.error('Update preferences error:', error);
+      res.status(500).json({ error: 'Failed to update preferences' });
+    }
+  }
 }
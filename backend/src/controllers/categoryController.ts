@@ -0,0 +1,172 @@
+/**
+ * Category Controller
+ *
+ * The user's category hierarchy: the defaults plus their own categories and
+ * subcategories (see CategoryService). Renames and merges re-assign the
+ * transactions using the old category; removing a category archives it.
+ */
+
+import { Request, Response } from 'express';
+import { CategoryService, CategoryError } from '../services/categoryService';
+
+export class CategoryController {
+  /**
+   * List categories as a tree
+   * GET /api/categories?includeArchived=true
+   */
+  static async getCategories(req: Request, res: Response): Promise<void> {
+    try {
+      if (!req.user) {
+        res.status(401).json({ error: 'Not authenticated' });
+        return;
+      }
+
+      const categories = await CategoryService.getTree(req.user.userId, req.query.includeArchived === 'true');
+      res.json({ categories });
+    } catch (error) {
+      console.error('Get categories error:', error);
+      res.status(500).json({ error: 'Failed to retrieve categories' });
+    }
+  }
+
+  /**
+   * Create a category, or a subcategory with parent_id
+   * POST /api/categories
+   */
+  static async createCategory(req: Request, res: Response): Promise<void> {
+    try {
+      if (!req.user) {
+        res.status(401).json({ error: 'Not authenticated' });
+        return;
+      }
+
+      const { name, parent_id, icon, color } = req.body;
+      const category = await CategoryService.create(req.user.userId, {
+        name, parentId: parent_id, icon, color,
+      });
+
+      res.status(201).json({
+        message: 'Category created',
+        category,
+      });
+    } catch (error) {
+      if (error instanceof CategoryError) {
+        res.status(error.status).json({ error: error.message });
+        return;
+      }
+      console.error('Create category error:', error);
+      res.status(500).json({ error: 'Failed to create category' });
+    }
+  }
+
+  /**
+   * Rename a category or change its icon or colour
+   * PUT /api/categories/:categoryId
+   */
+  static async updateCategory(req: Request, res: Response): Promise<void> {
+    try {
+      if (!req.user) {
+        res.status(401).json({ error: 'Not authenticated' });
+        return;
+      }
+
+      const { name, icon, color } = req.body;
+      const category = await CategoryService.update(req.user.userId, req.params.categoryId, {
+        name, icon, color,
+      });
+
+      res.json({
+        message: 'Category updated',
+        category,
+      });
+    } catch (error) {
+      if (error instanceof CategoryError) {
+        res.status(error.status).json({ error: error.message });
+        return;
+      }
+      console.error('Update category error:', error);
+      res.status(500).json({ error: 'Failed to update category' });
+    }
+  }
+
+  /**
+   * Merge a category into another and archive it
+   * POST /api/categories/:categoryId/merge
+   */
+  static async mergeCategory(req: Request, res: Response): Promise<void> {
+    try {
+      if (!req.user) {
+        res.status(401).json({ error: 'Not authenticated' });
+        return;
+      }
+
+      const category = await CategoryService.merge(req.user.userId, req.params.categoryId, req.body.targetId);
+
+      res.json({
+        message: `Merged into ${category.name}`,
+        category,
+      });
+    } catch (error) {
+      if (error instanceof CategoryError) {
+        res.status(error.status).json({ error: error.message });
+        return;
+      }
+      console.error('Merge category error:', error);
+      res.status(500).json({ error: 'Failed to merge category' });
+    }
+  }
+
+  /**
+   * Archive a category (and its subcategories)
+   * DELETE /api/categories/:categoryId
+   */
+  static async archiveCategory(req: Request, res: Response): Promise<void> {
+    try {
+      if (!req.user) {
+        res.status(401).json({ error: 'Not authenticated' });
+        return;
+      }
+
+      const category = await CategoryService.setArchived(req.user.userId, req.params.categoryId, true);
+
+      res.json({
+        message: 'Category archived',
+        category,
+      });
+    } catch (error) {
+      if (error instanceof CategoryError) {
+        res.status(error.status).json({ error: error.message });
+        return;
+      }
+      console.error('Archive category error:', error);
+      res.status(500).json({ error: 'Failed to archive category' });
+    }
+  }
+
+  /**
+   * Restore an archived category
+   * POST /api/categories/:categoryId/restore
+   */
+  static async restoreCategory(req: Request, res: Response): Promise<void> {
+    try {
+      if (!req.user) {
+        res.status(401).json({ error: 'Not authenticated' });
+        return;
+      }
+
+      const category = await CategoryService.setArchived(req.user.userId, req.params.categoryId, false);
+
+      res.json({
+        message: 'Category restored',
+        category,
+      });
+    } catch (error) {
+      if (error instanceof CategoryError) {
+        res.status(error.status).json({ error: error.message });
+        return;
+      }
+      console.error('Restore category error:', error);
+      res.status(500).json({ error: 'Failed to restore category' });
+    }
+  }
+}
@@ -0,0 +1,381 @@
+/**
+ * Import Controller
+ *
+ * The review step between processing a statement and importing it:
+ * the user sees the parsed rows with their proposed categories, duplicate
+ * flags and parse warnings, corrects or excludes rows, then commits the
+ * approved set into their transactions. A committed import (batch) can be
+ * reverted later, removing exactly the transactions it inserted.
+ */
+
+import { Request, Response } from 'express';
+import { query, withTransaction } from '../config/database';
+import { StagedTransactionModel } from '../models/StagedTransaction';
+import { ImportBatchModel } from '../models/ImportBatch';
+import { CategoryService } from '../services/categoryService';
+
+// Fields of a staged row the user can change before committing
+const EDITABLE_FIELDS = ['transaction_date', 'description', 'amount', 'category', 'subcategory', 'is_income', 'excluded'];
+
+/**
+ * Find a file that is waiting in review (scoped to the owner)
+ */
+async function findFileInReview(fileId: string, userId: string): Promise<any | null> {
+  const result = await query(
+    `SELECT * FROM uploaded_files
+     WHERE id = $1 AND user_id = $2 AND status = 'review' AND deleted_at IS NULL`,
+    [fileId, userId]
+  );
+
+  return result.rows[0] || null;
+}
+
+export class ImportController {
+  /**
+   * Get a processed file's staged rows for review
+   * GET /api/imports/:fileId
+   */
+  static async getStagedImport(req: Request, res: Response): Promise<void> {
+    try {
+      if (!req.user) {
+        res.status(401).json({ error: 'Not authenticated' });
+        return;
+      }
+
+      const { fileId } = req.params;
+
+      const file = await findFileInReview(fileId, req.user.userId);
+      if (!file) {
+        res.status(404).json({ error: 'No import waiting for review' });
+        return;
+      }
+
+      const transactions = await StagedTransactionModel.findByFile(fileId, req.user.userId);
+
+      // Another statement of the same account covering some of the same dates (found when processing)
+      const overlapResult = file.overlaps_file_id
+        ? await query(
+          'SELECT id, original_filename FROM uploaded_files WHERE id = $1 AND deleted_at IS NULL',
+          [file.overlaps_file_id]
+        )
+        : null;
+      const overlapping = overlapResult?.rows[0];
+
+      res.json({
+        file: {
+          id: file.id,
+          filename: file.original_filename,
+          status: file.status,
+          uploaded_at: file.uploaded_at,
+          processed_at: file.processed_at,
+        },
+        reconciliation: {
+          status: file.reconciliation_status,
+          openingBalance: file.opening_balance,
+          closingBalance: file.closing_balance,
+          difference: file.reconciliation_difference,
+          periodStart: file.period_start,
+          periodEnd: file.period_end,
+        },
+        rejectedRows: file.parse_warnings || [],
+        overlapsFile: overlapping ? { id: overlapping.id, filename: overlapping.original_filename } : null,
+        transactions,
+      });
+    } catch (error) {
+      console.error('Get staged import error:', error);
+      res.status(500).json({ error: 'Failed to retrieve import' });
+    }
+  }
+
+  /**
+   * Apply the user's edits and import the rows that aren't excluded
+   * POST /api/imports/:fileId/commit
+   * Body: { rows: [{ id, excluded?, transaction_date?, description?, amount?, category?, subcategory?, is_income? }] }
+   * Rows not listed are imported as staged. A subcategory must belong to
+   * the row's category; changing the category drops one that doesn't.
+   */
+  static async commitImport(req: Request, res: Response): Promise<void> {
+    try {
+      if (!req.user) {
+        res.status(401).json({ error: 'Not authenticated' });
+        return;
+      }
+
+      const { fileId } = req.params;
+      const userId = req.user.userId;
+      const edits: any[] = req.body?.rows || [];
+
+      const file = await findFileInReview(fileId, userId);
+      const batch = file && await ImportBatchModel.findLatestForFile(fileId, userId, 'staged');
+      if (!file || !batch) {
+        res.status(404).json({ error: 'No import waiting for review' });
+        return;
+      }
+
+      // Keep subcategories within the category's hierarchy
+      if (edits.some(edit => edit.category !== undefined || edit.subcategory)) {
+        const hierarchy = await CategoryService.getHierarchy(userId);
+        const stagedResult = await query(
+          'SELECT id, category, subcategory FROM staged_transactions WHERE file_id = $1 AND user_id = $2',
+          [fileId, userId]
+        );
+        const stagedRows = new Map(stagedResult.rows.map((row: any) => [row.id, row]));
+
+        for (const edit of edits) {
+          const staged = stagedRows.get(edit.id);
+          const category = edit.category !== undefined ? edit.category : staged?.category;
+
+          if (edit.subcategory) {
+            if (!category || !CategoryService.fitSubcategory(hierarchy, category, edit.subcategory)) {
+              res.status(400).json({ error: `"${edit.subcategory}" is not a subcategory of ${category || 'an uncategorized row'}` });
+              return;
+            }
+          } else if (edit.subcategory === undefined && edit.category !== undefined && staged?.subcategory) {
+            edit.subcategory = (category && CategoryService.fitSubcategory(hierarchy, category, staged.subcategory)) || null;
+          }
+        }
+      }
+
+      const result = await withTransaction(async (client) => {
+        // Lock the batch so two commits (or a commit and a discard) can't both go ahead
+        const locked = await client.query(
+          `SELECT id FROM import_batches WHERE id = $1 AND status = 'staged' FOR UPDATE`,
+          [batch.id]
+        );
+        if (locked.rows.length === 0) {
+          return null;
+        }
+
+        for (const edit of edits) {
+          const fields: string[] = [];
+          const values: any[] = [];
+
+          for (const field of EDITABLE_FIELDS) {
+            if (edit[field] !== undefined) {
+              values.push(field === 'description' ? String(edit[field]).substring(0, 500) : edit[field]);
+              fields.push(`${field} = $${values.length}`);
+            }
+          }
+
+          if (fields.length === 0) continue;
+
+          values.push(edit.id, fileId, userId);
+          await client.query(
+            `UPDATE staged_transactions SET ${fields.join(', ')}
+             WHERE id = $${values.length - 2} AND file_id = $${values.length - 1} AND user_id = $${values.length}`,
+            values
+          );
+        }
+
+        const inserted = await client.query(
+          `INSERT INTO transactions
+           (user_id, file_id, import_batch_id, transaction_date, description, amount, category, subcategory, is_income,
+            external_id, account_id, value_date, counterparty, currency, ocr_confidence,
+            tags, original_description, categorization_rule_id, merchant_id)
+           SELECT user_id, file_id, $3, transaction_date, description, amount, category, subcategory, is_income,
+                  external_id, account_id, value_date, counterparty, currency, ocr_confidence,
+                  tags, original_description, categorization_rule_id, merchant_id
+           FROM staged_transactions
+           WHERE file_id = $1 AND user_id = $2 AND excluded = false
+           ORDER BY row_index
+           RETURNING id`,
+          [fileId, userId, batch.id]
+        );
+
+        const removed = await client.query(
+          'DELETE FROM staged_transactions WHERE file_id = $1 AND user_id = $2',
+          [fileId, userId]
+        );
+
+        await client.query(
+          `UPDATE import_batches
+           SET status = 'committed', transaction_count = $2, committed_at = CURRENT_TIMESTAMP
+           WHERE id = $1`,
+          [batch.id, inserted.rows.length]
+        );
+
+        await client.query(
+          `UPDATE uploaded_files SET status = 'completed', parse_warnings = NULL WHERE id = $1`,
+          [fileId]
+        );
+
+        return { importedCount: inserted.rows.length, excludedCount: (removed.rowCount || 0) - inserted.rows.length };
+      });
+
+      if (!result) {
+        res.status(409).json({ error: 'This import has already been committed or discarded' });
+        return;
+      }
+
+      res.json({
+        message: `Imported ${result.importedCount} transaction(s).`,
+        batchId: batch.id,
+        transactionsCount: result.importedCount,
+        excludedCount: result.excludedCount,
+      });
+    } catch (error) {
+      console.error('Commit import error:', error);
+      res.status(500).json({ error: 'Failed to import transactions' });
+    }
+  }
+
+  /**
+   * Throw away a staged import; the file can be processed again
+   * DELETE /api/imports/:fileId
+   */
+  static async discardImport(req: Request, res: Response): Promise<void> {
+    try {
+      if (!req.user) {
+        res.status(401).json({ error: 'Not authenticated' });
+        return;
+      }
+
+      const { fileId } = req.params;
+
+      const file = await findFileInReview(fileId, req.user.userId);
+      if (!file) {
+        res.status(404).json({ error: 'No import waiting for review' });
+        return;
+      }
+
+      const userId = req.user.userId;
+      const discarded = await withTransaction(async (client) => {
+        // Waits for a commit already in progress, after which the batch is no longer staged
+        const batches = await client.query(
+          `UPDATE import_batches SET status = 'discarded'
+           WHERE file_id = $1 AND user_id = $2 AND status = 'staged'
+           RETURNING id`,
+          [fileId, userId]
+        );
+        if (batches.rows.length === 0) {
+          return false;
+        }
+
+        await StagedTransactionModel.deleteByFile(client, fileId, userId);
+        await client.query(
+          `UPDATE uploaded_files SET status = 'pending', parse_warnings = NULL, overlaps_file_id = NULL WHERE id = $1`,
+          [fileId]
+        );
+        return true;
+      });
+
+      if (!discarded) {
+        res.status(409).json({ error: 'This import has already been committed or discarded' });
+        return;
+      }
+
+      res.json({ message: 'Import discarded' });
+    } catch (error) {
+      console.error('Discard import error:', error);
+      res.status(500).json({ error: 'Failed to discard import' });
+    }
+  }
+
+  /**
+   * List a file's import batches, newest first
+   * GET /api/imports/:fileId/batches
+   */
+  static async getBatches(req: Request, res: Response): Promise<void> {
+    try {
+      if (!req.user) {
+        res.status(401).json({ error: 'Not authenticated' });
+        return;
+      }
+
+      const batches = await ImportBatchModel.findByFile(req.params.fileId, req.user.userId);
+      res.json({ batches });
+    } catch (error) {
+      console.error('Get import batches error:', error);
+      res.status(500).json({ error: 'Failed to retrieve import batches' });
+    }
+  }
+
+  /**
+   * Revert a committed import: delete exactly the transactions it inserted
+   * and put the file back to pending so it can be processed again (with a
+   * different profile or format if needed).
+   * POST /api/imports/batches/:batchId/revert
+   * Body: { confirm: true } to go ahead when some of the transactions were
+   * edited after the import; without it those edits are reported (409).
+   */
+  static async revertBatch(req: Request, res: Response): Promise<void> {
+    try {
+      if (!req.user) {
+        res.status(401).json({ error: 'Not authenticated' });
+        return;
+      }
+
+      const { batchId } = req.params;
+      const batch = await ImportBatchModel.findById(batchId, req.user.userId);
+
+      if (!batch) {
+        res.status(404).json({ error: 'Import batch not found' });
+        return;
+      }
+
+      if (batch.status !== 'committed') {
+        res.status(400).json({ error: `Only committed imports can be reverted (this one is ${batch.status})` });
+        return;
+      }
+
+      const editedTransactions = await ImportBatchModel.findEditedTransactions(batch.id);
+      if (editedTransactions.length > 0 && req.body?.confirm !== true) {
+        res.status(409).json({
+          error: `${editedTransactions.length} transaction(s) from this import were edited afterwards; their changes will be lost`,
+          editedTransactions,
+        });
+        return;
+      }
+
+      const removedCount = await withTransaction(async (client) => {
+        // Lock the batch so a second revert waits, then finds it already reverted
+        const locked = await client.query(
+          `SELECT id FROM import_batches WHERE id = $1 AND status = 'committed' FOR UPDATE`,
+          [batch.id]
+        );
+        if (locked.rows.length === 0) {
+          return null;
+        }
+
+        const removed = await client.query(
+          'DELETE FROM transactions WHERE import_batch_id = $1 AND user_id = $2',
+          [batch.id, batch.user_id]
+        );
+
+        await client.query(
+          `UPDATE import_batches SET status = 'reverted', reverted_at = CURRENT_TIMESTAMP WHERE id = $1`,
+          [batch.id]
+        );
+
+        // The statement's reconciliation described the reverted import. A file
+        // that has been processed again since (now in review) is left alone.
+        await client.query(
+          `UPDATE uploaded_files
+           SET status = 'pending', period_start = NULL, period_end = NULL,
+               opening_balance = NULL, closing_balance = NULL,
+               reconciliation_status = NULL, reconciliation_difference = NULL,
+               account_id = NULL, overlaps_file_id = NULL
+           WHERE id = $1 AND status = 'completed' AND deleted_at IS NULL`,
+          [batch.file_id]
+        );
+
+        return removed.rowCount || 0;
+      });
+
+      if (removedCount === null) {
+        res.status(409).json({ error: 'This import has already been reverted' });
+        return;
+      }
+
+      res.json({
+        message: `Import reverted. Removed ${removedCount} transaction(s).`,
+        removedCount,
+        editedCount: editedTransactions.length,
+        fileId: batch.file_id,
+      });
+    } catch (error) {
+      console.error('Revert import error:', error);
+      res.status(500).json({ error: 'Failed to revert import' });
+    }
+  }
+}
@@ -0,0 +1,203 @@
+/**
+ * Import Profile Controller
+ *
+ * Manages saved CSV column mappings ("import profiles") and the
+ * preview used by the mapping step before a file is processed.
+ */
+
+import { Request, Response } from 'express';
+import { query } from '../config/database';
+import { ImportProfileModel } from '../models/ImportProfile';
+import { FileProcessorService } from '../services/fileProcessorService';
+import { ImportProfileService, ImportProfileError } from '../services/importProfileService';
+import { ImportMapping } from '../types';
+
+/**
+ * Pull the mapping fields out of a request body
+ */
+function mappingFromBody(body: any): ImportMapping {
+  return {
+    date_column: body.date_column,
+    date_format: body.date_format || null,
+    description_columns: body.description_columns || [],
+    amount_column: body.amount_column || null,
+    debit_column: body.debit_column || null,
+    credit_column: body.credit_column || null,
+    sign_convention: body.sign_convention || 'negative_is_expense',
+    skip_rows: body.skip_rows ? parseInt(body.skip_rows) : 0,
+  };
+}
+
+export class ImportProfileController {
+  /**
+   * List the user's import profiles
+   * GET /api/import-profiles
+   */
+  static async getProfiles(req: Request, res: Response): Promise<void> {
+    try {
+      if (!req.user) {
+        res.status(401).json({ error: 'Not authenticated' });
+        return;
+      }
+
+      const profiles = await ImportProfileModel.findByUser(req.user.userId);
+      res.json({ profiles });
+    } catch (error) {
+      console.error('Get import profiles error:', error);
+      res.status(500).json({ error: 'Failed to retrieve import profiles' });
+    }
+  }
+
+  /**
+   * Create an import profile
+   * POST /api/import-profiles
+   */
+  static async createProfile(req: Request, res: Response): Promise<void> {
+    try {
+      if (!req.user) {
+        res.status(401).json({ error: 'Not authenticated' });
+        return;
+      }
+
+      const { name, headers } = req.body;
+      const profile = await ImportProfileService.create(req.user.userId, name, headers, mappingFromBody(req.body));
+
+      res.status(201).json({
+        message: 'Import profile saved',
+        profile,
+      });
+    } catch (error: any) {
+      if (error?.code === '23505') {
+        res.status(409).json({ error: 'An import profile with this name already exists' });
+        return;
+      }
+      console.error('Create import profile error:', error);
+      res.status(500).json({ error: 'Failed to save import profile' });
+    }
+  }
+
+  /**
+   * Update an import profile
+   * PUT /api/import-profiles/:profileId
+   */
+  static async updateProfile(req: Request, res: Response): Promise<void> {
+    try {
+      if (!req.user) {
+        res.status(401).json({ error: 'Not authenticated' });
+        return;
+      }
+
+      const { profileId } = req.params;
+      const profile = await ImportProfileService.update(profileId, req.user.userId, req.body);
+
+      if (!profile) {
+        res.status(404).json({ error: 'Import profile not found' });
+        return;
+      }
+
+      res.json({
+        message: 'Import profile updated',
+        profile,
+      });
+    } catch (error: any) {
+      if (error instanceof ImportProfileError) {
+        res.status(error.status).json({ error: error.message });
+        return;
+      }
+      if (error?.code === '23505') {
+        res.status(409).json({ error: 'An import profile with this name already exists' });
+        return;
+      }
+      console.error('Update import profile error:', error);
+      res.status(500).json({ error: 'Failed to update import profile' });
+    }
+  }
+
+  /**
+   * Delete an import profile
+   * DELETE /api/import-profiles/:profileId
+   */
+  static async deleteProfile(req: Request, res: Response): Promise<void> {
+    try {
+      if (!req.user) {
+        res.status(401).json({ error: 'Not authenticated' });
+        return;
+      }
+
+      const deleted = await ImportProfileModel.delete(req.params.profileId, req.user.userId);
+      if (!deleted) {
+        res.status(404).json({ error: 'Import profile not found' });
+        return;
+      }
+
+      res.json({ message: 'Import profile deleted' });
+    } catch (error) {
+      console.error('Delete import profile error:', error);
+      res.status(500).json({ error: 'Failed to delete import profile' });
+    }
+  }
+
+  /**
+   * Preview a CSV's columns for the mapping step, along with the
+   * saved profile that matches its header (if any) and a suggested mapping
+   * GET /api/import-profiles/preview/:fileId?skipRows=0
+   */
+  static async previewFile(req: Request, res: Response): Promise<void> {
+    try {
+      if (!req.user) {
+        res.status(401).json({ error: 'Not authenticated' });
+        return;
+      }
+
+      const { fileId } = req.params;
+      const skipRows = req.query.skipRows ? parseInt(req.query.skipRows as string) || 0 : 0;
+
+      const fileResult = await query(
+        'SELECT * FROM uploaded_files WHERE id = $1 AND user_id = $2 AND deleted_at IS NULL',
+        [fileId, req.user.userId]
+      );
+
+      if (fileResult.rows.length === 0) {
+        res.status(404).json({ error: 'File not found' });
+        return;
+      }
+
+      const file = fileResult.rows[0];
+
+      if (file.status === 'quarantined') {
+        res.status(422).json({ error: `File was quarantined: ${file.quarantine_reason}` });
+        return;
+      }
+
+      if (file.file_purged_at) {
+        res.status(410).json({ error: 'The original statement was deleted under your retention settings' });
+        return;
+      }
+
+      const format = await FileProcessorService.detectFormat(file.file_path, file.mime_type, file.original_filename);
+
+      // Only CSVs need a column mapping; other formats are self-describing
+      if (format !== 'csv') {
+        res.json({ format, requiresMapping: false });
+        return;
+      }
+
+      const [preview, matchedProfile] = await Promise.all([
+        FileProcessorService.previewCSV(file.file_path, skipRows),
+        ImportProfileService.findMatchForFile(req.user.userId, file.file_path),
+      ]);
+
+      res.json({
+        format,
+        requiresMapping: !matchedProfile,
+        headers: preview.headers,
+        sampleRows: preview.rows,
+        matchedProfile,
+        suggestedMapping: { ...FileProcessorService.guessMapping(preview.headers), skip_rows: skipRows },
+      });
+    } catch (error) {
+      console.error('Preview file error:', error);
+      res.status(500).json({ error: 'Failed to preview file' });
+    }
+  }
+}
@@ -0,0 +1,48 @@
+/**
+ * Job Controller
+ *
+ * Lets the client follow a background job (e.g. statement processing)
+ */
+
+import { Request, Response } from 'express';
+import { JobQueueService } from '../services/jobQueueService';
+
+export class JobController {
+  /**
+   * Get a job's state, and its result once it has finished
+   * GET /api/jobs/:jobId
+   */
+  static async getJob(req: Request, res: Response): Promise<void> {
+    try {
+      if (!req.user) {
+        res.status(401).json({ error: 'Not authenticated' });
+        return;
+      }
+
+      const job = await JobQueueService.findById(req.params.jobId, req.user.userId);
+
+      if (!job) {
+        res.status(404).json({ error: 'Job not found' });
+        return;
+      }
+
+      res.json({
+        job: {
+          id: job.id,
+          type: job.type,
+          status: job.status,
+          attempts: job.attempts,
+          maxAttempts: job.max_attempts,
+          nextAttemptAt: job.status === 'queued' && job.attempts > 0 ? job.run_at : null,
+          error: job.last_error || null,
+          result: job.result || null,
+          createdAt: job.created_at,
+          completedAt: job.completed_at || null,
+        },
+      });
+    } catch (error) {
+      console.error('Get job error:', error);
+      res.status(500).json({ error: 'Failed to retrieve job' });
+    }
+  }
+}
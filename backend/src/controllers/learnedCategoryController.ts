@@ -0,0 +1,76 @@
+/**
+ * Learned Category Controller
+ *
+ * Lets users see and forget the merchant -> category mappings learned
+ * from their corrections (see LearnedCategoryService).
+ */
+
+import { Request, Response } from 'express';
+import { LearnedCategoryModel } from '../models/LearnedCategory';
+
+export class LearnedCategoryController {
+  /**
+   * List learned mappings, most recently corrected first
+   * GET /api/learned-categories
+   */
+  static async getLearnedCategories(req: Request, res: Response): Promise<void> {
+    try {
+      if (!req.user) {
+        res.status(401).json({ error: 'Not authenticated' });
+        return;
+      }
+
+      const mappings = await LearnedCategoryModel.findByUser(req.user.userId);
+      res.json({ mappings });
+    } catch (error) {
+      console.error('Get learned categories error:', error);
+      res.status(500).json({ error: 'Failed to retrieve learned categories' });
+    }
+  }
+
+  /**
+   * Forget a mapping. Transactions already categorized keep their category.
+   * DELETE /api/learned-categories/:mappingId
+   */
+  static async forgetMapping(req: Request, res: Response): Promise<void> {
+    try {
+      if (!req.user) {
+        res.status(401).json({ error: 'Not authenticated' });
+        return;
+      }
+
+      const deleted = await LearnedCategoryModel.delete(req.params.mappingId, req.user.userId);
+      if (!deleted) {
+        res.status(404).json({ error: 'Learned category not found' });
+        return;
+      }
+
+      res.json({ message: 'Learned category forgotten' });
+    } catch (error) {
+      console.error('Forget learned category error:', error);
+      res.status(500).json({ error: 'Failed to forget learned category' });
+    }
+  }
+
+  /**
+   * Forget everything learned from the user's corrections
+   * DELETE /api/learned-categories
+   */
+  static async forgetAll(req: Request, res: Response): Promise<void> {
+    try {
+      if (!req.user) {
+        res.status(401).json({ error: 'Not authenticated' });
+        return;
+      }
+
+      const forgotten = await LearnedCategoryModel.deleteAllForUser(req.user.userId);
+      res.json({
+        message: `Forgot ${forgotten} learned categor${forgotten === 1 ? 'y' : 'ies'}`,
+        forgotten,
+      });
+    } catch (error) {
+      console.error('Forget learned categories error:', error);
+      res.status(500).json({ error: 'Failed to forget learned categories' });
+    }
+  }
+}
@@ -0,0 +1,61 @@
+/**
+ * Merchant Controller
+ *
+ * Lists the user's merchants (see MerchantNormalizationService) and lets
+ * them change a merchant's name, default category, logo and colour.
+ */
+
+import { Request, Response } from 'express';
+import { MerchantModel } from '../models/Merchant';
+
+export class MerchantController {
+  /**
+   * List merchants with their transaction count and total spend
+   * GET /api/merchants
+   */
+  static async getMerchants(req: Request, res: Response): Promise<void> {
+    try {
+      if (!req.user) {
+        res.status(401).json({ error: 'Not authenticated' });
+        return;
+      }
+
+      const merchants = await MerchantModel.findByUser(req.user.userId);
+      res.json({ merchants });
+    } catch (error) {
+      console.error('Get merchants error:', error);
+      res.status(500).json({ error: 'Failed to retrieve merchants' });
+    }
+  }
+
+  /**
+   * Update a merchant. A new default category applies to future imports.
+   * PUT /api/merchants/:merchantId
+   */
+  static async updateMerchant(req: Request, res: Response): Promise<void> {
+    try {
+      if (!req.user) {
+        res.status(401).json({ error: 'Not authenticated' });
+        return;
+      }
+
+      const { name, default_category, logo_url, color } = req.body;
+      const merchant = await MerchantModel.update(req.params.merchantId, req.user.userId, {
+        name, default_category, logo_url, color,
+      });
+
+      if (!merchant) {
+        res.status(404).json({ error: 'Merchant not found' });
+        return;
+      }
+
+      res.json({
+        message: 'Merchant updated',
+        merchant,
+      });
+    } catch (error) {
+      console.error('Update merchant error:', error);
+      res.status(500).json({ error: 'Failed to update merchant' });
+    }
+  }
+}
@@ -0,0 +1,181 @@
+/**
+ * Rule Controller
+ *
+ * Manages the user's categorization rules and applies them to
+ * transactions already imported. New imports run the rules automatically.
+ */
+
+import { Request, Response } from 'express';
+import { CategorizationRuleModel, RuleInput } from '../models/CategorizationRule';
+import { RulesEngineService, RuleError } from '../services/rulesEngineService';
+
+/**
+ * Pull the rule fields out of a request body
+ */
+function ruleFromBody(body: any): RuleInput {
+  const {
+    name, priority, enabled,
+    description_contains, description_regex, merchant_equals,
+    amount_min, amount_max, account_id, direction,
+    set_category, set_subcategory, add_tags, set_description,
+  } = body;
+
+  return {
+    name, priority, enabled,
+    description_contains, description_regex, merchant_equals,
+    amount_min, amount_max, account_id, direction,
+    set_category, set_subcategory, add_tags, set_description,
+  };
+}
+
+export class RuleController {
+  /**
+   * List the user's rules in the order they run
+   * GET /api/rules
+   */
+  static async getRules(req: Request, res: Response): Promise<void> {
+    try {
+      if (!req.user) {
+        res.status(401).json({ error: 'Not authenticated' });
+        return;
+      }
+
+      const rules = await CategorizationRuleModel.findByUser(req.user.userId);
+      res.json({ rules });
+    } catch (error) {
+      console.error('Get rules error:', error);
+      res.status(500).json({ error: 'Failed to retrieve rules' });
+    }
+  }
+
+  /**
+   * Create a rule (it runs after the existing ones unless given a priority)
+   * POST /api/rules
+   */
+  static async createRule(req: Request, res: Response): Promise<void> {
+    try {
+      if (!req.user) {
+        res.status(401).json({ error: 'Not authenticated' });
+        return;
+      }
+
+      const rule = await CategorizationRuleModel.create(req.user.userId, ruleFromBody(req.body));
+
+      res.status(201).json({
+        message: 'Rule saved',
+        rule,
+      });
+    } catch (error) {
+      console.error('Create rule error:', error);
+      res.status(500).json({ error: 'Failed to save rule' });
+    }
+  }
+
+  /**
+   * Update a rule
+   * PUT /api/rules/:ruleId
+   */
+  static async updateRule(req: Request, res: Response): Promise<void> {
+    try {
+      if (!req.user) {
+        res.status(401).json({ error: 'Not authenticated' });
+        return;
+      }
+
+      const rule = await RulesEngineService.updateRule(req.params.ruleId, req.user.userId, ruleFromBody(req.body));
+
+      if (!rule) {
+        res.status(404).json({ error: 'Rule not found' });
+        return;
+      }
+
+      res.json({
+        message: 'Rule updated',
+        rule,
+      });
+    } catch (error) {
+      if (error instanceof RuleError) {
+        res.status(error.status).json({ error: error.message });
+        return;
+      }
+      console.error('Update rule error:', error);
+      res.status(500).json({ error: 'Failed to update rule' });
+    }
+  }
+
+  /**
+   * Set the order rules run in
+   * PUT /api/rules/order
+   * Body: { ruleIds } (first runs first)
+   */
+  static async reorderRules(req: Request, res: Response): Promise<void> {
+    try {
+      if (!req.user) {
+        res.status(401).json({ error: 'Not authenticated' });
+        return;
+      }
+
+      const rules = await CategorizationRuleModel.reorder(req.user.userId, req.body.ruleIds);
+      res.json({ rules });
+    } catch (error) {
+      console.error('Reorder rules error:', error);
+      res.status(500).json({ error: 'Failed to reorder rules' });
+    }
+  }
+
+  /**
+   * Delete a rule. Transactions it categorized keep their category.
+   * DELETE /api/rules/:ruleId
+   */
+  static async deleteRule(req: Request, res: Response): Promise<void> {
+    try {
+      if (!req.user) {
+        res.status(401).json({ error: 'Not authenticated' });
+        return;
+      }
+
+      const deleted = await CategorizationRuleModel.delete(req.params.ruleId, req.user.userId);
+      if (!deleted) {
+        res.status(404).json({ error: 'Rule not found' });
+        return;
+      }
+
+      res.json({ message: 'Rule deleted' });
+    } catch (error) {
+      console.error('Delete rule error:', error);
+      res.status(500).json({ error: 'Failed to delete rule' });
+    }
+  }
+
+  /**
+   * Apply rules to the transactions already imported
+   * POST /api/rules/apply
+   * Body: { ruleIds?, dryRun? } (all enabled rules by default; dryRun only
+   * reports what would change)
+   */
+  static async applyRules(req: Request, res: Response): Promise<void> {
+    try {
+      if (!req.user) {
+        res.status(401).json({ error: 'Not authenticated' });
+        return;
+      }
+
+      const dryRun = req.body.dryRun === true;
+      const result = await RulesEngineService.applyToExisting(req.user.userId, {
+        ruleIds: req.body.ruleIds,
+        dryRun,
+      });
+
+      res.json({
+        message: dryRun
+          ? `${result.updated} of ${result.matched} matching transaction(s) would change.`
+          : `Updated ${result.updated} of ${result.matched} matching transaction(s).`,
+        dryRun,
+        ...result,
+      });
+    } catch (error) {
+      console.error('Apply rules error:', error);
+      res.status(500).json({ error: 'Failed to apply rules' });
+    }
+  }
+}
@@ -0,0 +1,47 @@
+/**
+ * Storage Controller
+ *
+ * Serves presigned URLs from the local storage driver, standing in for
+ * S3's own presigned URLs in development. Files are served exactly as
+ * stored (still encrypted).
+ */
+
+import { Request, Response } from 'express';
+import { LocalStorageDriver, StorageService, StorageNotFoundError } from '../services/storageService';
+
+export class StorageController {
+  /**
+   * Download a file with a presigned URL
+   * GET /api/storage/<key>?expires=...&signature=...
+   */
+  static async getSignedFile(req: Request, res: Response): Promise<void> {
+    try {
+      const driver = StorageService.getDriver();
+      if (!(driver instanceof LocalStorageDriver)) {
+        res.status(404).json({ error: 'Route not found' });
+        return;
+      }
+
+      const key = req.params[0];
+      const expires = parseInt(String(req.query.expires));
+      const signature = String(req.query.signature || '');
+
+      if (!driver.verifyPresigned(key, expires, signature)) {
+        res.status(403).json({ error: 'Link is invalid or has expired' });
+        return;
+      }
+
+      const stream = await driver.stream(key);
+      res.setHeader('Content-Type', 'application/octet-stream');
+      stream.on('error', () => res.destroy());
+      stream.pipe(res);
+    } catch (error) {
+      if (error instanceof StorageNotFoundError) {
+        res.status(404).json({ error: 'File not found' });
+        return;
+      }
+      console.error('Signed download error:', error);
+      res.status(500).json({ error: 'Failed to download file' });
+    }
+  }
+}
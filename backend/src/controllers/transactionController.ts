@@ -5,15 +5,29 @@
  */
 
 import { Request, Response } from 'express';
-import { query } from '../config/database';
-import { FileProcessorService } from '../services/fileProcessorService';
-import { AICategorizationService } from '../services/aiCategorizationService';
+import { query, withTransaction } from '../config/database';
+import { STATEMENT_FORMATS } from '../services/fileProcessorService';
 import { BudgetRecommendationService } from '../services/budgetRecommendationService';
+import { StatementImportService, StatementImportRequest } from '../services/statementImportService';
+import { QIFParser } from '../services/parsers/qifParser';
+import { ImportProfileModel } from '../models/ImportProfile';
+import { LearnedCategoryService } from '../services/learnedCategoryService';
+import { CategoryService } from '../services/categoryService';
 
 export class TransactionController {
   /**
-   * Process uploaded file and extract transactions
+   * Queue an uploaded file for processing; a worker stages its transactions
+   * for review (see StatementImportService and ImportController).
+   * Poll GET /api/jobs/:jobId for the outcome, or follow
+   * GET /api/upload/:fileId/progress for live progress.
    * POST /api/transactions/process/:fileId
+   * Body (optional, CSV only): { profileId } to apply a saved import profile,
+   * or { mapping } for a one-off column mapping. Without either, a profile
+   * matching the file's header row is used automatically.
+   * { signConvention } overrides how single signed amount columns are read
+   * (defaults to the choice made at upload).
+   * { format } reads the file with a specific parser (e.g. 'mt940' for a .txt
+   * export) instead of detecting it, useful when re-running a reverted import.
    */
   static async processFile(req: Request, res: Response): Promise<void> {
     try {
@@ -26,7 +40,7 @@ export class TransactionController {
 
       // Get file info
       const fileResult = await query(
-        'SELECT * FROM uploaded_files WHERE id = $1 AND user_id = $2',
+        'SELECT * FROM uploaded_files WHERE id = $1 AND user_id = $2 AND deleted_at IS NULL',
         [fileId, req.user.userId]
       );
 
@@ -37,116 +51,68 @@ export class TransactionController {
 
       const file = fileResult.rows[0];
 
-      // Update status to processing
-      await query(
-        'UPDATE uploaded_files SET status = $1 WHERE id = $2',
-        ['processing', fileId]
-      );
+      if (file.status === 'quarantined') {
+        res.status(422).json({ error: `File was quarantined: ${file.quarantine_reason}` });
+        return;
+      }
 
-      try {
-        // Extract transactions from file
-        const extractedTransactions = await FileProcessorService.processFile(
-          file.file_path,
-          file.mime_type
-        );
-
-        if (extractedTransactions.length === 0) {
-          await query(
-            'UPDATE uploaded_files SET status = $1 WHERE id = $2',
-            ['error', fileId]
-          );
-          res.status(400).json({ error: 'No transactions found in file' });
-          return;
-        }
+      if (file.file_purged_at) {
+        res.status(410).json({ error: 'The original statement was deleted under your retention settings' });
+        return;
+      }
 
-        // Categorize transactions using AI
-        const categorized = await AICategorizationService.categorizeTransactions(
-          extractedTransactions.map(t => ({
-            description: t.description,
-            amount: t.amount,
-            isIncome: t.isIncome,
-          }))
-        );
-
-        // Save transactions to database (with duplicate detection)
-        let savedCount = 0;
-        let duplicateCount = 0;
-
-        for (let i = 0; i < extractedTransactions.length; i++) {
-          const transaction = extractedTransactions[i];
-          const category = categorized[i];
-
-          // Truncate description to fit database constraint (500 chars)
-          const description = transaction.description.length > 500
-            ? transaction.description.substring(0, 497) + '...'
-            : transaction.description;
-
-          // Check for duplicate: same user, date, description, and amount
-          const duplicateCheck = await query(
-            `SELECT id FROM transactions
-             WHERE user_id = $1
-             AND transaction_date = $2
-             AND description = $3
-             AND amount = $4`,
-            [req.user.userId, transaction.date, description, transaction.amount]
-          );
+      if (['queued', 'processing'].includes(file.status)) {
+        res.status(409).json({ error: 'File is already being processed', jobId: file.processing_job_id });
+        return;
+      }
 
-          if (duplicateCheck.rows.length > 0) {
-            duplicateCount++;
-            continue; // Skip duplicate
-          }
+      const { profileId, mapping, signConvention, format } = req.body || {};
 
-          await query(
-            `INSERT INTO transactions
-             (user_id, file_id, transaction_date, description, amount, category, subcategory, is_income)
-             VALUES ($1, $2, $3, $4, $5, $6, $7, $8)`,
-            [
-              req.user.userId,
-              fileId,
-              transaction.date,
-              description,
-              transaction.amount,
-              category.category,
-              category.subcategory || null,
-              transaction.isIncome,
-            ]
-          );
-          savedCount++;
-        }
+      if (format && !STATEMENT_FORMATS.includes(format)) {
+        res.status(400).json({ error: 'Unsupported file format' });
+        return;
+      }
 
-        // Update file status to completed
-        await query(
-          'UPDATE uploaded_files SET status = $1, processed_at = CURRENT_TIMESTAMP WHERE id = $2',
-          ['completed', fileId]
-        );
+      if (signConvention && !['negative_is_expense', 'positive_is_expense'].includes(signConvention)) {
+        res.status(400).json({ error: 'Invalid sign convention' });
+        return;
+      }
 
-        let message = `File processed successfully. Saved ${savedCount} transactions.`;
-        if (duplicateCount > 0) {
-          message += ` Skipped ${duplicateCount} duplicate(s).`;
-        }
+      if (mapping && (!mapping.date_column || !Array.isArray(mapping.description_columns))) {
+        res.status(400).json({ error: 'Invalid column mapping' });
+        return;
+      }
 
-        res.json({
-          message,
-          transactionsCount: savedCount,
-          duplicatesSkipped: duplicateCount,
-        });
-      } catch (error: any) {
-        console.error('Processing error:', error);
-        await query(
-          'UPDATE uploaded_files SET status = $1 WHERE id = $2',
-          ['error', fileId]
-        );
-        res.status(500).json({ error: 'Failed to process file: ' + error.message });
+      if (profileId && !await ImportProfileModel.findById(profileId, req.user.userId)) {
+        res.status(404).json({ error: 'Import profile not found' });
+        return;
       }
+
+      const request: StatementImportRequest = {
+        userId: req.user.userId,
+        fileId,
+        profileId,
+        mapping,
+        signConvention,
+        format,
+        locale: req.headers['accept-language'],
+      };
+      const job = await StatementImportService.enqueue(request);
+
+      res.status(202).json({
+        message: 'File queued for processing',
+        fileId,
+        jobId: job.id,
+      });
     } catch (error) {
       console.error('Process file error:', error);
-      res.status(500).json({ error: 'Failed to process file' });
+      res.status(500).json({ error: 'Failed to queue file for processing' });
     }
   }
 
   /**
-   * Get user's transactions
-   * GET /api/transactions
+   * Get user's transactions, with their merchant's name and colour
+   * GET /api/transactions?month=&year=&category=&merchantId=
    */
   static async getTransactions(req: Request, res: Response): Promise<void> {
     try {
@@ -155,22 +121,30 @@ export class TransactionController {
         return;
       }
 
-      const { month, year, category } = req.query;
+      const { month, year, category, merchantId } = req.query;
 
-      let queryStr = 'SELECT * FROM transactions WHERE user_id = $1';
+      let queryStr = `SELECT t.*, m.name AS merchant_name, m.color AS merchant_color, m.logo_url AS merchant_logo_url
+                      FROM transactions t
+                      LEFT JOIN merchants m ON m.id = t.merchant_id
+                      WHERE t.user_id = $1`;
       const params: any[] = [req.user.userId];
 
       if (month && year) {
-        queryStr += ' AND EXTRACT(MONTH FROM transaction_date) = $2 AND EXTRACT(YEAR FROM transaction_date) = $3';
+        queryStr += ' AND EXTRACT(MONTH FROM t.transaction_date) = $2 AND EXTRACT(YEAR FROM t.transaction_date) = $3';
         params.push(parseInt(month as string), parseInt(year as string));
       }
 
       if (category) {
-        queryStr += ` AND category = $${params.length + 1}`;
+        queryStr += ` AND t.category = $${params.length + 1}`;
         params.push(category);
       }
 
-      queryStr += ' ORDER BY transaction_date DESC';
+      if (merchantId) {
+        queryStr += ` AND t.merchant_id = $${params.length + 1}`;
+        params.push(merchantId);
+      }
+
+      queryStr += ' ORDER BY t.transaction_date DESC';
 
       const result = await query(queryStr, params);
 
@@ -250,13 +224,29 @@ export class TransactionController {
 
       // Get top expenses
       const topExpenses = await query(
-        `SELECT description, amount, category, transaction_date
-         FROM transactions
-         WHERE user_id = $1
-         AND EXTRACT(MONTH FROM transaction_date) = $2
-         AND EXTRACT(YEAR FROM transaction_date) = $3
-         AND is_income = false
-         ORDER BY amount DESC
+        `SELECT t.description, t.amount, t.category, t.transaction_date, m.name AS merchant_name
+         FROM transactions t
+         LEFT JOIN merchants m ON m.id = t.merchant_id
+         WHERE t.user_id = $1
+         AND EXTRACT(MONTH FROM t.transaction_date) = $2
+         AND EXTRACT(YEAR FROM t.transaction_date) = $3
+         AND t.is_income = false
+         ORDER BY t.amount DESC
+         LIMIT 10`,
+        [req.user.userId, parseInt(month), parseInt(year)]
+      );
+
+      // Get spending by merchant
+      const merchantResult = await query(
+        `SELECT m.id, m.name, m.color, m.logo_url, SUM(t.amount) as total, COUNT(*) as count
+         FROM transactions t
+         JOIN merchants m ON m.id = t.merchant_id
+         WHERE t.user_id = $1
+         AND EXTRACT(MONTH FROM t.transaction_date) = $2
+         AND EXTRACT(YEAR FROM t.transaction_date) = $3
+         AND t.is_income = false
+         GROUP BY m.id
+         ORDER BY total DESC
          LIMIT 10`,
         [req.user.userId, parseInt(month), parseInt(year)]
       );
@@ -265,6 +255,7 @@ export class TransactionController {
         categoryBreakdown: categoryResult.rows,
         dailyTrend: trendResult.rows,
         topExpenses: topExpenses.rows,
+        merchantBreakdown: merchantResult.rows,
       });
     } catch (error) {
       console.error('Get analytics error:', error);
@@ -275,6 +266,11 @@ export class TransactionController {
   /**
    * Update a transaction (for manual category corrections)
    * PUT /api/transactions/:transactionId
+   * A change to one of the user's categories is remembered for the merchant and
+   * used on later imports. Body { applyToSimilar: true } also recategorizes the
+   * user's other transactions from the same merchant.
+   * A subcategory must belong to the category; changing the category
+   * drops a subcategory that doesn't belong to the new one.
    */
   static async updateTransaction(req: Request, res: Response): Promise<void> {
     try {
@@ -284,11 +280,12 @@ export class TransactionController {
       }
 
       const { transactionId } = req.params;
-      const { category, subcategory, description } = req.body;
+      const { category, subcategory, description, applyToSimilar } = req.body;
 
       // Verify transaction belongs to user
       const checkResult = await query(
-        'SELECT id FROM transactions WHERE id = $1 AND user_id = $2',
+        `SELECT id, category, subcategory, COALESCE(original_description, description) AS bank_description, counterparty
+         FROM transactions WHERE id = $1 AND user_id = $2`,
         [transactionId, req.user.userId]
       );
 
@@ -297,6 +294,24 @@ export class TransactionController {
         return;
       }
 
+      // Keep the subcategory within the category's hierarchy
+      const previous = checkResult.rows[0];
+      const newCategory = category !== undefined ? category : previous.category;
+      let newSubcategory = subcategory;
+
+      if (subcategory) {
+        const problem = newCategory
+          ? await CategoryService.checkAssignment(req.user.userId, newCategory, subcategory)
+          : 'Choose a category before a subcategory';
+        if (problem) {
+          res.status(400).json({ error: problem });
+          return;
+        }
+      } else if (subcategory === undefined && category !== undefined && category !== previous.category && previous.subcategory) {
+        const hierarchy = await CategoryService.getHierarchy(req.user.userId);
+        newSubcategory = (category && CategoryService.fitSubcategory(hierarchy, category, previous.subcategory)) || null;
+      }
+
       // Build update query dynamically
       const updates: string[] = [];
       const values: any[] = [];
@@ -308,9 +323,9 @@ export class TransactionController {
         paramCount++;
       }
 
-      if (subcategory !== undefined) {
+      if (newSubcategory !== undefined) {
         updates.push(`subcategory = $${paramCount}`);
-        values.push(subcategory);
+        values.push(newSubcategory || null);
         paramCount++;
       }
 
@@ -330,11 +345,44 @@ export class TransactionController {
       values.push(transactionId);
       const updateQuery = `UPDATE transactions SET ${updates.join(', ')} WHERE id = $${paramCount} RETURNING *`;
 
-      const result = await query(updateQuery, values);
+      // Learn from the correction, so the next import gets this merchant right.
+      // Only categories the user has are learned, under their own spelling.
+      const userId = req.user.userId;
+      const learnCategory = category !== undefined && (category !== previous.category || applyToSimilar === true)
+        ? (await CategoryService.getHierarchy(userId)).get(category.toLowerCase())?.name
+        : undefined;
+
+      const { updated, learned, similarUpdated } = await withTransaction(async (client) => {
+        const result = await client.query(updateQuery, values);
+        const updated = result.rows[0];
+
+        let learned = null;
+        let similarUpdated = 0;
+
+        if (learnCategory) {
+          learned = await LearnedCategoryService.learnFromCorrection(
+            client,
+            userId,
+            { description: previous.bank_description, counterparty: previous.counterparty },
+            learnCategory,
+            updated.subcategory
+          );
+
+          if (learned && applyToSimilar === true) {
+            similarUpdated = await LearnedCategoryService.applyToSimilar(client, userId, learned);
+          }
+        }
+
+        return { updated, learned, similarUpdated };
+      });
 
       res.json({
-        message: 'Transaction updated',
-        transaction: result.rows[0],
+        message: similarUpdated > 0
+          ? `Transaction updated, along with ${similarUpdated} similar transaction(s)`
+          : 'Transaction updated',
+        transaction: updated,
+        learned,
+        similarUpdated,
       });
     } catch (error) {
       console.error('Update transaction error:', error);
@@ -373,8 +421,8 @@ export class TransactionController {
   }
 
   /**
-   * Export transactions as CSV
-   * GET /api/transactions/export
+   * Export transactions as CSV (default) or QIF
+   * GET /api/transactions/export?format=csv|qif
    */
   static async exportTransactions(req: Request, res: Response): Promise<void> {
     try {
@@ -384,6 +432,7 @@ export class TransactionController {
       }
 
       const { month, year } = req.query;
+      const format = req.query.format === 'qif' ? 'qif' : 'csv';
 
       let queryStr = `
         SELECT
@@ -392,6 +441,7 @@ export class TransactionController {
           amount,
           category,
           subcategory,
+          is_income,
           CASE WHEN is_income THEN 'Income' ELSE 'Expense' END as type
         FROM transactions
         WHERE user_id = $1
@@ -407,6 +457,16 @@ export class TransactionController {
 
       const result = await query(queryStr, params);
 
+      if (format === 'qif') {
+        // Quicken expects oldest first
+        const qif = QIFParser.serialize([...result.rows].reverse());
+
+        res.setHeader('Content-Type', 'application/qif');
+        res.setHeader('Content-Disposition', `attachment; filename=transactions-${month || 'all'}-${year || 'all'}.qif`);
+        res.send(qif);
+        return;
+      }
+
       // Build CSV
       const headers = ['Date', 'Description', 'Amount', 'Category', 'Subcategory', 'Type'];
       const csvRows = [headers.join(',')];
@@ -435,13 +495,26 @@ export class TransactionController {
   }
 
   /**
-   * Get available categories
+   * Get the categories a transaction can be given: the defaults and the
+   * user's own, each with its subcategory names (manage them at /api/categories)
    * GET /api/transactions/categories
    */
   static async getCategories(req: Request, res: Response): Promise<void> {
     try {
-      const result = await query('SELECT name, icon, color FROM categories WHERE is_default = true ORDER BY name');
-      res.json({ categories: result.rows });
+      if (!req.user) {
+        res.status(401).json({ error: 'Not authenticated' });
+        return;
+      }
+
+      const tree = await CategoryService.getTree(req.user.userId);
+      const categories = tree.map(node => ({
+        name: node.name,
+        icon: node.icon,
+        color: node.color,
+        subcategories: node.subcategories.map(sub => sub.name),
+      }));
+
+      res.json({ categories });
     } catch (error) {
       console.error('Get categories error:', error);
       res.status(500).json({ error: 'Failed to get categories' });
@@ -0,0 +1,72 @@
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { Request, Response } from 'express';
+import { UploadController } from './uploadController';
+import { query } from '../config/database';
+import { UserModel } from '../models/User';
+import { EncryptionService } from '../services/encryptionService';
+import { VirusScanService } from '../services/virusScanService';
+
+jest.mock('../config/database', () => ({ query: jest.fn(), withTransaction: jest.fn() }));
+jest.mock('../models/User');
+jest.mock('../services/encryptionService');
+jest.mock('../services/virusScanService');
+
+const response = () => {
+  const res = { status: jest.fn(), json: jest.fn() };
+  res.status.mockReturnValue(res);
+  return res;
+};
+
+describe('UploadController.uploadFile', () => {
+  let root: string;
+
+  const upload = (originalname: string, contents: string): Express.Multer.File => {
+    const file = path.join(root, 'incoming');
+    fs.writeFileSync(file, contents);
+    return { originalname, path: file, size: contents.length, mimetype: 'application/pdf' } as Express.Multer.File;
+  };
+
+  beforeEach(() => {
+    jest.resetAllMocks();
+    root = fs.mkdtempSync(path.join(os.tmpdir(), 'upload-test-'));
+    jest.spyOn(console, 'warn').mockImplementation(() => undefined);
+    (UserModel.findById as jest.Mock).mockResolvedValue({ auto_process_uploads: false });
+    (VirusScanService.scan as jest.Mock).mockResolvedValue({ clean: true });
+    (EncryptionService.storeFile as jest.Mock).mockResolvedValue('key-1');
+    (query as jest.Mock).mockResolvedValue({ rows: [{ id: 'file-1', original_filename: 'statement.pdf' }] });
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+    fs.rmSync(root, { recursive: true, force: true });
+  });
+
+  it('quarantines files whose contents don\'t match their extension', async () => {
+    const file = upload('statement.pdf', 'Date,Amount\n2025-01-05,-42.50\n');
+    const res = response();
+
+    await UploadController.uploadFile({ user: { userId: 'user-1' }, file, body: {}, headers: {} } as unknown as Request, res as unknown as Response);
+
+    const reason = 'File contents (TEXT) don\'t match its .pdf extension';
+    expect(res.status).toHaveBeenCalledWith(422);
+    expect(res.json).toHaveBeenCalledWith({
+      error: `File rejected: ${reason}`,
+      quarantined: [{ id: 'file-1', filename: 'statement.pdf', reason }],
+      skipped: [],
+    });
+
+    const [, storedFrom, storageKey] = (EncryptionService.storeFile as jest.Mock).mock.calls[0];
+    expect(storedFrom).toBe(file.path);
+    expect(storageKey).toMatch(/^quarantine\//);
+
+    const [sql, params] = (query as jest.Mock).mock.calls[0];
+    expect(sql).toContain("'quarantined'");
+    expect(params).toEqual(['user-1', 'statement.pdf', storageKey, file.size, 'application/pdf', null, reason, 'key-1']);
+
+    // Rejected files are never scanned or processed, and the plaintext copy is gone
+    expect(VirusScanService.scan).not.toHaveBeenCalled();
+    expect(fs.existsSync(file.path)).toBe(false);
+  });
+});
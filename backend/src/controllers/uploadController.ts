@@ -1,48 +1,105 @@
 /**
  * File Upload Controller
  *
- * Handles bank statement uploads.
- * In production, files go to AWS S3. For now, they go to local storage.
+ * Handles bank statement uploads, including several files or ZIP archives
+ * of statements at once.
+ * Files are kept through StorageService (local disk, or S3 in production),
+ * encrypted with the owner's data key and named by a random ID; only the
+ * database knows whose they are and what they're called.
  */
 
 import { Request, Response } from 'express';
 import { query } from '../config/database';
+import { UserModel } from '../models/User';
+import { FileProcessorService } from '../services/fileProcessorService';
+import { ArchiveService, SkippedEntry } from '../services/archiveService';
+import { DuplicateFileService, MatchingFile } from '../services/duplicateFileService';
+import { FileValidationService } from '../services/fileValidationService';
+import { VirusScanService } from '../services/virusScanService';
+import { EncryptionService } from '../services/encryptionService';
+import { StorageService } from '../services/storageService';
+import { StatementImportService } from '../services/statementImportService';
+import { ImportProfileService } from '../services/importProfileService';
+import { ProcessingProgressService, FINAL_STAGES } from '../services/processingProgressService';
+import { ProcessingProgress, SignConvention } from '../types';
 import multer from 'multer';
+import crypto from 'crypto';
+import os from 'os';
 import path from 'path';
 import fs from 'fs';
 
-// Create uploads directory if it doesn't exist
-const uploadsDir = path.join(__dirname, '../../uploads');
-if (!fs.existsSync(uploadsDir)) {
-  fs.mkdirSync(uploadsDir, { recursive: true });
+// Plaintext uploads wait here only until they are checked, encrypted and stored
+const incomingDir = path.join(os.tmpdir(), 'statement-uploads');
+if (!fs.existsSync(incomingDir)) {
+  fs.mkdirSync(incomingDir, { recursive: true });
 }
 
+// Storage folders; rejected uploads are kept apart from everything that may be processed
+const STATEMENTS_FOLDER = 'statements';
+const QUARANTINE_FOLDER = 'quarantine';
+
+// Random names, so even temporary files don't reveal their original name
+const opaqueFilename = () => crypto.randomUUID();
+
 /**
  * Configure Multer for file uploads
  * Multer is middleware that handles multipart/form-data (file uploads)
  */
 const storage = multer.diskStorage({
   destination: (req, file, cb) => {
-    cb(null, uploadsDir);
+    cb(null, incomingDir);
   },
   filename: (req, file, cb) => {
-    // Create unique filename: userid_timestamp_originalname
-    const uniqueName = `${req.user?.userId}_${Date.now()}_${file.originalname}`;
-    cb(null, uniqueName);
+    cb(null, opaqueFilename());
   },
 });
 
-// File filter: Only allow PDFs and CSVs
-const fileFilter = (req: any, file: Express.Multer.File, cb: multer.FileFilterCallback) => {
-  const allowedTypes = ['application/pdf', 'text/csv', 'application/vnd.ms-excel'];
-  const allowedExtensions = ['.pdf', '.csv'];
+// Bank statement formats we can process
+const STATEMENT_MIME_TYPES = [
+  'application/pdf', 'text/csv', 'application/vnd.ms-excel',
+  'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet',
+  'application/x-ofx', 'application/ofx', 'application/vnd.intu.qfx', 'application/x-qfx',
+  'application/qif', 'application/x-qif',
+  'application/xml', 'text/xml',
+  'image/png', 'image/jpeg',
+];
+const STATEMENT_EXTENSIONS = [
+  '.pdf', '.csv', '.xlsx', '.xls', '.ofx', '.qfx', '.qif',
+  '.xml', '.sta', '.mt940', '.940', '.txt',
+  '.png', '.jpg', '.jpeg',
+];
+
+// Mime types for statements unpacked from a ZIP (which doesn't record them)
+const MIME_TYPES_BY_EXTENSION: Record<string, string> = {
+  '.pdf': 'application/pdf',
+  '.csv': 'text/csv',
+  '.xlsx': 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet',
+  '.xls': 'application/vnd.ms-excel',
+  '.ofx': 'application/x-ofx',
+  '.qfx': 'application/vnd.intu.qfx',
+  '.qif': 'application/qif',
+  '.xml': 'application/xml',
+  '.png': 'image/png',
+  '.jpg': 'image/jpeg',
+  '.jpeg': 'image/jpeg',
+};
+
+// Files (statements or ZIP archives) accepted in one upload request
+export const MAX_FILES_PER_UPLOAD = 24;
 
-  const ext = path.extname(file.originalname).toLowerCase();
+const isStatementFile = (filename: string) =>
+  STATEMENT_EXTENSIONS.includes(path.extname(filename).toLowerCase());
 
-  if (allowedTypes.includes(file.mimetype) || allowedExtensions.includes(ext)) {
+// File filter: Only allow bank statement formats we can process, and ZIP archives of them
+const fileFilter = (req: any, file: Express.Multer.File, cb: multer.FileFilterCallback) => {
+  if (
+    STATEMENT_MIME_TYPES.includes(file.mimetype) ||
+    isStatementFile(file.originalname) ||
+    ArchiveService.isZip(file.originalname, file.mimetype)
+  ) {
     cb(null, true);
   } else {
-    cb(new Error('Only PDF and CSV files are allowed'));
+    cb(new Error('Only PDF, CSV, Excel, OFX/QFX, QIF, CAMT.053, MT940, PNG/JPEG image and ZIP files are allowed'));
   }
 };
 
@@ -52,60 +109,305 @@ export const upload = multer({
   fileFilter: fileFilter,
   limits: {
     fileSize: 10 * 1024 * 1024, // 10MB max file size
+    files: MAX_FILES_PER_UPLOAD,
   },
 });
 
+// A statement to record, either uploaded directly or unpacked from a ZIP
+interface IncomingStatement {
+  originalname: string;
+  path: string;
+  size: number;
+  mimetype: string;
+  sourceArchive?: string;
+}
+
+// A file in the upload that wasn't kept, with the earlier upload it duplicates
+interface SkippedUpload extends SkippedEntry {
+  duplicateOf?: { id: string; filename: string; uploaded_at: Date };
+}
+
+const describeMatch = (file: MatchingFile) => ({
+  id: file.id,
+  filename: file.original_filename,
+  uploaded_at: file.uploaded_at,
+});
+
 export class UploadController {
   /**
-   * Upload a bank statement
+   * Upload bank statements
    * POST /api/upload
+   * Form fields: 'file' (one statement) and/or 'files' (several, or ZIP
+   * archives of statements), plus optional 'signConvention' and
+   * 'autoProcess' ('true'/'false', overriding the user's preference).
+   * Each statement gets its own uploaded_files row. Files whose contents
+   * don't match their type, or that fail the virus scan, are quarantined.
+   * Files identical to an earlier upload are skipped unless
+   * 'allowDuplicates' is 'true'.
    */
   static async uploadFile(req: Request, res: Response): Promise<void> {
+    // Plaintext files from this upload, removed at the end whatever happens
+    const incoming: string[] = [];
+
     try {
       if (!req.user) {
         res.status(401).json({ error: 'Not authenticated' });
         return;
       }
 
-      if (!req.file) {
+      const fields = (req.files || {}) as Record<string, Express.Multer.File[]>;
+      const uploads = [...(req.file ? [req.file] : []), ...(fields.file || []), ...(fields.files || [])];
+      incoming.push(...uploads.map(file => file.path));
+
+      if (uploads.length === 0) {
         res.status(400).json({ error: 'No file uploaded' });
         return;
       }
 
-      // Save file metadata to database
-      const result = await query(
-        `INSERT INTO uploaded_files (user_id, original_filename, file_path, file_size, mime_type, status)
-         VALUES ($1, $2, $3, $4, $5, $6)
-         RETURNING id, original_filename, file_size, mime_type, status, uploaded_at`,
-        [
-          req.user.userId,
-          req.file.originalname,
-          req.file.path,
-          req.file.size,
-          req.file.mimetype,
-          'pending',
-        ]
-      );
+      // Credit card exports list charges as positive amounts
+      const signConvention = req.body?.signConvention === 'positive_is_expense'
+        ? 'positive_is_expense'
+        : 'negative_is_expense';
+
+      const user = await UserModel.findById(req.user.userId);
+      const autoProcess = req.body?.autoProcess !== undefined
+        ? req.body.autoProcess === 'true'
+        : !!user?.auto_process_uploads;
+
+      // Unpack ZIP archives into the statements they contain
+      const statements: IncomingStatement[] = [];
+      const skipped: SkippedUpload[] = [];
+      const userId = req.user.userId;
+
+      for (const file of uploads) {
+        if (!ArchiveService.isZip(file.originalname, file.mimetype)) {
+          statements.push(file);
+          continue;
+        }
+
+        try {
+          const extracted = await ArchiveService.extract(file.path, incomingDir, {
+            accept: isStatementFile,
+            nameFor: opaqueFilename,
+          });
+
+          for (const entry of extracted.files) {
+            incoming.push(entry.path);
+            statements.push({
+              originalname: entry.name,
+              path: entry.path,
+              size: entry.size,
+              mimetype: MIME_TYPES_BY_EXTENSION[path.extname(entry.name).toLowerCase()] || 'text/plain',
+              sourceArchive: file.originalname,
+            });
+          }
+          skipped.push(...extracted.skipped.map(entry => ({ ...entry, name: `${file.originalname}: ${entry.name}` })));
+        } catch (archiveError) {
+          console.error('Archive extraction error:', archiveError);
+          skipped.push({ name: file.originalname, reason: 'Archive could not be unpacked' });
+        } finally {
+          fs.rmSync(file.path, { force: true });
+        }
+      }
 
-      const uploadedFile = result.rows[0];
+      if (statements.length === 0) {
+        res.status(400).json({ error: 'No statements found in upload', skipped });
+        return;
+      }
+
+      const allowDuplicates = req.body?.allowDuplicates === 'true';
+      const files = [];
+      const quarantined = [];
+
+      for (const statement of statements) {
+        // Check the contents are what the file claims to be, and are safe to process
+        let rejection: string | null;
+        try {
+          rejection = await FileValidationService.validate(statement.path, statement.originalname)
+            || await UploadController.scanForViruses(statement.path);
+        } catch (scanError) {
+          console.error('Virus scan error:', scanError);
+          fs.rmSync(statement.path, { force: true });
+          skipped.push({ name: statement.originalname, reason: "Couldn't be checked for viruses; please try again later" });
+          continue;
+        }
+
+        if (rejection) {
+          quarantined.push(await UploadController.quarantine(userId, statement, rejection));
+          continue;
+        }
+
+        const contentHash = await DuplicateFileService.hashFile(statement.path);
+        const duplicateOf = await DuplicateFileService.findByHash(userId, contentHash);
 
-      // TODO: In Phase 2, trigger the OCR processing pipeline here
-      // For now, we just acknowledge the upload
+        if (duplicateOf && !allowDuplicates) {
+          fs.rmSync(statement.path, { force: true });
+          skipped.push({
+            name: statement.originalname,
+            reason: `Already uploaded as "${duplicateOf.original_filename}"`,
+            duplicateOf: describeMatch(duplicateOf),
+          });
+          continue;
+        }
+
+        files.push(await UploadController.saveStatement(userId, statement, signConvention, {
+          autoProcess,
+          locale: req.headers['accept-language'],
+          contentHash,
+          duplicateOf,
+        }));
+      }
+
+      if (files.length === 0) {
+        if (quarantined.length > 0) {
+          res.status(422).json({ error: `File rejected: ${quarantined[0].reason}`, quarantined, skipped });
+        } else if (skipped.some(entry => entry.duplicateOf)) {
+          res.status(409).json({ error: 'These statements have already been uploaded', skipped });
+        } else {
+          res.status(400).json({ error: 'No statements could be uploaded', skipped });
+        }
+        return;
+      }
 
       res.status(201).json({
-        message: 'File uploaded successfully',
-        file: {
-          id: uploadedFile.id,
-          filename: uploadedFile.original_filename,
-          size: uploadedFile.file_size,
-          status: uploadedFile.status,
-          uploaded_at: uploadedFile.uploaded_at,
-        },
+        message: files.length === 1 ? 'File uploaded successfully' : `${files.length} files uploaded successfully`,
+        files,
+        skipped,
+        quarantined,
       });
     } catch (error) {
       console.error('Upload error:', error);
       res.status(500).json({ error: 'File upload failed' });
+    } finally {
+      for (const filePath of incoming) {
+        fs.rmSync(filePath, { force: true });
+      }
+    }
+  }
+
+  /**
+   * Scan a file for malware. Returns the rejection reason, or null when clean.
+   */
+  private static async scanForViruses(filePath: string): Promise<string | null> {
+    const result = await VirusScanService.scan(filePath);
+    return result.clean ? null : `Virus detected (${result.threat})`;
+  }
+
+  /**
+   * Move a rejected file into quarantine and record it, so it can be
+   * inspected but never processed
+   */
+  private static async quarantine(userId: string, statement: IncomingStatement, reason: string) {
+    const storageKey = StorageService.newKey(QUARANTINE_FOLDER);
+    const keyId = await EncryptionService.storeFile(userId, statement.path, storageKey);
+    fs.rmSync(statement.path, { force: true });
+
+    const result = await query(
+      `INSERT INTO uploaded_files (user_id, original_filename, file_path, file_size, mime_type, status,
+                                   source_archive, quarantine_reason, encryption_key_id)
+       VALUES ($1, $2, $3, $4, $5, 'quarantined', $6, $7, $8)
+       RETURNING id, original_filename`,
+      [
+        userId,
+        statement.originalname,
+        storageKey,
+        statement.size,
+        statement.mimetype,
+        statement.sourceArchive || null,
+        reason,
+        keyId,
+      ]
+    );
+
+    console.warn(`Quarantined upload ${result.rows[0].id} (${statement.originalname}): ${reason}`);
+
+    return {
+      id: result.rows[0].id,
+      filename: result.rows[0].original_filename,
+      reason,
+    };
+  }
+
+  /**
+   * Record one uploaded statement and, when asked to, queue it for processing
+   */
+  private static async saveStatement(
+    userId: string,
+    statement: IncomingStatement,
+    signConvention: SignConvention,
+    options: { autoProcess: boolean; locale?: string; contentHash: string; duplicateOf: MatchingFile | null }
+  ) {
+    const storageKey = StorageService.newKey(STATEMENTS_FOLDER);
+    const keyId = await EncryptionService.storeFile(userId, statement.path, storageKey);
+    fs.rmSync(statement.path, { force: true });
+
+    // Recognise CSV exports from banks the user has mapped before
+    let importProfile = null;
+    let needsMapping = false;
+    try {
+      if (await FileProcessorService.detectFormat(storageKey, statement.mimetype, statement.originalname) === 'csv') {
+        const profile = await ImportProfileService.findMatchForFile(userId, storageKey);
+        importProfile = profile ? { id: profile.id, name: profile.name } : null;
+        needsMapping = !profile;
+      }
+    } catch (matchError) {
+      console.error('Import profile matching error:', matchError);
     }
+
+    // Save file metadata to database (the stored file is useless without it)
+    const result = await query(
+      `INSERT INTO uploaded_files (user_id, original_filename, file_path, file_size, mime_type, status, sign_convention,
+                                   source_archive, content_hash, duplicate_of_file_id, encryption_key_id)
+       VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11)
+       RETURNING id, original_filename, file_size, mime_type, status, uploaded_at, source_archive`,
+      [
+        userId,
+        statement.originalname,
+        storageKey,
+        statement.size,
+        statement.mimetype,
+        'pending',
+        signConvention,
+        statement.sourceArchive || null,
+        options.contentHash,
+        options.duplicateOf?.id || null,
+        keyId,
+      ]
+    ).catch(async (insertError) => {
+      await StorageService.delete(storageKey);
+      throw insertError;
+    });
+
+    const uploadedFile = result.rows[0];
+
+    // CSVs we don't recognise wait for the user to map their columns
+    let jobId: string | null = null;
+    if (options.autoProcess && !needsMapping) {
+      try {
+        const job = await StatementImportService.enqueue({
+          userId,
+          fileId: uploadedFile.id,
+          profileId: importProfile?.id,
+          locale: options.locale,
+        });
+        jobId = job.id;
+        uploadedFile.status = 'queued';
+      } catch (queueError) {
+        console.error('Auto-process error:', queueError);
+      }
+    }
+
+    return {
+      id: uploadedFile.id,
+      filename: uploadedFile.original_filename,
+      size: uploadedFile.file_size,
+      status: uploadedFile.status,
+      uploaded_at: uploadedFile.uploaded_at,
+      source_archive: uploadedFile.source_archive,
+      importProfile,
+      jobId,
+      duplicateOf: options.duplicateOf ? describeMatch(options.duplicateOf) : null,
+    };
   }
 
   /**
@@ -119,11 +421,27 @@ export class UploadController {
         return;
       }
 
+      // Include each file's current import, so it can be reverted,
+      // and any earlier upload it duplicates or overlaps
       const result = await query(
-        `SELECT id, original_filename, file_size, mime_type, status, uploaded_at, processed_at
-         FROM uploaded_files
-         WHERE user_id = $1 AND deleted_at IS NULL
-         ORDER BY uploaded_at DESC`,
+        `SELECT f.id, f.original_filename, f.file_size, f.mime_type, f.status, f.uploaded_at, f.processed_at,
+                f.period_start, f.period_end, f.opening_balance, f.closing_balance,
+                f.reconciliation_status, f.reconciliation_difference, f.source_archive, f.quarantine_reason,
+                f.file_purged_at,
+                b.id AS import_batch_id, b.transaction_count AS imported_count,
+                d.id AS duplicate_of_file_id, d.original_filename AS duplicate_of_filename,
+                o.id AS overlaps_file_id, o.original_filename AS overlaps_filename
+         FROM uploaded_files f
+         LEFT JOIN uploaded_files d ON d.id = f.duplicate_of_file_id AND d.deleted_at IS NULL
+         LEFT JOIN uploaded_files o ON o.id = f.overlaps_file_id AND o.deleted_at IS NULL
+         LEFT JOIN LATERAL (
+           SELECT id, transaction_count FROM import_batches
+           WHERE file_id = f.id AND status = 'committed'
+           ORDER BY committed_at DESC
+           LIMIT 1
+         ) b ON true
+         WHERE f.user_id = $1 AND f.deleted_at IS NULL
+         ORDER BY f.uploaded_at DESC`,
         [req.user.userId]
       );
 
@@ -149,7 +467,8 @@ export class UploadController {
 
       const { fileId } = req.params;
 
-      // Soft delete (for compliance - we can restore if needed)
+      // Soft delete (for compliance - we can restore if needed). The
+      // retention job purges the file for good after the grace period.
       const result = await query(
         `UPDATE uploaded_files
          SET deleted_at = CURRENT_TIMESTAMP
@@ -169,4 +488,84 @@ export class UploadController {
       res.status(500).json({ error: 'Failed to delete file' });
     }
   }
+
+  /**
+   * Stream a file's processing progress as Server-Sent Events
+   * GET /api/upload/:fileId/progress
+   *
+   * Sends the latest known progress first, then each new event. The stream
+   * ends after the run completes or fails for good.
+   */
+  static async streamProgress(req: Request, res: Response): Promise<void> {
+    // Ends the stream once it has started: stops the heartbeat and unsubscribes
+    let close = () => {};
+
+    try {
+      if (!req.user) {
+        res.status(401).json({ error: 'Not authenticated' });
+        return;
+      }
+
+      const { fileId } = req.params;
+
+      const fileResult = await query(
+        'SELECT id FROM uploaded_files WHERE id = $1 AND user_id = $2 AND deleted_at IS NULL',
+        [fileId, req.user.userId]
+      );
+
+      if (fileResult.rows.length === 0) {
+        res.status(404).json({ error: 'File not found' });
+        return;
+      }
+
+      res.writeHead(200, {
+        'Content-Type': 'text/event-stream',
+        'Cache-Control': 'no-cache',
+        Connection: 'keep-alive',
+        'X-Accel-Buffering': 'no', // Stop proxies like nginx holding events back
+      });
+      res.flushHeaders();
+
+      let closed = false;
+      let unsubscribe = () => {};
+      close = () => {
+        if (closed) return;
+        closed = true;
+        clearInterval(heartbeat);
+        unsubscribe();
+        res.end();
+      };
+
+      const send = (event: ProcessingProgress) => {
+        if (closed) return;
+        res.write(`event: progress\ndata: ${JSON.stringify(event)}\n\n`);
+        // A retry is still to come, so only a failure without one ends the stream
+        if (FINAL_STAGES.includes(event.stage) && !event.willRetry) {
+          close();
+        }
+      };
+
+      // Comment lines keep idle connections from being timed out
+      const heartbeat = setInterval(() => res.write(': keep-alive\n\n'), 25 * 1000);
+      req.on('close', close);
+
+      unsubscribe = await ProcessingProgressService.subscribe(fileId, send);
+      if (closed) {
+        unsubscribe();
+        return;
+      }
+
+      const latest = await ProcessingProgressService.getLatest(fileId, req.user.userId);
+      if (latest) {
+        send(latest);
+      }
+    } catch (error) {
+      console.error('Progress stream error:', error);
+      if (!res.headersSent) {
+        res.status(500).json({ error: 'Failed to stream progress' });
+      } else {
+        close();
+      }
+    }
+  }
 }
@@ -9,6 +9,8 @@
 
 import { body, validationResult } from 'express-validator';
 import { Request, Response, NextFunction } from 'express';
+import { RulesEngineService } from '../services/rulesEngineService';
+import { AccountNumber } from '../services/parsers/accountNumber';
 
 /**
  * Validation Rules for User Registration
@@ -57,6 +59,20 @@ export const validateLogin = [
     .withMessage('Password is required'),
 ];
 
+/**
+ * Validation Rules for User Preferences
+ */
+export const validatePreferences = [
+  body('auto_process_uploads')
+    .optional()
+    .isBoolean({ strict: true })
+    .withMessage('auto_process_uploads must be true or false'),
+  body('delete_statements_after_processing')
+    .optional()
+    .isBoolean({ strict: true })
+    .withMessage('delete_statements_after_processing must be true or false'),
+];
+
 /**
  * Middleware to check validation results
  * Use this after your validation rules
@@ -78,3 +94,316 @@ export const checkValidation = (
 
   next();
 };
+
+/**
+ * Validation Rules for Import Profiles (CSV column mappings)
+ * Set `partial` for updates, where every field is optional
+ */
+export const validateImportProfile = (partial = false) => {
+  const field = (name: string) => (partial ? body(name).optional() : body(name));
+
+  return [
+    field('name')
+      .trim()
+      .isLength({ min: 1, max: 100 })
+      .withMessage('Profile name is required (max 100 characters)'),
+
+    field('headers')
+      .isArray({ min: 1 })
+      .withMessage('Header row is required'),
+
+    field('date_column')
+      .isString()
+      .notEmpty()
+      .withMessage('Date column is required'),
+
+    body('date_format')
+      .optional({ nullable: true })
+      .matches(/^[YMD\/.\-\s]+$/)
+      .withMessage('Date format may only contain Y, M, D and separators'),
+
+    field('description_columns')
+      .isArray({ min: 1 })
+      .withMessage('At least one description column is required'),
+
+    body('sign_convention')
+      .optional()
+      .isIn(['negative_is_expense', 'positive_is_expense'])
+      .withMessage('Invalid sign convention'),
+
+    body('skip_rows')
+      .optional()
+      .isInt({ min: 0, max: 100 })
+      .withMessage('Rows to skip must be between 0 and 100'),
+
+    body()
+      .custom((value) => partial || !!(value.amount_column || value.debit_column || value.credit_column))
+      .withMessage('Choose an amount column or debit/credit columns'),
+  ];
+};
+
+/**
+ * Validation Rules for committing a reviewed import
+ */
+export const validateImportCommit = [
+  body('rows')
+    .optional()
+    .isArray()
+    .withMessage('Rows must be a list'),
+
+  body('rows.*.id')
+    .isUUID()
+    .withMessage('Each row needs a valid id'),
+
+  body('rows.*.transaction_date')
+    .optional()
+    .isISO8601()
+    .withMessage('Dates must be YYYY-MM-DD'),
+
+  body('rows.*.description')
+    .optional()
+    .isString()
+    .trim()
+    .isLength({ min: 1, max: 500 })
+    .withMessage('Description is required (max 500 characters)'),
+
+  body('rows.*.amount')
+    .optional()
+    .isFloat({ gt: 0, lt: 100000000 })
+    .withMessage('Amount must be a positive number'),
+
+  body('rows.*.category')
+    .optional()
+    .isString()
+    .isLength({ max: 100 })
+    .withMessage('Category is too long'),
+
+  body('rows.*.subcategory')
+    .optional({ nullable: true })
+    .isString()
+    .isLength({ max: 100 })
+    .withMessage('Subcategory is too long'),
+
+  body('rows.*.is_income')
+    .optional()
+    .isBoolean()
+    .withMessage('is_income must be true or false'),
+
+  body('rows.*.excluded')
+    .optional()
+    .isBoolean()
+    .withMessage('excluded must be true or false'),
+];
+
+/**
+ * Validation Rules for Categorization Rules
+ * Set `partial` for updates, where every field is optional
+ */
+export const validateCategorizationRule = (partial = false) => {
+  const optionalText = (name: string, max: number) =>
+    body(name)
+      .optional({ nullable: true })
+      .isString()
+      .isLength({ max })
+      .withMessage(`${name} must be at most ${max} characters`);
+
+  return [
+    (partial ? body('name').optional() : body('name'))
+      .trim()
+      .isLength({ min: 1, max: 100 })
+      .withMessage('Rule name is required (max 100 characters)'),
+
+    body('priority')
+      .optional()
+      .isInt({ min: 0 })
+      .withMessage('Priority must be a whole number of 0 or more'),
+
+    body('enabled')
+      .optional()
+      .isBoolean({ strict: true })
+      .withMessage('enabled must be true or false'),
+
+    optionalText('description_contains', 255),
+
+    optionalText('description_regex', 255)
+      .bail()
+      .custom((value) => {
+        const problem = value ? RulesEngineService.checkPattern(value) : null;
+        if (problem) {
+          throw new Error(`Invalid regular expression: ${problem}`);
+        }
+        return true;
+      }),
+
+    optionalText('merchant_equals', 255),
+
+    body(['amount_min', 'amount_max'])
+      .optional({ nullable: true })
+      .isFloat({ min: 0, lt: 100000000 })
+      .withMessage('Amounts must be 0 or more'),
+
+    // Only the last four characters of account numbers are kept
+    optionalText('account_id', 100)
+      .customSanitizer((value) => (typeof value === 'string' ? AccountNumber.mask(value) ?? null : value)),
+
+    body('direction')
+      .optional({ nullable: true })
+      .isIn(['income', 'expense'])
+      .withMessage('Direction must be income or expense'),
+
+    optionalText('set_category', 100),
+    optionalText('set_subcategory', 100),
+    optionalText('set_description', 500),
+
+    body('add_tags')
+      .optional()
+      .isArray({ max: 20 })
+      .withMessage('Tags must be a list of at most 20'),
+
+    body('add_tags.*')
+      .isString()
+      .trim()
+      .isLength({ min: 1, max: 50 })
+      .withMessage('Each tag must be 1-50 characters'),
+
+    // An update is checked once merged with the stored rule (see RulesEngineService.updateRule)
+    body()
+      .custom((value) => {
+        const problem = partial ? null : RulesEngineService.checkRule(value);
+        if (problem) {
+          throw new Error(problem);
+        }
+        return true;
+      }),
+  ];
+};
+
+/**
+ * Validation Rules for applying rules to existing transactions
+ */
+export const validateRuleApplication = [
+  body('ruleIds')
+    .optional()
+    .isArray()
+    .withMessage('ruleIds must be a list'),
+
+  body('ruleIds.*')
+    .isUUID()
+    .withMessage('Each rule id must be valid'),
+
+  body('dryRun')
+    .optional()
+    .isBoolean({ strict: true })
+    .withMessage('dryRun must be true or false'),
+];
+
+/**
+ * Validation Rules for reordering categorization rules
+ */
+export const validateRuleOrder = [
+  body('ruleIds')
+    .isArray({ min: 1 })
+    .withMessage('ruleIds must list the rules in order'),
+
+  body('ruleIds.*')
+    .isUUID()
+    .withMessage('Each rule id must be valid'),
+];
+
+/**
+ * Validation Rules for updating a merchant
+ */
+export const validateMerchant = [
+  body('name')
+    .optional()
+    .isString()
+    .trim()
+    .isLength({ min: 1, max: 255 })
+    .withMessage('Merchant name is required (max 255 characters)'),
+
+  body('default_category')
+    .optional({ nullable: true })
+    .isString()
+    .isLength({ max: 100 })
+    .withMessage('Category is too long'),
+
+  body('logo_url')
+    .optional({ nullable: true, checkFalsy: true })
+    .isURL({ protocols: ['https'], require_protocol: true })
+    .withMessage('Logo must be an https URL')
+    .isLength({ max: 500 })
+    .withMessage('Logo URL is too long'),
+
+  body('color')
+    .optional({ nullable: true, checkFalsy: true })
+    .matches(/^#[0-9a-fA-F]{6}$/)
+    .withMessage('Colour must look like #1A2B3C'),
+];
+
+/**
+ * Validation Rules for categories
+ * Set `partial` for updates, where every field is optional
+ */
+export const validateCategory = (partial = false) => [
+  (partial ? body('name').optional() : body('name'))
+    .isString()
+    .trim()
+    .isLength({ min: 1, max: 100 })
+    .withMessage('Category name is required (max 100 characters)'),
+
+  body('parent_id')
+    .optional({ nullable: true })
+    .isUUID()
+    .withMessage('Parent category must be a valid id'),
+
+  body('icon')
+    .optional({ nullable: true })
+    .isString()
+    .isLength({ max: 50 })
+    .withMessage('Icon is too long'),
+
+  body('color')
+    .optional({ nullable: true, checkFalsy: true })
+    .matches(/^#[0-9a-fA-F]{6}$/)
+    .withMessage('Colour must look like #1A2B3C'),
+];
+
+/**
+ * Validation Rules for merging categories
+ */
+export const validateCategoryMerge = [
+  body('targetId')
+    .isUUID()
+    .withMessage('Choose a category to merge into'),
+];
+
+/**
+ * Validation Rules for editing a transaction
+ */
+export const validateTransactionUpdate = [
+  body('category')
+    .optional()
+    .isString()
+    .trim()
+    .isLength({ min: 1, max: 100 })
+    .withMessage('Category is required (max 100 characters)'),
+
+  body('subcategory')
+    .optional({ nullable: true })
+    .isString()
+    .trim()
+    .isLength({ max: 100 })
+    .withMessage('Subcategory is too long'),
+
+  body('description')
+    .optional()
+    .isString()
+    .trim()
+    .isLength({ min: 1, max: 500 })
+    .withMessage('Description is required (max 500 characters)'),
+
+  body('applyToSimilar')
+    .optional()
+    .isBoolean({ strict: true })
+    .withMessage('applyToSimilar must be true or false'),
+];
@@ -0,0 +1,168 @@
+/**
+ * Categorization Rule Model
+ *
+ * Database operations for user-defined categorization rules.
+ * Rules are returned in the order they run (priority, then age).
+ */
+
+import { query, withTransaction } from '../config/database';
+import { CategorizationRule, RuleActions, RuleConditions } from '../types';
+
+export type RuleInput = Partial<RuleConditions & RuleActions> & {
+  name?: string;
+  priority?: number;
+  enabled?: boolean;
+};
+
+// Columns a rule can be created or updated with
+const RULE_COLUMNS: (keyof RuleInput)[] = [
+  'name', 'priority', 'enabled',
+  'description_contains', 'description_regex', 'merchant_equals',
+  'amount_min', 'amount_max', 'account_id', 'direction',
+  'set_category', 'set_subcategory', 'add_tags', 'set_description',
+];
+
+/**
+ * Value to store for a column (blank conditions and actions are unset)
+ */
+function columnValue(column: keyof RuleInput, value: any): any {
+  if (column === 'add_tags') {
+    return JSON.stringify(value || []);
+  }
+  if (typeof value === 'string' && column !== 'name') {
+    return value.trim() || null;
+  }
+  return value ?? null;
+}
+
+// pg returns DECIMAL columns as strings
+const fromRow = (row: any): CategorizationRule => ({
+  ...row,
+  amount_min: row.amount_min !== null ? parseFloat(row.amount_min) : null,
+  amount_max: row.amount_max !== null ? parseFloat(row.amount_max) : null,
+});
+
+export class CategorizationRuleModel {
+  /**
+   * Create a rule. Without a priority it runs after the user's other rules.
+   */
+  static async create(userId: string, rule: RuleInput): Promise<CategorizationRule> {
+    const columns = RULE_COLUMNS.filter(column => column !== 'priority' && rule[column] !== undefined);
+    const values = [userId, ...columns.map(column => columnValue(column, rule[column])), rule.priority ?? null];
+    const placeholders = columns.map((_, i) => `$${i + 2}`);
+
+    const result = await query(
+      `INSERT INTO categorization_rules (user_id, ${[...columns, 'priority'].join(', ')})
+       VALUES ($1, ${placeholders.map(p => `${p}, `).join('')}
+               COALESCE($${values.length}, (SELECT COALESCE(MAX(priority) + 1, 0) FROM categorization_rules WHERE user_id = $1)))
+       RETURNING *`,
+      values
+    );
+
+    return fromRow(result.rows[0]);
+  }
+
+  /**
+   * Get all of a user's rules in the order they run
+   */
+  static async findByUser(userId: string): Promise<CategorizationRule[]> {
+    const result = await query(
+      'SELECT * FROM categorization_rules WHERE user_id = $1 ORDER BY priority, created_at',
+      [userId]
+    );
+
+    return result.rows.map(fromRow);
+  }
+
+  /**
+   * The rules that should run, in order
+   */
+  static async findEnabledByUser(userId: string): Promise<CategorizationRule[]> {
+    const result = await query(
+      'SELECT * FROM categorization_rules WHERE user_id = $1 AND enabled = true ORDER BY priority, created_at',
+      [userId]
+    );
+
+    return result.rows.map(fromRow);
+  }
+
+  /**
+   * Find a rule by ID (scoped to the owner)
+   */
+  static async findById(id: string, userId: string): Promise<CategorizationRule | null> {
+    const result = await query(
+      'SELECT * FROM categorization_rules WHERE id = $1 AND user_id = $2',
+      [id, userId]
+    );
+
+    return result.rows[0] ? fromRow(result.rows[0]) : null;
+  }
+
+  /**
+   * Update a rule's settings
+   */
+  static async update(id: string, userId: string, updates: RuleInput): Promise<CategorizationRule | null> {
+    const fields: string[] = [];
+    const values: any[] = [];
+
+    for (const column of RULE_COLUMNS) {
+      if (updates[column] !== undefined) {
+        values.push(columnValue(column, updates[column]));
+        fields.push(`${column} = $${values.length}`);
+      }
+    }
+
+    if (fields.length === 0) {
+      return this.findById(id, userId);
+    }
+
+    fields.push('updated_at = CURRENT_TIMESTAMP');
+    values.push(id, userId);
+
+    const result = await query(
+      `UPDATE categorization_rules SET ${fields.join(', ')}
+       WHERE id = $${values.length - 1} AND user_id = $${values.length}
+       RETURNING *`,
+      values
+    );
+
+    return result.rows[0] ? fromRow(result.rows[0]) : null;
+  }
+
+  /**
+   * Set the order rules run in: the given rules first, in list order.
+   * Returns the user's rules in their new order.
+   */
+  static async reorder(userId: string, ruleIds: string[]): Promise<CategorizationRule[]> {
+    await withTransaction(async (client) => {
+      for (let i = 0; i < ruleIds.length; i++) {
+        await client.query(
+          `UPDATE categorization_rules SET priority = $1, updated_at = CURRENT_TIMESTAMP
+           WHERE id = $2 AND user_id = $3`,
+          [i, ruleIds[i], userId]
+        );
+      }
+
+      // Rules left out of the list keep their order, after the listed ones
+      await client.query(
+        `UPDATE categorization_rules SET priority = priority + $1
+         WHERE user_id = $2 AND NOT (id = ANY($3::uuid[]))`,
+        [ruleIds.length, userId, ruleIds]
+      );
+    });
+
+    return this.findByUser(userId);
+  }
+
+  /**
+   * Delete a rule
+   */
+  static async delete(id: string, userId: string): Promise<boolean> {
+    const result = await query(
+      'DELETE FROM categorization_rules WHERE id = $1 AND user_id = $2 RETURNING id',
+      [id, userId]
+    );
+
+    return result.rows.length > 0;
+  }
+}
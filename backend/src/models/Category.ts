@@ -0,0 +1,173 @@
+/**
+ * Category Model
+ *
+ * Database operations for spending categories. A user sees the built-in
+ * defaults (user_id NULL) plus their own categories and subcategories.
+ */
+
+import { PoolClient } from 'pg';
+import { query } from '../config/database';
+import { Category } from '../types';
+
+// Categories a user can see: the defaults and their own
+const VISIBLE = '((user_id IS NULL AND is_default = true) OR user_id = $1)';
+
+export class CategoryModel {
+  /**
+   * Get the categories a user can see, parents before children, by name
+   */
+  static async findVisible(userId: string, includeArchived = false): Promise<Category[]> {
+    const result = await query(
+      `SELECT * FROM categories
+       WHERE ${VISIBLE}
+       ${includeArchived ? '' : 'AND archived_at IS NULL'}
+       ORDER BY parent_id NULLS FIRST, LOWER(name)`,
+      [userId]
+    );
+
+    return result.rows;
+  }
+
+  /**
+   * Find a category the user can see
+   */
+  static async findVisibleById(id: string, userId: string): Promise<Category | null> {
+    const result = await query(
+      `SELECT * FROM categories WHERE id = $2 AND ${VISIBLE}`,
+      [userId, id]
+    );
+
+    return result.rows[0] || null;
+  }
+
+  /**
+   * Find a visible category by name among the siblings under a parent
+   * (or among top-level categories), archived ones included, other than exceptId
+   */
+  static async findSibling(userId: string, name: string, parentId: string | null, exceptId?: string): Promise<Category | null> {
+    const result = await query(
+      `SELECT * FROM categories
+       WHERE ${VISIBLE}
+       AND parent_id IS NOT DISTINCT FROM $2
+       AND LOWER(name) = LOWER($3)
+       AND id IS DISTINCT FROM $4
+       ORDER BY archived_at NULLS FIRST
+       LIMIT 1`,
+      [userId, parentId, name.trim(), exceptId || null]
+    );
+
+    return result.rows[0] || null;
+  }
+
+  /**
+   * Create one of the user's own categories
+   */
+  static async create(
+    userId: string,
+    category: { name: string; parent_id?: string | null; icon?: string | null; color?: string | null }
+  ): Promise<Category> {
+    const result = await query(
+      `INSERT INTO categories (user_id, name, parent_id, icon, color, is_default)
+       VALUES ($1, $2, $3, $4, $5, false)
+       RETURNING *`,
+      [userId, category.name.trim(), category.parent_id || null, category.icon || null, category.color || null]
+    );
+
+    return result.rows[0];
+  }
+
+  /**
+   * Update one of the user's own categories
+   */
+  static async update(
+    client: PoolClient,
+    id: string,
+    userId: string,
+    updates: Partial<Pick<Category, 'name' | 'icon' | 'color'>>
+  ): Promise<Category | null> {
+    const fields: string[] = [];
+    const values: any[] = [];
+
+    for (const column of ['name', 'icon', 'color'] as const) {
+      if (updates[column] !== undefined) {
+        values.push(column === 'name' ? updates.name!.trim() : updates[column] || null);
+        fields.push(`${column} = $${values.length}`);
+      }
+    }
+
+    fields.push('updated_at = CURRENT_TIMESTAMP');
+    values.push(id, userId);
+
+    const result = await client.query(
+      `UPDATE categories SET ${fields.join(', ')}
+       WHERE id = $${values.length - 1} AND user_id = $${values.length}
+       RETURNING *`,
+      values
+    );
+
+    return result.rows[0] || null;
+  }
+
+  /**
+   * The subcategories that were archived together with an archived category
+   * (not ones archived on their own before it)
+   */
+  static async findArchivedWith(id: string, userId: string): Promise<Category[]> {
+    const result = await query(
+      `SELECT child.* FROM categories child
+       JOIN categories parent ON parent.id = child.parent_id
+       WHERE parent.id = $1 AND parent.user_id = $2 AND child.archived_at = parent.archived_at`,
+      [id, userId]
+    );
+
+    return result.rows;
+  }
+
+  /**
+   * Archive or restore one of the user's categories. Archiving takes its
+   * subcategories with it; restoring brings back only the ones archived
+   * together with it (see findArchivedWith).
+   */
+  static async setArchived(
+    client: PoolClient,
+    id: string,
+    userId: string,
+    archived: boolean
+  ): Promise<Category | null> {
+    const result = archived
+      ? await client.query(
+        `UPDATE categories
+         SET archived_at = COALESCE(archived_at, CURRENT_TIMESTAMP), updated_at = CURRENT_TIMESTAMP
+         WHERE (id = $1 OR parent_id = $1) AND user_id = $2
+         RETURNING *`,
+        [id, userId]
+      )
+      : await client.query(
+        `UPDATE categories c
+         SET archived_at = NULL, updated_at = CURRENT_TIMESTAMP
+         FROM categories parent
+         WHERE parent.id = $1 AND parent.user_id = $2 AND c.user_id = $2
+           AND (c.id = parent.id OR (c.parent_id = parent.id AND c.archived_at = parent.archived_at))
+         RETURNING c.*`,
+        [id, userId]
+      );
+
+    return result.rows.find((row: Category) => row.id === id) || null;
+  }
+
+  /**
+   * Move the user's subcategories to another parent. Ones the new parent
+   * already has a subcategory of the same name for are left behind.
+   */
+  static async moveChildren(client: PoolClient, fromParentId: string, toParentId: string, userId: string): Promise<void> {
+    await client.query(
+      `UPDATE categories SET parent_id = $2, updated_at = CURRENT_TIMESTAMP
+       WHERE parent_id = $1 AND user_id = $3
+       AND LOWER(name) NOT IN (
+         SELECT LOWER(name) FROM categories
+         WHERE parent_id = $2 AND ((user_id IS NULL AND is_default = true) OR user_id = $3)
+       )`,
+      [fromParentId, toParentId, userId]
+    );
+  }
+}
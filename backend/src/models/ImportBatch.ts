@@ -0,0 +1,96 @@
+/**
+ * Import Batch Model
+ *
+ * Database operations for import batches: one per processing run of a
+ * file. Transactions committed from a batch keep its ID, so the whole
+ * import can be reverted later.
+ */
+
+import { PoolClient } from 'pg';
+import { query } from '../config/database';
+import { ImportBatch, ImportBatchStatus } from '../types';
+
+export class ImportBatchModel {
+  /**
+   * Start a batch for a processing run. Any batch of the same file still
+   * waiting in review is replaced by it.
+   */
+  static async create(
+    client: PoolClient,
+    userId: string,
+    fileId: string,
+    format: string,
+    importProfileId: string | null
+  ): Promise<ImportBatch> {
+    await client.query(
+      `UPDATE import_batches SET status = 'discarded'
+       WHERE file_id = $1 AND user_id = $2 AND status = 'staged'`,
+      [fileId, userId]
+    );
+
+    const result = await client.query(
+      `INSERT INTO import_batches (user_id, file_id, format, import_profile_id)
+       VALUES ($1, $2, $3, $4)
+       RETURNING *`,
+      [userId, fileId, format, importProfileId]
+    );
+
+    return result.rows[0];
+  }
+
+  /**
+   * Find a batch by ID (scoped to the owner)
+   */
+  static async findById(id: string, userId: string): Promise<ImportBatch | null> {
+    const result = await query(
+      'SELECT * FROM import_batches WHERE id = $1 AND user_id = $2',
+      [id, userId]
+    );
+
+    return result.rows[0] || null;
+  }
+
+  /**
+   * Find a file's most recent batch with the given status
+   */
+  static async findLatestForFile(fileId: string, userId: string, status: ImportBatchStatus): Promise<ImportBatch | null> {
+    const result = await query(
+      `SELECT * FROM import_batches
+       WHERE file_id = $1 AND user_id = $2 AND status = $3
+       ORDER BY created_at DESC
+       LIMIT 1`,
+      [fileId, userId, status]
+    );
+
+    return result.rows[0] || null;
+  }
+
+  /**
+   * Get a file's batches, newest first
+   */
+  static async findByFile(fileId: string, userId: string): Promise<ImportBatch[]> {
+    const result = await query(
+      'SELECT * FROM import_batches WHERE file_id = $1 AND user_id = $2 ORDER BY created_at DESC',
+      [fileId, userId]
+    );
+
+    return result.rows;
+  }
+
+  /**
+   * Transactions from a committed batch that were changed after it was
+   * imported, so the user can be told before they're removed
+   */
+  static async findEditedTransactions(batchId: string): Promise<any[]> {
+    const result = await query(
+      `SELECT t.id, t.transaction_date, t.description, t.amount, t.category, t.is_income, t.updated_at
+       FROM transactions t
+       JOIN import_batches b ON b.id = t.import_batch_id
+       WHERE t.import_batch_id = $1 AND t.updated_at > b.committed_at
+       ORDER BY t.transaction_date`,
+      [batchId]
+    );
+
+    return result.rows;
+  }
+}
@@ -0,0 +1,132 @@
+/**
+ * Import Profile Model
+ *
+ * Database operations for saved CSV column mappings.
+ * A profile is matched to an upload by its header signature
+ * (the normalized header row of the bank's export, see ImportProfileService).
+ */
+
+import { query } from '../config/database';
+import { ImportMapping, ImportProfile } from '../types';
+
+export class ImportProfileModel {
+  /**
+   * Create a profile from a mapping and the signature of the file's header row
+   */
+  static async create(
+    userId: string,
+    name: string,
+    headerSignature: string,
+    mapping: ImportMapping
+  ): Promise<ImportProfile> {
+    const result = await query(
+      `INSERT INTO import_profiles
+       (user_id, name, header_signature, date_column, date_format, description_columns,
+        amount_column, debit_column, credit_column, sign_convention, skip_rows)
+       VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11)
+       RETURNING *`,
+      [
+        userId,
+        name,
+        headerSignature,
+        mapping.date_column,
+        mapping.date_format || null,
+        JSON.stringify(mapping.description_columns),
+        mapping.amount_column || null,
+        mapping.debit_column || null,
+        mapping.credit_column || null,
+        mapping.sign_convention,
+        mapping.skip_rows || 0,
+      ]
+    );
+
+    return result.rows[0];
+  }
+
+  /**
+   * Get all of a user's profiles
+   */
+  static async findByUser(userId: string): Promise<ImportProfile[]> {
+    const result = await query(
+      'SELECT * FROM import_profiles WHERE user_id = $1 ORDER BY last_used_at DESC NULLS LAST, name',
+      [userId]
+    );
+
+    return result.rows;
+  }
+
+  /**
+   * Find a profile by ID (scoped to the owner)
+   */
+  static async findById(id: string, userId: string): Promise<ImportProfile | null> {
+    const result = await query(
+      'SELECT * FROM import_profiles WHERE id = $1 AND user_id = $2',
+      [id, userId]
+    );
+
+    return result.rows[0] || null;
+  }
+
+  /**
+   * Update a profile's name and/or mapping
+   */
+  static async update(
+    id: string,
+    userId: string,
+    updates: Partial<ImportMapping> & { name?: string; header_signature?: string }
+  ): Promise<ImportProfile | null> {
+    const fields: string[] = [];
+    const values: any[] = [];
+
+    const set = (column: string, value: any) => {
+      values.push(value);
+      fields.push(`${column} = $${values.length}`);
+    };
+
+    if (updates.name !== undefined) set('name', updates.name);
+    if (updates.header_signature !== undefined) set('header_signature', updates.header_signature);
+    if (updates.date_column !== undefined) set('date_column', updates.date_column);
+    if (updates.date_format !== undefined) set('date_format', updates.date_format || null);
+    if (updates.description_columns !== undefined) set('description_columns', JSON.stringify(updates.description_columns));
+    if (updates.amount_column !== undefined) set('amount_column', updates.amount_column || null);
+    if (updates.debit_column !== undefined) set('debit_column', updates.debit_column || null);
+    if (updates.credit_column !== undefined) set('credit_column', updates.credit_column || null);
+    if (updates.sign_convention !== undefined) set('sign_convention', updates.sign_convention);
+    if (updates.skip_rows !== undefined) set('skip_rows', updates.skip_rows);
+
+    if (fields.length === 0) {
+      return this.findById(id, userId);
+    }
+
+    fields.push('updated_at = CURRENT_TIMESTAMP');
+    values.push(id, userId);
+
+    const result = await query(
+      `UPDATE import_profiles SET ${fields.join(', ')}
+       WHERE id = $${values.length - 1} AND user_id = $${values.length}
+       RETURNING *`,
+      values
+    );
+
+    return result.rows[0] || null;
+  }
+
+  /**
+   * Record that a profile was used (most recently used sort first)
+   */
+  static async markUsed(id: string): Promise<void> {
+    await query('UPDATE import_profiles SET last_used_at = CURRENT_TIMESTAMP WHERE id = $1', [id]);
+  }
+
+  /**
+   * Delete a profile
+   */
+  static async delete(id: string, userId: string): Promise<boolean> {
+    const result = await query(
+      'DELETE FROM import_profiles WHERE id = $1 AND user_id = $2 RETURNING id',
+      [id, userId]
+    );
+
+    return result.rows.length > 0;
+  }
+}
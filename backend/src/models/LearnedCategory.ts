@@ -0,0 +1,104 @@
+/**
+ * Learned Category Model
+ *
+ * Database operations for merchant -> category mappings learned from the
+ * user's manual corrections (see LearnedCategoryService).
+ */
+
+import { PoolClient } from 'pg';
+import { query } from '../config/database';
+import { LearnedCategory } from '../types';
+
+export class LearnedCategoryModel {
+  /**
+   * Remember a correction. Correcting the same merchant again replaces the
+   * category and counts the correction.
+   */
+  static async remember(
+    client: PoolClient,
+    userId: string,
+    merchantKey: string,
+    merchantName: string,
+    category: string,
+    subcategory?: string | null
+  ): Promise<LearnedCategory> {
+    const result = await client.query(
+      `INSERT INTO learned_categories (user_id, merchant_key, merchant_name, category, subcategory)
+       VALUES ($1, $2, $3, $4, $5)
+       ON CONFLICT (user_id, merchant_key) DO UPDATE
+       SET merchant_name = EXCLUDED.merchant_name,
+           category = EXCLUDED.category,
+           subcategory = EXCLUDED.subcategory,
+           times_corrected = learned_categories.times_corrected + 1,
+           updated_at = CURRENT_TIMESTAMP
+       RETURNING *`,
+      [userId, merchantKey, merchantName.substring(0, 255), category, subcategory || null]
+    );
+
+    return result.rows[0];
+  }
+
+  /**
+   * Get a user's learned mappings, most recently corrected first
+   */
+  static async findByUser(userId: string): Promise<LearnedCategory[]> {
+    const result = await query(
+      'SELECT * FROM learned_categories WHERE user_id = $1 ORDER BY updated_at DESC',
+      [userId]
+    );
+
+    return result.rows;
+  }
+
+  /**
+   * Get the mappings for some merchants, keyed by merchant key
+   */
+  static async findByKeys(userId: string, merchantKeys: string[]): Promise<Map<string, LearnedCategory>> {
+    if (merchantKeys.length === 0) {
+      return new Map();
+    }
+
+    const result = await query(
+      'SELECT * FROM learned_categories WHERE user_id = $1 AND merchant_key = ANY($2::text[])',
+      [userId, merchantKeys]
+    );
+
+    return new Map(result.rows.map((row: LearnedCategory) => [row.merchant_key, row]));
+  }
+
+  /**
+   * Count imported transactions a mapping categorized
+   */
+  static async recordApplied(id: string, count: number): Promise<void> {
+    await query(
+      `UPDATE learned_categories
+       SET times_applied = times_applied + $2, last_applied_at = CURRENT_TIMESTAMP
+       WHERE id = $1`,
+      [id, count]
+    );
+  }
+
+  /**
+   * Forget a mapping
+   */
+  static async delete(id: string, userId: string): Promise<boolean> {
+    const result = await query(
+      'DELETE FROM learned_categories WHERE id = $1 AND user_id = $2 RETURNING id',
+      [id, userId]
+    );
+
+    return result.rows.length > 0;
+  }
+
+  /**
+   * Forget every mapping a user has. Returns how many were removed.
+   */
+  static async deleteAllForUser(userId: string): Promise<number> {
+    const result = await query(
+      'DELETE FROM learned_categories WHERE user_id = $1',
+      [userId]
+    );
+
+    return result.rowCount || 0;
+  }
+}
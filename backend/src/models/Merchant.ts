@@ -0,0 +1,105 @@
+/**
+ * Merchant Model
+ *
+ * Database operations for canonical merchant records.
+ * Each user has their own, keyed by the normalized merchant name.
+ */
+
+import { query } from '../config/database';
+import { Merchant } from '../types';
+
+// What a new merchant record starts with
+export interface NewMerchant {
+  name: string;
+  normalized_key: string;
+  default_category?: string | null;
+  color?: string | null;
+}
+
+// What users can change about a merchant
+export type MerchantUpdates = Partial<Pick<Merchant, 'name' | 'default_category' | 'logo_url' | 'color'>>;
+
+export class MerchantModel {
+  /**
+   * Get the user's merchants for some normalized keys, creating the ones
+   * they don't have yet. Returns them keyed by normalized key.
+   */
+  static async findOrCreate(userId: string, merchants: NewMerchant[]): Promise<Map<string, Merchant>> {
+    const found = new Map<string, Merchant>();
+
+    for (const merchant of merchants) {
+      if (found.has(merchant.normalized_key)) {
+        continue;
+      }
+
+      // The no-op update makes RETURNING give back existing rows too
+      const result = await query(
+        `INSERT INTO merchants (user_id, name, normalized_key, default_category, color)
+         VALUES ($1, $2, $3, $4, $5)
+         ON CONFLICT (user_id, normalized_key) DO UPDATE SET normalized_key = EXCLUDED.normalized_key
+         RETURNING *`,
+        [
+          userId,
+          merchant.name.substring(0, 255),
+          merchant.normalized_key.substring(0, 255),
+          merchant.default_category || null,
+          merchant.color || null,
+        ]
+      );
+      found.set(merchant.normalized_key, result.rows[0]);
+    }
+
+    return found;
+  }
+
+  /**
+   * Get a user's merchants with how much they've spent at each
+   */
+  static async findByUser(userId: string): Promise<(Merchant & { transaction_count: number; total_spent: number })[]> {
+    const result = await query(
+      `SELECT m.*,
+              COUNT(t.id)::int AS transaction_count,
+              COALESCE(SUM(CASE WHEN t.is_income = false THEN t.amount ELSE 0 END), 0) AS total_spent
+       FROM merchants m
+       LEFT JOIN transactions t ON t.merchant_id = m.id
+       WHERE m.user_id = $1
+       GROUP BY m.id
+       ORDER BY total_spent DESC, m.name`,
+      [userId]
+    );
+
+    return result.rows.map(row => ({ ...row, total_spent: parseFloat(row.total_spent) }));
+  }
+
+  /**
+   * Update a merchant's display details
+   */
+  static async update(id: string, userId: string, updates: MerchantUpdates): Promise<Merchant | null> {
+    const fields: string[] = [];
+    const values: any[] = [];
+
+    for (const column of ['name', 'default_category', 'logo_url', 'color'] as const) {
+      if (updates[column] !== undefined) {
+        values.push(updates[column] || null);
+        fields.push(`${column} = $${values.length}`);
+      }
+    }
+
+    if (fields.length === 0) {
+      const result = await query('SELECT * FROM merchants WHERE id = $1 AND user_id = $2', [id, userId]);
+      return result.rows[0] || null;
+    }
+
+    fields.push('updated_at = CURRENT_TIMESTAMP');
+    values.push(id, userId);
+
+    const result = await query(
+      `UPDATE merchants SET ${fields.join(', ')}
+       WHERE id = $${values.length - 1} AND user_id = $${values.length}
+       RETURNING *`,
+      values
+    );
+
+    return result.rows[0] || null;
+  }
+}
@@ -0,0 +1,86 @@
+/**
+ * Staged Transaction Model
+ *
+ * Database operations for parsed statement rows waiting on the import
+ * review screen. Processing a file replaces its staged rows; committing
+ * the review moves the approved rows into transactions.
+ */
+
+import { PoolClient } from 'pg';
+import { query } from '../config/database';
+import { StagedTransaction } from '../types';
+
+// A parsed row as handed over by processing (dates as YYYY-MM-DD)
+export interface NewStagedTransaction
+  extends Omit<StagedTransaction, 'id' | 'user_id' | 'file_id' | 'row_index' | 'transaction_date' | 'value_date' | 'created_at'> {
+  transaction_date: string;
+  value_date?: string;
+}
+
+export class StagedTransactionModel {
+  /**
+   * Replace a file's staged rows (re-processing starts the review over)
+   */
+  static async replaceForFile(client: PoolClient, userId: string, fileId: string, rows: NewStagedTransaction[]): Promise<void> {
+    await client.query('DELETE FROM staged_transactions WHERE file_id = $1 AND user_id = $2', [fileId, userId]);
+
+    for (let i = 0; i < rows.length; i++) {
+      const row = rows[i];
+      await client.query(
+        `INSERT INTO staged_transactions
+         (user_id, file_id, row_index, transaction_date, description, amount, category, subcategory, is_income,
+          external_id, account_id, value_date, counterparty, currency, ocr_confidence, duplicate_of, excluded, warnings,
+          tags, original_description, categorization_rule_id, merchant_id)
+         VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, $12, $13, $14, $15, $16, $17, $18, $19, $20, $21, $22)`,
+        [
+          userId,
+          fileId,
+          i,
+          row.transaction_date,
+          row.description,
+          row.amount,
+          row.category || null,
+          row.subcategory || null,
+          row.is_income,
+          row.external_id || null,
+          row.account_id || null,
+          row.value_date || null,
+          row.counterparty || null,
+          row.currency || null,
+          row.ocr_confidence ?? null,
+          row.duplicate_of || null,
+          row.excluded,
+          JSON.stringify(row.warnings),
+          JSON.stringify(row.tags),
+          row.original_description || null,
+          row.categorization_rule_id || null,
+          row.merchant_id || null,
+        ]
+      );
+    }
+  }
+
+  /**
+   * Get a file's staged rows in file order (scoped to the owner)
+   */
+  static async findByFile(fileId: string, userId: string): Promise<StagedTransaction[]> {
+    const result = await query(
+      'SELECT * FROM staged_transactions WHERE file_id = $1 AND user_id = $2 ORDER BY row_index',
+      [fileId, userId]
+    );
+
+    return result.rows;
+  }
+
+  /**
+   * Discard a file's staged rows
+   */
+  static async deleteByFile(client: PoolClient, fileId: string, userId: string): Promise<number> {
+    const result = await client.query(
+      'DELETE FROM staged_transactions WHERE file_id = $1 AND user_id = $2',
+      [fileId, userId]
+    );
+
+    return result.rowCount || 0;
+  }
+}
@@ -24,7 +24,8 @@ export class UserModel {
     const result = await query(
       `INSERT INTO users (email, password_hash, first_name, last_name, agreed_to_terms, terms_agreed_at)
        VALUES ($1, $2, $3, $4, $5, $6)
-       RETURNING id, email, first_name, last_name, agreed_to_terms, created_at`,
+       RETURNING id, email, first_name, last_name, agreed_to_terms, auto_process_uploads,
+                 delete_statements_after_processing, created_at`,
       [
         userData.email.toLowerCase(),
         passwordHash,
@@ -80,6 +81,8 @@ export class UserModel {
       first_name: user.first_name,
       last_name: user.last_name,
       agreed_to_terms: user.agreed_to_terms,
+      auto_process_uploads: user.auto_process_uploads,
+      delete_statements_after_processing: user.delete_statements_after_processing,
       created_at: user.created_at,
     };
   }
@@ -96,6 +99,26 @@ export class UserModel {
     );
   }
 
+  /**
+   * Update user's preferences
+   */
+  static async updatePreferences(
+    userId: string,
+    preferences: { auto_process_uploads?: boolean; delete_statements_after_processing?: boolean }
+  ): Promise<User | null> {
+    const result = await query(
+      `UPDATE users
+       SET auto_process_uploads = COALESCE($1, auto_process_uploads),
+           delete_statements_after_processing = COALESCE($2, delete_statements_after_processing),
+           updated_at = CURRENT_TIMESTAMP
+       WHERE id = $3
+       RETURNING *`,
+      [preferences.auto_process_uploads ?? null, preferences.delete_statements_after_processing ?? null, userId]
+    );
+
+    return result.rows[0] || null;
+  }
+
   /**
    * Delete a user (for GDPR/CCPA compliance)
    */
@@ -0,0 +1,90 @@
+/**
+ * User Data Key Model
+ *
+ * Database operations for the per-user keys that encrypt uploaded files.
+ * Only wrapped keys are stored; EncryptionService unwraps them with the
+ * master key.
+ */
+
+import { query } from '../config/database';
+import { UserDataKey } from '../types';
+
+export class UserDataKeyModel {
+  /**
+   * The key new files of this user are encrypted with
+   */
+  static async findActive(userId: string): Promise<UserDataKey | null> {
+    const result = await query(
+      `SELECT * FROM user_data_keys WHERE user_id = $1 AND status = 'active'`,
+      [userId]
+    );
+
+    return result.rows[0] || null;
+  }
+
+  /**
+   * Store a new active key. Returns null if the user already has one
+   * (another request created it first).
+   */
+  static async createActive(userId: string, wrappedKey: string, masterKeyId: string): Promise<UserDataKey | null> {
+    const result = await query(
+      `INSERT INTO user_data_keys (user_id, wrapped_key, master_key_id)
+       VALUES ($1, $2, $3)
+       ON CONFLICT (user_id) WHERE status = 'active' DO NOTHING
+       RETURNING *`,
+      [userId, wrappedKey, masterKeyId]
+    );
+
+    return result.rows[0] || null;
+  }
+
+  static async findById(id: string): Promise<UserDataKey | null> {
+    const result = await query('SELECT * FROM user_data_keys WHERE id = $1', [id]);
+    return result.rows[0] || null;
+  }
+
+  /**
+   * Keys not yet wrapped by the given master key
+   */
+  static async findWrappedByOtherMasterKeys(masterKeyId: string): Promise<UserDataKey[]> {
+    const result = await query(
+      'SELECT * FROM user_data_keys WHERE master_key_id <> $1',
+      [masterKeyId]
+    );
+
+    return result.rows;
+  }
+
+  /**
+   * Replace a key's wrapping (after a master key rotation)
+   */
+  static async updateWrapping(id: string, wrappedKey: string, masterKeyId: string): Promise<void> {
+    await query(
+      'UPDATE user_data_keys SET wrapped_key = $2, master_key_id = $3 WHERE id = $1',
+      [id, wrappedKey, masterKeyId]
+    );
+  }
+
+  /**
+   * Stop using the user's current key for new files
+   */
+  static async retireActive(userId: string): Promise<void> {
+    await query(
+      `UPDATE user_data_keys SET status = 'retired', retired_at = CURRENT_TIMESTAMP
+       WHERE user_id = $1 AND status = 'active'`,
+      [userId]
+    );
+  }
+
+  /**
+   * Remove retired keys no stored file is encrypted with any more
+   */
+  static async deleteUnusedRetired(userId: string): Promise<void> {
+    await query(
+      `DELETE FROM user_data_keys k
+       WHERE k.user_id = $1 AND k.status = 'retired'
+         AND NOT EXISTS (SELECT 1 FROM uploaded_files f WHERE f.encryption_key_id = k.id)`,
+      [userId]
+    );
+  }
+}
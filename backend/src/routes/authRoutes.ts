@@ -5,11 +5,12 @@
  * - POST /api/auth/register - Create new account
  * - POST /api/auth/login - Login
  * - GET /api/auth/me - Get current user (protected)
+ * - PATCH /api/auth/me/preferences - Update preferences (protected)
  */
 
 import express from 'express';
 import { AuthController } from '../controllers/authController';
-import { validateRegistration, validateLogin, checkValidation } from '../middleware/validation';
+import { validateRegistration, validateLogin, validatePreferences, checkValidation } from '../middleware/validation';
 import { authenticateToken } from '../middleware/auth';
 
 const router = express.Router();
@@ -36,4 +37,12 @@ router.get(
   AuthController.getCurrentUser
 );
 
+router.patch(
+  '/me/preferences',
+  authenticateToken,
+  validatePreferences,
+  checkValidation,
+  AuthController.updatePreferences
+);
+
 export default router;
@@ -0,0 +1,37 @@
+/**
+ * Category Routes
+ *
+ * The user's categories and subcategories:
+ * - GET /api/categories - Category tree (?includeArchived=true for archived ones)
+ * - POST /api/categories - Create a category, or a subcategory with parent_id
+ * - PUT /api/categories/:categoryId - Rename (re-assigns transactions), or set icon or colour
+ * - POST /api/categories/:categoryId/merge - Merge into { targetId } and archive
+ * - DELETE /api/categories/:categoryId - Archive
+ * - POST /api/categories/:categoryId/restore - Restore an archived category
+ *
+ * Default categories can be used but not changed.
+ */
+
+import { Router } from 'express';
+import { CategoryController } from '../controllers/categoryController';
+import { authenticateToken } from '../middleware/auth';
+import { validateCategory, validateCategoryMerge, checkValidation } from '../middleware/validation';
+
+const router = Router();
+
+// All category routes require authentication
+router.use(authenticateToken);
+
+router.get('/', CategoryController.getCategories);
+
+router.post('/', validateCategory(), checkValidation, CategoryController.createCategory);
+
+router.put('/:categoryId', validateCategory(true), checkValidation, CategoryController.updateCategory);
+
+router.post('/:categoryId/merge', validateCategoryMerge, checkValidation, CategoryController.mergeCategory);
+
+router.delete('/:categoryId', CategoryController.archiveCategory);
+
+router.post('/:categoryId/restore', CategoryController.restoreCategory);
+
+export default router;
@@ -0,0 +1,34 @@
+/**
+ * Import Profile Routes
+ *
+ * Saved CSV column mappings:
+ * - GET /api/import-profiles - List profiles
+ * - POST /api/import-profiles - Create a profile
+ * - PUT /api/import-profiles/:profileId - Update a profile
+ * - DELETE /api/import-profiles/:profileId - Delete a profile
+ * - GET /api/import-profiles/preview/:fileId - Columns, sample rows and matching profile for an upload
+ *
+ * A profile is applied by passing { profileId } to POST /api/transactions/process/:fileId
+ */
+
+import { Router } from 'express';
+import { ImportProfileController } from '../controllers/importProfileController';
+import { authenticateToken } from '../middleware/auth';
+import { validateImportProfile, checkValidation } from '../middleware/validation';
+
+const router = Router();
+
+// All import profile routes require authentication
+router.use(authenticateToken);
+
+router.get('/', ImportProfileController.getProfiles);
+
+router.get('/preview/:fileId', ImportProfileController.previewFile);
+
+router.post('/', validateImportProfile(), checkValidation, ImportProfileController.createProfile);
+
+router.put('/:profileId', validateImportProfile(true), checkValidation, ImportProfileController.updateProfile);
+
+router.delete('/:profileId', ImportProfileController.deleteProfile);
+
+export default router;
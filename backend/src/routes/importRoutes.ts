@@ -0,0 +1,34 @@
+/**
+ * Import Review Routes
+ *
+ * Processed statements wait here before their transactions are saved:
+ * - GET /api/imports/:fileId - Staged rows, parse warnings and reconciliation
+ * - POST /api/imports/:fileId/commit - Import the approved rows (with edits)
+ * - DELETE /api/imports/:fileId - Discard the staged rows
+ * - GET /api/imports/:fileId/batches - Processing runs of a file
+ * - POST /api/imports/batches/:batchId/revert - Remove the transactions a committed import inserted
+ *
+ * Rows are staged by POST /api/transactions/process/:fileId
+ */
+
+import { Router } from 'express';
+import { ImportController } from '../controllers/importController';
+import { authenticateToken } from '../middleware/auth';
+import { validateImportCommit, checkValidation } from '../middleware/validation';
+
+const router = Router();
+
+// All import routes require authentication
+router.use(authenticateToken);
+
+router.post('/batches/:batchId/revert', ImportController.revertBatch);
+
+router.get('/:fileId', ImportController.getStagedImport);
+
+router.get('/:fileId/batches', ImportController.getBatches);
+
+router.post('/:fileId/commit', validateImportCommit, checkValidation, ImportController.commitImport);
+
+router.delete('/:fileId', ImportController.discardImport);
+
+export default router;
@@ -0,0 +1,18 @@
+/**
+ * Job Routes
+ *
+ * - GET /api/jobs/:jobId - State and result of a background job
+ */
+
+import { Router } from 'express';
+import { JobController } from '../controllers/jobController';
+import { authenticateToken } from '../middleware/auth';
+
+const router = Router();
+
+// All job routes require authentication
+router.use(authenticateToken);
+
+router.get('/:jobId', JobController.getJob);
+
+export default router;
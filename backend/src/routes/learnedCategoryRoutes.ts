@@ -0,0 +1,26 @@
+/**
+ * Learned Category Routes
+ *
+ * Merchant -> category mappings learned from manual corrections
+ * (PUT /api/transactions/:transactionId):
+ * - GET /api/learned-categories - List mappings
+ * - DELETE /api/learned-categories/:mappingId - Forget a mapping
+ * - DELETE /api/learned-categories - Forget all mappings
+ */
+
+import { Router } from 'express';
+import { LearnedCategoryController } from '../controllers/learnedCategoryController';
+import { authenticateToken } from '../middleware/auth';
+
+const router = Router();
+
+// All learned category routes require authentication
+router.use(authenticateToken);
+
+router.get('/', LearnedCategoryController.getLearnedCategories);
+
+router.delete('/', LearnedCategoryController.forgetAll);
+
+router.delete('/:mappingId', LearnedCategoryController.forgetMapping);
+
+export default router;
@@ -0,0 +1,25 @@
+/**
+ * Merchant Routes
+ *
+ * Canonical merchants behind transaction descriptions:
+ * - GET /api/merchants - List merchants with spending totals
+ * - PUT /api/merchants/:merchantId - Rename, or set default category, logo or colour
+ *
+ * Merchant-level spending for a month is part of GET /api/transactions/analytics/:month/:year
+ */
+
+import { Router } from 'express';
+import { MerchantController } from '../controllers/merchantController';
+import { authenticateToken } from '../middleware/auth';
+import { validateMerchant, checkValidation } from '../middleware/validation';
+
+const router = Router();
+
+// All merchant routes require authentication
+router.use(authenticateToken);
+
+router.get('/', MerchantController.getMerchants);
+
+router.put('/:merchantId', validateMerchant, checkValidation, MerchantController.updateMerchant);
+
+export default router;
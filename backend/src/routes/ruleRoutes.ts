@@ -0,0 +1,40 @@
+/**
+ * Rule Routes
+ *
+ * User-defined categorization rules (run before AI categorization):
+ * - GET /api/rules - List rules in the order they run
+ * - POST /api/rules - Create a rule
+ * - PUT /api/rules/order - Set the order rules run in
+ * - POST /api/rules/apply - Apply rules to existing transactions (or preview with dryRun)
+ * - PUT /api/rules/:ruleId - Update a rule
+ * - DELETE /api/rules/:ruleId - Delete a rule
+ */
+
+import { Router } from 'express';
+import { RuleController } from '../controllers/ruleController';
+import { authenticateToken } from '../middleware/auth';
+import {
+  validateCategorizationRule,
+  validateRuleApplication,
+  validateRuleOrder,
+  checkValidation,
+} from '../middleware/validation';
+
+const router = Router();
+
+// All rule routes require authentication
+router.use(authenticateToken);
+
+router.get('/', RuleController.getRules);
+
+router.post('/', validateCategorizationRule(), checkValidation, RuleController.createRule);
+
+router.put('/order', validateRuleOrder, checkValidation, RuleController.reorderRules);
+
+router.post('/apply', validateRuleApplication, checkValidation, RuleController.applyRules);
+
+router.put('/:ruleId', validateCategorizationRule(true), checkValidation, RuleController.updateRule);
+
+router.delete('/:ruleId', RuleController.deleteRule);
+
+export default router;
@@ -0,0 +1,16 @@
+/**
+ * Storage Routes
+ *
+ * - GET /api/storage/<key> - Download with a presigned URL (local storage only)
+ *
+ * No login needed: the URL's signature is the credential.
+ */
+
+import { Router } from 'express';
+import { StorageController } from '../controllers/storageController';
+
+const router = Router();
+
+router.get('/*', StorageController.getSignedFile);
+
+export default router;
@@ -5,6 +5,7 @@
 import { Router } from 'express';
 import { TransactionController } from '../controllers/transactionController';
 import { authenticateToken } from '../middleware/auth';
+import { validateTransactionUpdate, checkValidation } from '../middleware/validation';
 
 const router = Router();
 
@@ -30,7 +31,7 @@ router.get('/export', TransactionController.exportTransactions);
 router.get('/categories', TransactionController.getCategories);
 
 // Update a transaction
-router.put('/:transactionId', TransactionController.updateTransaction);
+router.put('/:transactionId', validateTransactionUpdate, checkValidation, TransactionController.updateTransaction);
 
 // Delete a transaction
 router.delete('/:transactionId', TransactionController.deleteTransaction);
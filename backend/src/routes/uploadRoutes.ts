@@ -2,13 +2,14 @@
  * Upload Routes
  *
  * These define the API endpoints for file uploads:
- * - POST /api/upload - Upload a bank statement
+ * - POST /api/upload - Upload bank statements (files or ZIP archives)
  * - GET /api/upload/files - Get user's files
+ * - GET /api/upload/:fileId/progress - Processing progress (Server-Sent Events)
  * - DELETE /api/upload/:fileId - Delete a file
  */
 
 import express from 'express';
-import { UploadController, upload } from '../controllers/uploadController';
+import { UploadController, upload, MAX_FILES_PER_UPLOAD } from '../controllers/uploadController';
 import { authenticateToken } from '../middleware/auth';
 
 const router = express.Router();
@@ -16,16 +17,22 @@ const router = express.Router();
 // All upload routes require authentication
 router.use(authenticateToken);
 
-// Upload a file
+// Upload files ('file' for a single statement, 'files' for several)
 router.post(
   '/',
-  upload.single('file'), // 'file' is the form field name
+  upload.fields([
+    { name: 'file', maxCount: 1 },
+    { name: 'files', maxCount: MAX_FILES_PER_UPLOAD },
+  ]),
   UploadController.uploadFile
 );
 
 // Get user's uploaded files
 router.get('/files', UploadController.getUserFiles);
 
+// Follow a file's processing progress
+router.get('/:fileId/progress', UploadController.streamProgress);
+
 // Delete a file
 router.delete('/:fileId', UploadController.deleteFile);
 
@@ -16,6 +16,14 @@ import authRoutes from './routes/authRoutes';
 import uploadRoutes from './routes/uploadRoutes';
 import waitlistRoutes from './routes/waitlistRoutes';
 import transactionRoutes from './routes/transactionRoutes';
+import importProfileRoutes from './routes/importProfileRoutes';
+import importRoutes from './routes/importRoutes';
+import jobRoutes from './routes/jobRoutes';
+import storageRoutes from './routes/storageRoutes';
+import ruleRoutes from './routes/ruleRoutes';
+import learnedCategoryRoutes from './routes/learnedCategoryRoutes';
+import merchantRoutes from './routes/merchantRoutes';
+import categoryRoutes from './routes/categoryRoutes';
 import { pool } from './config/database';
 
 // Load environment variables
@@ -60,6 +68,14 @@ app.use('/api/auth', authRoutes);
 app.use('/api/upload', uploadRoutes);
 app.use('/api/waitlist', waitlistRoutes);
 app.use('/api/transactions', transactionRoutes);
+app.use('/api/import-profiles', importProfileRoutes);
+app.use('/api/imports', importRoutes);
+app.use('/api/jobs', jobRoutes);
+app.use('/api/storage', storageRoutes);
+app.use('/api/rules', ruleRoutes);
+app.use('/api/learned-categories', learnedCategoryRoutes);
+app.use('/api/merchants', merchantRoutes);
+app.use('/api/categories', categoryRoutes);
 
 // 404 handler for undefined routes
 app.use((req: Request, res: Response) => {
@@ -76,11 +92,16 @@ app.use((err: Error, req: Request, res: Response, next: NextFunction) => {
   console.error('Error:', err);
 
   // Multer errors (file upload)
-  if (err.message.includes('Only PDF and CSV files')) {
+  if (err.message.includes('files are allowed')) {
     res.status(400).json({ error: err.message });
     return;
   }
 
+  if (err.message.includes('Too many files')) {
+    res.status(400).json({ error: 'Too many files in one upload' });
+    return;
+  }
+
   if (err.message.includes('File too large')) {
     res.status(413).json({ error: 'File size exceeds 10MB limit' });
     return;
@@ -0,0 +1,90 @@
+import { AICategorizationService } from './aiCategorizationService';
+import { CategoryService, CategoryHierarchy } from './categoryService';
+import { LearnedCategoryService } from './learnedCategoryService';
+import { LearnedCategory } from '../types';
+
+const hierarchy: CategoryHierarchy = new Map([
+  ['food & dining', { name: 'Food & Dining', subcategories: new Map([['coffee', 'Coffee']]) }],
+  ['shopping', { name: 'Shopping', subcategories: new Map() }],
+]);
+
+const mapping = (fields: Partial<LearnedCategory>): LearnedCategory => ({
+  id: 'learned-1',
+  user_id: 'user-1',
+  merchant_key: 'blue bottle',
+  merchant_name: 'Blue Bottle',
+  category: 'Food & Dining',
+  times_corrected: 1,
+  times_applied: 0,
+  created_at: new Date(),
+  updated_at: new Date(),
+  ...fields,
+});
+
+describe('AICategorizationService.categorizeTransactions', () => {
+  const coffee = { description: 'SQ *BLUE BOTTLE 0423', amount: 4.5, isIncome: false };
+
+  beforeEach(() => {
+    jest.restoreAllMocks();
+    jest.spyOn(CategoryService, 'getHierarchy').mockResolvedValue(hierarchy);
+  });
+
+  it('uses what was learned for the merchant, spelled as the user spells it', async () => {
+    jest.spyOn(LearnedCategoryService, 'match').mockResolvedValue([mapping({ category: 'food & dining', subcategory: 'COFFEE' })]);
+
+    const [result] = await AICategorizationService.categorizeTransactions([coffee], undefined, 'user-1');
+
+    expect(result).toMatchObject({ category: 'Food & Dining', subcategory: 'Coffee', confidence: 1 });
+  });
+
+  it('drops a learned subcategory the category no longer has', async () => {
+    jest.spyOn(LearnedCategoryService, 'match').mockResolvedValue([mapping({ subcategory: 'Pastries' })]);
+
+    const [result] = await AICategorizationService.categorizeTransactions([coffee], undefined, 'user-1');
+
+    expect(result).toMatchObject({ category: 'Food & Dining', subcategory: undefined });
+  });
+
+  it('ignores a learned category the user no longer has', async () => {
+    jest.spyOn(LearnedCategoryService, 'match').mockResolvedValue([mapping({ category: 'Treats' })]);
+
+    const [result] = await AICategorizationService.categorizeTransactions(
+      [{ ...coffee, category: 'Shopping' }], undefined, 'user-1'
+    );
+
+    expect(result).toMatchObject({ category: 'Shopping' });
+  });
+});
+
+describe('AICategorizationService result cache', () => {
+  let categorizeChunk: jest.SpyInstance;
+
+  beforeEach(() => {
+    jest.restoreAllMocks();
+    jest.spyOn(CategoryService, 'getHierarchy').mockResolvedValue(hierarchy);
+    jest.spyOn(LearnedCategoryService, 'match').mockResolvedValue([]);
+    categorizeChunk = jest.spyOn(AICategorizationService as any, 'categorizeChunk')
+      .mockImplementation(async (lines: any) => new Map(lines.map((line: any) => [line.index, { category: 'Shopping', confidence: 0.9 }])));
+  });
+
+  it('asks once per description and reuses the answer', async () => {
+    const trips = ['UBER *TRIP 8H2K 04/12', 'UBER *TRIP 9XQ1 05/03'].map(description => ({ description, amount: 12, isIncome: false }));
+
+    await AICategorizationService.categorizeTransactions(trips, undefined, 'user-cache-1');
+    const again = await AICategorizationService.categorizeTransactions(trips, undefined, 'user-cache-1');
+
+    expect(categorizeChunk).toHaveBeenCalledTimes(1);
+    expect(categorizeChunk.mock.calls[0][0]).toHaveLength(1);
+    expect(again.map(result => result.category)).toEqual(['Shopping', 'Shopping']);
+  });
+
+  it('does not share answers between descriptions that are little more than numbers', async () => {
+    const transfers = ['POS 123456', 'TFR 99812', '0042 1187'].map(description => ({ description, amount: 50, isIncome: false }));
+
+    await AICategorizationService.categorizeTransactions(transfers, undefined, 'user-cache-2');
+    await AICategorizationService.categorizeTransactions(transfers, undefined, 'user-cache-2');
+
+    expect(categorizeChunk).toHaveBeenCalledTimes(2);
+    expect(categorizeChunk.mock.calls.map(([lines]) => lines.length)).toEqual([3, 3]);
+  });
+});
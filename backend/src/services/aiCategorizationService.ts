@@ -7,6 +7,8 @@
 
 import OpenAI from 'openai';
 import { query } from '../config/database';
+import { LearnedCategoryService } from './learnedCategoryService';
+import { CategoryService, CategoryHierarchy } from './categoryService';
 
 // Only initialize OpenAI if API key is configured
 const openai = process.env.OPENAI_API_KEY && process.env.OPENAI_API_KEY !== 'your-openai-api-key'
@@ -61,12 +63,46 @@ export interface CategorizedTransaction {
   confidence: number;
 }
 
+// What the AI decided for one line
+type AIResult = Omit<CategorizedTransaction, 'description'>;
+
+// A transaction as sent to the AI; index is its key in the prompt and the response
+interface AIRequestLine {
+  index: number;
+  description: string;
+  amount: number;
+  isIncome: boolean;
+}
+
+// Transactions sent to the AI in one request
+const AI_CHUNK_SIZE = 40;
+
+// Requests per chunk: the first, then re-requests for lines that came back missing or invalid
+const MAX_CHUNK_ATTEMPTS = 3;
+
+// AI results are reused for transactions with the same normalized description
+const RESULT_CACHE_TTL_MS = 24 * 60 * 60 * 1000; // 1 day
+const RESULT_CACHE_MAX_ENTRIES = 5000;
+
+// Shorter normalized descriptions ("pos", "tfr") say too little to share an answer
+const MIN_CACHED_DESCRIPTION_LENGTH = 4;
+
+/**
+ * A description without reference numbers, dates, punctuation or case, so
+ * "UBER *TRIP 8H2K 04/12" and "UBER *TRIP 9XQ1 05/03" share a cache entry
+ */
+const normalizeDescription = (description: string) =>
+  description.toLowerCase().replace(/[a-z]*\d[a-z\d]*/g, ' ').replace(/[^a-z&']+/g, ' ').trim();
+
 export class AICategorizationService {
   // Cache for categories to avoid repeated DB queries
   private static categoriesCache: string[] | null = null;
   private static categoriesCacheTime: number = 0;
   private static CACHE_TTL_MS = 60000; // 1 minute cache
 
+  // AI results by user (or "default"), direction and normalized description
+  private static resultCache = new Map<string, { result: AIResult; cachedAt: number }>();
+
   /**
    * Get categories with caching
    */
@@ -87,6 +123,26 @@ export class AICategorizationService {
     }
   }
 
+  /**
+   * The categories (and subcategories) transactions may be given: the
+   * user's own alongside the defaults, or just the defaults
+   */
+  private static async getAllowedCategories(userId?: string): Promise<CategoryHierarchy> {
+    if (userId) {
+      try {
+        return await CategoryService.getHierarchy(userId);
+      } catch (error) {
+        console.error('Failed to load user categories:', error);
+      }
+    }
+
+    const allowed: CategoryHierarchy = new Map();
+    for (const name of await this.getCategories()) {
+      allowed.set(name.toLowerCase(), { name, subcategories: new Map() });
+    }
+    return allowed;
+  }
+
   /**
    * Check if AI is available
    */
@@ -95,98 +151,316 @@ export class AICategorizationService {
   }
 
   /**
-   * Categorize a single transaction using AI
+   * Categorize a single transaction (see categorizeTransactions)
    */
-  static async categorizeTransaction(description: string, amount: number, isIncome: boolean): Promise<CategorizedTransaction> {
-    // If AI not configured, use rule-based immediately
-    if (!openai) {
-      console.log('OpenAI not configured, using rule-based categorization');
-      return this.fallbackCategorization(description, isIncome);
+  static async categorizeTransaction(
+    description: string,
+    amount: number,
+    isIncome: boolean,
+    userId?: string
+  ): Promise<CategorizedTransaction> {
+    const [result] = await this.categorizeTransactions([{ description, amount, isIncome }], undefined, userId);
+    return result;
+  }
+
+  /**
+   * Use a suggested category (one that came with the file, e.g. a QIF export,
+   * or a merchant's default) if it is one of ours
+   */
+  private static categorizeFromHint(
+    description: string,
+    allowed: CategoryHierarchy,
+    category?: string | null,
+    subcategory?: string
+  ): CategorizedTransaction | null {
+    const match = category ? allowed.get(category.trim().toLowerCase())?.name : undefined;
+    if (!match) {
+      return null;
     }
 
-    try {
-      const categories = await this.getCategories();
+    return {
+      description,
+      category: match,
+      subcategory: CategoryService.fitSubcategory(allowed, match, subcategory),
+      confidence: 1,
+    };
+  }
 
-      const prompt = `Categorize this transaction into one of the following categories: ${categories.join(', ')}.
+  /**
+   * Categorize multiple transactions, reporting progress as they're done.
+   * With a userId, categories the user taught us by correcting earlier
+   * transactions from the same merchant are used before anything else;
+   * then the merchant's default category, then a category that came with the file,
+   * all within the user's own categories.
+   *
+   * The rest go to the AI in chunks, one request per chunk, each distinct
+   * description once. Answers outside the allowed categories are re-requested;
+   * whatever still fails gets rule-based categorization. Answers are cached
+   * by normalized description, so repeat merchants skip the AI next time.
+   */
+  static async categorizeTransactions(
+    transactions: Array<{
+      description: string;
+      amount: number;
+      isIncome: boolean;
+      counterparty?: string | null;
+      merchantCategory?: string | null;
+      category?: string;
+      subcategory?: string;
+    }>,
+    onProgress?: (categorized: number, total: number) => void,
+    userId?: string
+  ): Promise<CategorizedTransaction[]> {
+    const results: CategorizedTransaction[] = new Array(transactions.length);
+    const learned = userId ? await LearnedCategoryService.match(userId, transactions) : [];
+    const allowed = await this.getAllowedCategories(userId);
+
+    // Transactions left for the AI, by cache key (one line in the prompt each)
+    const needsAI = new Map<string, number[]>();
+    // Keys of lines whose answers aren't cached
+    const uncached = new Set<string>();
+
+    transactions.forEach((t, i) => {
+      // A learned category the user has since removed falls through to the rest
+      const mapping = learned[i];
+      const learnedCategory = mapping && allowed.get(mapping.category.toLowerCase())?.name;
+      if (mapping && learnedCategory) {
+        results[i] = {
+          description: t.description,
+          category: learnedCategory,
+          subcategory: CategoryService.fitSubcategory(allowed, learnedCategory, mapping.subcategory),
+          confidence: 1,
+        };
+        return;
+      }
 
-Transaction: ${description}
-Amount: $${Math.abs(amount)}
-Type: ${isIncome ? 'Income' : 'Expense'}
+      // Money in from a merchant (a refund) isn't spending in its category
+      const hint = (t.isIncome ? null : this.categorizeFromHint(t.description, allowed, t.merchantCategory))
+        || this.categorizeFromHint(t.description, allowed, t.category, t.subcategory);
+      if (hint) {
+        results[i] = hint;
+        return;
+      }
 
-Respond with ONLY a JSON object in this format:
-{
-  "category": "category name",
-  "subcategory": "optional subcategory",
-  "confidence": 0.95
-}`;
+      const cacheKey = this.cacheKey(userId, t.description, t.isIncome);
+      const cached = cacheKey ? this.getCachedResult(cacheKey, allowed) : null;
+      if (cached) {
+        results[i] = { description: t.description, ...cached };
+        return;
+      }
 
-      const result = await withRetry(async () => {
-        const completion = await openai!.chat.completions.create({
-          model: 'gpt-4o-mini',
-          messages: [
-            {
-              role: 'system',
-              content: 'You are a financial categorization expert. Categorize transactions accurately based on their description and amount. Always respond with valid JSON only.',
-            },
-            {
-              role: 'user',
-              content: prompt,
-            },
-          ],
-          temperature: 0.3,
-          max_tokens: 100,
-        });
-
-        const responseText = completion.choices[0]?.message?.content?.trim();
-        if (!responseText) {
-          throw new Error('No response from AI');
-        }
+      const key = cacheKey || `uncached:${i}`;
+      if (!cacheKey) {
+        uncached.add(key);
+      }
+      needsAI.set(key, [...(needsAI.get(key) || []), i]);
+    });
+
+    let categorized = transactions.length - [...needsAI.values()].reduce((count, indexes) => count + indexes.length, 0);
+    onProgress?.(categorized, transactions.length);
+
+    if (needsAI.size > 0 && !openai) {
+      console.log('OpenAI not configured, using rule-based categorization');
+    }
+
+    const keys = [...needsAI.keys()];
+    for (let start = 0; start < keys.length; start += AI_CHUNK_SIZE) {
+      const chunkKeys = keys.slice(start, start + AI_CHUNK_SIZE);
+      const lines = chunkKeys.map((key, index) => {
+        const t = transactions[needsAI.get(key)![0]];
+        return { index, description: t.description, amount: t.amount, isIncome: t.isIncome };
+      });
+
+      const answers = await this.categorizeChunk(lines, allowed);
 
-        // Parse JSON, handling potential markdown code blocks
-        let jsonStr = responseText;
-        if (jsonStr.startsWith('```')) {
-          jsonStr = jsonStr.replace(/```json?\n?/g, '').replace(/```/g, '').trim();
+      chunkKeys.forEach((key, index) => {
+        const answer = answers.get(index);
+        if (answer && !uncached.has(key)) {
+          this.cacheResult(key, answer);
         }
 
-        return JSON.parse(jsonStr);
+        for (const i of needsAI.get(key)!) {
+          const t = transactions[i];
+          results[i] = answer
+            ? { description: t.description, ...answer }
+            : this.fallbackCategorization(t.description, t.isIncome);
+        }
+        categorized += needsAI.get(key)!.length;
       });
 
-      return {
-        description,
-        category: result.category || 'Other',
-        subcategory: result.subcategory,
-        confidence: result.confidence || 0.5,
-      };
-    } catch (error) {
-      console.error('AI categorization error after retries:', error);
-      // Fallback to rule-based categorization
-      return this.fallbackCategorization(description, isIncome);
+      onProgress?.(categorized, transactions.length);
     }
+
+    return results;
   }
 
   /**
-   * Categorize multiple transactions in batch
+   * Ask the AI about a chunk of transactions, re-requesting the lines it
+   * left out or answered with a category we don't have. Returns the valid
+   * answers by line index.
    */
-  static async categorizeTransactions(
-    transactions: Array<{ description: string; amount: number; isIncome: boolean }>
-  ): Promise<CategorizedTransaction[]> {
-    const results: CategorizedTransaction[] = [];
-
-    // Process in batches of 5 to avoid rate limits
-    for (let i = 0; i < transactions.length; i += 5) {
-      const batch = transactions.slice(i, i + 5);
-      const batchResults = await Promise.all(
-        batch.map(t => this.categorizeTransaction(t.description, t.amount, t.isIncome))
-      );
-      results.push(...batchResults);
-
-      // Small delay between batches
-      if (i + 5 < transactions.length) {
-        await new Promise(resolve => setTimeout(resolve, 1000));
+  private static async categorizeChunk(lines: AIRequestLine[], allowed: CategoryHierarchy): Promise<Map<number, AIResult>> {
+    const answers = new Map<number, AIResult>();
+    if (!openai) {
+      return answers;
+    }
+
+    let pending = lines;
+    for (let attempt = 1; attempt <= MAX_CHUNK_ATTEMPTS && pending.length > 0; attempt++) {
+      try {
+        const response = await withRetry(() => this.requestCategories(pending, allowed));
+
+        for (const line of pending) {
+          const answer = this.validateAnswer(response[String(line.index)], allowed);
+          if (answer) {
+            answers.set(line.index, answer);
+          }
+        }
+      } catch (error) {
+        // The request itself keeps failing; re-requesting won't help
+        console.error('AI categorization error after retries:', error);
+        break;
+      }
+
+      pending = pending.filter(line => !answers.has(line.index));
+      if (pending.length > 0 && attempt < MAX_CHUNK_ATTEMPTS) {
+        console.log(`Re-requesting ${pending.length} transaction(s) the AI didn't categorize`);
       }
     }
 
-    return results;
+    return answers;
+  }
+
+  /**
+   * One chat completion for a chunk of lines. Returns the answers keyed by
+   * line index, as the AI gave them.
+   */
+  private static async requestCategories(lines: AIRequestLine[], allowed: CategoryHierarchy): Promise<Record<string, any>> {
+    const categories = [...allowed.values()].map(c =>
+      c.subcategories.size > 0 ? `${c.name} (subcategories: ${[...c.subcategories.values()].join(', ')})` : c.name
+    );
+
+    const prompt = `Categorize each transaction into one of the following categories: ${categories.join('; ')}.
+Only use a subcategory listed for the chosen category.
+
+Transactions (index. description | amount | type):
+${lines.map(line =>
+  `${line.index}. ${line.description.substring(0, 200)} | $${Math.abs(line.amount).toFixed(2)} | ${line.isIncome ? 'Income' : 'Expense'}`
+).join('\n')}
+
+Respond with ONLY a JSON object with an entry for every transaction, keyed by its index:
+{
+  "results": {
+    "${lines[0].index}": { "category": "category name", "subcategory": "subcategory name or null", "confidence": 0.95 }
+  }
+}`;
+
+    const completion = await openai!.chat.completions.create({
+      model: 'gpt-4o-mini',
+      messages: [
+        {
+          role: 'system',
+          content: 'You are a financial categorization expert. Categorize transactions accurately based on their description and amount. Always respond with valid JSON only.',
+        },
+        {
+          role: 'user',
+          content: prompt,
+        },
+      ],
+      response_format: { type: 'json_object' },
+      temperature: 0.3,
+      max_tokens: 100 + lines.length * 50,
+    });
+
+    const responseText = completion.choices[0]?.message?.content?.trim();
+    if (!responseText) {
+      throw new Error('No response from AI');
+    }
+
+    // Parse JSON, handling potential markdown code blocks
+    let jsonStr = responseText;
+    if (jsonStr.startsWith('```')) {
+      jsonStr = jsonStr.replace(/```json?\n?/g, '').replace(/```/g, '').trim();
+    }
+
+    const parsed = JSON.parse(jsonStr);
+    const results = parsed?.results ?? parsed;
+
+    // Tolerate a list of { index, ... } instead of an object keyed by index
+    if (Array.isArray(results)) {
+      return Object.fromEntries(results.map((result: any) => [String(result?.index), result]));
+    }
+    return results && typeof results === 'object' ? results : {};
+  }
+
+  /**
+   * An AI answer with its category (and subcategory) checked against the
+   * allowed ones, or null when the category isn't one of them
+   */
+  private static validateAnswer(answer: any, allowed: CategoryHierarchy): AIResult | null {
+    if (!answer || typeof answer.category !== 'string') {
+      return null;
+    }
+
+    const category = allowed.get(answer.category.trim().toLowerCase())?.name;
+    if (!category) {
+      return null;
+    }
+
+    const confidence = Number(answer.confidence);
+    return {
+      category,
+      subcategory: CategoryService.fitSubcategory(
+        allowed,
+        category,
+        typeof answer.subcategory === 'string' ? answer.subcategory : null
+      ),
+      confidence: confidence > 0 && confidence <= 1 ? confidence : 0.5,
+    };
+  }
+
+  /**
+   * Where an AI result for a description is cached, or null when too little
+   * is left after normalizing (e.g. "POS 123456") to reuse the answer safely
+   */
+  private static cacheKey(userId: string | undefined, description: string, isIncome: boolean): string | null {
+    const normalized = normalizeDescription(description);
+    if (normalized.length < MIN_CACHED_DESCRIPTION_LENGTH) {
+      return null;
+    }
+    return `${userId || 'default'}:${isIncome ? 'in' : 'out'}:${normalized}`;
+  }
+
+  /**
+   * A cached AI result that is still fresh and still one of the allowed
+   * categories (the user may have renamed or archived it since)
+   */
+  private static getCachedResult(key: string, allowed: CategoryHierarchy): AIResult | null {
+    const entry = this.resultCache.get(key);
+    if (!entry) {
+      return null;
+    }
+
+    const category = allowed.get(entry.result.category.toLowerCase())?.name;
+    if (!category || Date.now() - entry.cachedAt > RESULT_CACHE_TTL_MS) {
+      this.resultCache.delete(key);
+      return null;
+    }
+
+    return {
+      ...entry.result,
+      category,
+      subcategory: CategoryService.fitSubcategory(allowed, category, entry.result.subcategory),
+    };
+  }
+
+  private static cacheResult(key: string, result: AIResult): void {
+    // Maps iterate in insertion order, so the first key is the oldest entry
+    if (this.resultCache.size >= RESULT_CACHE_MAX_ENTRIES && !this.resultCache.has(key)) {
+      this.resultCache.delete(this.resultCache.keys().next().value!);
+    }
+    this.resultCache.delete(key);
+    this.resultCache.set(key, { result, cachedAt: Date.now() });
   }
 
   /**
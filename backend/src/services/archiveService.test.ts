@@ -0,0 +1,158 @@
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import zlib from 'zlib';
+import { ArchiveService, ArchiveLimits } from './archiveService';
+
+interface ZipEntry {
+  name: string;
+  data?: string;
+  declaredSize?: number; // Uncompressed size to claim, to fake a zip bomb
+  encrypted?: boolean;
+}
+
+/**
+ * Write a minimal deflated ZIP. CRCs are left at zero, which yauzl doesn't check.
+ */
+function writeZip(file: string, entries: ZipEntry[]): void {
+  const locals: Buffer[] = [];
+  const central: Buffer[] = [];
+  let offset = 0;
+
+  for (const entry of entries) {
+    const name = Buffer.from(entry.name);
+    const raw = Buffer.from(entry.data || '');
+    const data = zlib.deflateRawSync(raw);
+    const flags = entry.encrypted ? 1 : 0;
+    const size = entry.declaredSize ?? raw.length;
+
+    const local = Buffer.alloc(30);
+    local.writeUInt32LE(0x04034b50, 0);
+    local.writeUInt16LE(20, 4);
+    local.writeUInt16LE(flags, 6);
+    local.writeUInt16LE(8, 8);
+    local.writeUInt32LE(data.length, 18);
+    local.writeUInt32LE(size, 22);
+    local.writeUInt16LE(name.length, 26);
+    locals.push(local, name, data);
+
+    const header = Buffer.alloc(46);
+    header.writeUInt32LE(0x02014b50, 0);
+    header.writeUInt16LE(20, 4);
+    header.writeUInt16LE(20, 6);
+    header.writeUInt16LE(flags, 8);
+    header.writeUInt16LE(8, 10);
+    header.writeUInt32LE(data.length, 20);
+    header.writeUInt32LE(size, 24);
+    header.writeUInt16LE(name.length, 28);
+    header.writeUInt32LE(offset, 42);
+    central.push(header, name);
+
+    offset += local.length + name.length + data.length;
+  }
+
+  const directory = Buffer.concat(central);
+  const end = Buffer.alloc(22);
+  end.writeUInt32LE(0x06054b50, 0);
+  end.writeUInt16LE(entries.length, 8);
+  end.writeUInt16LE(entries.length, 10);
+  end.writeUInt32LE(directory.length, 12);
+  end.writeUInt32LE(offset, 16);
+
+  fs.writeFileSync(file, Buffer.concat([...locals, directory, end]));
+}
+
+describe('ArchiveService.extract', () => {
+  let root: string;
+  let zipPath: string;
+  let destDir: string;
+  let counter = 0;
+
+  const options = (limits?: ArchiveLimits) => ({
+    accept: (name: string) => /\.(csv|ofx)$/i.test(name),
+    nameFor: (name: string) => `${++counter}-${name}`,
+    limits,
+  });
+
+  beforeEach(() => {
+    root = fs.mkdtempSync(path.join(os.tmpdir(), 'archive-test-'));
+    zipPath = path.join(root, 'statements.zip');
+    destDir = path.join(root, 'uploads');
+    fs.mkdirSync(destDir);
+  });
+
+  afterEach(() => {
+    fs.rmSync(root, { recursive: true, force: true });
+  });
+
+  it('extracts the files it accepts under flattened names', async () => {
+    writeZip(zipPath, [
+      { name: '2025/' },
+      { name: '2025/january.csv', data: 'Date,Amount\n2025-01-05,-42.50\n' },
+      { name: 'docs/2025/february.ofx', data: '<OFX></OFX>' },
+      { name: '__MACOSX/2025/._january.csv', data: 'x' },
+      { name: '.DS_Store', data: 'x' },
+      { name: 'notes.txt', data: 'hello' },
+      { name: 'march.csv', data: 'secret', encrypted: true },
+    ]);
+
+    const { files, skipped } = await ArchiveService.extract(zipPath, destDir, options());
+
+    expect(files.map(f => f.name)).toEqual(['january.csv', 'february.ofx']);
+    for (const file of files) {
+      expect(path.dirname(file.path)).toBe(destDir);
+    }
+    expect(fs.readFileSync(files[0].path, 'utf8')).toBe('Date,Amount\n2025-01-05,-42.50\n');
+    expect(skipped).toEqual([
+      { name: 'notes.txt', reason: 'Not a supported statement file' },
+      { name: 'march.csv', reason: 'File is password protected' },
+    ]);
+  });
+
+  it('skips files over the size limit and past the file limit', async () => {
+    writeZip(zipPath, [
+      { name: 'big.csv', data: 'x'.repeat(200) },
+      { name: 'a.csv', data: 'a' },
+      { name: 'b.csv', data: 'b' },
+    ]);
+
+    const { files, skipped } = await ArchiveService.extract(zipPath, destDir, options({
+      maxEntries: 1, maxEntryBytes: 100, maxTotalBytes: 1000,
+    }));
+
+    expect(files.map(f => f.name)).toEqual(['a.csv']);
+    expect(skipped).toEqual([
+      { name: 'big.csv', reason: 'File is too large' },
+      { name: 'b.csv', reason: 'Archive has more than 1 files' },
+    ]);
+  });
+
+  it('rejects archives that unpack to too much, removing what was extracted', async () => {
+    writeZip(zipPath, [
+      { name: 'a.csv', data: 'x'.repeat(60) },
+      { name: 'b.csv', data: 'x'.repeat(60) },
+    ]);
+
+    await expect(ArchiveService.extract(zipPath, destDir, options({
+      maxEntries: 10, maxEntryBytes: 100, maxTotalBytes: 100,
+    }))).rejects.toThrow('Archive is too large to unpack');
+    expect(fs.readdirSync(destDir)).toEqual([]);
+  });
+
+  it('rejects entries that inflate past their declared size, leaving nothing behind', async () => {
+    writeZip(zipPath, [
+      { name: 'a.csv', data: 'a' },
+      { name: 'bomb.csv', data: '0'.repeat(100000), declaredSize: 10 },
+    ]);
+
+    await expect(ArchiveService.extract(zipPath, destDir, options())).rejects.toThrow(/too many bytes/);
+    expect(fs.readdirSync(destDir)).toEqual([]);
+  });
+
+  it('rejects entries that climb out of the archive', async () => {
+    writeZip(zipPath, [{ name: '../../february.ofx', data: '<OFX></OFX>' }]);
+
+    await expect(ArchiveService.extract(zipPath, destDir, options())).rejects.toThrow(/invalid relative path/);
+    expect(fs.readdirSync(root).sort()).toEqual(['statements.zip', 'uploads']);
+  });
+});
@@ -0,0 +1,124 @@
+/**
+ * Archive Service
+ *
+ * Unpacks ZIP uploads (e.g. a year of statements in one archive) into the
+ * uploads directory. Archives come from users, so extraction is defensive:
+ * - Entry names are flattened to their base name, so nothing is written
+ *   outside the destination (yauzl also rejects absolute and ../ paths)
+ * - Entry count, per-file size and total size are capped, and yauzl checks
+ *   that each entry really inflates to the size it declares (zip bombs)
+ * - Folders, hidden files, encrypted entries and files the caller doesn't
+ *   accept (including nested archives) are skipped
+ */
+
+import yauzl from 'yauzl';
+import fs from 'fs';
+import path from 'path';
+import { pipeline } from 'stream/promises';
+
+export interface ArchiveLimits {
+  maxEntries: number;     // Files extracted from one archive
+  maxEntryBytes: number;  // Size of one extracted file
+  maxTotalBytes: number;  // Size of everything extracted
+}
+
+export interface ExtractedFile {
+  name: string;  // Base name inside the archive
+  path: string;  // Where it was written
+  size: number;
+}
+
+export interface SkippedEntry {
+  name: string;
+  reason: string;
+}
+
+export const DEFAULT_ARCHIVE_LIMITS: ArchiveLimits = {
+  maxEntries: 100,
+  maxEntryBytes: 10 * 1024 * 1024,
+  maxTotalBytes: 200 * 1024 * 1024,
+};
+
+export class ArchiveService {
+  /**
+   * Is this upload a ZIP archive?
+   */
+  static isZip(filename: string, mimeType: string): boolean {
+    return path.extname(filename).toLowerCase() === '.zip' ||
+      ['application/zip', 'application/x-zip-compressed'].includes(mimeType);
+  }
+
+  /**
+   * Extract the files in a ZIP archive that `accept` allows into destDir.
+   * Each file is named by `nameFor` (so it can't clash with other uploads).
+   * Throws if the archive is unreadable or unsafe; anything already
+   * extracted is removed in that case.
+   */
+  static async extract(
+    zipPath: string,
+    destDir: string,
+    options: {
+      accept: (name: string) => boolean;
+      nameFor: (name: string) => string;
+      limits?: ArchiveLimits;
+    }
+  ): Promise<{ files: ExtractedFile[]; skipped: SkippedEntry[] }> {
+    const limits = options.limits || DEFAULT_ARCHIVE_LIMITS;
+    const files: ExtractedFile[] = [];
+    const skipped: SkippedEntry[] = [];
+    let totalBytes = 0;
+
+    const zip = await yauzl.openPromise(zipPath, { validateEntrySizes: true, strictFileNames: false });
+
+    try {
+      for await (const entry of zip.eachEntry()) {
+        const name = path.basename(entry.fileName.replace(/\\/g, '/'));
+
+        // Folders, macOS resource forks and dotfiles aren't statements
+        if (entry.fileName.endsWith('/') || entry.fileName.startsWith('__MACOSX/') || name.startsWith('.')) {
+          continue;
+        }
+        if (!options.accept(name)) {
+          skipped.push({ name, reason: 'Not a supported statement file' });
+          continue;
+        }
+        if (entry.isEncrypted()) {
+          skipped.push({ name, reason: 'File is password protected' });
+          continue;
+        }
+        if (entry.uncompressedSize > limits.maxEntryBytes) {
+          skipped.push({ name, reason: 'File is too large' });
+          continue;
+        }
+        if (files.length >= limits.maxEntries) {
+          skipped.push({ name, reason: `Archive has more than ${limits.maxEntries} files` });
+          continue;
+        }
+
+        totalBytes += entry.uncompressedSize;
+        if (totalBytes > limits.maxTotalBytes) {
+          throw new Error('Archive is too large to unpack');
+        }
+
+        const target = path.join(destDir, path.basename(options.nameFor(name)));
+        try {
+          await pipeline(await zip.openReadStreamPromise(entry), fs.createWriteStream(target));
+        } catch (error) {
+          // Don't leave a half-written file behind (e.g. one that inflated past its declared size)
+          fs.rmSync(target, { force: true });
+          throw error;
+        }
+        files.push({ name, path: target, size: entry.uncompressedSize });
+      }
+    } catch (error) {
+      for (const file of files) {
+        fs.rmSync(file.path, { force: true });
+      }
+      throw error;
+    } finally {
+      zip.close();
+    }
+
+    return { files, skipped };
+  }
+}
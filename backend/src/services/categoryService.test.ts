@@ -0,0 +1,60 @@
+import { CategoryService, CategoryError } from './categoryService';
+import { CategoryModel } from '../models/Category';
+import { withTransaction } from '../config/database';
+import { Category } from '../types';
+
+jest.mock('../config/database', () => ({ query: jest.fn(), withTransaction: jest.fn() }));
+jest.mock('../models/Category');
+
+const model = CategoryModel as jest.Mocked<typeof CategoryModel>;
+
+const category = (fields: Partial<Category>): Category => ({
+  id: 'category-1',
+  user_id: 'user-1',
+  name: 'Pets',
+  parent_id: null,
+  is_default: false,
+  archived_at: new Date('2025-03-01T00:00:00Z'),
+  created_at: new Date(),
+  ...fields,
+});
+
+describe('CategoryService.setArchived', () => {
+  const pets = category({});
+  const vet = category({ id: 'category-2', name: 'Vet', parent_id: 'category-1' });
+
+  beforeEach(() => {
+    jest.resetAllMocks();
+    (withTransaction as jest.Mock).mockImplementation(async (callback) => callback({}));
+    model.findVisibleById.mockResolvedValue(pets);
+    model.findSibling.mockResolvedValue(null);
+    model.findArchivedWith.mockResolvedValue([vet]);
+    model.setArchived.mockResolvedValue({ ...pets, archived_at: null });
+  });
+
+  it('checks the names of the subcategories it brings back', async () => {
+    await CategoryService.setArchived('user-1', 'category-1', false);
+
+    expect(model.findSibling).toHaveBeenCalledWith('user-1', 'Pets', null, 'category-1');
+    expect(model.findSibling).toHaveBeenCalledWith('user-1', 'Vet', 'category-1', 'category-2');
+    expect(model.setArchived).toHaveBeenCalledWith({}, 'category-1', 'user-1', false);
+  });
+
+  it('refuses to restore when a subcategory name is taken', async () => {
+    model.findSibling.mockImplementation(async (_userId, name) =>
+      name === 'Vet' ? category({ id: 'category-3', name: 'Vet', parent_id: 'category-1', archived_at: null }) : null
+    );
+
+    await expect(CategoryService.setArchived('user-1', 'category-1', false)).rejects.toBeInstanceOf(CategoryError);
+    expect(model.setArchived).not.toHaveBeenCalled();
+  });
+
+  it('archives without checking names', async () => {
+    model.setArchived.mockResolvedValue(pets);
+
+    await CategoryService.setArchived('user-1', 'category-1', true);
+
+    expect(model.findSibling).not.toHaveBeenCalled();
+    expect(model.setArchived).toHaveBeenCalledWith({}, 'category-1', 'user-1', true);
+  });
+});
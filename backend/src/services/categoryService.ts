@@ -0,0 +1,311 @@
+/**
+ * Category Service
+ *
+ * Manages each user's category hierarchy: the built-in defaults plus their
+ * own categories, one level of subcategories deep. Transactions (and the
+ * rules, learned categories and merchants that assign categories) store
+ * names, so renaming or merging a category re-assigns everything using it.
+ * Categories are archived rather than deleted, so old transactions keep them.
+ */
+
+import { PoolClient } from 'pg';
+import { withTransaction } from '../config/database';
+import { CategoryModel } from '../models/Category';
+import { Category, CategoryNode } from '../types';
+
+/**
+ * Thrown when a category change isn't allowed; the controller returns
+ * the message with the status code
+ */
+export class CategoryError extends Error {
+  constructor(message: string, public status: number = 400) {
+    super(message);
+    this.name = 'CategoryError';
+  }
+}
+
+// Lookup of a user's active categories: lowercased name -> name and subcategories
+export type CategoryHierarchy = Map<string, { name: string; subcategories: Map<string, string> }>;
+
+// A category or subcategory, by name, as stored on transactions
+interface CategoryRef {
+  category: string;
+  subcategory?: string;
+}
+
+export class CategoryService {
+  /**
+   * The user's categories as a tree, by name
+   */
+  static async getTree(userId: string, includeArchived = false): Promise<CategoryNode[]> {
+    const categories = await CategoryModel.findVisible(userId, includeArchived);
+    const nodes = new Map<string, CategoryNode>();
+
+    for (const category of categories) {
+      if (!category.parent_id) {
+        nodes.set(category.id, { ...category, subcategories: [] });
+      }
+    }
+    for (const category of categories) {
+      if (category.parent_id) {
+        nodes.get(category.parent_id)?.subcategories.push(category);
+      }
+    }
+
+    return [...nodes.values()];
+  }
+
+  /**
+   * The user's active categories for looking names up
+   */
+  static async getHierarchy(userId: string): Promise<CategoryHierarchy> {
+    const hierarchy: CategoryHierarchy = new Map();
+
+    for (const node of await this.getTree(userId)) {
+      const key = node.name.toLowerCase();
+      // A user category can share a default's name only at different levels, but be safe
+      const entry = hierarchy.get(key) || { name: node.name, subcategories: new Map<string, string>() };
+      for (const sub of node.subcategories) {
+        entry.subcategories.set(sub.name.toLowerCase(), sub.name);
+      }
+      hierarchy.set(key, entry);
+    }
+
+    return hierarchy;
+  }
+
+  /**
+   * The subcategory as named in the hierarchy, or undefined when it isn't
+   * one of the category's subcategories
+   */
+  static fitSubcategory(hierarchy: CategoryHierarchy, category: string, subcategory?: string | null): string | undefined {
+    if (!subcategory) {
+      return undefined;
+    }
+    return hierarchy.get(category.toLowerCase())?.subcategories.get(subcategory.trim().toLowerCase());
+  }
+
+  /**
+   * Check a category/subcategory pair a user wants to give a transaction.
+   * Returns the problem, or null when it's fine.
+   */
+  static async checkAssignment(userId: string, category: string, subcategory?: string | null): Promise<string | null> {
+    if (!subcategory) {
+      return null;
+    }
+
+    const hierarchy = await this.getHierarchy(userId);
+    if (!hierarchy.has(category.toLowerCase())) {
+      return `Unknown category "${category}"`;
+    }
+    if (!this.fitSubcategory(hierarchy, category, subcategory)) {
+      return `"${subcategory}" is not a subcategory of ${category}`;
+    }
+    return null;
+  }
+
+  /**
+   * Create a category, or a subcategory when parentId is given
+   */
+  static async create(
+    userId: string,
+    input: { name: string; parentId?: string | null; icon?: string | null; color?: string | null }
+  ): Promise<Category> {
+    let parent: Category | null = null;
+
+    if (input.parentId) {
+      parent = await CategoryModel.findVisibleById(input.parentId, userId);
+      if (!parent) {
+        throw new CategoryError('Parent category not found', 404);
+      }
+      if (parent.parent_id) {
+        throw new CategoryError('Subcategories can\'t have subcategories of their own');
+      }
+      if (parent.archived_at) {
+        throw new CategoryError('Restore the parent category before adding to it');
+      }
+    }
+
+    await this.checkNameFree(userId, input.name, parent?.id || null);
+
+    return CategoryModel.create(userId, {
+      name: input.name,
+      parent_id: parent?.id || null,
+      icon: input.icon,
+      color: input.color,
+    });
+  }
+
+  /**
+   * Update a category. Renaming re-assigns the transactions, rules,
+   * learned categories and merchants that use the old name.
+   */
+  static async update(
+    userId: string,
+    id: string,
+    updates: { name?: string; icon?: string | null; color?: string | null }
+  ): Promise<Category> {
+    const category = await this.findOwned(userId, id);
+    const renamed = updates.name !== undefined && updates.name.trim() !== category.name;
+
+    if (renamed) {
+      await this.checkNameFree(userId, updates.name!, category.parent_id || null, category.id);
+    }
+
+    return withTransaction(async (client) => {
+      if (renamed) {
+        const parentName = await this.parentName(userId, category);
+        await this.reassign(
+          client,
+          userId,
+          this.refFor(category, parentName),
+          this.refFor({ ...category, name: updates.name!.trim() }, parentName)
+        );
+      }
+
+      return (await CategoryModel.update(client, id, userId, updates))!;
+    });
+  }
+
+  /**
+   * Merge one of the user's categories into another at the same level:
+   * everything using the source moves to the target, the source's
+   * subcategories move under the target (or into the target's subcategory
+   * of the same name), and the source is archived.
+   * Returns the target.
+   */
+  static async merge(userId: string, sourceId: string, targetId: string): Promise<Category> {
+    if (sourceId === targetId) {
+      throw new CategoryError('Choose a different category to merge into');
+    }
+
+    const source = await this.findOwned(userId, sourceId);
+    const target = await CategoryModel.findVisibleById(targetId, userId);
+    if (!target) {
+      throw new CategoryError('Category to merge into not found', 404);
+    }
+    if (!!source.parent_id !== !!target.parent_id) {
+      throw new CategoryError('Categories can only be merged into categories, and subcategories into subcategories');
+    }
+    if (target.archived_at) {
+      throw new CategoryError('Restore the category before merging into it');
+    }
+
+    const sourceRef = this.refFor(source, await this.parentName(userId, source));
+    const targetRef = this.refFor(target, await this.parentName(userId, target));
+
+    await withTransaction(async (client) => {
+      await this.reassign(client, userId, sourceRef, targetRef);
+
+      if (!source.parent_id) {
+        await CategoryModel.moveChildren(client, source.id, target.id, userId);
+      }
+      await CategoryModel.setArchived(client, source.id, userId, true);
+    });
+
+    return target;
+  }
+
+  /**
+   * Archive (or restore) one of the user's categories. Archiving a category
+   * archives its subcategories too; restoring it brings back only the ones
+   * archived along with it. Transactions keep their category.
+   */
+  static async setArchived(userId: string, id: string, archived: boolean): Promise<Category> {
+    const category = await this.findOwned(userId, id);
+
+    if (!archived && category.parent_id) {
+      const parent = await CategoryModel.findVisibleById(category.parent_id, userId);
+      if (parent?.archived_at) {
+        throw new CategoryError('Restore the parent category first');
+      }
+    }
+    if (!archived) {
+      await this.checkNameFree(userId, category.name, category.parent_id || null, category.id);
+      for (const child of await CategoryModel.findArchivedWith(category.id, userId)) {
+        await this.checkNameFree(userId, child.name, category.id, child.id);
+      }
+    }
+
+    return withTransaction(async (client) => (await CategoryModel.setArchived(client, id, userId, archived))!);
+  }
+
+  /**
+   * One of the user's own categories (defaults can't be changed)
+   */
+  private static async findOwned(userId: string, id: string): Promise<Category> {
+    const category = await CategoryModel.findVisibleById(id, userId);
+    if (!category) {
+      throw new CategoryError('Category not found', 404);
+    }
+    if (!category.user_id) {
+      throw new CategoryError('Default categories can\'t be changed', 403);
+    }
+    return category;
+  }
+
+  /**
+   * Make sure no other active category at the same level has this name
+   */
+  private static async checkNameFree(userId: string, name: string, parentId: string | null, exceptId?: string): Promise<void> {
+    const existing = await CategoryModel.findSibling(userId, name, parentId, exceptId);
+    if (existing) {
+      throw new CategoryError(
+        existing.archived_at
+          ? `An archived category is already called "${existing.name}"; restore it instead`
+          : `A category called "${existing.name}" already exists`,
+        409
+      );
+    }
+  }
+
+  private static async parentName(userId: string, category: Category): Promise<string | undefined> {
+    if (!category.parent_id) {
+      return undefined;
+    }
+    return (await CategoryModel.findVisibleById(category.parent_id, userId))?.name;
+  }
+
+  private static refFor(category: Category, parentName?: string): CategoryRef {
+    return category.parent_id && parentName
+      ? { category: parentName, subcategory: category.name }
+      : { category: category.name };
+  }
+
+  /**
+   * Point everything of the user's that uses one category (or subcategory)
+   * at another
+   */
+  private static async reassign(client: PoolClient, userId: string, from: CategoryRef, to: CategoryRef): Promise<void> {
+    if (from.subcategory === undefined) {
+      for (const table of ['transactions', 'staged_transactions', 'learned_categories']) {
+        await client.query(
+          `UPDATE ${table} SET category = $3 WHERE user_id = $1 AND category = $2`,
+          [userId, from.category, to.category]
+        );
+      }
+      await client.query(
+        'UPDATE categorization_rules SET set_category = $3 WHERE user_id = $1 AND set_category = $2',
+        [userId, from.category, to.category]
+      );
+      await client.query(
+        'UPDATE merchants SET default_category = $3 WHERE user_id = $1 AND default_category = $2',
+        [userId, from.category, to.category]
+      );
+      return;
+    }
+
+    for (const table of ['transactions', 'staged_transactions', 'learned_categories']) {
+      await client.query(
+        `UPDATE ${table} SET category = $4, subcategory = $5
+         WHERE user_id = $1 AND category = $2 AND subcategory = $3`,
+        [userId, from.category, from.subcategory, to.category, to.subcategory]
+      );
+    }
+    await client.query(
+      `UPDATE categorization_rules SET set_category = $4, set_subcategory = $5
+       WHERE user_id = $1 AND set_category = $2 AND set_subcategory = $3`,
+      [userId, from.category, from.subcategory, to.category, to.subcategory]
+    );
+  }
+}
@@ -0,0 +1,77 @@
+/**
+ * Duplicate File Service
+ *
+ * Catches statements that have been uploaded before, at the file level:
+ * - Identical files, by a SHA-256 hash of their contents taken on upload
+ * - Different files covering the same dates of the same account (e.g. a
+ *   monthly PDF and a yearly CSV export), once both have been processed
+ * Row-level duplicate checks still run when a file is processed.
+ */
+
+import crypto from 'crypto';
+import fs from 'fs';
+import { pipeline } from 'stream/promises';
+import { query } from '../config/database';
+
+// An earlier upload that a new file duplicates or overlaps
+export interface MatchingFile {
+  id: string;
+  original_filename: string;
+  uploaded_at: Date;
+  status: string;
+}
+
+export class DuplicateFileService {
+  /**
+   * SHA-256 of a file's contents (hex)
+   */
+  static async hashFile(filePath: string): Promise<string> {
+    const hash = crypto.createHash('sha256');
+    await pipeline(fs.createReadStream(filePath), hash);
+    return hash.digest('hex');
+  }
+
+  /**
+   * The user's earliest upload with identical contents, if any
+   */
+  static async findByHash(userId: string, contentHash: string): Promise<MatchingFile | null> {
+    const result = await query(
+      `SELECT id, original_filename, uploaded_at, status FROM uploaded_files
+       WHERE user_id = $1 AND content_hash = $2 AND deleted_at IS NULL
+       ORDER BY uploaded_at
+       LIMIT 1`,
+      [userId, contentHash]
+    );
+
+    return result.rows[0] || null;
+  }
+
+  /**
+   * Another processed statement of the same account whose period overlaps
+   * this one. Only checked when the account is known (OFX, CAMT.053 and
+   * MT940 files say which account they are for; CSVs and PDFs don't).
+   */
+  static async findOverlappingStatement(
+    userId: string,
+    fileId: string,
+    accountId: string | null,
+    periodStart: string | null,
+    periodEnd: string | null
+  ): Promise<MatchingFile | null> {
+    if (!accountId || !periodStart || !periodEnd) {
+      return null;
+    }
+
+    const result = await query(
+      `SELECT id, original_filename, uploaded_at, status FROM uploaded_files
+       WHERE user_id = $1 AND id <> $2 AND account_id = $3
+         AND status IN ('review', 'completed') AND deleted_at IS NULL
+         AND period_start <= $5 AND period_end >= $4
+       ORDER BY uploaded_at
+       LIMIT 1`,
+      [userId, fileId, accountId, periodStart, periodEnd]
+    );
+
+    return result.rows[0] || null;
+  }
+}
@@ -0,0 +1,168 @@
+import crypto from 'crypto';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { EncryptionService } from './encryptionService';
+import { LocalStorageDriver, StorageNotFoundError, StorageService } from './storageService';
+import { UserDataKeyModel } from '../models/UserDataKey';
+import { query } from '../config/database';
+import { UserDataKey } from '../types';
+
+jest.mock('../config/database', () => ({ query: jest.fn(), withTransaction: jest.fn() }));
+jest.mock('../models/UserDataKey');
+
+const model = UserDataKeyModel as jest.Mocked<typeof UserDataKeyModel>;
+
+const CURRENT_MASTER = crypto.randomBytes(32);
+const OLD_MASTER = crypto.randomBytes(32);
+
+// Wrap or unwrap a data key the way the service does: base64(iv | tag | ciphertext)
+const wrap = (master: Buffer, dataKey: Buffer) => {
+  const iv = crypto.randomBytes(12);
+  const cipher = crypto.createCipheriv('aes-256-gcm', master, iv);
+  const ciphertext = Buffer.concat([cipher.update(dataKey), cipher.final()]);
+  return Buffer.concat([iv, cipher.getAuthTag(), ciphertext]).toString('base64');
+};
+
+const unwrap = (master: Buffer, wrapped: string) => {
+  const bytes = Buffer.from(wrapped, 'base64');
+  const decipher = crypto.createDecipheriv('aes-256-gcm', master, bytes.subarray(0, 12));
+  decipher.setAuthTag(bytes.subarray(12, 28));
+  return Buffer.concat([decipher.update(bytes.subarray(28)), decipher.final()]);
+};
+
+describe('EncryptionService', () => {
+  let root: string;
+  let keys: UserDataKey[];
+
+  const addKey = (userId: string, wrappedKey: string, masterKeyId: string) => {
+    const record: UserDataKey = {
+      id: crypto.randomUUID(), user_id: userId, wrapped_key: wrappedKey, master_key_id: masterKeyId,
+      status: 'active', created_at: new Date(),
+    };
+    keys.push(record);
+    return record;
+  };
+
+  const store = async (userId: string, key: string, contents: string) => {
+    const source = path.join(root, 'upload');
+    fs.writeFileSync(source, contents);
+    return EncryptionService.storeFile(userId, source, key);
+  };
+
+  beforeAll(() => {
+    process.env.FILE_ENCRYPTION_KEYS = `current:${CURRENT_MASTER.toString('base64')},old:${OLD_MASTER.toString('base64')}`;
+  });
+
+  beforeEach(() => {
+    jest.resetAllMocks();
+    root = fs.mkdtempSync(path.join(os.tmpdir(), 'encryption-test-'));
+    StorageService.setDriver(new LocalStorageDriver(path.join(root, 'storage'), 'http://localhost:3001/api/storage', 'test-secret'));
+
+    // The data key table, in memory
+    keys = [];
+    model.findActive.mockImplementation(async userId => keys.find(k => k.user_id === userId && k.status === 'active') || null);
+    model.createActive.mockImplementation(async (userId, wrappedKey, masterKeyId) => addKey(userId, wrappedKey, masterKeyId));
+    model.findById.mockImplementation(async id => keys.find(k => k.id === id) || null);
+    model.findWrappedByOtherMasterKeys.mockImplementation(async masterKeyId => keys.filter(k => k.master_key_id !== masterKeyId));
+    model.updateWrapping.mockImplementation(async (id, wrappedKey, masterKeyId) => {
+      Object.assign(keys.find(k => k.id === id)!, { wrapped_key: wrappedKey, master_key_id: masterKeyId });
+    });
+    model.retireActive.mockImplementation(async userId => {
+      keys.filter(k => k.user_id === userId).forEach(k => { k.status = 'retired'; });
+    });
+  });
+
+  afterEach(() => {
+    fs.rmSync(root, { recursive: true, force: true });
+  });
+
+  it('stores files encrypted and reads them back', async () => {
+    const keyId = await store('user-1', 'statements/a', 'Date,Amount\n2025-01-05,-42.50\n');
+    await store('user-1', 'statements/b', 'second');
+
+    const stored = await StorageService.get('statements/a');
+    expect(stored.subarray(0, 4).toString()).toBe('BBE1');
+    expect(stored.toString('latin1')).not.toContain('42.50');
+
+    expect((await EncryptionService.readFile('statements/a')).toString()).toBe('Date,Amount\n2025-01-05,-42.50\n');
+    expect((await EncryptionService.readFile('statements/b')).toString()).toBe('second');
+
+    // One data key per user, wrapped by the current master key
+    expect(keys).toEqual([expect.objectContaining({ id: keyId, user_id: 'user-1', master_key_id: 'current' })]);
+  });
+
+  it('reads files stored before encryption as they are', async () => {
+    await StorageService.put('legacy/statement.csv', Buffer.from('Date,Amount\n'));
+
+    expect((await EncryptionService.readFile('legacy/statement.csv')).toString()).toBe('Date,Amount\n');
+    expect(model.findById).not.toHaveBeenCalled();
+  });
+
+  it('refuses files that were tampered with', async () => {
+    await store('user-1', 'statements/a', 'Date,Amount\n2025-01-05,-42.50\n');
+    const stored = await StorageService.get('statements/a');
+
+    const ciphertext = Buffer.from(stored);
+    ciphertext[40] ^= 1;
+    await StorageService.put('statements/ciphertext', ciphertext);
+    await expect(EncryptionService.readFile('statements/ciphertext')).rejects.toThrow(/unable to authenticate/);
+
+    const tag = Buffer.from(stored);
+    tag[tag.length - 1] ^= 1;
+    await StorageService.put('statements/tag', tag);
+    await expect(EncryptionService.readFile('statements/tag')).rejects.toThrow(/unable to authenticate/);
+  });
+
+  it('re-wraps data keys under the current master key without touching files', async () => {
+    const dataKey = crypto.randomBytes(32);
+    const record = addKey('user-1', wrap(OLD_MASTER, dataKey), 'old');
+    addKey('user-2', wrap(CURRENT_MASTER, crypto.randomBytes(32)), 'current');
+    await store('user-1', 'statements/a', 'old key');
+    const before = await StorageService.get('statements/a');
+
+    expect(await EncryptionService.rewrapDataKeys()).toBe(1);
+
+    expect(record.master_key_id).toBe('current');
+    expect(unwrap(CURRENT_MASTER, record.wrapped_key)).toEqual(dataKey);
+    expect(await StorageService.get('statements/a')).toEqual(before);
+    expect((await EncryptionService.readFile('statements/a')).toString()).toBe('old key');
+  });
+
+  it('rotates a user\'s data key, re-encrypting their files', async () => {
+    const oldKeyId = await store('user-1', 'statements/a', 'encrypted');
+    await StorageService.put('legacy.csv', Buffer.from('plaintext'));
+
+    const files = [
+      { id: 'file-1', file_path: 'statements/a' },
+      { id: 'file-2', file_path: 'legacy.csv' },
+      { id: 'file-3', file_path: 'statements/missing' },
+    ];
+    const updates: unknown[][] = [];
+    (query as jest.Mock).mockImplementation(async (sql: string, params: unknown[]) => {
+      if (/^\s*SELECT/.test(sql)) {
+        return { rows: files };
+      }
+      updates.push(params);
+      return { rows: [] };
+    });
+
+    expect(await EncryptionService.rotateUserKey('user-1')).toBe(2);
+
+    const active = keys.find(k => k.status === 'active')!;
+    expect(active.id).not.toBe(oldKeyId);
+    expect(model.deleteUnusedRetired).toHaveBeenCalledWith('user-1');
+
+    // Each file moved to a new key, encrypted under the new data key; legacy files move into statements/
+    expect(updates).toEqual([
+      [expect.stringMatching(/^statements\//), active.id, 'file-1'],
+      [expect.stringMatching(/^statements\//), active.id, 'file-2'],
+    ]);
+    const [[encrypted], [legacy]] = updates as string[][];
+    expect((await EncryptionService.readFile(encrypted)).toString()).toBe('encrypted');
+    expect((await EncryptionService.readFile(legacy)).toString()).toBe('plaintext');
+    expect((await StorageService.get(legacy)).subarray(0, 4).toString()).toBe('BBE1');
+    await expect(StorageService.get('statements/a')).rejects.toBeInstanceOf(StorageNotFoundError);
+    await expect(StorageService.get('legacy.csv')).rejects.toBeInstanceOf(StorageNotFoundError);
+  });
+});
@@ -0,0 +1,260 @@
+/**
+ * Encryption Service
+ *
+ * Keeps uploaded statements encrypted at rest (envelope encryption):
+ * - Each file is encrypted with AES-256-GCM under its owner's data key
+ * - Data keys are stored wrapped by a master key from FILE_ENCRYPTION_KEYS:
+ *   comma-separated "id:base64key" pairs. The first wraps new keys; the
+ *   others are only kept to unwrap older keys until they are rotated.
+ * Encrypted files start with a header naming their data key, so they can
+ * be decrypted from the storage key alone. Files stored before encryption
+ * was added are read as they are.
+ *
+ * Rotation (see config/rotateKeys.ts):
+ * - rewrapDataKeys() moves data keys to the current master key (cheap)
+ * - rotateUserKey() gives a user a new data key and re-encrypts their files
+ */
+
+import crypto from 'crypto';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { query } from '../config/database';
+import { UserDataKeyModel } from '../models/UserDataKey';
+import { StorageService, StorageNotFoundError } from './storageService';
+import { UserDataKey } from '../types';
+
+// File layout: MAGIC | data key id (16) | IV (12) | ciphertext | auth tag (16)
+const MAGIC = Buffer.from('BBE1');
+const KEY_ID_BYTES = 16;
+const IV_BYTES = 12;
+const TAG_BYTES = 16;
+const HEADER_BYTES = MAGIC.length + KEY_ID_BYTES + IV_BYTES;
+
+const CIPHER = 'aes-256-gcm';
+const KEY_BYTES = 32;
+
+interface MasterKey {
+  id: string;
+  key: Buffer;
+}
+
+let masterKeys: MasterKey[] | null = null;
+
+// Unwrapped data keys, so each file read doesn't need a database round trip
+const dataKeyCache = new Map<string, Buffer>();
+
+const uuidToBytes = (id: string) => Buffer.from(id.replace(/-/g, ''), 'hex');
+
+const bytesToUuid = (bytes: Buffer) => {
+  const hex = bytes.toString('hex');
+  return `${hex.slice(0, 8)}-${hex.slice(8, 12)}-${hex.slice(12, 16)}-${hex.slice(16, 20)}-${hex.slice(20)}`;
+};
+
+/**
+ * Read the master keys from configuration
+ */
+function loadMasterKeys(): MasterKey[] {
+  const configured = (process.env.FILE_ENCRYPTION_KEYS || '').split(',').map(k => k.trim()).filter(Boolean);
+  if (configured.length === 0) {
+    throw new Error('FILE_ENCRYPTION_KEYS is not set; uploads cannot be encrypted');
+  }
+
+  return configured.map(entry => {
+    const separator = entry.indexOf(':');
+    const id = entry.slice(0, separator);
+    const key = Buffer.from(entry.slice(separator + 1), 'base64');
+
+    if (separator < 1 || key.length !== KEY_BYTES) {
+      throw new Error(`FILE_ENCRYPTION_KEYS entries must be "id:base64key" with a ${KEY_BYTES}-byte key`);
+    }
+    return { id, key };
+  });
+}
+
+function encrypt(key: Buffer, plaintext: Buffer): { iv: Buffer; ciphertext: Buffer; tag: Buffer } {
+  const iv = crypto.randomBytes(IV_BYTES);
+  const cipher = crypto.createCipheriv(CIPHER, key, iv);
+  const ciphertext = Buffer.concat([cipher.update(plaintext), cipher.final()]);
+  return { iv, ciphertext, tag: cipher.getAuthTag() };
+}
+
+function decrypt(key: Buffer, iv: Buffer, ciphertext: Buffer, tag: Buffer): Buffer {
+  const decipher = crypto.createDecipheriv(CIPHER, key, iv);
+  decipher.setAuthTag(tag);
+  return Buffer.concat([decipher.update(ciphertext), decipher.final()]);
+}
+
+export class EncryptionService {
+  /**
+   * Encrypt a local file for its owner and put it in storage under `key`.
+   * Returns the ID of the data key used.
+   */
+  static async storeFile(userId: string, sourcePath: string, key: string): Promise<string> {
+    const plaintext = await fs.promises.readFile(sourcePath);
+    return this.storeEncrypted(userId, plaintext, key);
+  }
+
+  /**
+   * Read a stored file's plaintext (unencrypted legacy files are returned as is)
+   */
+  static async readFile(key: string): Promise<Buffer> {
+    const content = await StorageService.get(key);
+    if (content.length < HEADER_BYTES + TAG_BYTES || !content.subarray(0, MAGIC.length).equals(MAGIC)) {
+      return content;
+    }
+
+    const keyId = bytesToUuid(content.subarray(MAGIC.length, MAGIC.length + KEY_ID_BYTES));
+    const iv = content.subarray(MAGIC.length + KEY_ID_BYTES, HEADER_BYTES);
+    const ciphertext = content.subarray(HEADER_BYTES, content.length - TAG_BYTES);
+    const tag = content.subarray(content.length - TAG_BYTES);
+
+    return decrypt(await this.getDataKey(keyId), iv, ciphertext, tag);
+  }
+
+  /**
+   * Run `fn` with a local plaintext copy of a stored file, for libraries
+   * that read from a path. The copy is private to this process and
+   * removed afterwards.
+   */
+  static async withDecryptedFile<T>(key: string, fn: (plainPath: string) => Promise<T>): Promise<T> {
+    const dir = await fs.promises.mkdtemp(path.join(os.tmpdir(), 'statement-'));
+    try {
+      const plainPath = path.join(dir, 'statement');
+      await fs.promises.writeFile(plainPath, await this.readFile(key), { mode: 0o600 });
+      return await fn(plainPath);
+    } finally {
+      await fs.promises.rm(dir, { recursive: true, force: true });
+    }
+  }
+
+  /**
+   * Re-wrap every data key still wrapped by an older master key with the
+   * current one. Files are untouched. Returns the number of keys re-wrapped.
+   */
+  static async rewrapDataKeys(): Promise<number> {
+    const current = this.masterKeys()[0];
+    const keys = await UserDataKeyModel.findWrappedByOtherMasterKeys(current.id);
+
+    for (const record of keys) {
+      await UserDataKeyModel.updateWrapping(record.id, this.wrap(this.unwrap(record), current), current.id);
+    }
+
+    return keys.length;
+  }
+
+  /**
+   * Give a user a new data key and re-encrypt all their stored files with
+   * it (files from before encryption are encrypted too). Old keys are
+   * deleted once nothing uses them. Returns the number of files rewritten.
+   */
+  static async rotateUserKey(userId: string): Promise<number> {
+    await UserDataKeyModel.retireActive(userId);
+    const activeKey = await this.getActiveKey(userId);
+
+    const files = await query(
+      `SELECT id, file_path FROM uploaded_files
+       WHERE user_id = $1 AND encryption_key_id IS DISTINCT FROM $2`,
+      [userId, activeKey.id]
+    );
+
+    let rewritten = 0;
+    for (const file of files.rows) {
+      let plaintext: Buffer;
+      try {
+        plaintext = await this.readFile(file.file_path);
+      } catch (error) {
+        if (error instanceof StorageNotFoundError) {
+          continue;
+        }
+        throw error;
+      }
+
+      // New key, so a failure part-way never leaves a file unreadable.
+      // Files from before storage folders existed move into statements/.
+      const folder = path.posix.dirname(file.file_path);
+      const target = StorageService.newKey(folder === '.' ? 'statements' : folder);
+      await this.storeEncrypted(userId, plaintext, target);
+      await query(
+        'UPDATE uploaded_files SET file_path = $1, encryption_key_id = $2 WHERE id = $3',
+        [target, activeKey.id, file.id]
+      );
+      await StorageService.delete(file.file_path);
+      rewritten++;
+    }
+
+    await UserDataKeyModel.deleteUnusedRetired(userId);
+    return rewritten;
+  }
+
+  private static async storeEncrypted(userId: string, plaintext: Buffer, key: string): Promise<string> {
+    const dataKey = await this.getActiveKey(userId);
+    const { iv, ciphertext, tag } = encrypt(dataKey.key, plaintext);
+
+    await StorageService.put(key, Buffer.concat([MAGIC, uuidToBytes(dataKey.id), iv, ciphertext, tag]));
+
+    return dataKey.id;
+  }
+
+  /**
+   * The user's active data key, created on first use
+   */
+  private static async getActiveKey(userId: string): Promise<{ id: string; key: Buffer }> {
+    let record = await UserDataKeyModel.findActive(userId);
+
+    if (!record) {
+      const current = this.masterKeys()[0];
+      record = await UserDataKeyModel.createActive(userId, this.wrap(crypto.randomBytes(KEY_BYTES), current), current.id)
+        // Another request created one at the same time
+        || await UserDataKeyModel.findActive(userId);
+      if (!record) {
+        throw new Error('Could not create a data key');
+      }
+    }
+
+    return { id: record.id, key: await this.getDataKey(record.id, record) };
+  }
+
+  private static async getDataKey(id: string, record?: UserDataKey | null): Promise<Buffer> {
+    const cached = dataKeyCache.get(id);
+    if (cached) {
+      return cached;
+    }
+
+    record = record || await UserDataKeyModel.findById(id);
+    if (!record) {
+      throw new Error(`Data key ${id} not found`);
+    }
+
+    const key = this.unwrap(record);
+    dataKeyCache.set(id, key);
+    return key;
+  }
+
+  private static wrap(dataKey: Buffer, master: MasterKey): string {
+    const { iv, ciphertext, tag } = encrypt(master.key, dataKey);
+    return Buffer.concat([iv, tag, ciphertext]).toString('base64');
+  }
+
+  private static unwrap(record: UserDataKey): Buffer {
+    const master = this.masterKeys().find(k => k.id === record.master_key_id);
+    if (!master) {
+      throw new Error(`Master key "${record.master_key_id}" is not configured`);
+    }
+
+    const wrapped = Buffer.from(record.wrapped_key, 'base64');
+    return decrypt(
+      master.key,
+      wrapped.subarray(0, IV_BYTES),
+      wrapped.subarray(IV_BYTES + TAG_BYTES),
+      wrapped.subarray(IV_BYTES, IV_BYTES + TAG_BYTES)
+    );
+  }
+
+  private static masterKeys(): MasterKey[] {
+    if (!masterKeys) {
+      masterKeys = loadMasterKeys();
+    }
+    return masterKeys;
+  }
+}
@@ -0,0 +1,112 @@
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { FileProcessorService } from './fileProcessorService';
+import { LocalStorageDriver, StorageService } from './storageService';
+
+describe('FileProcessorService.processFile', () => {
+  let root: string;
+
+  beforeAll(() => {
+    root = fs.mkdtempSync(path.join(os.tmpdir(), 'file-processor-test-'));
+    StorageService.setDriver(new LocalStorageDriver(root));
+  });
+
+  afterAll(() => {
+    fs.rmSync(root, { recursive: true, force: true });
+  });
+
+  // Stored files have opaque keys; unencrypted files are read as they are
+  const store = async (content: string): Promise<string> => {
+    const key = StorageService.newKey('uploads');
+    await StorageService.put(key, Buffer.from(content));
+    return key;
+  };
+
+  it('detects the format when none is given', async () => {
+    const key = await store(`!Type:Bank
+D01/05/2025
+T-42.50
+PWhole Foods
+^
+`);
+
+    const result = await FileProcessorService.processFile(key, 'application/octet-stream', { filename: 'Export.QIF' });
+
+    expect(result.transactions).toEqual([
+      expect.objectContaining({ date: '2025-01-05', description: 'Whole Foods', amount: 42.5, isIncome: false }),
+    ]);
+  });
+
+  it('detects MT940 files from their content', async () => {
+    const key = await store(`:20:STARTUMS
+:25:DE89370400440532013000
+:60F:C250101EUR100,00
+:61:2501050105D42,50NMSCNONREF
+:86:Card payment
+:62F:C250131EUR57,50
+`);
+
+    const result = await FileProcessorService.processFile(key, 'text/plain', { filename: 'statement.txt' });
+
+    expect(result.transactions).toEqual([expect.objectContaining({ date: '2025-01-05', amount: 42.5, accountId: '****3000' })]);
+  });
+
+  describe('QIF', () => {
+    it('works out day-first dates from the whole file', async () => {
+      const key = await store(`!Type:Bank
+D03/01/2025
+T-42.50
+PWhole Foods
+^
+D25/01/2025
+T1500.00
+PAcme Payroll
+^
+`);
+
+      const result = await FileProcessorService.processFile(key, 'application/octet-stream', { format: 'qif' });
+
+      expect(result.transactions.map(t => [t.date, t.description])).toEqual([
+        ['2025-01-03', 'Whole Foods'],
+        ['2025-01-25', 'Acme Payroll'],
+      ]);
+      expect(result.statement).toMatchObject({ periodStart: '2025-01-03', periodEnd: '2025-01-25' });
+    });
+
+    it('falls back to the locale when no date settles the order', async () => {
+      const key = await store(`!Type:Bank
+D03/04/2025
+T-10.00
+PLunch
+^
+`);
+
+      const us = await FileProcessorService.processFile(key, 'application/qif', { format: 'qif', locale: 'en-US' });
+      const uk = await FileProcessorService.processFile(key, 'application/qif', { format: 'qif', locale: 'en-GB' });
+
+      expect(us.transactions[0].date).toBe('2025-03-04');
+      expect(uk.transactions[0].date).toBe('2025-04-03');
+    });
+
+    it('reports records with unreadable dates', async () => {
+      const key = await store(`!Type:Bank
+D01/05/2025
+T-42.50
+PWhole Foods
+^
+D13/13/2025
+T-9.99
+PMystery
+^
+`);
+
+      const result = await FileProcessorService.processFile(key, 'application/qif', { format: 'qif' });
+
+      expect(result.transactions).toHaveLength(1);
+      expect(result.rejectedRows).toEqual([
+        { line: 6, text: 'D13/13/2025 T-9.99 PMystery', reason: 'Unrecognised date "13/13/2025"' },
+      ]);
+    });
+  });
+});
@@ -1,44 +1,325 @@
 /**
  * File Processor Service
  *
- * Handles extraction of transactions from PDF and CSV files
+ * Handles extraction of transactions from PDF, CSV, Excel, OFX/QFX, QIF,
+ * CAMT.053 and MT940 files, and from scanned statements (via OCR).
+ * Files are read from storage by key and decrypted transparently.
  */
 
 const PDFParser = require('pdf2json');
 import fs from 'fs';
 import csv from 'csv-parser';
 import { Readable } from 'stream';
+import { OFXParser } from './parsers/ofxParser';
+import { QIFParser } from './parsers/qifParser';
+import { SpreadsheetParser } from './parsers/spreadsheetParser';
+import { CAMTParser } from './parsers/camtParser';
+import { MT940Parser } from './parsers/mt940Parser';
+import { DateParser } from './parsers/dateParser';
+import { PDFTableParser, PDFTableRow } from './parsers/pdfTableParser';
+import { OCRService, OCRPage } from './ocrService';
+import { FileValidationService } from './fileValidationService';
+import { EncryptionService } from './encryptionService';
+import { ImportMapping, SignConvention } from '../types';
+
+// Common column names used by bank CSV/spreadsheet exports
+const DATE_KEYS = ['Date', 'date', 'Transaction Date', 'Posting Date', 'posting_date'];
+const DESCRIPTION_KEYS = ['Description', 'description', 'Merchant', 'merchant', 'Details', 'details'];
+const AMOUNT_KEYS = ['Amount', 'amount', 'Transaction Amount'];
+// Exports that split money out and money in into two (usually unsigned) columns
+const DEBIT_KEYS = ['Debit', 'debit', 'Debit Amount', 'Withdrawal', 'Withdrawals', 'Money Out', 'Paid Out'];
+const CREDIT_KEYS = ['Credit', 'credit', 'Credit Amount', 'Deposit', 'Deposits', 'Money In', 'Paid In'];
+
+// Labels of the balances printed on PDF statements
+const OPENING_BALANCE_LABEL = /(?:opening|previous|starting|beginning)\s+balance|balance\s+brought\s+forward|brought\s+forward/;
+const CLOSING_BALANCE_LABEL = /(?:closing|ending|new)\s+balance|balance\s+carried\s+forward|carried\s+forward/;
+
+// An amount cell after parsing. CR/DR markers override the sign convention.
+interface ParsedAmount {
+  value: number;
+  marker?: 'CR' | 'DR';
+}
 
 export interface ExtractedTransaction {
   date: string;
   description: string;
   amount: number;
   isIncome: boolean;
+  externalId?: string; // Bank-assigned transaction ID (OFX FITID, CAMT AcctSvcrRef, MT940 reference)
+  accountId?: string;  // Account the transaction belongs to, when the file says (masked, see AccountNumber)
+  category?: string;   // Category assigned by the exporting app (QIF "L" field)
+  subcategory?: string;
+  valueDate?: string;  // Date the money actually moved, when different from the booking date
+  counterparty?: string;
+  currency?: string;   // ISO 4217 code, when the file says
+  confidence?: number; // OCR confidence (0-100) of the line(s) it was read from, for scanned statements
+}
+
+// Balances and period printed on the statement, used to reconcile the import
+export interface StatementSummary {
+  openingBalance?: number;
+  closingBalance?: number;
+  periodStart?: string; // YYYY-MM-DD
+  periodEnd?: string;
+  accountType?: 'deposit' | 'credit_card'; // When the format says (OFX); balances run the other way on cards
+}
+
+// A row whose date hasn't been read yet. Dates are resolved for the whole file
+// at once, so DD/MM vs MM/DD can be decided from every row together.
+interface PendingTransaction extends Omit<ExtractedTransaction, 'date'> {
+  rawDate: string;
+  line?: number;  // 1-based line in the source file, when known
+  source: string; // The row as it appeared, for reporting
+}
+
+// A row that looked like a transaction but couldn't be imported
+export interface RejectedRow {
+  line?: number;
+  text: string;
+  reason: string;
+}
+
+export interface ProcessResult {
+  transactions: ExtractedTransaction[];
+  rejectedRows: RejectedRow[];
+  statement?: StatementSummary;
+}
+
+// Formats we know how to read
+export const STATEMENT_FORMATS = ['ofx', 'qif', 'camt', 'mt940', 'spreadsheet', 'pdf', 'image', 'csv'] as const;
+export type StatementFormat = typeof STATEMENT_FORMATS[number];
+
+export interface ProcessFileOptions {
+  mapping?: ImportMapping; // Saved column mapping for CSV files (see import profiles)
+  signConvention?: SignConvention; // How to read single signed amount columns (default: negative is expense)
+  locale?: string; // User's locale (e.g. Accept-Language), used when a file's dates could be DD/MM or MM/DD
+  format?: StatementFormat; // Read the file with this parser instead of detecting its format
+  filename?: string; // Original filename (stored files have opaque names), used to detect the format
+  onPageParsed?: (pagesParsed: number, totalPages: number) => void; // Progress through PDF/scanned pages
 }
 
 export class FileProcessorService {
   /**
    * Process uploaded file and extract transactions
    */
-  static async processFile(filePath: string, mimeType: string): Promise<ExtractedTransaction[]> {
+  static async processFile(
+    storageKey: string,
+    mimeType: string,
+    options: ProcessFileOptions = {}
+  ): Promise<ProcessResult> {
+    return EncryptionService.withDecryptedFile(storageKey, (filePath) => this.processPlainFile(filePath, mimeType, options));
+  }
+
+  private static async processPlainFile(
+    filePath: string,
+    mimeType: string,
+    options: ProcessFileOptions
+  ): Promise<ProcessResult> {
+    // The file is already decrypted here, so detect from the local copy (not storage)
+    const format = options.format || await this.detectPlainFormat(filePath, mimeType, options.filename || '');
+
+    switch (format) {
+      case 'ofx':
+        return this.processOFX(filePath);
+      case 'qif':
+        return this.processQIF(filePath, options.locale);
+      case 'camt':
+        return this.processCAMT(filePath);
+      case 'mt940':
+        return this.processMT940(filePath);
+      case 'spreadsheet':
+        return this.processSpreadsheet(filePath, options.signConvention, options.locale);
+      case 'pdf':
+        return this.processPDF(filePath, options.locale, options.onPageParsed);
+      case 'image': {
+        const pages = await OCRService.recognizeImage(filePath);
+        options.onPageParsed?.(1, 1);
+        return this.processScanned(pages, options.locale);
+      }
+      case 'csv':
+        return this.processCSV(filePath, options.mapping, options.signConvention, options.locale);
+    }
+  }
+
+  /**
+   * Work out which format a stored file is in. Pass the original filename,
+   * since storage keys are opaque and have no extension.
+   */
+  static async detectFormat(storageKey: string, mimeType: string, filename: string = storageKey): Promise<StatementFormat> {
+    return EncryptionService.withDecryptedFile(storageKey, (filePath) => this.detectPlainFormat(filePath, mimeType, filename));
+  }
+
+  private static async detectPlainFormat(filePath: string, mimeType: string, filename: string): Promise<StatementFormat> {
+    const lowerPath = filename.toLowerCase();
+
+    // Check for OFX/QFX (browsers rarely know these mime types, so check the extension too)
+    const ofxMimeTypes = ['application/x-ofx', 'application/ofx', 'application/vnd.intu.qfx', 'application/x-qfx'];
+    if (ofxMimeTypes.includes(mimeType) || lowerPath.endsWith('.ofx') || lowerPath.endsWith('.qfx')) {
+      return 'ofx';
+    }
+
+    // Check for QIF
+    const qifMimeTypes = ['application/qif', 'application/x-qif'];
+    if (qifMimeTypes.includes(mimeType) || lowerPath.endsWith('.qif')) {
+      return 'qif';
+    }
+
+    // Check for CAMT.053 (ISO 20022 XML)
+    const xmlMimeTypes = ['application/xml', 'text/xml'];
+    if (xmlMimeTypes.includes(mimeType) || lowerPath.endsWith('.xml')) {
+      return 'camt';
+    }
+
+    // Check for MT940 (no registered mime type; banks use .sta, .mt940, .940 or plain .txt)
+    const mt940Extensions = ['.sta', '.mt940', '.940'];
+    if (mt940Extensions.some(ext => lowerPath.endsWith(ext)) || MT940Parser.isMT940(await this.peekFile(filePath))) {
+      return 'mt940';
+    }
+
+    // Check for Excel (checked before CSV because Windows reports CSVs as application/vnd.ms-excel)
+    const spreadsheetMimeType = 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet';
+    if (mimeType === spreadsheetMimeType || lowerPath.endsWith('.xlsx')) {
+      return 'spreadsheet';
+    }
+    // Some banks' ".xls" exports are really text
+    if (lowerPath.endsWith('.xls')) {
+      return await FileValidationService.sniffType(filePath) === 'text' ? 'csv' : 'spreadsheet';
+    }
+
     // Check for PDF
     if (mimeType === 'application/pdf') {
-      return this.processPDF(filePath);
+      return 'pdf';
+    }
+
+    // Check for photos/scans of a statement
+    const imageMimeTypes = ['image/png', 'image/jpeg'];
+    if (imageMimeTypes.includes(mimeType) || /\.(png|jpe?g)$/.test(lowerPath)) {
+      return 'image';
     }
 
     // Check for CSV (various mime types depending on OS/browser)
-    const csvMimeTypes = ['text/csv', 'application/vnd.ms-excel', 'application/octet-stream', 'text/plain'];
-    if (csvMimeTypes.includes(mimeType) || filePath.toLowerCase().endsWith('.csv')) {
-      return this.processCSV(filePath);
+    const csvMimeTypes = ['text/csv', 'application/vnd.ms-excel'];
+    if (csvMimeTypes.includes(mimeType) || lowerPath.endsWith('.csv')) {
+      return 'csv';
+    }
+
+    // Browsers label unknown files octet-stream or text/plain; only text can be a CSV
+    const genericMimeTypes = ['application/octet-stream', 'text/plain'];
+    if (genericMimeTypes.includes(mimeType) && await FileValidationService.sniffType(filePath) === 'text') {
+      return 'csv';
     }
 
     throw new Error('Unsupported file type');
   }
 
   /**
-   * Extract transactions from PDF using text extraction
+   * Extract transactions from PDF. Uses the page layout to rebuild the
+   * transaction table when there is one, falling back to text extraction.
+   */
+  private static async processPDF(
+    filePath: string,
+    locale?: string,
+    onPageParsed?: ProcessFileOptions['onPageParsed']
+  ): Promise<ProcessResult> {
+    const pdfData = await this.readPDF(filePath);
+
+    // Scanned statements have no text layer, only page images
+    const hasText = pdfData.Pages.some((page: any) => page.Texts.length > 0);
+    if (!hasText) {
+      return this.processScanned(await OCRService.recognizePDF(filePath, onPageParsed), locale);
+    }
+    onPageParsed?.(pdfData.Pages.length, pdfData.Pages.length);
+
+    // Extract text from PDF (also used to find the statement period)
+    let text = '';
+    pdfData.Pages.forEach((page: any) => {
+      page.Texts.forEach((textItem: any) => {
+        text += decodeURIComponent(textItem.R[0].T) + ' ';
+      });
+      text += '\n';
+    });
+
+    // Prefer the table layout; parse the flattened text if there's no recognisable table
+    const tableRows = PDFTableParser.extractRows(pdfData);
+    const pending = tableRows.length > 0
+      ? this.pdfRowsToPending(tableRows)
+      : this.parseTransactionsFromText(text);
+    const result = this.resolveDates(pending, { locale, periodText: text });
+    result.transactions = this.deduplicateTransactions(result.transactions);
+    result.statement = { ...result.statement, ...this.readPrintedBalances(text, tableRows, result.transactions) };
+    return result;
+  }
+
+  /**
+   * Extract transactions from OCR output. Uses the recognised words'
+   * positions to rebuild the table like a text PDF, falling back to the
+   * text strategies, and keeps each row's OCR confidence.
+   */
+  private static processScanned(pages: OCRPage[], locale?: string): ProcessResult {
+    const text = OCRService.toText(pages);
+    if (!text.trim()) {
+      throw new Error('No text could be recognised in the scanned statement');
+    }
+
+    const tableRows = PDFTableParser.extractRows(OCRService.toPDFData(pages));
+    let pending: PendingTransaction[];
+    if (tableRows.length > 0) {
+      pending = this.pdfRowsToPending(tableRows);
+    } else {
+      const lineConfidence = new Map<string, number>();
+      pages.forEach(page => page.lines.forEach(line => lineConfidence.set(line.text.trim(), line.confidence)));
+      pending = this.parseTransactionsFromText(text).map(transaction => ({
+        ...transaction,
+        confidence: lineConfidence.get(transaction.source.trim()),
+      }));
+    }
+
+    const result = this.resolveDates(pending, { locale, periodText: text });
+    result.transactions = this.deduplicateTransactions(result.transactions);
+    result.statement = { ...result.statement, ...this.readPrintedBalances(text, tableRows, result.transactions) };
+    return result;
+  }
+
+  /**
+   * Opening and closing balances printed on a PDF statement. Looks for
+   * labelled balances in the text first ("Opening balance", "Balance brought
+   * forward", "Closing balance"...), then at the running balance column of
+   * the transaction table when it runs oldest to newest.
+   */
+  private static readPrintedBalances(
+    text: string,
+    tableRows: PDFTableRow[],
+    transactions: ExtractedTransaction[]
+  ): Pick<StatementSummary, 'openingBalance' | 'closingBalance'> {
+    const labelled = (label: RegExp): number | undefined => {
+      const match = text.match(new RegExp(`(?:${label.source})[^\\d\\n(-]{0,40}(\\(?-?[£$€]?\\s?\\d{1,3}(?:,\\d{3})*\\.\\d{2}\\)?(?:\\s?(?:CR|DR)\\b)?)`, 'i'));
+      const amount = match ? this.parseAmount(match[1]) : null;
+      if (!amount) return undefined;
+      // DR on a balance means overdrawn
+      return amount.marker === 'DR' ? -Math.abs(amount.value) : amount.value;
+    };
+
+    let openingBalance = labelled(OPENING_BALANCE_LABEL);
+    let closingBalance = labelled(CLOSING_BALANCE_LABEL);
+
+    const ascending = transactions.length > 0 && transactions[0].date <= transactions[transactions.length - 1].date;
+    if (tableRows.length > 0 && ascending) {
+      if (openingBalance === undefined) {
+        openingBalance = this.parseAmount(tableRows[0].previousBalance)?.value;
+      }
+      if (closingBalance === undefined) {
+        const lastWithBalance = [...tableRows].reverse().find(row => row.balance);
+        closingBalance = this.parseAmount(lastWithBalance?.balance)?.value;
+      }
+    }
+
+    return { openingBalance, closingBalance };
+  }
+
+  /**
+   * Load a PDF's text items and their positions
    */
-  private static async processPDF(filePath: string): Promise<ExtractedTransaction[]> {
+  private static readPDF(filePath: string): Promise<any> {
     return new Promise((resolve, reject) => {
       const pdfParser = new PDFParser();
 
@@ -47,18 +328,7 @@ export class FileProcessorService {
       });
 
       pdfParser.on('pdfParser_dataReady', (pdfData: any) => {
-        // Extract text from PDF
-        let text = '';
-        pdfData.Pages.forEach((page: any) => {
-          page.Texts.forEach((textItem: any) => {
-            text += decodeURIComponent(textItem.R[0].T) + ' ';
-          });
-          text += '\n';
-        });
-
-        // Parse transactions from text
-        const transactions = this.parseTransactionsFromText(text);
-        resolve(transactions);
+        resolve(pdfData);
       });
 
       pdfParser.loadPDF(filePath);
@@ -66,27 +336,265 @@ export class FileProcessorService {
   }
 
   /**
-   * Extract transactions from CSV
+   * Extract transactions from OFX/QFX (both SGML 1.x and XML 2.x)
+   */
+  private static async processOFX(filePath: string): Promise<ProcessResult> {
+    let content = await fs.promises.readFile(filePath, 'utf8');
+
+    // OFX 1.x files are often Windows-1252 rather than UTF-8
+    if (/CHARSET:\s*1252/i.test(content.slice(0, 512))) {
+      content = await fs.promises.readFile(filePath, 'latin1');
+    }
+
+    if (!OFXParser.isOFX(content)) {
+      throw new Error('File does not look like an OFX/QFX statement');
+    }
+
+    return {
+      transactions: OFXParser.parse(content),
+      rejectedRows: [],
+      statement: OFXParser.readSummary(content) || undefined,
+    };
+  }
+
+  /**
+   * Extract transactions from QIF (Quicken Interchange Format). QIF dates
+   * have no locale marker, so they're read like a CSV's.
+   */
+  private static async processQIF(filePath: string, locale?: string): Promise<ProcessResult> {
+    let content = await fs.promises.readFile(filePath, 'utf8');
+
+    // Older Quicken versions write Windows-1252, which shows up as replacement characters
+    if (content.includes('\uFFFD')) {
+      content = await fs.promises.readFile(filePath, 'latin1');
+    }
+
+    if (!QIFParser.isQIF(content)) {
+      throw new Error('File does not look like a QIF export');
+    }
+
+    return this.resolveDates(QIFParser.parse(content), { locale });
+  }
+
+  /**
+   * Extract transactions from an ISO 20022 camt.053 statement
+   */
+  private static async processCAMT(filePath: string): Promise<ProcessResult> {
+    const content = await fs.promises.readFile(filePath, 'utf8');
+
+    if (!CAMTParser.isCAMT(content)) {
+      throw new Error('XML file is not a CAMT.053 bank statement');
+    }
+
+    return {
+      transactions: CAMTParser.parse(content),
+      rejectedRows: [],
+      statement: CAMTParser.readSummary(content) || undefined,
+    };
+  }
+
+  /**
+   * Extract transactions from a SWIFT MT940 statement
+   */
+  private static async processMT940(filePath: string): Promise<ProcessResult> {
+    // SWIFT character set is a subset of ASCII, but banks often add Latin-1 umlauts
+    let content = await fs.promises.readFile(filePath, 'utf8');
+    if (content.includes('\uFFFD')) {
+      content = await fs.promises.readFile(filePath, 'latin1');
+    }
+
+    return {
+      transactions: MT940Parser.parse(content),
+      rejectedRows: [],
+      statement: MT940Parser.readSummary(content) || undefined,
+    };
+  }
+
+  /**
+   * Read the start of a file to sniff its format
+   */
+  private static async peekFile(filePath: string, bytes = 2048): Promise<string> {
+    const handle = await fs.promises.open(filePath, 'r');
+    try {
+      const buffer = Buffer.alloc(bytes);
+      const { bytesRead } = await handle.read(buffer, 0, bytes, 0);
+      return buffer.toString('utf8', 0, bytesRead);
+    } finally {
+      await handle.close();
+    }
+  }
+
+  /**
+   * Extract transactions from an Excel workbook (.xlsx)
    */
-  private static async processCSV(filePath: string): Promise<ExtractedTransaction[]> {
+  private static async processSpreadsheet(
+    filePath: string,
+    signConvention: SignConvention = 'negative_is_expense',
+    locale?: string
+  ): Promise<ProcessResult> {
+    if (await FileValidationService.sniffType(filePath) === 'ole') {
+      throw new Error('Old-style .xls workbooks can\'t be read. Save the file as .xlsx or CSV and upload it again');
+    }
+
+    const table = await SpreadsheetParser.readTable(filePath, cells => this.scoreHeaderRow(cells));
+    if (!table) {
+      throw new Error('Could not find a transaction table in the spreadsheet');
+    }
+
+    // Excel stores dates as serial numbers unless the cell is text
+    const dateColumn = table.headers.find(h => this.matchesKey(h, DATE_KEYS));
+
+    const pending: PendingTransaction[] = [];
+    for (const row of table.rows) {
+      if (dateColumn && typeof row[dateColumn] === 'number') {
+        row[dateColumn] = SpreadsheetParser.serialToDate(row[dateColumn], table.date1904);
+      }
+
+      try {
+        const transaction = this.parseCSVRow(row, signConvention);
+        if (transaction) {
+          pending.push(transaction);
+        }
+      } catch (error) {
+        console.error('Error parsing spreadsheet row:', error);
+      }
+    }
+
+    return this.resolveDates(pending, { locale });
+  }
+
+  /**
+   * Score a spreadsheet row as a header: it needs a date and an amount column,
+   * a description column makes it a better match
+   */
+  private static scoreHeaderRow(cells: string[]): number {
+    const hasDate = cells.some(c => this.matchesKey(c, DATE_KEYS));
+    const hasAmount = cells.some(c => this.matchesKey(c, [...AMOUNT_KEYS, ...DEBIT_KEYS, ...CREDIT_KEYS]));
+    if (!hasDate || !hasAmount) {
+      return 0;
+    }
+
+    const hasDescription = cells.some(c => this.matchesKey(c, DESCRIPTION_KEYS));
+    return hasDescription ? 2 : 1;
+  }
+
+  /**
+   * Case- and whitespace-insensitive column name match
+   */
+  private static matchesKey(column: string, keys: string[]): boolean {
+    const normalized = column.trim().toLowerCase();
+    return keys.some(k => k.toLowerCase() === normalized);
+  }
+
+  /**
+   * Read the header row and a few sample rows of a CSV (for the mapping step)
+   */
+  static async previewCSV(
+    storageKey: string,
+    skipRows: number = 0,
+    sampleSize: number = 5
+  ): Promise<{ headers: string[]; rows: Record<string, string>[] }> {
+    const stream = Readable.from([FileValidationService.decodeText(await EncryptionService.readFile(storageKey))]);
+
+    return new Promise((resolve, reject) => {
+      let headers: string[] = [];
+      const rows: Record<string, string>[] = [];
+
+      stream
+        .pipe(csv({ skipLines: skipRows, mapHeaders: ({ header }) => this.cleanHeader(header) }))
+        .on('headers', (h: string[]) => {
+          headers = h;
+        })
+        .on('data', (row) => {
+          rows.push(row);
+          if (rows.length >= sampleSize) {
+            stream.destroy();
+            resolve({ headers, rows });
+          }
+        })
+        .on('end', () => {
+          resolve({ headers, rows });
+        })
+        .on('error', (error) => {
+          reject(error);
+        });
+    });
+  }
+
+  /**
+   * Normalized header row used to recognise the same bank export again
+   */
+  static headerSignature(headers: string[]): string {
+    return headers.map(h => this.cleanHeader(h).toLowerCase()).join('|');
+  }
+
+  /**
+   * Best-guess mapping from the header names (pre-fills the mapping step)
+   */
+  static guessMapping(headers: string[]): Partial<ImportMapping> {
+    const find = (keys: string[]) => headers.find(h => this.matchesKey(h, keys)) || null;
+    const amount = find(AMOUNT_KEYS);
+    const description = find(DESCRIPTION_KEYS);
+
+    return {
+      date_column: find(DATE_KEYS) || undefined,
+      date_format: null,
+      description_columns: description ? [description] : [],
+      amount_column: amount,
+      debit_column: amount ? null : find(DEBIT_KEYS),
+      credit_column: amount ? null : find(CREDIT_KEYS),
+      sign_convention: 'negative_is_expense',
+      skip_rows: 0,
+    };
+  }
+
+  /**
+   * Open a CSV as UTF-8 text, whatever encoding the bank exported it in
+   * (UTF-16 with a byte order mark, or Windows-1252 from older systems)
+   */
+  private static async openCSV(filePath: string): Promise<Readable> {
+    return Readable.from([FileValidationService.decodeText(await fs.promises.readFile(filePath))]);
+  }
+
+  /**
+   * Strip a UTF-8 byte order mark and padding from a header cell
+   */
+  private static cleanHeader(header: string): string {
+    return header.replace(/^\uFEFF/, '').trim();
+  }
+
+  /**
+   * Extract transactions from CSV, using a saved column mapping when there is one
+   */
+  private static async processCSV(
+    filePath: string,
+    mapping?: ImportMapping,
+    signConvention: SignConvention = 'negative_is_expense',
+    locale?: string
+  ): Promise<ProcessResult> {
+    const stream = await this.openCSV(filePath);
+
     return new Promise((resolve, reject) => {
-      const transactions: ExtractedTransaction[] = [];
+      const pending: PendingTransaction[] = [];
+      // Header is the first line after the skipped ones
+      let line = (mapping?.skip_rows || 0) + 1;
 
-      fs.createReadStream(filePath)
-        .pipe(csv())
+      stream
+        .pipe(csv({ skipLines: mapping?.skip_rows || 0, mapHeaders: ({ header }) => this.cleanHeader(header) }))
         .on('data', (row) => {
+          line++;
           try {
             // Common CSV formats have: Date, Description, Amount
-            const transaction = this.parseCSVRow(row);
+            const transaction = mapping ? this.parseMappedRow(row, mapping) : this.parseCSVRow(row, signConvention);
             if (transaction) {
-              transactions.push(transaction);
+              pending.push({ ...transaction, line });
             }
           } catch (error) {
             console.error('Error parsing CSV row:', error);
           }
         })
         .on('end', () => {
-          resolve(transactions);
+          resolve(this.resolveDates(pending, { locale, dateFormat: mapping?.date_format }));
         })
         .on('error', (error) => {
           reject(error);
@@ -97,50 +605,216 @@ export class FileProcessorService {
   /**
    * Parse CSV row into transaction
    */
-  private static parseCSVRow(row: any): ExtractedTransaction | null {
+  private static parseCSVRow(row: any, signConvention: SignConvention = 'negative_is_expense'): PendingTransaction | null {
     // Try common CSV column names
-    const dateKeys = ['Date', 'date', 'Transaction Date', 'Posting Date', 'posting_date'];
-    const descKeys = ['Description', 'description', 'Merchant', 'merchant', 'Details', 'details'];
-    const amountKeys = ['Amount', 'amount', 'Debit', 'debit', 'Credit', 'credit'];
+    const date = this.findValue(row, DATE_KEYS);
+    const description = this.findValue(row, DESCRIPTION_KEYS);
 
-    const date = this.findValue(row, dateKeys);
-    const description = this.findValue(row, descKeys);
-    const amountStr = this.findValue(row, amountKeys);
-
-    if (!date || !description || !amountStr) {
+    if (!date || !description) {
       return null;
     }
 
-    const amount = parseFloat(amountStr.toString().replace(/[$,]/g, ''));
-    if (isNaN(amount)) {
+    // A single signed amount column, or separate debit and credit columns
+    const resolved = this.resolveAmount(
+      this.findValue(row, AMOUNT_KEYS),
+      this.findValue(row, DEBIT_KEYS),
+      this.findValue(row, CREDIT_KEYS),
+      signConvention
+    );
+    if (!resolved) {
       return null;
     }
 
     return {
-      date: this.normalizeDate(date.toString()),
+      rawDate: date.toString(),
       description: description.toString().trim(),
-      amount: Math.abs(amount),
-      isIncome: amount > 0,
+      amount: resolved.amount,
+      isIncome: resolved.isIncome,
+      source: this.rowText(row),
     };
   }
 
   /**
-   * Find value from row using multiple possible keys
+   * Parse CSV row using an import profile's column mapping
+   */
+  private static parseMappedRow(row: Record<string, string>, mapping: ImportMapping): PendingTransaction | null {
+    const rawDate = row[mapping.date_column];
+    if (!rawDate) {
+      return null;
+    }
+
+    const description = mapping.description_columns
+      .map(column => (row[column] || '').trim())
+      .filter(Boolean)
+      .join(' ');
+
+    const resolved = this.resolveAmount(
+      mapping.amount_column ? row[mapping.amount_column] : null,
+      mapping.debit_column ? row[mapping.debit_column] : null,
+      mapping.credit_column ? row[mapping.credit_column] : null,
+      mapping.sign_convention
+    );
+    if (!resolved) {
+      return null;
+    }
+
+    return {
+      rawDate,
+      description: description || 'Unknown transaction',
+      amount: resolved.amount,
+      isIncome: resolved.isIncome,
+      source: this.rowText(row),
+    };
+  }
+
+  /**
+   * A CSV/spreadsheet row as one line of text, for reporting
+   */
+  private static rowText(row: Record<string, any>): string {
+    return Object.values(row)
+      .map(value => (value === null || value === undefined ? '' : String(value)))
+      .join(', ');
+  }
+
+  /**
+   * Work out amount and direction from either a signed amount cell or a
+   * debit/credit pair. Debit/credit columns say the direction themselves,
+   * so their sign is ignored; a single column follows CR/DR markers first,
+   * then the sign convention (credit card exports show charges as positive).
+   */
+  private static resolveAmount(
+    amountCell: any,
+    debitCell: any,
+    creditCell: any,
+    signConvention: SignConvention
+  ): { amount: number; isIncome: boolean } | null {
+    const single = this.parseAmount(amountCell);
+    if (single && single.value !== 0) {
+      const isIncome = single.marker
+        ? single.marker === 'CR'
+        : signConvention === 'positive_is_expense' ? single.value < 0 : single.value > 0;
+      return { amount: Math.abs(single.value), isIncome };
+    }
+
+    // Banks often fill the unused column with 0.00
+    const debit = this.parseAmount(debitCell);
+    if (debit && debit.value !== 0) {
+      return { amount: Math.abs(debit.value), isIncome: false };
+    }
+
+    const credit = this.parseAmount(creditCell);
+    if (credit && credit.value !== 0) {
+      return { amount: Math.abs(credit.value), isIncome: true };
+    }
+
+    return null;
+  }
+
+  /**
+   * Parse an amount cell. Handles currency symbols, thousands separators,
+   * decimal commas (1.234,56), parenthesised negatives "(12.50)",
+   * trailing minus "12.50-" and CR/DR markers "12.50 CR" / "DR 12.50".
+   */
+  private static parseAmount(cell: any): ParsedAmount | null {
+    if (cell === undefined || cell === null) {
+      return null;
+    }
+    if (typeof cell === 'number') {
+      return isNaN(cell) ? null : { value: cell };
+    }
+
+    let text = String(cell).trim();
+    if (!text) {
+      return null;
+    }
+
+    let marker: ParsedAmount['marker'];
+    const markerMatch = text.match(/^(CR|DR)\b\.?\s*|\s*\b(CR|DR)\.?$/i);
+    if (markerMatch) {
+      marker = (markerMatch[1] || markerMatch[2]).toUpperCase() as ParsedAmount['marker'];
+      text = text.replace(markerMatch[0], '');
+    }
+
+    let negative = false;
+    if (/^\(.*\)$/.test(text)) {
+      negative = true;
+      text = text.slice(1, -1);
+    }
+    if (/-\s*$/.test(text) || /^\s*-/.test(text) || /^[^\d]*-/.test(text)) {
+      negative = true;
+    }
+
+    let digits = text.replace(/[^0-9.,]/g, '');
+    const lastComma = digits.lastIndexOf(',');
+    const lastDot = digits.lastIndexOf('.');
+    if (lastComma > lastDot && /,\d{1,2}$/.test(digits)) {
+      // Decimal comma: 1.234,56 or 12,50
+      digits = digits.replace(/\./g, '').replace(',', '.');
+    } else {
+      digits = digits.replace(/,/g, '');
+    }
+
+    const value = parseFloat(digits);
+    if (isNaN(value)) {
+      return null;
+    }
+
+    return { value: negative ? -value : value, marker };
+  }
+
+  /**
+   * Find value from row using multiple possible keys (ignoring case and padding)
    */
   private static findValue(row: any, keys: string[]): any {
     for (const key of keys) {
-      if (row[key] !== undefined && row[key] !== null && row[key] !== '') {
-        return row[key];
+      const column = Object.keys(row).find(c => this.matchesKey(c, [key]));
+      if (column !== undefined && row[column] !== undefined && row[column] !== null && row[column] !== '') {
+        return row[column];
       }
     }
     return null;
   }
 
+  /**
+   * Turn rows from the PDF table layout into transactions. When the table
+   * has one unsigned amount column, the change in the running balance says
+   * whether money went in or out.
+   */
+  private static pdfRowsToPending(rows: PDFTableRow[]): PendingTransaction[] {
+    const pending: PendingTransaction[] = [];
+
+    for (const row of rows) {
+      const resolved = this.resolveAmount(row.amount, row.debit, row.credit, 'negative_is_expense');
+      if (!resolved) continue;
+
+      let isIncome = resolved.isIncome;
+      const amount = this.parseAmount(row.amount);
+      if (amount && amount.value > 0 && !amount.marker) {
+        const balance = this.parseAmount(row.balance);
+        const previousBalance = this.parseAmount(row.previousBalance);
+        isIncome = balance && previousBalance
+          ? balance.value > previousBalance.value
+          : this.isIncomeTransaction(row.text, row.description, false);
+      }
+
+      pending.push({
+        rawDate: row.date,
+        description: this.cleanDescription(row.description) || 'Unknown transaction',
+        amount: resolved.amount,
+        isIncome,
+        source: `Page ${row.page}: ${row.text}`,
+        confidence: row.confidence,
+      });
+    }
+
+    return pending;
+  }
+
   /**
    * Parse transactions from PDF text
    * Improved with multiple parsing strategies for different bank formats
    */
-  private static parseTransactionsFromText(text: string): ExtractedTransaction[] {
+  private static parseTransactionsFromText(text: string): PendingTransaction[] {
     // Try multiple parsing strategies
     let transactions = this.parseStrategy1(text);  // Standard format
 
@@ -152,16 +826,16 @@ export class FileProcessorService {
       transactions = this.parseStrategy3(text);  // Line-by-line fallback
     }
 
-    // Deduplicate and validate
-    return this.deduplicateTransactions(transactions);
+    // Deduplicated once dates are resolved
+    return transactions;
   }
 
   /**
    * Strategy 1: Standard bank statement format
    * Format: DATE DESCRIPTION AMOUNT
    */
-  private static parseStrategy1(text: string): ExtractedTransaction[] {
-    const transactions: ExtractedTransaction[] = [];
+  private static parseStrategy1(text: string): PendingTransaction[] {
+    const transactions: PendingTransaction[] = [];
     const lines = text.split('\n');
 
     // Multiple date patterns for different formats
@@ -170,6 +844,7 @@ export class FileProcessorService {
       /\b(\d{4}[-/]\d{1,2}[-/]\d{1,2})\b/,              // YYYY-MM-DD
       /\b(Jan|Feb|Mar|Apr|May|Jun|Jul|Aug|Sep|Oct|Nov|Dec)\s+\d{1,2},?\s*\d{4}/i,  // Jan 15, 2024
       /\b\d{1,2}\s+(Jan|Feb|Mar|Apr|May|Jun|Jul|Aug|Sep|Oct|Nov|Dec)\s+\d{4}/i,    // 15 Jan 2024
+      /\b\d{1,2}\s+(Jan|Feb|Mar|Apr|May|Jun|Jul|Aug|Sep|Oct|Nov|Dec)\b/i,           // 15 Jan (year from statement period)
     ];
 
     // Amount patterns - capture negative signs and parentheses for debits
@@ -234,10 +909,12 @@ export class FileProcessorService {
       const isIncome = this.isIncomeTransaction(line, description, isDebit);
 
       transactions.push({
-        date: this.normalizeDate(dateMatch[0]),
+        rawDate: dateMatch[0],
         description,
         amount,
         isIncome,
+        line: i + 1,
+        source: line,
       });
     }
 
@@ -247,8 +924,8 @@ export class FileProcessorService {
   /**
    * Strategy 2: Multi-column format (separate debit/credit columns)
    */
-  private static parseStrategy2(text: string): ExtractedTransaction[] {
-    const transactions: ExtractedTransaction[] = [];
+  private static parseStrategy2(text: string): PendingTransaction[] {
+    const transactions: PendingTransaction[] = [];
 
     // Split into lines and look for table-like structure
     const lines = text.split('\n').filter(l => l.trim());
@@ -279,17 +956,19 @@ export class FileProcessorService {
         const isIncome = amount2 > 0 && amount1 === 0; // Credit column has value
 
         transactions.push({
-          date: this.normalizeDate(date),
+          rawDate: date,
           description,
           amount: finalAmount,
           isIncome,
+          source: line,
         });
       } else if (amount1 > 0) {
         transactions.push({
-          date: this.normalizeDate(date),
+          rawDate: date,
           description,
           amount: amount1,
           isIncome: this.isIncomeTransaction(line, description, false),
+          source: line,
         });
       }
     }
@@ -300,8 +979,8 @@ export class FileProcessorService {
   /**
    * Strategy 3: Aggressive line-by-line parsing (fallback)
    */
-  private static parseStrategy3(text: string): ExtractedTransaction[] {
-    const transactions: ExtractedTransaction[] = [];
+  private static parseStrategy3(text: string): PendingTransaction[] {
+    const transactions: PendingTransaction[] = [];
 
     // Very flexible patterns
     const datePattern = /\b(\d{1,2}[-/]\d{1,2}(?:[-/]\d{2,4})?)\b/;
@@ -341,10 +1020,11 @@ export class FileProcessorService {
       if (!description || description.length < 2) continue;
 
       transactions.push({
-        date: this.normalizeDate(dateMatch[1]),
+        rawDate: dateMatch[1],
         description,
         amount,
         isIncome: this.isIncomeTransaction(line, description, false),
+        source: line,
       });
     }
 
@@ -416,21 +1096,42 @@ export class FileProcessorService {
   }
 
   /**
-   * Normalize date to YYYY-MM-DD format
+   * Turn the raw dates of a file's rows into YYYY-MM-DD. Without an explicit
+   * format, the day/month order is detected from all the dates together
+   * (falling back to the user's locale) and year-less dates get their year
+   * from the statement period. Rows whose date can't be read are reported
+   * rather than imported with a guessed date.
    */
-  private static normalizeDate(dateStr: string): string {
-    // Remove any extra whitespace
-    dateStr = dateStr.trim();
+  private static resolveDates(
+    pending: PendingTransaction[],
+    context: { locale?: string; dateFormat?: string | null; periodText?: string } = {}
+  ): ProcessResult {
+    const rawDates = pending.map(p => p.rawDate.trim());
+    const order = DateParser.detectOrder(rawDates, DateParser.orderForLocale(context.locale));
+    const period = DateParser.findStatementPeriod(context.periodText ?? rawDates.join('\n'), order);
+
+    const transactions: ExtractedTransaction[] = [];
+    const rejectedRows: RejectedRow[] = [];
 
-    // Try to parse the date
-    const date = new Date(dateStr);
+    for (const { rawDate, line, source, ...transaction } of pending) {
+      const date = context.dateFormat
+        ? DateParser.parseWithFormat(rawDate, context.dateFormat)
+        : DateParser.parse(rawDate, order, period);
 
-    if (isNaN(date.getTime())) {
-      // If parsing failed, return today's date as fallback
-      return new Date().toISOString().split('T')[0];
+      if (date) {
+        transactions.push({ date, ...transaction });
+      } else {
+        rejectedRows.push({ line, text: source, reason: `Unrecognised date "${rawDate.trim()}"` });
+      }
     }
 
-    // Return in YYYY-MM-DD format
-    return date.toISOString().split('T')[0];
+    // The printed period when there is one, otherwise the span of the transactions
+    const dates = transactions.map(t => t.date).sort();
+    const statement: StatementSummary = {
+      periodStart: period?.start ?? dates[0],
+      periodEnd: period?.end ?? dates[dates.length - 1],
+    };
+
+    return { transactions, rejectedRows, statement };
   }
 }
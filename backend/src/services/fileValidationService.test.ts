@@ -0,0 +1,107 @@
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import zlib from 'zlib';
+import { FileValidationService } from './fileValidationService';
+
+const CLEAN_PDF = [
+  '%PDF-1.7',
+  '1 0 obj << /Type /Catalog /Pages 2 0 R >> endobj',
+  '2 0 obj << /Type /Pages /Kids [] /Count 0 >> endobj',
+  'trailer << /Root 1 0 R >>',
+  '%%EOF',
+].join('\n');
+
+// A PDF whose objects sit in a Flate-compressed object stream
+const objectStreamPDF = (objects: string) => {
+  const data = zlib.deflateSync(Buffer.from(objects, 'latin1'));
+  return Buffer.concat([
+    Buffer.from(`%PDF-1.7\n5 0 obj\n<< /Type /ObjStm /N 1 /First 4 /Filter /FlateDecode /Length ${data.length} >>\nstream\n`, 'latin1'),
+    data,
+    Buffer.from('\nendstream\nendobj\n%%EOF\n', 'latin1'),
+  ]);
+};
+
+describe('FileValidationService', () => {
+  let root: string;
+
+  const write = (name: string, contents: string | Buffer) => {
+    const file = path.join(root, name);
+    fs.writeFileSync(file, contents);
+    return file;
+  };
+
+  beforeEach(() => {
+    root = fs.mkdtempSync(path.join(os.tmpdir(), 'validation-test-'));
+  });
+
+  afterEach(() => {
+    fs.rmSync(root, { recursive: true, force: true });
+  });
+
+  describe('validate', () => {
+    it('accepts files whose contents match their extension', async () => {
+      expect(await FileValidationService.validate(write('a.pdf', CLEAN_PDF), 'statement.pdf')).toBeNull();
+      expect(await FileValidationService.validate(write('a.csv', 'Date,Amount\n2025-01-05,-42.50\n'), 'statement.csv')).toBeNull();
+    });
+
+    it('rejects files whose magic bytes don\'t match the extension', async () => {
+      const csv = write('a', 'Date,Amount\n2025-01-05,-42.50\n');
+
+      expect(await FileValidationService.validate(csv, 'statement.pdf')).toBe('File contents (TEXT) don\'t match its .pdf extension');
+      expect(await FileValidationService.validate(write('b', CLEAN_PDF), 'statement.csv')).toBe('File contents (PDF) don\'t match its .csv extension');
+      expect(await FileValidationService.validate(write('c', Buffer.from([0, 1, 2, 3, 0, 5])), 'statement.csv'))
+        .toBe('File contents aren\'t a readable .csv file');
+    });
+
+    it('rejects encrypted and truncated PDFs', async () => {
+      const encrypted = CLEAN_PDF.replace('trailer << ', 'trailer << /Encrypt 3 0 R ');
+
+      expect(await FileValidationService.validate(write('a.pdf', encrypted), 'statement.pdf')).toBe('PDF is password protected or encrypted');
+      expect(await FileValidationService.validate(write('b.pdf', CLEAN_PDF.replace('%%EOF', '')), 'statement.pdf'))
+        .toBe('PDF is incomplete or damaged');
+    });
+
+    it('finds JavaScript behind name escapes', async () => {
+      const pdf = CLEAN_PDF.replace('/Type /Catalog', '/Type /Catalog /OpenAction << /S /J#61vaScript >>');
+
+      expect(await FileValidationService.validate(write('a.pdf', pdf), 'statement.pdf')).toBe('PDF contains JavaScript');
+    });
+
+    it('looks inside compressed object streams', async () => {
+      const safe = objectStreamPDF('3 0 << /Type /Page >>');
+      const unsafe = objectStreamPDF('3 0 << /S /Launch /F (calc.exe) >>');
+
+      expect(await FileValidationService.validate(write('a.pdf', safe), 'statement.pdf')).toBeNull();
+      expect(await FileValidationService.validate(write('b.pdf', unsafe), 'statement.pdf')).toBe('PDF tries to launch other programs');
+    });
+
+    it('rejects object streams it can\'t decompress', async () => {
+      const pdf = objectStreamPDF('3 0 << /Type /Page >>').toString('latin1').replace('/FlateDecode', '/LZWDecode');
+
+      expect(await FileValidationService.validate(write('a.pdf', Buffer.from(pdf, 'latin1')), 'statement.pdf'))
+        .toBe('PDF is compressed in a way that can\'t be checked');
+    });
+  });
+
+  describe('detectEncoding', () => {
+    it('reads byte order marks', () => {
+      expect(FileValidationService.detectEncoding(Buffer.from([0xef, 0xbb, 0xbf, 0x41]))).toEqual({ encoding: 'utf-8', bom: true });
+      expect(FileValidationService.detectEncoding(Buffer.from([0xff, 0xfe, 0x41, 0x00]))).toEqual({ encoding: 'utf-16le', bom: true });
+      expect(FileValidationService.detectEncoding(Buffer.from([0xfe, 0xff, 0x00, 0x41]))).toEqual({ encoding: 'utf-16be', bom: true });
+    });
+
+    it('falls back to Windows-1252 when the text isn\'t valid UTF-8', () => {
+      expect(FileValidationService.detectEncoding(Buffer.from('Café', 'utf8'))).toEqual({ encoding: 'utf-8', bom: false });
+      expect(FileValidationService.detectEncoding(Buffer.from('Caf\xe9', 'latin1'))).toEqual({ encoding: 'windows-1252', bom: false });
+    });
+  });
+
+  describe('decodeText', () => {
+    it('decodes each encoding and drops the BOM', () => {
+      expect(FileValidationService.decodeText(Buffer.from('﻿Date,Amount', 'utf8'))).toBe('Date,Amount');
+      expect(FileValidationService.decodeText(Buffer.concat([Buffer.from([0xff, 0xfe]), Buffer.from('Café', 'utf16le')]))).toBe('Café');
+      expect(FileValidationService.decodeText(Buffer.from('Caf\xe9', 'latin1'))).toBe('Café');
+    });
+  });
+});
@@ -0,0 +1,245 @@
+/**
+ * File Validation Service
+ *
+ * Checks what an uploaded file really contains instead of trusting the
+ * client's mime type or the file extension:
+ * - Magic bytes must match the extension (a ".pdf" must start with %PDF-)
+ * - PDFs must not be encrypted or carry JavaScript, embedded files or
+ *   launch actions, which bank statements never need. Compressed object
+ *   streams are inflated and checked too
+ * - Text formats must be text, in an encoding we can read (BOM aware)
+ * Rejected files are quarantined by the upload controller.
+ */
+
+import fs from 'fs';
+import path from 'path';
+import zlib from 'zlib';
+
+export type SniffedType = 'pdf' | 'zip' | 'ole' | 'png' | 'jpeg' | 'text' | 'unknown';
+
+export type TextEncoding = 'utf-8' | 'utf-16le' | 'utf-16be' | 'windows-1252';
+
+// Bytes read to identify a file
+const SNIFF_BYTES = 8192;
+
+const SIGNATURES: { type: SniffedType; bytes: number[] }[] = [
+  { type: 'pdf', bytes: [0x25, 0x50, 0x44, 0x46, 0x2d] },                         // %PDF-
+  { type: 'zip', bytes: [0x50, 0x4b, 0x03, 0x04] },                               // PK (also .xlsx)
+  { type: 'ole', bytes: [0xd0, 0xcf, 0x11, 0xe0, 0xa1, 0xb1, 0x1a, 0xe1] },       // Legacy .xls
+  { type: 'png', bytes: [0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a] },
+  { type: 'jpeg', bytes: [0xff, 0xd8, 0xff] },
+];
+
+// What each binary extension must contain; every other allowed extension is a text format
+const EXPECTED_TYPES: Record<string, SniffedType[]> = {
+  '.pdf': ['pdf'],
+  '.xlsx': ['zip'],
+  '.xls': ['ole', 'zip', 'text'], // Some banks' ".xls" exports are really HTML or tab-separated text
+  '.png': ['png'],
+  '.jpg': ['jpeg'],
+  '.jpeg': ['jpeg'],
+  '.zip': ['zip'],
+};
+
+// PDF features a bank statement has no use for, and why each is refused
+const UNSAFE_PDF_FEATURES: { pattern: RegExp; reason: string }[] = [
+  { pattern: /\/Encrypt\b/, reason: 'PDF is password protected or encrypted' },
+  { pattern: /\/(JavaScript|JS)\b/, reason: 'PDF contains JavaScript' },
+  { pattern: /\/(EmbeddedFiles?|RichMedia)\b/, reason: 'PDF contains embedded files' },
+  { pattern: /\/Launch\b/, reason: 'PDF tries to launch other programs' },
+];
+
+// Most a PDF's compressed object streams may inflate to when checking them
+const MAX_INFLATED_PDF_BYTES = 50 * 1024 * 1024;
+
+// An indirect object with a stream: the dictionary, then the data after "stream"
+const PDF_STREAM = /\d+\s+\d+\s+obj\b([\s\S]*?)\bstream\r?\n/g;
+
+// Names can hide behind #xx escapes (/J#61vaScript)
+const decodeNames = (text: string) =>
+  text.replace(/#([0-9A-Fa-f]{2})/g, (_, hex) => String.fromCharCode(parseInt(hex, 16)));
+
+const BOMS: { encoding: TextEncoding; bytes: number[] }[] = [
+  { encoding: 'utf-8', bytes: [0xef, 0xbb, 0xbf] },
+  { encoding: 'utf-16le', bytes: [0xff, 0xfe] },
+  { encoding: 'utf-16be', bytes: [0xfe, 0xff] },
+];
+
+const startsWith = (buffer: Buffer, bytes: number[]) =>
+  buffer.length >= bytes.length && bytes.every((byte, i) => buffer[i] === byte);
+
+export class FileValidationService {
+  /**
+   * Check an uploaded file's contents against its name.
+   * Returns why the file was rejected, or null when it looks fine.
+   */
+  static async validate(filePath: string, filename: string): Promise<string | null> {
+    const ext = path.extname(filename).toLowerCase();
+    const type = await this.sniffType(filePath);
+    const expected = EXPECTED_TYPES[ext] || ['text'];
+
+    if (!expected.includes(type)) {
+      return type === 'unknown'
+        ? `File contents aren't a readable ${ext || 'statement'} file`
+        : `File contents (${type.toUpperCase()}) don't match its ${ext || 'missing'} extension`;
+    }
+
+    if (type === 'pdf') {
+      return this.checkPDF(filePath);
+    }
+
+    return null;
+  }
+
+  /**
+   * Identify a file from its first bytes
+   */
+  static async sniffType(filePath: string): Promise<SniffedType> {
+    const head = await this.readHead(filePath);
+
+    const signature = SIGNATURES.find(s => startsWith(head, s.bytes));
+    if (signature) {
+      return signature.type;
+    }
+
+    return this.looksLikeText(head) ? 'text' : 'unknown';
+  }
+
+  /**
+   * Work out how a text file is encoded: from its byte order mark, else
+   * UTF-8 if it decodes cleanly, else Windows-1252 (older bank exports)
+   */
+  static detectEncoding(buffer: Buffer): { encoding: TextEncoding; bom: boolean } {
+    const bom = BOMS.find(b => startsWith(buffer, b.bytes));
+    if (bom) {
+      return { encoding: bom.encoding, bom: true };
+    }
+
+    try {
+      new TextDecoder('utf-8', { fatal: true }).decode(buffer);
+      return { encoding: 'utf-8', bom: false };
+    } catch {
+      return { encoding: 'windows-1252', bom: false };
+    }
+  }
+
+  /**
+   * Decode a text file's contents, whatever its encoding (BOM removed)
+   */
+  static decodeText(buffer: Buffer): string {
+    const { encoding } = this.detectEncoding(buffer);
+    return new TextDecoder(encoding).decode(buffer);
+  }
+
+  /**
+   * Refuse PDFs that are damaged or use features statements don't need
+   */
+  private static async checkPDF(filePath: string): Promise<string | null> {
+    const raw = await fs.promises.readFile(filePath, 'latin1');
+
+    if (!raw.includes('%%EOF')) {
+      return 'PDF is incomplete or damaged';
+    }
+
+    const findUnsafe = (content: string) => UNSAFE_PDF_FEATURES.find(feature => feature.pattern.test(decodeNames(content)));
+
+    const unsafe = findUnsafe(raw);
+    if (unsafe) {
+      return unsafe.reason;
+    }
+
+    // Objects can also sit compressed inside object streams, out of sight of the check above
+    const objectStreams = this.readObjectStreams(raw);
+    if (objectStreams === null) {
+      return 'PDF is compressed in a way that can\'t be checked';
+    }
+
+    return findUnsafe(objectStreams.join('\n'))?.reason || null;
+  }
+
+  /**
+   * The decompressed contents of a PDF's object streams (/Type /ObjStm),
+   * or null when one can't be decompressed (an unsupported filter, damage,
+   * or more than MAX_INFLATED_PDF_BYTES)
+   */
+  private static readObjectStreams(raw: string): string[] | null {
+    const contents: string[] = [];
+    let inflatedBytes = 0;
+
+    for (const match of raw.matchAll(PDF_STREAM)) {
+      const dictionary = decodeNames(match[1]);
+      if (!/\/Type\s*\/ObjStm\b/.test(dictionary)) {
+        continue;
+      }
+
+      // Trust a direct /Length; otherwise the data runs to "endstream", less its end of line
+      const start = match.index! + match[0].length;
+      const length = dictionary.match(/\/Length\s+(\d+)(?!\s+\d+\s+R)/);
+      let end = length ? start + parseInt(length[1], 10) : -1;
+      if (end === -1 || end > raw.length) {
+        end = raw.indexOf('endstream', start);
+        if (end === -1) {
+          return null;
+        }
+        end -= raw.slice(start, end).match(/\r?\n?$/)![0].length;
+      }
+      const data = Buffer.from(raw.slice(start, end), 'latin1');
+
+      const filters = dictionary.match(/\/Filter\s*(\[[^\]]*\]|\/\w+)/)?.[1].match(/\/\w+/g) || [];
+      if (filters.length > 1 || (filters.length === 1 && !['/FlateDecode', '/Fl'].includes(filters[0])) || /\/Predictor\s+([2-9]|\d{2})/.test(dictionary)) {
+        return null;
+      }
+
+      try {
+        const inflated = filters.length === 1
+          ? zlib.inflateSync(data, { maxOutputLength: MAX_INFLATED_PDF_BYTES - inflatedBytes + 1 })
+          : data;
+        inflatedBytes += inflated.length;
+        if (inflatedBytes > MAX_INFLATED_PDF_BYTES) {
+          return null;
+        }
+        contents.push(inflated.toString('latin1'));
+      } catch {
+        return null;
+      }
+    }
+
+    return contents;
+  }
+
+  /**
+   * Text has a known BOM, or no NUL bytes and hardly any control characters
+   */
+  private static looksLikeText(head: Buffer): boolean {
+    if (head.length === 0) {
+      return false;
+    }
+    if (BOMS.some(b => startsWith(head, b.bytes))) {
+      return true;
+    }
+
+    let control = 0;
+    for (const byte of head) {
+      if (byte === 0) {
+        return false;
+      }
+      // Tab, line feed, form feed and carriage return are normal in text
+      if (byte < 0x20 && ![0x09, 0x0a, 0x0c, 0x0d].includes(byte)) {
+        control++;
+      }
+    }
+
+    return control / head.length < 0.01;
+  }
+
+  private static async readHead(filePath: string): Promise<Buffer> {
+    const handle = await fs.promises.open(filePath, 'r');
+    try {
+      const buffer = Buffer.alloc(SNIFF_BYTES);
+      const { bytesRead } = await handle.read(buffer, 0, SNIFF_BYTES, 0);
+      return buffer.subarray(0, bytesRead);
+    } finally {
+      await handle.close();
+    }
+  }
+}
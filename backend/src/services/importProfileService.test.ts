@@ -0,0 +1,52 @@
+import { ImportProfileService, ImportProfileError } from './importProfileService';
+import { ImportProfileModel } from '../models/ImportProfile';
+import { ImportProfile } from '../types';
+
+jest.mock('../models/ImportProfile');
+
+const model = ImportProfileModel as jest.Mocked<typeof ImportProfileModel>;
+
+const profile: ImportProfile = {
+  id: 'profile-1',
+  user_id: 'user-1',
+  name: 'My bank',
+  header_signature: 'date|details|amount',
+  date_column: 'Date',
+  description_columns: ['Details'],
+  amount_column: 'Amount',
+  sign_convention: 'negative_is_expense',
+  skip_rows: 0,
+  created_at: new Date(),
+  updated_at: new Date(),
+};
+
+describe('ImportProfileService.update', () => {
+  beforeEach(() => {
+    jest.resetAllMocks();
+    model.findById.mockResolvedValue(profile);
+    model.update.mockImplementation(async (_id, _userId, updates) => ({ ...profile, ...updates } as ImportProfile));
+  });
+
+  it('rejects an update that leaves no amount columns', async () => {
+    await expect(ImportProfileService.update('profile-1', 'user-1', { amount_column: null }))
+      .rejects.toBeInstanceOf(ImportProfileError);
+    expect(model.update).not.toHaveBeenCalled();
+  });
+
+  it('allows swapping the amount column for debit/credit columns', async () => {
+    await ImportProfileService.update('profile-1', 'user-1', { amount_column: null, debit_column: 'Out', credit_column: 'In' });
+    expect(model.update).toHaveBeenCalledWith('profile-1', 'user-1', expect.objectContaining({ amount_column: null, debit_column: 'Out' }));
+  });
+
+  it('stores the signature of new headers', async () => {
+    await ImportProfileService.update('profile-1', 'user-1', { headers: ['Date', ' Details ', 'Amount (GBP)'] });
+    expect(model.update).toHaveBeenCalledWith('profile-1', 'user-1', expect.objectContaining({
+      header_signature: expect.stringMatching(/^date\|details\|amount/),
+    }));
+  });
+
+  it('returns null for a missing profile', async () => {
+    model.findById.mockResolvedValue(null);
+    expect(await ImportProfileService.update('missing', 'user-1', { name: 'x' })).toBeNull();
+  });
+});
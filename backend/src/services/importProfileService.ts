@@ -0,0 +1,85 @@
+/**
+ * Import Profile Service
+ *
+ * Saves CSV column mappings ("import profiles") and matches them to
+ * uploads by header signature (the normalized header row of the bank's
+ * export, see FileProcessorService.headerSignature).
+ */
+
+import { ImportProfileModel } from '../models/ImportProfile';
+import { ImportMapping, ImportProfile } from '../types';
+import { FileProcessorService } from './fileProcessorService';
+
+/**
+ * Thrown when a profile change would leave an unusable mapping; the
+ * controller returns the message with a 400
+ */
+export class ImportProfileError extends Error {
+  constructor(message: string, public status: number = 400) {
+    super(message);
+    this.name = 'ImportProfileError';
+  }
+}
+
+// Fields a profile update may change
+export type ImportProfileUpdate = Partial<ImportMapping> & { name?: string; headers?: string[] };
+
+export class ImportProfileService {
+  /**
+   * Create a profile from a mapping and the file's header row
+   */
+  static async create(userId: string, name: string, headers: string[], mapping: ImportMapping): Promise<ImportProfile> {
+    return ImportProfileModel.create(userId, name, FileProcessorService.headerSignature(headers), mapping);
+  }
+
+  /**
+   * Update a profile's name and/or mapping. The profile as it would be
+   * after the update must still have an amount column or debit/credit columns.
+   * Returns null when the profile doesn't exist.
+   */
+  static async update(id: string, userId: string, updates: ImportProfileUpdate): Promise<ImportProfile | null> {
+    const profile = await ImportProfileModel.findById(id, userId);
+    if (!profile) {
+      return null;
+    }
+
+    const merged = { ...profile, ...updates };
+    if (!merged.amount_column && !merged.debit_column && !merged.credit_column) {
+      throw new ImportProfileError('Choose an amount column or debit/credit columns');
+    }
+
+    const { headers, ...fields } = updates;
+    return ImportProfileModel.update(id, userId, {
+      ...fields,
+      header_signature: headers !== undefined ? FileProcessorService.headerSignature(headers) : undefined,
+    });
+  }
+
+  /**
+   * Find the profile whose header signature matches a CSV file.
+   * Profiles can skip different numbers of leading lines, so the header
+   * is re-read for each distinct skip_rows value.
+   */
+  static async findMatchForFile(userId: string, storageKey: string): Promise<ImportProfile | null> {
+    const profiles = await ImportProfileModel.findByUser(userId);
+    const signatures = new Map<number, string>();
+
+    for (const profile of profiles) {
+      const skipRows = profile.skip_rows || 0;
+      if (!signatures.has(skipRows)) {
+        try {
+          const { headers } = await FileProcessorService.previewCSV(storageKey, skipRows, 1);
+          signatures.set(skipRows, FileProcessorService.headerSignature(headers));
+        } catch {
+          signatures.set(skipRows, '');
+        }
+      }
+
+      if (signatures.get(skipRows) === profile.header_signature) {
+        return profile;
+      }
+    }
+
+    return null;
+  }
+}
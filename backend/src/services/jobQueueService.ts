@@ -0,0 +1,173 @@
+/**
+ * Job Queue Service
+ *
+ * A small work queue stored in Postgres (the jobs table), so slow work like
+ * statement processing runs in worker processes instead of inside an HTTP
+ * request. Workers claim jobs with FOR UPDATE SKIP LOCKED, so any number of
+ * them can poll the same table. Failed jobs are retried with exponential
+ * backoff; once a job runs out of attempts it is dead-lettered (status
+ * 'dead') and kept for inspection. Workers keep a heartbeat on the jobs they
+ * run; a job whose heartbeat stops is handed to another worker, and the
+ * worker that lost it can no longer record its outcome.
+ */
+
+import { query } from '../config/database';
+import { Job } from '../types';
+
+const DEFAULT_MAX_ATTEMPTS = parseInt(process.env.JOB_MAX_ATTEMPTS || '3');
+
+// First retry after 30 seconds, then 1 minute, 2 minutes, ...
+const RETRY_BASE_SECONDS = 30;
+
+// A running job whose worker hasn't checked in for this long is assumed lost
+const JOB_TIMEOUT_MINUTES = parseInt(process.env.JOB_TIMEOUT_MINUTES || '15');
+
+// How often a worker checks in on the job it is running
+const HEARTBEAT_INTERVAL_MS = 60 * 1000;
+
+/**
+ * Thrown by a job handler when retrying can't help (e.g. the file has no
+ * transactions). The job is dead-lettered straight away; details are kept
+ * as the job's result for the client.
+ */
+export class PermanentJobError extends Error {
+  constructor(message: string, public details?: any) {
+    super(message);
+    this.name = 'PermanentJobError';
+  }
+}
+
+export class JobQueueService {
+  /**
+   * Add a job to the queue
+   */
+  static async enqueue(
+    type: string,
+    payload: Record<string, any>,
+    options: { userId?: string; maxAttempts?: number } = {}
+  ): Promise<Job> {
+    const result = await query(
+      `INSERT INTO jobs (user_id, type, payload, max_attempts)
+       VALUES ($1, $2, $3, $4)
+       RETURNING *`,
+      [options.userId || null, type, JSON.stringify(payload), options.maxAttempts || DEFAULT_MAX_ATTEMPTS]
+    );
+
+    return result.rows[0];
+  }
+
+  /**
+   * Claim the next job that is due, marking it running for this worker.
+   * Returns null when there is nothing to do.
+   */
+  static async claimNext(workerId: string): Promise<Job | null> {
+    const result = await query(
+      `UPDATE jobs
+       SET status = 'running', locked_by = $1, locked_at = CURRENT_TIMESTAMP,
+           attempts = attempts + 1, updated_at = CURRENT_TIMESTAMP
+       WHERE id = (
+         SELECT id FROM jobs
+         WHERE status = 'queued' AND run_at <= CURRENT_TIMESTAMP
+         ORDER BY run_at
+         FOR UPDATE SKIP LOCKED
+         LIMIT 1
+       )
+       RETURNING *`,
+      [workerId]
+    );
+
+    return result.rows[0] || null;
+  }
+
+  /**
+   * Keep a running job's lock fresh until the returned function is called,
+   * so releaseStale doesn't hand a long job to another worker
+   */
+  static startHeartbeat(id: string, workerId: string): () => void {
+    const timer = setInterval(() => {
+      query(
+        `UPDATE jobs SET locked_at = CURRENT_TIMESTAMP
+         WHERE id = $1 AND locked_by = $2 AND status = 'running'`,
+        [id, workerId]
+      ).catch(error => console.error(`Heartbeat for job ${id} failed:`, error));
+    }, HEARTBEAT_INTERVAL_MS);
+
+    return () => clearInterval(timer);
+  }
+
+  /**
+   * Mark a job as finished, keeping its result. Returns false when the
+   * worker no longer holds the job (it was released as stale), in which
+   * case nothing is recorded.
+   */
+  static async complete(id: string, workerId: string, result: any): Promise<boolean> {
+    const updated = await query(
+      `UPDATE jobs
+       SET status = 'completed', result = $3, last_error = NULL, locked_by = NULL,
+           completed_at = CURRENT_TIMESTAMP, updated_at = CURRENT_TIMESTAMP
+       WHERE id = $1 AND locked_by = $2`,
+      [id, workerId, JSON.stringify(result ?? null)]
+    );
+
+    return (updated.rowCount || 0) > 0;
+  }
+
+  /**
+   * Record a failed attempt. The job is queued again with backoff, or
+   * dead-lettered when it is out of attempts or the error is permanent.
+   * Returns the job as it now stands, or null when the worker no longer
+   * holds the job (nothing is recorded then).
+   */
+  static async fail(job: Job, workerId: string, error: Error): Promise<Job | null> {
+    const permanent = error instanceof PermanentJobError;
+    const dead = permanent || job.attempts >= job.max_attempts;
+    const delaySeconds = RETRY_BASE_SECONDS * Math.pow(2, job.attempts - 1);
+
+    const result = await query(
+      `UPDATE jobs
+       SET status = $2, last_error = $3, result = $4, locked_by = NULL,
+           run_at = CURRENT_TIMESTAMP + ($5 * INTERVAL '1 second'), updated_at = CURRENT_TIMESTAMP
+       WHERE id = $1 AND locked_by = $6
+       RETURNING *`,
+      [
+        job.id,
+        dead ? 'dead' : 'queued',
+        error.message,
+        permanent ? JSON.stringify((error as PermanentJobError).details ?? null) : null,
+        dead ? 0 : delaySeconds,
+        workerId,
+      ]
+    );
+
+    return result.rows[0] || null;
+  }
+
+  /**
+   * Put jobs whose worker died mid-run back in the queue (or dead-letter
+   * them if that was their last attempt). Returns the released jobs.
+   */
+  static async releaseStale(): Promise<Job[]> {
+    const result = await query(
+      `UPDATE jobs
+       SET status = CASE WHEN attempts >= max_attempts THEN 'dead' ELSE 'queued' END,
+           last_error = 'Worker stopped responding', locked_by = NULL, updated_at = CURRENT_TIMESTAMP
+       WHERE status = 'running' AND locked_at < CURRENT_TIMESTAMP - ($1 * INTERVAL '1 minute')
+       RETURNING *`,
+      [JOB_TIMEOUT_MINUTES]
+    );
+
+    return result.rows;
+  }
+
+  /**
+   * Find a job by ID (scoped to the owner)
+   */
+  static async findById(id: string, userId: string): Promise<Job | null> {
+    const result = await query(
+      'SELECT * FROM jobs WHERE id = $1 AND user_id = $2',
+      [id, userId]
+    );
+
+    return result.rows[0] || null;
+  }
+}
@@ -0,0 +1,93 @@
+/**
+ * Learned Category Service
+ *
+ * Remembers the categories users pick when they correct a transaction, per
+ * merchant, so the next import gets them right without asking the AI.
+ * Merchants are matched on their normalized key (see
+ * MerchantNormalizationService), so "POS STARBUCKS #1234 SEATTLE" and
+ * "STARBUCKS 5678" share what was learned.
+ */
+
+import { PoolClient } from 'pg';
+import { LearnedCategoryModel } from '../models/LearnedCategory';
+import { LearnedCategory } from '../types';
+import { MerchantNormalizationService } from './merchantNormalizationService';
+
+// What a mapping is learned from or matched against
+interface MerchantSource {
+  description: string;          // The bank's description
+  counterparty?: string | null;
+}
+
+export class LearnedCategoryService {
+  /**
+   * Normalized merchant key for a transaction, or null when nothing
+   * recognizable is left (e.g. a description that is only a reference number)
+   */
+  static merchantKey(transaction: MerchantSource): string | null {
+    return MerchantNormalizationService.normalize(transaction)?.key || null;
+  }
+
+  /**
+   * Remember the category a user chose for a transaction's merchant.
+   * Returns the mapping, or null when the merchant can't be recognized.
+   */
+  static async learnFromCorrection(
+    client: PoolClient,
+    userId: string,
+    transaction: MerchantSource,
+    category: string,
+    subcategory?: string | null
+  ): Promise<LearnedCategory | null> {
+    const merchant = MerchantNormalizationService.normalize(transaction);
+    if (!merchant) {
+      return null;
+    }
+
+    return LearnedCategoryModel.remember(client, userId, merchant.key, merchant.name, category, subcategory);
+  }
+
+  /**
+   * Give every other transaction from the same merchant the mapping's
+   * category. Transactions are matched on the merchant they're linked to
+   * (see MerchantNormalizationService.linkExisting). Returns how many changed.
+   */
+  static async applyToSimilar(client: PoolClient, userId: string, mapping: LearnedCategory): Promise<number> {
+    const updated = await client.query(
+      `UPDATE transactions t
+       SET category = $3, subcategory = $4, updated_at = CURRENT_TIMESTAMP
+       FROM merchants m
+       WHERE m.id = t.merchant_id AND m.user_id = $1 AND m.normalized_key = $2 AND t.user_id = $1
+         AND (t.category IS DISTINCT FROM $3 OR t.subcategory IS DISTINCT FROM $4)`,
+      [userId, mapping.merchant_key, mapping.category, mapping.subcategory || null]
+    );
+
+    return updated.rowCount || 0;
+  }
+
+  /**
+   * Find the learned mapping for each transaction (null where there is none)
+   * and count the ones used
+   */
+  static async match(userId: string, transactions: MerchantSource[]): Promise<(LearnedCategory | null)[]> {
+    const keys = transactions.map(t => this.merchantKey(t));
+    const mappings = await LearnedCategoryModel.findByKeys(
+      userId,
+      [...new Set(keys.filter((key): key is string => key !== null))]
+    );
+
+    const matches = keys.map(key => (key ? mappings.get(key) || null : null));
+
+    const uses = new Map<string, number>();
+    for (const mapping of matches) {
+      if (mapping) {
+        uses.set(mapping.id, (uses.get(mapping.id) || 0) + 1);
+      }
+    }
+    for (const [id, count] of uses) {
+      await LearnedCategoryModel.recordApplied(id, count);
+    }
+
+    return matches;
+  }
+}
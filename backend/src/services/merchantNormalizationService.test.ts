@@ -0,0 +1,44 @@
+import { MerchantNormalizationService } from './merchantNormalizationService';
+
+const nameOf = (description: string, counterparty?: string) =>
+  MerchantNormalizationService.normalize({ description, counterparty })?.name ?? null;
+
+describe('MerchantNormalizationService.clean', () => {
+  it.each([
+    ['SQ *BLUE BOTTLE 0423 SAN FRANCISCO CA', 'BLUE BOTTLE'],
+    ['POS DEBIT CARD PURCHASE STARBUCKS SEATTLE WA', 'STARBUCKS'],
+    ['JOES PIZZA NEW YORK NY US', 'JOES PIZZA'],
+    ['TARGET WA', 'TARGET'],
+    ['AMZN Mktp US*2K4', 'AMZN'],
+    ['WWW.NETFLIX.COM/BILL', 'NETFLIX'],
+    ['JOES PIZZA - BROOKLYN', 'JOES PIZZA'],
+    ['7-ELEVEN 123 MAIN ST', '7-ELEVEN'],
+    ['123456789', ''],
+  ])('cleans %p to %p', (text, expected) => {
+    expect(MerchantNormalizationService.clean(text)).toBe(expected);
+  });
+});
+
+describe('MerchantNormalizationService.normalize', () => {
+  it('maps known merchants to their canonical name', () => {
+    expect(nameOf('SQ *BLUE BOTTLE 0423 SAN FRANCISCO CA')).toBe('Blue Bottle Coffee');
+    expect(nameOf('AMZN Mktp US*2K4')).toBe('Amazon');
+    expect(nameOf('PAYPAL *NETFLIX.COM')).toBe('Netflix');
+    expect(nameOf('7-ELEVEN 123 MAIN')).toBe('7-Eleven');
+  });
+
+  it('title-cases unknown merchants and keys them', () => {
+    expect(MerchantNormalizationService.normalize({ description: 'JOES PIZZA - BROOKLYN' })).toEqual({
+      name: 'Joes Pizza',
+      key: 'joes pizza',
+    });
+  });
+
+  it('prefers the counterparty to the description', () => {
+    expect(nameOf('SEPA TRANSFER 123', 'Blue Bottle Coffee Inc')).toBe('Blue Bottle Coffee');
+  });
+
+  it('returns null when only a reference is left', () => {
+    expect(nameOf('123456789')).toBeNull();
+  });
+});
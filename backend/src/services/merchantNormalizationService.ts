@@ -0,0 +1,271 @@
+/**
+ * Merchant Normalization Service
+ *
+ * Turns raw statement descriptions into merchant names:
+ *   "SQ *BLUE BOTTLE 0423 SAN FRANCISCO CA" -> "Blue Bottle Coffee"
+ *   "AMZN Mktp US*2K4"                      -> "Amazon"
+ *   "POS PURCHASE STARBUCKS #1234 SEATTLE"  -> "Starbucks"
+ * Bank wording, payment processor prefixes, reference codes, store numbers
+ * and trailing locations are stripped. Names of well-known merchants are
+ * mapped to one canonical name (with a default category and colour);
+ * anything else keeps its cleaned-up name. Each distinct name becomes one
+ * merchant record per user (see MerchantModel).
+ */
+
+import { query } from '../config/database';
+import { MerchantModel, NewMerchant } from '../models/Merchant';
+import { Merchant } from '../types';
+
+// A well-known merchant and the normalized names it appears under
+interface KnownMerchant {
+  name: string;
+  aliases: string[];            // Normalized keys; a key starting with one matches
+  category: string;
+  color: string;
+}
+
+const KNOWN_MERCHANTS: KnownMerchant[] = [
+  { name: 'Amazon', aliases: ['amazon', 'amzn', 'amazon mktplace', 'amazon marketplace'], category: 'Shopping', color: '#FF9900' },
+  { name: 'Amazon Prime', aliases: ['amazon prime', 'prime video', 'amzn prime'], category: 'Subscriptions', color: '#00A8E1' },
+  { name: 'Apple', aliases: ['apple', 'itunes', 'apple com bill', 'apl itunes'], category: 'Subscriptions', color: '#555555' },
+  { name: 'Google', aliases: ['google', 'youtube premium', 'google storage'], category: 'Subscriptions', color: '#4285F4' },
+  { name: 'Netflix', aliases: ['netflix'], category: 'Entertainment', color: '#E50914' },
+  { name: 'Spotify', aliases: ['spotify'], category: 'Entertainment', color: '#1DB954' },
+  { name: 'Disney+', aliases: ['disney plus', 'disneyplus'], category: 'Entertainment', color: '#113CCF' },
+  { name: 'Hulu', aliases: ['hulu'], category: 'Entertainment', color: '#1CE783' },
+  { name: 'Uber Eats', aliases: ['uber eats', 'ubereats'], category: 'Food & Dining', color: '#06C167' },
+  { name: 'Uber', aliases: ['uber', 'uber trip'], category: 'Transportation', color: '#000000' },
+  { name: 'Lyft', aliases: ['lyft'], category: 'Transportation', color: '#FF00BF' },
+  { name: 'DoorDash', aliases: ['doordash', 'door dash'], category: 'Food & Dining', color: '#FF3008' },
+  { name: 'Grubhub', aliases: ['grubhub'], category: 'Food & Dining', color: '#F63440' },
+  { name: 'Starbucks', aliases: ['starbucks'], category: 'Food & Dining', color: '#00704A' },
+  { name: 'Blue Bottle Coffee', aliases: ['blue bottle'], category: 'Food & Dining', color: '#1E90C8' },
+  { name: 'Dunkin\'', aliases: ['dunkin'], category: 'Food & Dining', color: '#FF671F' },
+  { name: 'McDonald\'s', aliases: ['mcdonald\'s', 'mcdonalds', 'mcdonald'], category: 'Food & Dining', color: '#FFC72C' },
+  { name: 'Chipotle', aliases: ['chipotle'], category: 'Food & Dining', color: '#A81612' },
+  { name: 'Whole Foods', aliases: ['whole foods', 'wholefds', 'wfm'], category: 'Food & Dining', color: '#00674B' },
+  { name: 'Trader Joe\'s', aliases: ['trader joe\'s', 'trader joe'], category: 'Food & Dining', color: '#D21242' },
+  { name: 'Kroger', aliases: ['kroger'], category: 'Food & Dining', color: '#0F4C9D' },
+  { name: 'Safeway', aliases: ['safeway'], category: 'Food & Dining', color: '#E21A23' },
+  { name: 'Costco', aliases: ['costco'], category: 'Shopping', color: '#E31837' },
+  { name: 'Walmart', aliases: ['walmart', 'wal mart', 'wm supercenter'], category: 'Shopping', color: '#0071CE' },
+  { name: 'Target', aliases: ['target'], category: 'Shopping', color: '#CC0000' },
+  { name: 'Home Depot', aliases: ['home depot', 'the home depot'], category: 'Shopping', color: '#F96302' },
+  { name: 'IKEA', aliases: ['ikea'], category: 'Shopping', color: '#0058A3' },
+  { name: 'Tesco', aliases: ['tesco'], category: 'Food & Dining', color: '#00539F' },
+  { name: 'Sainsbury\'s', aliases: ['sainsbury\'s', 'sainsburys'], category: 'Food & Dining', color: '#F06C00' },
+  { name: 'Aldi', aliases: ['aldi'], category: 'Food & Dining', color: '#00005F' },
+  { name: 'Lidl', aliases: ['lidl'], category: 'Food & Dining', color: '#0050AA' },
+  { name: 'Shell', aliases: ['shell oil', 'shell'], category: 'Transportation', color: '#FBCE07' },
+  { name: 'Chevron', aliases: ['chevron'], category: 'Transportation', color: '#0054A4' },
+  { name: 'CVS Pharmacy', aliases: ['cvs'], category: 'Healthcare', color: '#CC0000' },
+  { name: 'Walgreens', aliases: ['walgreens'], category: 'Healthcare', color: '#E31837' },
+  { name: 'Airbnb', aliases: ['airbnb'], category: 'Travel', color: '#FF5A5F' },
+  { name: 'Comcast Xfinity', aliases: ['comcast', 'xfinity'], category: 'Utilities', color: '#6138F5' },
+  { name: 'Verizon', aliases: ['verizon', 'vzwrlss'], category: 'Utilities', color: '#CD040B' },
+];
+
+// Bank wording in front of the merchant ("POS", "CARD PURCHASE", ...)
+const BANK_PREFIX = new RegExp(
+  '^(?:' + [
+    'debit card purchase', 'card purchase', 'pos purchase', 'pos',
+    'purchase authori[sz]ed on \\d{1,2}/\\d{1,2}', 'purchase',
+    'checkcard \\d{4}', 'visa debit', 'debit', 'contactless', 'recurring payment',
+    'ach debit', 'ach', 'card payment to', 'payment to', 'direct debit', 'dd',
+  ].join('|') + ')\\b[\\s:\\-]*',
+  'i'
+);
+
+// Payment processors that put their name before a "*" ("SQ *BLUE BOTTLE")
+const PROCESSORS = new Set([
+  'sq', 'squ', 'square', 'tst', 'sp', 'pp', 'paypal', 'iz', 'izettle', 'zettle', 'sumup',
+  'ggl', 'google', 'apl', 'apple', 'bt', 'py', 'wpy', 'cko', 'eb', 'fs', 'dri', 'lpw', 'stripe',
+]);
+
+// Two-letter US states and country codes that end many descriptions
+const LOCATION_CODES = new Set([
+  'al', 'ak', 'az', 'ar', 'ca', 'co', 'ct', 'de', 'fl', 'ga', 'hi', 'id', 'il', 'in', 'ia', 'ks', 'ky',
+  'la', 'me', 'md', 'ma', 'mi', 'mn', 'ms', 'mo', 'mt', 'ne', 'nv', 'nh', 'nj', 'nm', 'ny', 'nc', 'nd',
+  'oh', 'ok', 'or', 'pa', 'ri', 'sc', 'sd', 'tn', 'tx', 'ut', 'vt', 'va', 'wa', 'wv', 'wi', 'wy', 'dc',
+  'us', 'usa', 'gb', 'uk', 'gbr', 'ie', 'de', 'fr', 'nl', 'au', 'nz',
+]);
+
+// First words of multi-word city names ("SAN FRANCISCO", "ST LOUIS")
+const CITY_PREFIXES = new Set([
+  'san', 'santa', 'los', 'las', 'new', 'st', 'saint', 'fort', 'ft', 'el', 'port', 'palm', 'long',
+  'north', 'south', 'east', 'west',
+]);
+
+// Longest name or key the merchants table holds
+const MAX_NAME_LENGTH = 255;
+
+// The merchant a transaction's text points to
+export interface NormalizedMerchant {
+  name: string;                 // Display name
+  key: string;                  // Lowercased, punctuation-free; the same for every variant
+  known?: KnownMerchant;
+}
+
+// What merchants are worked out from
+interface MerchantSource {
+  description: string;          // The bank's description
+  counterparty?: string | null;
+}
+
+/**
+ * Lowercased, punctuation-free form used for keys and alias matching
+ */
+const toKey = (text: string): string =>
+  text.toLowerCase().replace(/[^\p{L}\p{N}&' ]+/gu, ' ').replace(/\s+/g, ' ').trim();
+
+/**
+ * "BLUE BOTTLE" -> "Blue Bottle"; mixed-case names are left as they are
+ */
+const toDisplayName = (text: string): string =>
+  text === text.toUpperCase()
+    ? text.toLowerCase().replace(/(^|[\s\-&/'])(\p{L})/gu, (_, sep, letter) => sep + letter.toUpperCase())
+    : text;
+
+export class MerchantNormalizationService {
+  /**
+   * Work out the merchant from a transaction's counterparty or description.
+   * Returns null when nothing recognizable is left (e.g. only a reference number).
+   */
+  static normalize(transaction: MerchantSource): NormalizedMerchant | null {
+    const cleaned = this.clean(transaction.counterparty?.trim() || transaction.description || '');
+    if (!cleaned) {
+      return null;
+    }
+
+    // The longest matching alias wins ("amazon prime" over "amazon")
+    const key = toKey(cleaned);
+    let known: KnownMerchant | undefined;
+    let knownAlias = '';
+    for (const merchant of KNOWN_MERCHANTS) {
+      for (const alias of merchant.aliases) {
+        if ((key === alias || key.startsWith(alias + ' ')) && alias.length > knownAlias.length) {
+          known = merchant;
+          knownAlias = alias;
+        }
+      }
+    }
+
+    if (known) {
+      return { name: known.name, key: toKey(known.name), known };
+    }
+
+    return { name: toDisplayName(cleaned).substring(0, MAX_NAME_LENGTH), key: key.substring(0, MAX_NAME_LENGTH) };
+  }
+
+  /**
+   * Strip bank wording, processor prefixes, reference codes, store numbers
+   * and trailing locations from a description
+   */
+  static clean(text: string): string {
+    let result = text.replace(/\s+/g, ' ').trim();
+
+    // Bank wording can be stacked ("POS DEBIT CARD PURCHASE ...")
+    for (let previous = ''; previous !== result;) {
+      previous = result;
+      result = result.replace(BANK_PREFIX, '').trim();
+    }
+
+    // "SQ *BLUE BOTTLE" -> "BLUE BOTTLE"; "AMZN Mktp US*2K4" -> "AMZN Mktp US"
+    const star = result.indexOf('*');
+    if (star >= 0) {
+      const before = result.substring(0, star).trim();
+      result = PROCESSORS.has(before.toLowerCase())
+        ? result.substring(star + 1).replace(/\*\S*/g, '').trim()
+        : before;
+    }
+
+    // "JOES PIZZA - BROOKLYN" -> "JOES PIZZA"
+    result = result.split(/\s-\s/)[0];
+
+    // "WWW.NETFLIX.COM/BILL" -> "NETFLIX"
+    result = result
+      .replace(/^www\./i, '')
+      .replace(/\.(?:com|net|org|co\.uk|co|io)\b\S*/gi, '')
+      .trim();
+
+    // Stop at the first store or reference number ("BLUE BOTTLE 0423 SAN FRANCISCO CA").
+    // A leading name with digits in it ("7-ELEVEN") is kept.
+    const words: string[] = [];
+    for (const word of result.split(' ')) {
+      if (/\d/.test(word) && (words.length > 0 || !/\p{L}{2,}/u.test(word))) {
+        if (words.length > 0) break;
+        continue;
+      }
+      words.push(word);
+    }
+
+    // Trailing state/country codes, and the city in front of them
+    // ("STARBUCKS SEATTLE WA" -> "STARBUCKS", "JOES PIZZA NEW YORK NY" -> "JOES PIZZA")
+    let location = false;
+    while (words.length > 1 && LOCATION_CODES.has(toKey(words[words.length - 1]))) {
+      words.pop();
+      location = true;
+    }
+    if (location && words.length > 1) {
+      words.pop();
+      while (words.length > 1 && CITY_PREFIXES.has(toKey(words[words.length - 1]))) {
+        words.pop();
+      }
+    }
+
+    return words
+      .join(' ')
+      .replace(/^[^\p{L}\p{N}]+|[^\p{L}\p{N}'&)]+$/gu, '')
+      .trim();
+  }
+
+  /**
+   * Find (or create) the user's merchant record for each transaction;
+   * null where no merchant could be worked out
+   */
+  static async resolve(userId: string, transactions: MerchantSource[]): Promise<(Merchant | null)[]> {
+    const normalized = transactions.map(t => this.normalize(t));
+    const merchants = await MerchantModel.findOrCreate(
+      userId,
+      normalized
+        .filter((merchant): merchant is NormalizedMerchant => merchant !== null)
+        .map((merchant): NewMerchant => ({
+          name: merchant.name,
+          normalized_key: merchant.key,
+          default_category: merchant.known?.category,
+          color: merchant.known?.color,
+        }))
+    );
+
+    return normalized.map(merchant => (merchant ? merchants.get(merchant.key) || null : null));
+  }
+
+  /**
+   * Link a user's transactions that have no merchant yet (e.g. imported
+   * before merchants existed). Returns how many were linked.
+   */
+  static async linkExisting(userId: string): Promise<number> {
+    const result = await query(
+      `SELECT id, COALESCE(original_description, description) AS description, counterparty
+       FROM transactions
+       WHERE user_id = $1 AND merchant_id IS NULL`,
+      [userId]
+    );
+
+    const merchants = await this.resolve(userId, result.rows);
+    let linked = 0;
+
+    for (let i = 0; i < result.rows.length; i++) {
+      const merchant = merchants[i];
+      if (merchant) {
+        await query(
+          'UPDATE transactions SET merchant_id = $1 WHERE id = $2 AND user_id = $3',
+          [merchant.id, result.rows[i].id, userId]
+        );
+        linked++;
+      }
+    }
+
+    return linked;
+  }
+}
@@ -0,0 +1,156 @@
+/**
+ * OCR Service
+ *
+ * Reads scanned statements (image-only PDFs and PNG/JPEG photos) with
+ * Tesseract running locally via tesseract.js. The English model ships with
+ * the @tesseract.js-data/eng package, so nothing is sent to or fetched from
+ * the network. PDF pages are rasterised with pdfjs before recognition.
+ */
+
+import { pdfToPng } from 'pdf-to-png-converter';
+import { createWorker, Worker } from 'tesseract.js';
+
+const englishData = require('@tesseract.js-data/eng');
+
+// Scanned statements can be long; OCR takes a few seconds per page
+const MAX_OCR_PAGES = parseInt(process.env.OCR_MAX_PAGES || '20');
+
+// Render at 2x (144 DPI) so small statement print is legible to Tesseract
+const PDF_RENDER_SCALE = 2;
+
+// pdf2json's page width for US Letter, in its 1/16 inch units. Recognised
+// pages are scaled to this so the PDF table parser's tolerances still apply.
+const PAGE_WIDTH_UNITS = 38.25;
+
+export interface OCRWord {
+  text: string;
+  confidence: number; // 0-100
+  bbox: { x0: number; y0: number; x1: number; y1: number };
+}
+
+export interface OCRLine {
+  text: string;
+  confidence: number; // 0-100
+  bbox: { x0: number; y0: number; x1: number; y1: number };
+  words: OCRWord[];
+}
+
+export interface OCRPage {
+  width: number;  // Pixels
+  height: number;
+  lines: OCRLine[];
+}
+
+export class OCRService {
+  /**
+   * Recognise the text of a PNG/JPEG image
+   */
+  static async recognizeImage(filePath: string): Promise<OCRPage[]> {
+    const worker = await this.createWorker();
+    try {
+      return [await this.recognize(worker, filePath)];
+    } finally {
+      await worker.terminate();
+    }
+  }
+
+  /**
+   * Rasterise the pages of an image-only PDF and recognise each one,
+   * reporting each page as it's done
+   */
+  static async recognizePDF(
+    filePath: string,
+    onPage?: (pagesDone: number, totalPages: number) => void
+  ): Promise<OCRPage[]> {
+    const images = await pdfToPng(filePath, {
+      viewportScale: PDF_RENDER_SCALE,
+      pagesToProcess: Array.from({ length: MAX_OCR_PAGES }, (_, index) => index + 1),
+      processPagesInParallel: false,
+      returnPageContent: true,
+    });
+
+    const worker = await this.createWorker();
+    try {
+      const pages: OCRPage[] = [];
+      // One page at a time: recognition is CPU-heavy
+      for (const [index, image] of images.entries()) {
+        if (image.content) {
+          pages.push(await this.recognize(worker, image.content, image.width, image.height));
+        }
+        onPage?.(index + 1, images.length);
+      }
+      return pages;
+    } finally {
+      await worker.terminate();
+    }
+  }
+
+  /**
+   * Recognised pages as plain text, one line per OCR line
+   */
+  static toText(pages: OCRPage[]): string {
+    return pages.map(page => page.lines.map(line => line.text).join('\n')).join('\n');
+  }
+
+  /**
+   * Recognised words in the shape pdf2json returns (x/y in 1/16 inch,
+   * width in points), so the PDF table parser can rebuild columns from them.
+   * Words take their line's top edge so each OCR line stays one table row.
+   */
+  static toPDFData(pages: OCRPage[]): any {
+    return {
+      Pages: pages.map(page => {
+        const pixelsPerUnit = page.width / PAGE_WIDTH_UNITS;
+        return {
+          Texts: page.lines.flatMap(line =>
+            line.words.map(word => ({
+              x: word.bbox.x0 / pixelsPerUnit,
+              y: line.bbox.y0 / pixelsPerUnit,
+              w: ((word.bbox.x1 - word.bbox.x0) / pixelsPerUnit) * 16, // 16 points per unit
+              confidence: word.confidence,
+              R: [{ T: word.text }],
+            }))
+          ),
+        };
+      }),
+    };
+  }
+
+  /**
+   * Start a Tesseract worker using the bundled English model
+   */
+  private static async createWorker(): Promise<Worker> {
+    return createWorker(englishData.code, 1, {
+      langPath: englishData.langPath,
+      gzip: englishData.gzip,
+      cacheMethod: 'none', // Don't write the model into the working directory
+    });
+  }
+
+  /**
+   * Recognise one image and keep its lines, words and confidences.
+   * Without known dimensions (photos), the text's extent stands in for the page size.
+   */
+  private static async recognize(
+    worker: Worker,
+    image: string | Buffer,
+    imageWidth?: number,
+    imageHeight?: number
+  ): Promise<OCRPage> {
+    const { data } = await worker.recognize(image);
+
+    const lines: OCRLine[] = (data.lines || [])
+      .filter(line => line.text.trim())
+      .map(line => ({
+        text: line.text.trim(),
+        confidence: line.confidence,
+        bbox: line.bbox,
+        words: line.words.map(word => ({ text: word.text, confidence: word.confidence, bbox: word.bbox })),
+      }));
+
+    const width = imageWidth || lines.reduce((max, line) => Math.max(max, line.bbox.x1), 1);
+    const height = imageHeight || lines.reduce((max, line) => Math.max(max, line.bbox.y1), 1);
+
+    return { width, height, lines };
+  }
+}
@@ -0,0 +1,22 @@
+/**
+ * Account Numbers
+ *
+ * Statements carry full account numbers (OFX ACCTID, CAMT IBAN, MT940 :25:).
+ * Only a masked form is stored: the last four characters are enough to tell
+ * a user's accounts apart and to match statements of the same account,
+ * without keeping the number itself.
+ */
+
+export class AccountNumber {
+  /**
+   * "NL91 ABNA 0417 1643 00" -> "****4300". Masking a masked value
+   * returns it unchanged.
+   */
+  static mask(value?: string | null): string | undefined {
+    const characters = (value || '').replace(/[^0-9A-Za-z]/g, '').toUpperCase();
+    if (!characters) {
+      return undefined;
+    }
+    return `****${characters.slice(-4)}`;
+  }
+}
@@ -0,0 +1,170 @@
+import { CAMTParser } from './camtParser';
+
+const statement = (entries: string) => `<?xml version="1.0" encoding="UTF-8"?>
+<Document xmlns="urn:iso:std:iso:20022:tech:xsd:camt.053.001.02">
+  <BkToCstmrStmt>
+    <Stmt>
+      <Id>STMT-1</Id>
+      <FrToDt><FrDtTm>2025-01-01T00:00:00</FrDtTm><ToDtTm>2025-01-31T23:59:59</ToDtTm></FrToDt>
+      <Acct><Id><IBAN>DE89370400440532013000</IBAN></Id><Ccy>EUR</Ccy></Acct>
+      <Bal><Tp><CdOrPrtry><Cd>OPBD</Cd></CdOrPrtry></Tp><Amt Ccy="EUR">1000.00</Amt><CdtDbtInd>CRDT</CdtDbtInd></Bal>
+      <Bal><Tp><CdOrPrtry><Cd>CLBD</Cd></CdOrPrtry></Tp><Amt Ccy="EUR">1457.50</Amt><CdtDbtInd>CRDT</CdtDbtInd></Bal>
+      ${entries}
+    </Stmt>
+  </BkToCstmrStmt>
+</Document>`;
+
+const CARD_PAYMENT = `
+      <Ntry>
+        <Amt Ccy="EUR">42.50</Amt>
+        <CdtDbtInd>DBIT</CdtDbtInd>
+        <Sts>BOOK</Sts>
+        <BookgDt><Dt>2025-01-05</Dt></BookgDt>
+        <ValDt><Dt>2025-01-06</Dt></ValDt>
+        <AcctSvcrRef>REF-001</AcctSvcrRef>
+        <NtryDtls><TxDtls>
+          <Refs><EndToEndId>NOTPROVIDED</EndToEndId></Refs>
+          <RltdPties><Cdtr><Nm>REWE Markt</Nm></Cdtr></RltdPties>
+          <RmtInf><Ustrd>Einkauf</Ustrd><Ustrd>Filiale 12</Ustrd></RmtInf>
+        </TxDtls></NtryDtls>
+      </Ntry>`;
+
+const SALARY = `
+      <Ntry>
+        <Amt Ccy="EUR">500.00</Amt>
+        <CdtDbtInd>CRDT</CdtDbtInd>
+        <Sts>BOOK</Sts>
+        <BookgDt><Dt>2025-01-15</Dt></BookgDt>
+        <AcctSvcrRef>REF-002</AcctSvcrRef>
+        <NtryDtls><TxDtls>
+          <RltdPties><Dbtr><Nm>Acme GmbH</Nm></Dbtr></RltdPties>
+          <RmtInf><Ustrd>Gehalt Januar</Ustrd></RmtInf>
+        </TxDtls></NtryDtls>
+      </Ntry>`;
+
+const PENDING = `
+      <Ntry>
+        <Amt Ccy="EUR">10.00</Amt>
+        <CdtDbtInd>DBIT</CdtDbtInd>
+        <Sts>PDNG</Sts>
+        <BookgDt><Dt>2025-01-30</Dt></BookgDt>
+      </Ntry>`;
+
+describe('CAMTParser', () => {
+  it('recognizes camt.053 content', () => {
+    expect(CAMTParser.isCAMT(statement(''))).toBe(true);
+    expect(CAMTParser.isCAMT('<Document><CstmrCdtTrfInitn/></Document>')).toBe(false);
+  });
+
+  it('parses booked entries', () => {
+    const transactions = CAMTParser.parse(statement(CARD_PAYMENT + SALARY + PENDING));
+
+    expect(transactions).toEqual([
+      {
+        date: '2025-01-05',
+        valueDate: '2025-01-06',
+        description: 'REWE Markt - Einkauf Filiale 12',
+        amount: 42.5,
+        isIncome: false,
+        externalId: 'REF-001',
+        accountId: '****3000',
+        counterparty: 'REWE Markt',
+        currency: 'EUR',
+      },
+      {
+        date: '2025-01-15',
+        valueDate: undefined,
+        description: 'Acme GmbH - Gehalt Januar',
+        amount: 500,
+        isIncome: true,
+        externalId: 'REF-002',
+        accountId: '****3000',
+        counterparty: 'Acme GmbH',
+        currency: 'EUR',
+      },
+    ]);
+  });
+
+  it('splits batch bookings into their transactions', () => {
+    const batch = `
+      <Ntry>
+        <Amt Ccy="EUR">30.00</Amt>
+        <CdtDbtInd>DBIT</CdtDbtInd>
+        <Sts>BOOK</Sts>
+        <BookgDt><Dt>2025-01-10</Dt></BookgDt>
+        <AcctSvcrRef>BATCH-1</AcctSvcrRef>
+        <NtryDtls>
+          <TxDtls><AmtDtls><TxAmt><Amt Ccy="EUR">10.00</Amt></TxAmt></AmtDtls><RltdPties><Cdtr><Nm>A</Nm></Cdtr></RltdPties></TxDtls>
+          <TxDtls><AmtDtls><TxAmt><Amt Ccy="EUR">20.00</Amt></TxAmt></AmtDtls><RltdPties><Cdtr><Nm>B</Nm></Cdtr></RltdPties></TxDtls>
+        </NtryDtls>
+      </Ntry>`;
+
+    const transactions = CAMTParser.parse(statement(batch));
+
+    expect(transactions.map(t => [t.description, t.amount, t.externalId])).toEqual([
+      ['A', 10, 'BATCH-1-1'],
+      ['B', 20, 'BATCH-1-2'],
+    ]);
+  });
+
+  it('takes batch amounts in the account currency, not the instructed amount', () => {
+    const batch = `
+      <Ntry>
+        <Amt Ccy="EUR">30.00</Amt>
+        <CdtDbtInd>DBIT</CdtDbtInd>
+        <Sts>BOOK</Sts>
+        <BookgDt><Dt>2025-01-12</Dt></BookgDt>
+        <NtryDtls>
+          <TxDtls>
+            <Refs><AcctSvcrRef>TX-1</AcctSvcrRef></Refs>
+            <AmtDtls>
+              <InstdAmt><Amt Ccy="USD">11.00</Amt></InstdAmt>
+              <TxAmt><Amt Ccy="EUR">10.00</Amt></TxAmt>
+            </AmtDtls>
+          </TxDtls>
+          <TxDtls>
+            <Refs><AcctSvcrRef>TX-2</AcctSvcrRef></Refs>
+            <AmtDtls>
+              <InstdAmt><Amt Ccy="USD">22.00</Amt></InstdAmt>
+              <TxAmt><Amt Ccy="EUR">20.00</Amt></TxAmt>
+            </AmtDtls>
+          </TxDtls>
+        </NtryDtls>
+      </Ntry>`;
+
+    expect(CAMTParser.parse(statement(batch)).map(t => [t.externalId, t.amount, t.currency])).toEqual([
+      ['TX-1', 10, 'EUR'],
+      ['TX-2', 20, 'EUR'],
+    ]);
+  });
+
+  it('falls back to the entry amount when details only have a foreign amount', () => {
+    const entry = `
+      <Ntry>
+        <Amt Ccy="EUR">9.20</Amt>
+        <CdtDbtInd>DBIT</CdtDbtInd>
+        <Sts>BOOK</Sts>
+        <BookgDt><Dt>2025-01-13</Dt></BookgDt>
+        <AcctSvcrRef>REF-003</AcctSvcrRef>
+        <NtryDtls><TxDtls>
+          <AmtDtls><InstdAmt><Amt Ccy="USD">10.00</Amt></InstdAmt></AmtDtls>
+          <RltdPties><Cdtr><Nm>US Shop</Nm></Cdtr></RltdPties>
+        </TxDtls></NtryDtls>
+      </Ntry>`;
+
+    expect(CAMTParser.parse(statement(entry))[0]).toMatchObject({ amount: 9.2, currency: 'EUR' });
+  });
+
+  it('reads opening and closing balances and the period', () => {
+    expect(CAMTParser.readSummary(statement(CARD_PAYMENT))).toEqual({
+      openingBalance: 1000,
+      closingBalance: 1457.5,
+      periodStart: '2025-01-01',
+      periodEnd: '2025-01-31',
+    });
+  });
+
+  it('rejects XML without statements', () => {
+    expect(() => CAMTParser.parse('<Document></Document>')).toThrow('no <Stmt> elements');
+  });
+});
@@ -0,0 +1,268 @@
+/**
+ * CAMT.053 Parser
+ *
+ * Reads ISO 20022 "Bank to Customer Statement" XML (camt.053.001.xx),
+ * the standard end-of-day statement format for SEPA banks.
+ * Credit/debit comes from the explicit CRDT/DBIT indicator, so there is
+ * no keyword guessing involved.
+ */
+
+import { ExtractedTransaction, StatementSummary } from '../fileProcessorService';
+import { AccountNumber } from './accountNumber';
+
+// Balance type codes: opening booked / previously closed booked, and closing booked
+const OPENING_BALANCE_CODES = ['OPBD', 'PRCD'];
+const CLOSING_BALANCE_CODE = 'CLBD';
+
+export class CAMTParser {
+  /**
+   * Quick check to see if text content looks like a camt.053 statement
+   */
+  static isCAMT(content: string): boolean {
+    const head = content.slice(0, 4096);
+    return /camt\.053/i.test(head) || /<(\w+:)?BkToCstmrStmt>/.test(head);
+  }
+
+  /**
+   * Parse camt.053 XML into transactions
+   */
+  static parse(content: string): ExtractedTransaction[] {
+    const transactions: ExtractedTransaction[] = [];
+
+    const statements = this.getBlocks(content, 'Stmt');
+    if (statements.length === 0) {
+      throw new Error('Invalid CAMT.053 file: no <Stmt> elements found');
+    }
+
+    for (const statement of statements) {
+      const account = this.getBlocks(statement, 'Acct')[0] || '';
+      const accountId = AccountNumber.mask(
+        this.getField(account, 'IBAN') || this.getField(this.getBlocks(account, 'Othr')[0] || '', 'Id')
+      );
+      const accountCurrency = this.getField(account, 'Ccy') || undefined;
+
+      for (const entry of this.getBlocks(statement, 'Ntry')) {
+        transactions.push(...this.parseEntry(entry, accountId, accountCurrency));
+      }
+    }
+
+    return transactions;
+  }
+
+  /**
+   * Opening and closing booked balances and the statement period.
+   * Several statements are only combined when they are for the same account.
+   */
+  static readSummary(content: string): StatementSummary | null {
+    const statements = this.getBlocks(content, 'Stmt');
+    const accounts = new Set(statements.map(s => this.getBlocks(s, 'Acct')[0] || ''));
+    if (statements.length === 0 || accounts.size > 1) {
+      return null;
+    }
+
+    const first = statements[0];
+    const last = statements[statements.length - 1];
+    const firstPeriod = this.getBlocks(first, 'FrToDt')[0] || '';
+    const lastPeriod = this.getBlocks(last, 'FrToDt')[0] || '';
+
+    return {
+      openingBalance: this.getBalance(first, OPENING_BALANCE_CODES),
+      closingBalance: this.getBalance(last, [CLOSING_BALANCE_CODE]),
+      periodStart: (this.getField(firstPeriod, 'FrDtTm') || this.getField(firstPeriod, 'FrDt'))?.slice(0, 10),
+      periodEnd: (this.getField(lastPeriod, 'ToDtTm') || this.getField(lastPeriod, 'ToDt'))?.slice(0, 10),
+    };
+  }
+
+  /**
+   * Signed amount of the first <Bal> with one of the given type codes
+   */
+  private static getBalance(statement: string, codes: string[]): number | undefined {
+    for (const balance of this.getBlocks(statement, 'Bal')) {
+      const code = this.getField(this.getBlocks(balance, 'Tp')[0] || '', 'Cd');
+      if (!code || !codes.includes(code.toUpperCase())) continue;
+
+      const amount = this.getAmount(balance);
+      if (!amount) continue;
+      return this.getField(balance, 'CdtDbtInd')?.toUpperCase() === 'DBIT' ? -amount.value : amount.value;
+    }
+    return undefined;
+  }
+
+  /**
+   * Parse one <Ntry>. Batch bookings carry several <TxDtls>, each with its
+   * own amount; those become separate transactions.
+   */
+  private static parseEntry(entry: string, accountId?: string, accountCurrency?: string): ExtractedTransaction[] {
+    // Only booked entries are real transactions (skip PDNG / INFO)
+    const status = this.getField(this.getBlocks(entry, 'Sts')[0] ?? '', 'Cd') || this.getField(entry, 'Sts');
+    if (status && status.toUpperCase() !== 'BOOK') {
+      return [];
+    }
+
+    const bookingDate = this.getDate(entry, 'BookgDt');
+    const valueDate = this.getDate(entry, 'ValDt');
+    const date = bookingDate || valueDate;
+    if (!date) {
+      return [];
+    }
+
+    const entryAmount = this.getAmount(entry);
+    const indicator = (this.getField(entry, 'CdtDbtInd') || '').toUpperCase();
+    const isReversal = (this.getField(entry, 'RvslInd') || '').toLowerCase() === 'true';
+    // A reversed debit is money coming back in, and vice versa
+    const isCredit = (indicator === 'CRDT') !== isReversal;
+
+    const entryRef = this.cleanReference(this.getField(entry, 'AcctSvcrRef'));
+    const additionalInfo = this.getField(entry, 'AddtlNtryInf');
+
+    const details = this.getBlocks(entry, 'TxDtls');
+    const detailAmounts = details.map(d => this.getDetailAmount(d));
+    const splitBatch = details.length > 1 && detailAmounts.every(a => a !== null);
+
+    const build = (detail: string, amount: { value: number; currency?: string }, index?: number): ExtractedTransaction | null => {
+      if (amount.value === 0) {
+        return null;
+      }
+
+      // The counterparty is whoever is on the other side of the money flow
+      const parties = this.getBlocks(detail, 'RltdPties')[0] || '';
+      const counterpartyBlock = this.getBlocks(parties, isCredit ? 'Dbtr' : 'Cdtr')[0] || '';
+      const counterparty = this.getField(counterpartyBlock, 'Nm') || undefined;
+
+      const remittance = this.getBlocks(detail, 'RmtInf')[0] || '';
+      const remittanceText = this.getAllFields(remittance, 'Ustrd').join(' ')
+        || this.getField(remittance, 'Ref')
+        || additionalInfo
+        || '';
+
+      const description = [counterparty, remittanceText].filter(Boolean).join(' - ') || 'Unknown transaction';
+
+      const endToEndId = this.cleanReference(this.getField(detail, 'EndToEndId'));
+      const txRef = this.cleanReference(this.getField(detail, 'AcctSvcrRef'));
+      let externalId = txRef || entryRef || endToEndId;
+      if (externalId && index !== undefined && !txRef) {
+        externalId = `${externalId}-${index + 1}`;
+      }
+
+      return {
+        date,
+        valueDate: valueDate || undefined,
+        description: description.replace(/\s+/g, ' ').trim(),
+        amount: Math.abs(amount.value),
+        isIncome: isCredit,
+        externalId: externalId || undefined,
+        accountId,
+        counterparty,
+        currency: amount.currency || accountCurrency,
+      };
+    };
+
+    if (splitBatch) {
+      return details
+        .map((detail, index) => build(detail, detailAmounts[index]!, index))
+        .filter((t): t is ExtractedTransaction => t !== null);
+    }
+
+    if (!entryAmount) {
+      return [];
+    }
+    const single = build(details[0] || entry, entryAmount);
+    return single ? [single] : [];
+  }
+
+  /**
+   * Amount of a transaction detail in the account's currency:
+   * <AmtDtls><TxAmt><Amt>, else an <Amt> directly under the detail (newer
+   * versions). The instructed amount (<InstdAmt>) can be in a foreign currency.
+   */
+  private static getDetailAmount(detail: string): { value: number; currency?: string } | null {
+    const transactionAmount = this.getBlocks(this.getBlocks(detail, 'AmtDtls')[0] || '', 'TxAmt')[0];
+    if (transactionAmount) {
+      return this.getAmount(transactionAmount);
+    }
+    return this.getAmount(detail.replace(/<(\w+:)?(AmtDtls|Chrgs|Intrst)>[\s\S]*?<\/(\w+:)?\2>/g, ''));
+  }
+
+  /**
+   * Amount of an entry, balance or amount block: its first <Amt>
+   */
+  private static getAmount(content: string): { value: number; currency?: string } | null {
+    // Ignore the amounts of an entry's transaction details
+    const withoutDetails = content.replace(/<(\w+:)?NtryDtls>[\s\S]*?<\/(\w+:)?NtryDtls>/g, '');
+    const match = withoutDetails.match(/<(?:\w+:)?Amt(?:\s+Ccy="([A-Z]{3})")?\s*>([^<]+)</);
+    if (!match) {
+      return null;
+    }
+
+    const value = parseFloat(match[2].trim());
+    if (isNaN(value)) {
+      return null;
+    }
+
+    return { value, currency: match[1] };
+  }
+
+  /**
+   * Dates are <Dt>YYYY-MM-DD</Dt> or <DtTm>YYYY-MM-DDThh:mm:ss</DtTm>
+   */
+  private static getDate(content: string, tag: string): string | null {
+    const block = this.getBlocks(content, tag)[0];
+    if (!block) {
+      return null;
+    }
+    const value = this.getField(block, 'Dt') || this.getField(block, 'DtTm');
+    const match = value?.match(/^(\d{4}-\d{2}-\d{2})/);
+    return match ? match[1] : null;
+  }
+
+  /**
+   * Banks put NOTPROVIDED in mandatory reference fields they don't use
+   */
+  private static cleanReference(value: string | null): string | null {
+    if (!value || value.toUpperCase() === 'NOTPROVIDED' || value.toUpperCase() === 'NONREF') {
+      return null;
+    }
+    return value;
+  }
+
+  /**
+   * Get every <Tag>...</Tag> block, ignoring namespace prefixes
+   */
+  private static getBlocks(content: string, tag: string): string[] {
+    const regex = new RegExp(`<(?:\\w+:)?${tag}(?:\\s[^>]*)?>([\\s\\S]*?)</(?:\\w+:)?${tag}>`, 'g');
+    const blocks: string[] = [];
+    let match;
+    while ((match = regex.exec(content)) !== null) {
+      blocks.push(match[1]);
+    }
+    return blocks;
+  }
+
+  /**
+   * Get the text of the first leaf element with this tag
+   */
+  private static getField(content: string, tag: string): string | null {
+    return this.getAllFields(content, tag)[0] || null;
+  }
+
+  private static getAllFields(content: string, tag: string): string[] {
+    const regex = new RegExp(`<(?:\\w+:)?${tag}(?:\\s[^>]*)?>([^<]*)</(?:\\w+:)?${tag}>`, 'g');
+    const values: string[] = [];
+    let match;
+    while ((match = regex.exec(content)) !== null) {
+      const value = this.decodeEntities(match[1].trim());
+      if (value) values.push(value);
+    }
+    return values;
+  }
+
+  private static decodeEntities(value: string): string {
+    return value
+      .replace(/&lt;/g, '<')
+      .replace(/&gt;/g, '>')
+      .replace(/&quot;/g, '"')
+      .replace(/&apos;/g, "'")
+      .replace(/&#(\d+);/g, (_, code) => String.fromCharCode(parseInt(code)))
+      .replace(/&amp;/g, '&');
+  }
+}
@@ -0,0 +1,35 @@
+import { DateParser } from './dateParser';
+
+describe('DateParser.detectOrder', () => {
+  it('is day first when a first part is above 12', () => {
+    expect(DateParser.detectOrder(['03/01/2025', '25/01/2025'])).toBe('DMY');
+  });
+
+  it('is month first when a second part is above 12', () => {
+    expect(DateParser.detectOrder(['03/01/2025', '01/25/2025'], 'DMY')).toBe('MDY');
+  });
+
+  it('goes with the majority when dates disagree', () => {
+    expect(DateParser.detectOrder(['13/01/2025', '14/01/2025', '01/15/2025'])).toBe('DMY');
+  });
+
+  it('picks the reading under which ambiguous dates run in order', () => {
+    // 1 Feb, 3 Feb, 2 Mar rather than 2 Jan, 2 Mar, 3 Feb
+    expect(DateParser.detectOrder(['01/02/2025', '03/02/2025', '02/03/2025'])).toBe('DMY');
+    expect(DateParser.detectOrder(['02/01/2025', '02/03/2025', '03/02/2025'], 'DMY')).toBe('MDY');
+  });
+
+  it('falls back when nothing settles it', () => {
+    expect(DateParser.detectOrder(['05/05/2025'], 'DMY')).toBe('DMY');
+    expect(DateParser.detectOrder([], 'MDY')).toBe('MDY');
+    expect(DateParser.detectOrder(['2025-01-25', 'Jan 25'])).toBe('MDY');
+  });
+});
+
+describe('DateParser.orderForLocale', () => {
+  it('reads the order from a locale or Accept-Language header', () => {
+    expect(DateParser.orderForLocale('en-GB,en;q=0.9')).toBe('DMY');
+    expect(DateParser.orderForLocale('en-US')).toBe('MDY');
+    expect(DateParser.orderForLocale(undefined, 'DMY')).toBe('DMY');
+  });
+});
@@ -0,0 +1,309 @@
+/**
+ * Date Parser
+ *
+ * Parses statement dates against an explicit format such as DD/MM/YYYY.
+ * Supported tokens: YYYY, YY, MMM (month name), MM, M, DD, D.
+ * Any other character in the format must appear literally.
+ *
+ * Without a format, the day/month order is worked out from all of a file's
+ * dates together (see detectOrder), and year-less dates take their year
+ * from the statement period.
+ */
+
+const MONTH_NAMES = ['jan', 'feb', 'mar', 'apr', 'may', 'jun', 'jul', 'aug', 'sep', 'oct', 'nov', 'dec'];
+
+const TOKEN_PATTERNS: Record<string, string> = {
+  YYYY: '(\\d{4})',
+  YY: '(\\d{2})',
+  MMM: '([A-Za-z]{3,9})',
+  MM: '(\\d{1,2})',
+  M: '(\\d{1,2})',
+  DD: '(\\d{1,2})',
+  D: '(\\d{1,2})',
+};
+
+// Which of day and month comes first in numeric dates like 03/04/2024
+export type DateOrder = 'DMY' | 'MDY';
+
+// Dates the statement covers, used to give year-less dates a year (YYYY-MM-DD)
+export interface StatementPeriod {
+  start: string;
+  end: string;
+}
+
+const NUMERIC_DATE = /^(\d{1,2})[-/.](\d{1,2})(?:[-/.](\d{4}|\d{2}))?$/;
+const ISO_DATE = /^(\d{4})[-/.](\d{1,2})[-/.](\d{1,2})$/;
+const COMPACT_DATE = /^(\d{4})(\d{2})(\d{2})$/;
+const DAY_FIRST_NAMED = /^(\d{1,2})(?:st|nd|rd|th)?[\s-]+([A-Za-z]{3,9})\.?,?(?:[\s-]+'?(\d{4}|\d{2}))?$/;
+const MONTH_FIRST_NAMED = /^([A-Za-z]{3,9})\.?[\s-]+(\d{1,2})(?:st|nd|rd|th)?(?:(?:,\s*|[\s-]+)'?(\d{4}|\d{2}))?$/;
+
+// Dates with a year anywhere in a block of text (for finding the statement period)
+const FULL_DATES_IN_TEXT = new RegExp(
+  [
+    '\\b\\d{4}[-/.]\\d{1,2}[-/.]\\d{1,2}\\b',
+    '\\b\\d{1,2}[-/.]\\d{1,2}[-/.](?:\\d{4}|\\d{2})\\b',
+    '\\b\\d{1,2}(?:st|nd|rd|th)?\\s+[A-Za-z]{3,9}\\.?,?\\s+\\d{4}\\b',
+    '\\b[A-Za-z]{3,9}\\.?\\s+\\d{1,2}(?:st|nd|rd|th)?,?\\s+\\d{4}\\b',
+  ].join('|'),
+  'g'
+);
+
+export class DateParser {
+  /**
+   * Parse a date string with the given format, returning YYYY-MM-DD or null
+   */
+  static parseWithFormat(value: string, format: string): string | null {
+    const tokens: string[] = [];
+    const pattern = format.replace(/YYYY|YY|MMM|MM|M|DD|D|[^A-Z]/g, part => {
+      if (TOKEN_PATTERNS[part]) {
+        tokens.push(part);
+        return TOKEN_PATTERNS[part];
+      }
+      // Literal separator; let any run of whitespace match a space
+      return part === ' ' ? '\\s+' : part.replace(/[.*+?^${}()|[\]\\/-]/g, '\\$&');
+    });
+
+    const match = value.trim().match(new RegExp(`^${pattern}$`));
+    if (!match) {
+      return null;
+    }
+
+    let year: number | null = null;
+    let month: number | null = null;
+    let day: number | null = null;
+
+    for (let i = 0; i < tokens.length; i++) {
+      const part = match[i + 1];
+      switch (tokens[i]) {
+        case 'YYYY':
+          year = parseInt(part);
+          break;
+        case 'YY':
+          year = this.expandTwoDigitYear(parseInt(part));
+          break;
+        case 'MMM':
+          month = this.monthFromName(part);
+          break;
+        case 'MM':
+        case 'M':
+          month = parseInt(part);
+          break;
+        case 'DD':
+        case 'D':
+          day = parseInt(part);
+          break;
+      }
+    }
+
+    if (year === null || month === null || day === null) {
+      return null;
+    }
+
+    return this.toISODate(year, month, day);
+  }
+
+  /**
+   * Parse a statement date without a known format, returning YYYY-MM-DD or null.
+   * Handles ISO and compact (YYYYMMDD) dates, numeric dates in the given
+   * day/month order, month names ("15 Jan 2024", "Jan 15, 2024"), two-digit
+   * years, and year-less dates (the year comes from the statement period).
+   */
+  static parse(value: string, order: DateOrder, period?: StatementPeriod | null): string | null {
+    // Drop a trailing time ("2024-01-15T10:30:00", "01/15/2024 10:30")
+    const text = value.trim().replace(/(?:T|\s+)\d{1,2}:\d{2}(?::\d{2}(?:\.\d+)?)?(?:\s*[AP]M)?(?:Z|[+-]\d{2}:?\d{2})?$/i, '');
+
+    let match = text.match(ISO_DATE) || text.match(COMPACT_DATE);
+    if (match) {
+      return this.toISODate(parseInt(match[1]), parseInt(match[2]), parseInt(match[3]));
+    }
+
+    match = text.match(NUMERIC_DATE);
+    if (match) {
+      const first = parseInt(match[1]);
+      const second = parseInt(match[2]);
+      const day = order === 'DMY' ? first : second;
+      const month = order === 'DMY' ? second : first;
+      return this.withYear(match[3], month, day, period);
+    }
+
+    match = text.match(DAY_FIRST_NAMED);
+    if (match) {
+      return this.withYear(match[3], this.monthFromName(match[2]), parseInt(match[1]), period);
+    }
+
+    match = text.match(MONTH_FIRST_NAMED);
+    if (match) {
+      return this.withYear(match[3], this.monthFromName(match[1]), parseInt(match[2]), period);
+    }
+
+    return null;
+  }
+
+  /**
+   * Work out whether a file's numeric dates are DD/MM or MM/DD.
+   * A part above 12 settles it. If every date is ambiguous, pick the reading
+   * under which the dates run in order (statements are sorted by date), and
+   * fall back to the user's locale when that doesn't tell them apart either.
+   */
+  static detectOrder(values: string[], fallback: DateOrder = 'MDY'): DateOrder {
+    let dayFirstVotes = 0;
+    let monthFirstVotes = 0;
+    const ambiguous: string[] = [];
+
+    for (const value of values) {
+      const match = value.trim().split(/\s+/)[0].match(NUMERIC_DATE);
+      if (!match) continue;
+
+      const first = parseInt(match[1]);
+      const second = parseInt(match[2]);
+      if (first > 12 && second <= 12) {
+        dayFirstVotes++;
+      } else if (second > 12 && first <= 12) {
+        monthFirstVotes++;
+      } else {
+        ambiguous.push(value);
+      }
+    }
+
+    if (dayFirstVotes !== monthFirstVotes) {
+      return dayFirstVotes > monthFirstVotes ? 'DMY' : 'MDY';
+    }
+
+    const dayFirstBreaks = this.countOrderBreaks(ambiguous, 'DMY');
+    const monthFirstBreaks = this.countOrderBreaks(ambiguous, 'MDY');
+    if (dayFirstBreaks !== monthFirstBreaks) {
+      return dayFirstBreaks < monthFirstBreaks ? 'DMY' : 'MDY';
+    }
+
+    return fallback;
+  }
+
+  /**
+   * Day/month order used by a locale or Accept-Language header ("en-GB,en;q=0.9")
+   */
+  static orderForLocale(locale: string | undefined | null, fallback: DateOrder = 'MDY'): DateOrder {
+    const tag = (locale || '').split(',')[0].split(';')[0].trim();
+    if (!tag || tag === '*') {
+      return fallback;
+    }
+
+    try {
+      const parts = new Intl.DateTimeFormat(tag, { timeZone: 'UTC' }).formatToParts(new Date(Date.UTC(2000, 10, 22)));
+      const types = parts.map(p => p.type);
+      return types.indexOf('day') < types.indexOf('month') ? 'DMY' : 'MDY';
+    } catch {
+      return fallback;
+    }
+  }
+
+  /**
+   * Earliest and latest dated (with a year) in a block of text, e.g. the
+   * "Statement period 28/12/2023 - 27/01/2024" line of a PDF
+   */
+  static findStatementPeriod(text: string, order: DateOrder): StatementPeriod | null {
+    const dates = (text.match(FULL_DATES_IN_TEXT) || [])
+      .map(value => this.parse(value, order))
+      .filter((date): date is string => date !== null)
+      .sort();
+
+    return dates.length > 0 ? { start: dates[0], end: dates[dates.length - 1] } : null;
+  }
+
+  /**
+   * Count how often consecutive dates change direction under a reading
+   */
+  private static countOrderBreaks(values: string[], order: DateOrder): number {
+    const dates = values
+      .map(value => this.parse(value.trim().split(/\s+/)[0], order, { start: '2000-01-01', end: '2000-12-31' }))
+      .filter((date): date is string => date !== null);
+
+    let breaks = 0;
+    let direction = 0;
+    for (let i = 1; i < dates.length; i++) {
+      const step = Math.sign(dates[i].localeCompare(dates[i - 1]));
+      if (step === 0) continue;
+      if (direction !== 0 && step !== direction) breaks++;
+      direction = step;
+    }
+
+    // Impossible dates (31/02) also count against a reading
+    return breaks + (values.length - dates.length);
+  }
+
+  /**
+   * Build a date from parts, taking the year from the statement period if missing
+   */
+  private static withYear(
+    yearPart: string | undefined,
+    month: number | null,
+    day: number,
+    period?: StatementPeriod | null
+  ): string | null {
+    if (month === null) {
+      return null;
+    }
+
+    if (yearPart) {
+      const year = parseInt(yearPart);
+      return this.toISODate(yearPart.length === 2 ? this.expandTwoDigitYear(year) : year, month, day);
+    }
+
+    return this.inferYear(month, day, period);
+  }
+
+  /**
+   * Year for a date printed without one. Takes the latest year that keeps the
+   * date within the statement period (with a week's slack either side), so
+   * "28 Dec" on a Dec-Jan statement lands in the earlier year. Without a
+   * period, assumes the date is no more than a year in the past.
+   */
+  private static inferYear(month: number, day: number, period?: StatementPeriod | null): string | null {
+    const end = period ? new Date(`${period.end}T00:00:00Z`) : new Date();
+    const start = period ? new Date(`${period.start}T00:00:00Z`) : null;
+    const slack = 7 * 24 * 60 * 60 * 1000;
+
+    for (let year = end.getUTCFullYear(); year >= (start ? start.getUTCFullYear() : end.getUTCFullYear() - 1); year--) {
+      const date = this.toISODate(year, month, day);
+      if (!date) continue;
+
+      const time = new Date(`${date}T00:00:00Z`).getTime();
+      if (time <= end.getTime() + slack && (!start || time >= start.getTime() - slack)) {
+        return date;
+      }
+    }
+
+    // Outside the period (or 29 Feb in a non-leap year): use the period's last year if valid
+    return this.toISODate(end.getUTCFullYear(), month, day);
+  }
+
+  /**
+   * Month number (1-12) from an English month name or abbreviation
+   */
+  private static monthFromName(name: string): number | null {
+    const index = MONTH_NAMES.indexOf(name.slice(0, 3).toLowerCase());
+    return index === -1 ? null : index + 1;
+  }
+
+  /**
+   * Two-digit years: 00-49 are 2000s, 50-99 are 1900s
+   */
+  static expandTwoDigitYear(year: number): number {
+    return year < 50 ? 2000 + year : 1900 + year;
+  }
+
+  /**
+   * Build YYYY-MM-DD, rejecting impossible dates like 31/02
+   */
+  static toISODate(year: number, month: number, day: number): string | null {
+    if (month < 1 || month > 12 || day < 1) {
+      return null;
+    }
+
+    const daysInMonth = new Date(Date.UTC(year, month, 0)).getUTCDate();
+    if (day > daysInMonth) {
+      return null;
+    }
+
+    return `${year}-${String(month).padStart(2, '0')}-${String(day).padStart(2, '0')}`;
+  }
+}
@@ -0,0 +1,88 @@
+import { MT940Parser } from './mt940Parser';
+
+const STATEMENT = `{1:F01BANKDEFFXXXX0000000000}{2:O9400000000000BANKDEFFXXXX00000000000000000000N}{4:
+:20:STARTUMS
+:25:37040044/0532013000
+:28C:1/1
+:60F:C250101EUR1000,00
+:61:2501050105D42,50NMSCNONREF//REF001
+:86:106?00KARTENZAHLUNG?20EREF+123456?21SVWZ+Einkauf Filiale 12?32REWE Markt
+:61:2501150115C500,00NTRFNONREF
+:86:/NAME/Acme GmbH/REMI/Gehalt Januar/
+:61:2501200120D15,00NCHGNONREF
+Kontofuehrung
+:62F:C250131EUR1442,50
+-}`;
+
+describe('MT940Parser', () => {
+  it('recognizes MT940 content', () => {
+    expect(MT940Parser.isMT940(STATEMENT)).toBe(true);
+    expect(MT940Parser.isMT940('Date,Description,Amount')).toBe(false);
+  });
+
+  it('parses statement lines with their information fields', () => {
+    const transactions = MT940Parser.parse(STATEMENT);
+
+    expect(transactions).toHaveLength(3);
+    expect(transactions[0]).toEqual({
+      date: '2025-01-05',
+      valueDate: '2025-01-05',
+      description: 'REWE Markt - Einkauf Filiale 12',
+      amount: 42.5,
+      isIncome: false,
+      externalId: 'REF001/2025-01-05/D42.50',
+      accountId: '****3000',
+      counterparty: 'REWE Markt',
+      currency: 'EUR',
+    });
+    expect(transactions[1]).toMatchObject({
+      description: 'Acme GmbH - Gehalt Januar',
+      amount: 500,
+      isIncome: true,
+      counterparty: 'Acme GmbH',
+    });
+  });
+
+  it('only uses a reference with the date and amount as an ID', () => {
+    const content = `:20:X
+:25:DE89370400440532013000
+:60F:C250101EUR0,00
+:61:2501030103D9,99NDDTMANDATE-7
+:86:Gym membership
+:61:2502030203D9,99NDDTMANDATE-7
+:86:Gym membership
+:61:2502040204D5,00NMSCNONREF
+:86:Card payment
+`;
+
+    expect(MT940Parser.parse(content).map(t => t.externalId)).toEqual([
+      'MANDATE-7/2025-01-03/D9.99',
+      'MANDATE-7/2025-02-03/D9.99',
+      undefined,
+    ]);
+  });
+
+  it('falls back to the supplementary details for a description', () => {
+    expect(MT940Parser.parse(STATEMENT)[2]).toMatchObject({ description: 'Kontofuehrung', amount: 15, isIncome: false });
+  });
+
+  it('books entries across a year end in the right year', () => {
+    const content = `:20:X
+:25:DE89370400440532013000
+:60F:C241231EUR0,00
+:61:2412310102D10,00NMSCNONREF
+:86:Card payment
+`;
+
+    expect(MT940Parser.parse(content)[0]).toMatchObject({ date: '2025-01-02', valueDate: '2024-12-31' });
+  });
+
+  it('reads opening and closing balances', () => {
+    expect(MT940Parser.readSummary(STATEMENT)).toEqual({
+      openingBalance: 1000,
+      closingBalance: 1442.5,
+      periodStart: '2025-01-01',
+      periodEnd: '2025-01-31',
+    });
+  });
+});
@@ -0,0 +1,234 @@
+/**
+ * MT940 Parser
+ *
+ * Reads SWIFT MT940 customer statement messages. Each message is a list of
+ * ":tag:" fields; every transaction is a :61: statement line optionally
+ * followed by a :86: information field (counterparty and remittance text).
+ */
+
+import { ExtractedTransaction, StatementSummary } from '../fileProcessorService';
+import { AccountNumber } from './accountNumber';
+
+// :61: YYMMDD [MMDD] [R]D|C [funds code] amount type-code reference [//bank reference]
+const STATEMENT_LINE = /^(\d{2})(\d{2})(\d{2})(\d{4})?(RC|RD|C|D)([A-Z])?(\d+,\d*)([NFS][A-Z0-9]{3})([^\/\r\n]*)(?:\/\/([^\r\n]*))?/;
+
+// :60F:/:60M: opening and :62F:/:62M: closing balance: C|D YYMMDD currency amount
+const BALANCE_LINE = /^([CD])(\d{2})(\d{2})(\d{2})([A-Z]{3})(\d+,\d*)/;
+
+interface MT940Field {
+  tag: string;
+  value: string;
+}
+
+export class MT940Parser {
+  /**
+   * Quick check to see if text content looks like MT940
+   */
+  static isMT940(content: string): boolean {
+    const head = content.slice(0, 2048);
+    return /(^|\n):20:/.test(head) && /:61:|:60[FM]:/.test(content);
+  }
+
+  /**
+   * Parse MT940 content into transactions
+   */
+  static parse(content: string): ExtractedTransaction[] {
+    const transactions: ExtractedTransaction[] = [];
+
+    let accountId: string | undefined;
+    let currency: string | undefined;
+    let current: ExtractedTransaction | null = null;
+
+    for (const field of this.getFields(content)) {
+      switch (field.tag) {
+        case '20':
+          // Start of a new statement message
+          accountId = undefined;
+          currency = undefined;
+          break;
+        case '25':
+          accountId = AccountNumber.mask(field.value.trim());
+          break;
+        case '60F':
+        case '60M': {
+          const match = field.value.match(BALANCE_LINE);
+          if (match) currency = match[5];
+          break;
+        }
+        case '61':
+          current = this.parseStatementLine(field.value, accountId, currency);
+          if (current) transactions.push(current);
+          break;
+        case '86':
+          if (current) {
+            this.applyInformation(current, field.value);
+            current = null;
+          }
+          break;
+      }
+    }
+
+    return transactions;
+  }
+
+  /**
+   * Opening balance of the first message and closing balance of the last.
+   * Files with several accounts can't be checked as one statement.
+   */
+  static readSummary(content: string): StatementSummary | null {
+    const fields = this.getFields(content);
+    const accounts = new Set(fields.filter(f => f.tag === '25').map(f => f.value.trim()));
+    if (accounts.size > 1) {
+      return null;
+    }
+
+    const opening = fields.find(f => f.tag === '60F' || f.tag === '60M');
+    const closing = [...fields].reverse().find(f => f.tag === '62F' || f.tag === '62M');
+    const openingBalance = opening ? this.parseBalance(opening.value) : null;
+    const closingBalance = closing ? this.parseBalance(closing.value) : null;
+
+    return {
+      openingBalance: openingBalance?.amount,
+      closingBalance: closingBalance?.amount,
+      periodStart: openingBalance?.date,
+      periodEnd: closingBalance?.date,
+    };
+  }
+
+  /**
+   * Parse a :60F:/:62F: balance; D means the account is overdrawn
+   */
+  private static parseBalance(value: string): { amount: number; date: string } | null {
+    const match = value.match(BALANCE_LINE);
+    if (!match) {
+      return null;
+    }
+
+    const [, mark, yy, mm, dd, , rawAmount] = match;
+    const amount = parseFloat(rawAmount.replace(',', '.'));
+    return { amount: mark === 'D' ? -amount : amount, date: `${2000 + parseInt(yy)}-${mm}-${dd}` };
+  }
+
+  /**
+   * Split the content into :tag: fields. Fields continue over multiple
+   * lines until the next tag; SWIFT block wrappers ({1:..}{4: and -}) are dropped.
+   */
+  private static getFields(content: string): MT940Field[] {
+    const fields: MT940Field[] = [];
+    const lines = content.split(/\r?\n/);
+
+    for (const rawLine of lines) {
+      let line = rawLine.replace(/\{[1-3]:[^}]*\}/g, '').replace(/^\{4:/, '');
+      if (line.trim() === '-}' || line.trim() === '-') continue;
+
+      const match = line.match(/^:(\d{2}[A-Z]?):(.*)$/);
+      if (match) {
+        fields.push({ tag: match[1], value: match[2] });
+      } else if (fields.length > 0 && line.trim()) {
+        line = line.replace(/-\}\s*$/, '');
+        fields[fields.length - 1].value += '\n' + line;
+      }
+    }
+
+    return fields;
+  }
+
+  /**
+   * Parse a :61: statement line
+   */
+  private static parseStatementLine(value: string, accountId?: string, currency?: string): ExtractedTransaction | null {
+    const match = value.match(STATEMENT_LINE);
+    if (!match) {
+      return null;
+    }
+
+    const [, yy, mm, dd, entryDate, mark, , rawAmount, , customerRef, bankRef] = match;
+
+    const year = 2000 + parseInt(yy);
+    const valueDate = `${year}-${mm}-${dd}`;
+
+    // The entry (booking) date has no year; it can fall either side of a year end
+    let bookingDate = valueDate;
+    if (entryDate) {
+      const entryMonth = parseInt(entryDate.slice(0, 2));
+      let entryYear = year;
+      if (parseInt(mm) === 12 && entryMonth === 1) entryYear++;
+      if (parseInt(mm) === 1 && entryMonth === 12) entryYear--;
+      bookingDate = `${entryYear}-${entryDate.slice(0, 2)}-${entryDate.slice(2)}`;
+    }
+
+    const amount = parseFloat(rawAmount.replace(',', '.'));
+    if (isNaN(amount) || amount === 0) {
+      return null;
+    }
+
+    // RC = reversal of a credit (money out), RD = reversal of a debit (money in)
+    const isIncome = mark === 'C' || mark === 'RD';
+
+    // References are often NONREF or reused (e.g. a mandate reference on every
+    // direct debit), so they only identify a transaction with its date and amount
+    const reference = [bankRef, customerRef]
+      .map(r => r?.split('\n')[0].trim())
+      .find(r => r && r.toUpperCase() !== 'NONREF');
+    const externalId = reference ? `${reference}/${bookingDate}/${mark}${amount.toFixed(2)}` : undefined;
+
+    // Supplementary details (second line of :61:) are a fallback description
+    const supplementary = value.split('\n')[1]?.trim();
+
+    return {
+      date: bookingDate,
+      valueDate,
+      description: supplementary || 'Unknown transaction',
+      amount,
+      isIncome,
+      externalId,
+      accountId,
+      currency,
+    };
+  }
+
+  /**
+   * Apply a :86: information field. Many banks (notably German ones) use
+   * ?NN subfields: ?20-?29 and ?60-?63 remittance text, ?32/?33 counterparty
+   * name. Others use /NAME/ and /REMI/ codes, or plain free text.
+   */
+  private static applyInformation(transaction: ExtractedTransaction, value: string): void {
+    const text = value.replace(/\n/g, '');
+    let counterparty: string | undefined;
+    let remittance = '';
+
+    if (/\?\d{2}/.test(text)) {
+      const subfields: Record<string, string> = {};
+      for (const part of text.split('?').slice(1)) {
+        const code = part.slice(0, 2);
+        subfields[code] = (subfields[code] || '') + part.slice(2);
+      }
+
+      counterparty = ((subfields['32'] || '') + (subfields['33'] || '')).trim() || undefined;
+      remittance = Object.keys(subfields)
+        .filter(code => (code >= '20' && code <= '29') || (code >= '60' && code <= '63'))
+        .sort()
+        .map(code => subfields[code])
+        .join('')
+        // Strip SEPA references ("EREF+...") up to the purpose text ("SVWZ+...")
+        .replace(/(EREF|MREF|CRED|KREF)\+.*?(?=(SVWZ|ABWA|EREF|MREF|CRED|KREF)\+|$)/g, '')
+        .replace(/SVWZ\+/g, '')
+        .trim();
+
+      if (!remittance && subfields['00']) {
+        remittance = subfields['00'].trim();
+      }
+    } else if (/\/(NAME|REMI)\//.test(text)) {
+      counterparty = text.match(/\/NAME\/([^/]*)/)?.[1]?.trim() || undefined;
+      remittance = text.match(/\/REMI\/(?:\/?USTD\/\/)?([^/]*)/)?.[1]?.trim() || '';
+    } else {
+      remittance = value.replace(/\s*\n\s*/g, ' ').trim();
+    }
+
+    const description = [counterparty, remittance].filter(Boolean).join(' - ');
+    if (description) {
+      transaction.description = description.replace(/\s+/g, ' ');
+    }
+    transaction.counterparty = counterparty;
+  }
+}
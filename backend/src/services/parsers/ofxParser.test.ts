@@ -0,0 +1,119 @@
+import { OFXParser } from './ofxParser';
+
+const SGML_STATEMENT = `OFXHEADER:100
+DATA:OFXSGML
+VERSION:102
+CHARSET:1252
+
+<OFX>
+<BANKMSGSRSV1>
+<STMTTRNRS>
+<STMTRS>
+<CURDEF>USD
+<BANKACCTFROM>
+<BANKID>121000248
+<ACCTID>1234-5678-9012
+<ACCTTYPE>CHECKING
+</BANKACCTFROM>
+<BANKTRANLIST>
+<DTSTART>20250101
+<DTEND>20250131
+<STMTTRN>
+<TRNTYPE>DEBIT
+<DTPOSTED>20250105120000[-5:EST]
+<TRNAMT>-42.50
+<FITID>2025010501
+<NAME>WHOLE FOODS
+<MEMO>GROCERIES
+</STMTTRN>
+<STMTTRN>
+<TRNTYPE>CREDIT
+<DTPOSTED>20250115
+<TRNAMT>1500.00
+<FITID>2025011501
+<NAME>ACME PAYROLL
+</STMTTRN>
+<STMTTRN>
+<TRNTYPE>FEE
+<DTPOSTED>20250120
+<TRNAMT>5.00
+<FITID>2025012001
+<NAME>MONTHLY FEE
+</STMTTRN>
+</BANKTRANLIST>
+<LEDGERBAL>
+<BALAMT>2451.75
+<DTASOF>20250131
+</LEDGERBAL>
+</STMTRS>
+</STMTTRNRS>
+</BANKMSGSRSV1>
+</OFX>
+`;
+
+describe('OFXParser', () => {
+  it('recognizes OFX content', () => {
+    expect(OFXParser.isOFX(SGML_STATEMENT)).toBe(true);
+    expect(OFXParser.isOFX('Date,Description,Amount')).toBe(false);
+  });
+
+  it('parses SGML statement transactions', () => {
+    const transactions = OFXParser.parse(SGML_STATEMENT);
+
+    expect(transactions).toHaveLength(3);
+    expect(transactions[0]).toEqual({
+      date: '2025-01-05',
+      description: 'WHOLE FOODS - GROCERIES',
+      amount: 42.5,
+      isIncome: false,
+      externalId: '2025010501',
+      accountId: '****9012',
+      currency: 'USD',
+    });
+    expect(transactions[1]).toMatchObject({ amount: 1500, isIncome: true, description: 'ACME PAYROLL' });
+  });
+
+  it('treats unsigned amounts of debit types as expenses', () => {
+    const fee = OFXParser.parse(SGML_STATEMENT)[2];
+    expect(fee).toMatchObject({ amount: 5, isIncome: false });
+  });
+
+  it('never returns the full account number', () => {
+    const serialized = JSON.stringify(OFXParser.parse(SGML_STATEMENT));
+    expect(serialized).not.toContain('1234-5678-9012');
+    expect(serialized).not.toContain('123456789012');
+  });
+
+  it('parses XML statements with closed tags', () => {
+    const xml = `<?xml version="1.0"?><?OFX OFXHEADER="200" VERSION="220"?>
+<OFX><CREDITCARDMSGSRSV1><CCSTMTTRNRS><CCSTMTRS><CURDEF>GBP</CURDEF>
+<CCACCTFROM><ACCTID>4111111111111111</ACCTID></CCACCTFROM>
+<BANKTRANLIST><STMTTRN><TRNTYPE>DEBIT</TRNTYPE><DTPOSTED>20250302</DTPOSTED>
+<TRNAMT>-9.99</TRNAMT><FITID>A1</FITID><NAME>Tom &amp; Jerry&apos;s</NAME></STMTTRN></BANKTRANLIST>
+</CCSTMTRS></CCSTMTTRNRS></CREDITCARDMSGSRSV1></OFX>`;
+
+    expect(OFXParser.parse(xml)).toEqual([{
+      date: '2025-03-02',
+      description: 'Tom & Jerry\'s',
+      amount: 9.99,
+      isIncome: false,
+      externalId: 'A1',
+      accountId: '****1111',
+      currency: 'GBP',
+    }]);
+    expect(OFXParser.readSummary(xml)?.accountType).toBe('credit_card');
+  });
+
+  it('reads the closing balance and statement period', () => {
+    expect(OFXParser.readSummary(SGML_STATEMENT)).toEqual({
+      closingBalance: 2451.75,
+      periodStart: '2025-01-01',
+      periodEnd: '2025-01-31',
+      accountType: 'deposit',
+    });
+  });
+
+  it('rejects content without an <OFX> element', () => {
+    expect(() => OFXParser.parse('OFXHEADER:100')).toThrow('missing <OFX> element');
+  });
+});
@@ -0,0 +1,173 @@
+/**
+ * OFX / QFX Parser
+ *
+ * Reads Open Financial Exchange statement downloads.
+ * Handles both OFX 1.x (SGML, tags are not always closed) and
+ * OFX 2.x (XML). QFX is Quicken's OFX variant and parses the same way.
+ */
+
+import { ExtractedTransaction, StatementSummary } from '../fileProcessorService';
+import { AccountNumber } from './accountNumber';
+
+// Statement blocks that carry an account and a transaction list
+const STATEMENT_BLOCKS = ['STMTRS', 'CCSTMTRS'];
+
+// Transaction types that always mean money leaving the account
+const DEBIT_TYPES = ['DEBIT', 'PAYMENT', 'CHECK', 'ATM', 'POS', 'FEE', 'SRVCHG', 'DIRECTDEBIT', 'REPEATPMT'];
+
+export class OFXParser {
+  /**
+   * Quick check to see if text content looks like OFX
+   */
+  static isOFX(content: string): boolean {
+    const head = content.slice(0, 2048).toUpperCase();
+    return head.includes('OFXHEADER') || head.includes('<OFX>');
+  }
+
+  /**
+   * Parse OFX content into transactions
+   */
+  static parse(content: string): ExtractedTransaction[] {
+    const transactions: ExtractedTransaction[] = [];
+
+    // Only look at the body, the SGML header is plain key:value lines
+    const ofxStart = content.toUpperCase().indexOf('<OFX>');
+    if (ofxStart === -1) {
+      throw new Error('Invalid OFX file: missing <OFX> element');
+    }
+    const body = content.slice(ofxStart);
+
+    for (const blockName of STATEMENT_BLOCKS) {
+      for (const statement of this.getBlocks(body, blockName)) {
+        const accountId = AccountNumber.mask(this.getField(statement, 'ACCTID'));
+        const currency = this.getField(statement, 'CURDEF') || undefined;
+
+        for (const stmtTrn of this.getBlocks(statement, 'STMTTRN')) {
+          const transaction = this.parseTransaction(stmtTrn, accountId, currency);
+          if (transaction) {
+            transactions.push(transaction);
+          }
+        }
+      }
+    }
+
+    return transactions;
+  }
+
+  /**
+   * Closing (ledger) balance and statement period. OFX doesn't carry an
+   * opening balance, so these downloads can't be fully reconciled.
+   */
+  static readSummary(content: string): StatementSummary | null {
+    const statements = STATEMENT_BLOCKS.flatMap(blockName => this.getBlocks(content, blockName));
+    if (statements.length !== 1) {
+      return null;
+    }
+
+    const statement = statements[0];
+    const transactionList = this.getBlocks(statement, 'BANKTRANLIST')[0] || '';
+    const ledgerBalance = this.getBlocks(statement, 'LEDGERBAL')[0] || '';
+    const closingBalance = parseFloat(this.getField(ledgerBalance, 'BALAMT') || '');
+    const periodStart = this.getField(transactionList, 'DTSTART');
+    const periodEnd = this.getField(transactionList, 'DTEND');
+
+    return {
+      closingBalance: isNaN(closingBalance) ? undefined : closingBalance,
+      periodStart: periodStart ? this.parseDate(periodStart) || undefined : undefined,
+      periodEnd: periodEnd ? this.parseDate(periodEnd) || undefined : undefined,
+      accountType: this.getBlocks(content, 'CCSTMTRS').length > 0 ? 'credit_card' : 'deposit',
+    };
+  }
+
+  /**
+   * Parse a single <STMTTRN> block
+   */
+  private static parseTransaction(block: string, accountId?: string, currency?: string): ExtractedTransaction | null {
+    const rawDate = this.getField(block, 'DTPOSTED') || this.getField(block, 'DTUSER');
+    const rawAmount = this.getField(block, 'TRNAMT');
+
+    if (!rawDate || !rawAmount) {
+      return null;
+    }
+
+    const date = this.parseDate(rawDate);
+    // Some European banks send a comma as decimal separator
+    const amount = parseFloat(rawAmount.replace(',', '.'));
+    if (!date || isNaN(amount) || amount === 0) {
+      return null;
+    }
+
+    const name = this.getField(block, 'NAME') || this.getField(block, 'PAYEE');
+    const memo = this.getField(block, 'MEMO');
+    let description = name || memo || 'Unknown transaction';
+    if (name && memo && !name.toLowerCase().includes(memo.toLowerCase())) {
+      description = `${name} - ${memo}`;
+    }
+
+    // TRNAMT is signed, but a few banks send unsigned amounts and rely on TRNTYPE
+    const trnType = (this.getField(block, 'TRNTYPE') || '').toUpperCase();
+    const isIncome = amount > 0 && !DEBIT_TYPES.includes(trnType);
+
+    return {
+      date,
+      description: description.replace(/\s+/g, ' ').trim(),
+      amount: Math.abs(amount),
+      isIncome,
+      externalId: this.getField(block, 'FITID') || undefined,
+      accountId,
+      // Foreign-currency transactions carry their own <CURRENCY><CURSYM>
+      currency: this.getField(block, 'CURSYM') || currency,
+    };
+  }
+
+  /**
+   * Get every <NAME>...</NAME> block. In SGML the closing tag is
+   * required for aggregates, so this works for both versions.
+   */
+  private static getBlocks(content: string, tag: string): string[] {
+    const regex = new RegExp(`<${tag}>([\\s\\S]*?)</${tag}>`, 'gi');
+    const blocks: string[] = [];
+    let match;
+    while ((match = regex.exec(content)) !== null) {
+      blocks.push(match[1]);
+    }
+    return blocks;
+  }
+
+  /**
+   * Get a leaf element value. SGML leaves end at the next tag or newline,
+   * XML leaves end at their closing tag.
+   */
+  private static getField(content: string, tag: string): string | null {
+    const match = content.match(new RegExp(`<${tag}>([^<\\r\\n]*)`, 'i'));
+    if (!match) {
+      return null;
+    }
+    const value = this.decodeEntities(match[1].trim());
+    return value || null;
+  }
+
+  /**
+   * OFX dates look like YYYYMMDD[HHMMSS[.XXX]][[-5:EST]]
+   */
+  private static parseDate(value: string): string | null {
+    const match = value.match(/^(\d{4})(\d{2})(\d{2})/);
+    if (!match) {
+      return null;
+    }
+    return `${match[1]}-${match[2]}-${match[3]}`;
+  }
+
+  /**
+   * Decode the handful of entities OFX allows
+   */
+  private static decodeEntities(value: string): string {
+    return value
+      .replace(/&lt;/g, '<')
+      .replace(/&gt;/g, '>')
+      .replace(/&quot;/g, '"')
+      .replace(/&apos;/g, "'")
+      .replace(/&nbsp;/g, ' ')
+      .replace(/&amp;/g, '&');
+  }
+}
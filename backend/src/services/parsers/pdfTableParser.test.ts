@@ -0,0 +1,88 @@
+import { PDFTableParser } from './pdfTableParser';
+
+// Column positions (pdf2json units) of a typical current account statement
+const COLUMNS = { date: 2, description: 6, debit: 20, credit: 25, balance: 30 };
+
+// A pdf2json text item; widths are given in points, 5 per character
+const item = (x: number, y: number, text: string) => ({
+  x,
+  y,
+  w: text.length * 5,
+  R: [{ T: encodeURIComponent(text), TS: [0, 10] }],
+});
+
+const header = (y: number) => [
+  item(COLUMNS.date, y, 'Date'),
+  item(COLUMNS.description, y, 'Description'),
+  item(COLUMNS.debit, y, 'Paid out'),
+  item(COLUMNS.credit, y, 'Paid in'),
+  item(COLUMNS.balance, y, 'Balance'),
+];
+
+const row = (y: number, cells: Partial<Record<keyof typeof COLUMNS, string>>) =>
+  Object.entries(cells).map(([column, text]) => item(COLUMNS[column as keyof typeof COLUMNS], y, text!));
+
+const pdf = (...pages: any[][]) => ({ Pages: pages.map(texts => ({ Texts: texts })) });
+
+describe('PDFTableParser.extractRows', () => {
+  it('places each item in the column it sits under', () => {
+    const rows = PDFTableParser.extractRows(pdf([
+      item(2, 1, 'Statement for Jane Doe'),
+      ...header(3),
+      ...row(4, { date: '01/01/2025', description: 'Balance brought forward', balance: '1,000.00' }),
+      ...row(5, { date: '05/01/2025', description: 'WHOLE FOODS', debit: '42.50', balance: '957.50' }),
+      ...row(6, { description: 'ACME PAYROLL', credit: '1,500.00', balance: '2,457.50' }),
+    ]));
+
+    expect(rows).toEqual([
+      expect.objectContaining({
+        page: 1, date: '05/01/2025', description: 'WHOLE FOODS', debit: '42.50', credit: undefined,
+        balance: '957.50', previousBalance: '1,000.00',
+      }),
+      // The date is printed only on the first row of a day
+      expect.objectContaining({ date: '05/01/2025', description: 'ACME PAYROLL', credit: '1,500.00', previousBalance: '957.50' }),
+    ]);
+  });
+
+  it('joins wrapped descriptions to the row above', () => {
+    const rows = PDFTableParser.extractRows(pdf([
+      ...header(3),
+      ...row(4, { date: '05/01/2025', description: 'CARD PAYMENT TO', debit: '42.50' }),
+      ...row(5, { description: 'WHOLE FOODS MARKET' }),
+      ...row(6, { date: '06/01/2025', description: 'COFFEE', debit: '3.20' }),
+    ]));
+
+    expect(rows.map(r => r.description)).toEqual(['CARD PAYMENT TO WHOLE FOODS MARKET', 'COFFEE']);
+    expect(rows[0].text).toBe('05/01/2025 CARD PAYMENT TO 42.50 WHOLE FOODS MARKET');
+  });
+
+  it('skips repeated headers, on the same page and the next', () => {
+    const rows = PDFTableParser.extractRows(pdf(
+      [
+        ...header(3),
+        ...row(4, { date: '05/01/2025', description: 'WHOLE FOODS', debit: '42.50' }),
+        ...header(5),
+        ...row(6, { description: 'Continued' }),
+        ...row(7, { date: '06/01/2025', description: 'COFFEE', debit: '3.20' }),
+      ],
+      [
+        item(2, 1, 'Page 2'),
+        ...header(2),
+        ...row(3, { date: '07/01/2025', description: 'RENT', debit: '1,200.00' }),
+      ]
+    ));
+
+    expect(rows.map(r => [r.page, r.date, r.description])).toEqual([
+      [1, '05/01/2025', 'WHOLE FOODS'],
+      [1, '06/01/2025', 'COFFEE'],
+      [2, '07/01/2025', 'RENT'],
+    ]);
+  });
+
+  it('returns nothing when no page has a table header', () => {
+    expect(PDFTableParser.extractRows(pdf([
+      item(2, 1, 'Dear customer,'),
+      ...row(2, { date: '05/01/2025', description: 'WHOLE FOODS', debit: '42.50' }),
+    ]))).toEqual([]);
+  });
+});
@@ -0,0 +1,275 @@
+/**
+ * PDF Table Parser
+ *
+ * Rebuilds the transaction table of a text-based PDF statement from the
+ * x/y position of each text item pdf2json returns, instead of reading the
+ * page as one flat string. Items are grouped into lines by their y position,
+ * the header line of each page tells us where the date, description,
+ * debit, credit, amount and balance columns are, and each item is placed
+ * in the column it sits under. Description lines without a date or amount
+ * are joined to the transaction above (wrapped descriptions).
+ */
+
+// pdf2json positions are in 1/16 inch; text widths are in points
+const POINTS_PER_UNIT = 16;
+
+// Items closer than this vertically are on the same line (about 5pt)
+const LINE_TOLERANCE = 0.3;
+
+// Gap between items that still counts as one header cell ("Transaction" "Date")
+const HEADER_CELL_GAP = 0.6;
+
+export type PDFColumn = 'date' | 'description' | 'debit' | 'credit' | 'amount' | 'balance';
+
+const HEADER_PATTERNS: { column: PDFColumn; pattern: RegExp }[] = [
+  { column: 'balance', pattern: /\bbalance\b/i },
+  { column: 'debit', pattern: /^(debits?|withdrawals?|paid out|money out|payments?|debit amount)$/i },
+  { column: 'credit', pattern: /^(credits?|deposits?|paid in|money in|receipts?|credit amount)$/i },
+  { column: 'amount', pattern: /^(amount|transaction amount|amount \(.+\))$/i },
+  { column: 'date', pattern: /^((transaction|trans|posting|post|entry|value)\s+)?date$/i },
+  { column: 'description', pattern: /description|details|particulars|narrative|transaction|payee|merchant|memo/i },
+];
+
+// What a date cell at the start of a transaction row looks like
+const DATE_CELL = new RegExp(
+  [
+    '^\\d{1,2}[-/.]\\d{1,2}(?:[-/.]\\d{2,4})?$',
+    '^\\d{4}[-/.]\\d{1,2}[-/.]\\d{1,2}$',
+    '^\\d{1,2}(?:st|nd|rd|th)?[\\s-]+[A-Za-z]{3,9}\\.?(?:[\\s-]+\\d{2,4})?$',
+    '^[A-Za-z]{3,9}\\.?\\s+\\d{1,2}(?:,?\\s+\\d{4})?$',
+  ].join('|')
+);
+
+const AMOUNT_CELL = /\d/;
+
+// Rows that are part of the table but aren't transactions
+const SUMMARY_ROW = /brought forward|carried forward|opening balance|closing balance|balance forward|previous balance|^total|^subtotal/i;
+
+/**
+ * One reconstructed table row. Values are the raw text from each column;
+ * turning them into dates and amounts is left to the caller.
+ */
+export interface PDFTableRow {
+  page: number; // 1-based
+  date: string;
+  description: string;
+  debit?: string;
+  credit?: string;
+  amount?: string;
+  balance?: string;
+  previousBalance?: string; // Balance shown on the row before (including "brought forward")
+  text: string; // The whole row as it appeared, for reporting
+  confidence?: number; // Lowest OCR confidence (0-100) of the row's words, for scanned statements
+}
+
+interface TextItem {
+  x: number;
+  y: number;
+  width: number;
+  text: string;
+  confidence?: number; // Set on OCR output (see OCRService.toPDFData)
+}
+
+interface ColumnAnchor {
+  column: PDFColumn;
+  left: number;
+  right: number;
+}
+
+export class PDFTableParser {
+  /**
+   * Extract the transaction table from pdf2json output.
+   * Returns an empty list when no page has a recognisable table header,
+   * so the caller can fall back to plain-text parsing.
+   */
+  static extractRows(pdfData: any): PDFTableRow[] {
+    const rows: PDFTableRow[] = [];
+    let lastBalance: string | undefined;
+
+    (pdfData.Pages || []).forEach((page: any, pageIndex: number) => {
+      const lines = this.groupLines(this.readItems(page));
+      const headerIndex = lines.findIndex(line => this.readHeader(line) !== null);
+      if (headerIndex === -1) {
+        return;
+      }
+
+      const anchors = this.readHeader(lines[headerIndex])!;
+      let current: PDFTableRow | null = null;
+      let lastDate = '';
+
+      for (const line of lines.slice(headerIndex + 1)) {
+        // Repeated header (e.g. the table continues under a page sub-heading)
+        if (this.readHeader(line)) {
+          current = null;
+          continue;
+        }
+
+        const cells = this.assignColumns(line, anchors);
+        const text = line.map(item => item.text).join(' ');
+        const hasAmount = (['debit', 'credit', 'amount'] as PDFColumn[]).some(c => AMOUNT_CELL.test(cells[c] || ''));
+        const dateCell = cells.date && DATE_CELL.test(cells.date) ? cells.date : null;
+
+        if (SUMMARY_ROW.test(cells.description || text)) {
+          current = null;
+          if (dateCell) lastDate = dateCell;
+          if (cells.balance) lastBalance = cells.balance;
+          continue;
+        }
+
+        if (dateCell || (hasAmount && lastDate)) {
+          // New transaction; statements often print the date only on the first row of a day
+          if (dateCell) lastDate = dateCell;
+          current = {
+            page: pageIndex + 1,
+            date: lastDate,
+            description: cells.description || '',
+            debit: cells.debit,
+            credit: cells.credit,
+            amount: cells.amount,
+            balance: cells.balance,
+            previousBalance: lastBalance,
+            text,
+            confidence: this.lowestConfidence(line),
+          };
+          rows.push(current);
+          if (cells.balance) lastBalance = cells.balance;
+        } else if (current && cells.description && !hasAmount && Object.keys(cells).length === 1) {
+          // Wrapped description
+          current.description = `${current.description} ${cells.description}`.trim();
+          current.text += ` ${text}`;
+          current.confidence = this.lowestConfidence(line, current.confidence);
+        } else {
+          // Anything else (footer, page total, disclaimer) ends the current row
+          current = null;
+        }
+      }
+    });
+
+    return rows.filter(row => row.debit || row.credit || row.amount);
+  }
+
+  /**
+   * Flatten a page's text items, with widths in page units
+   */
+  private static readItems(page: any): TextItem[] {
+    const items: TextItem[] = [];
+
+    for (const item of page.Texts || []) {
+      const text = (item.R || []).map((run: any) => this.decode(run.T)).join('').trim();
+      if (!text) continue;
+
+      const fontSize = item.R?.[0]?.TS?.[1] || 10;
+      const width = typeof item.w === 'number' && item.w > 0
+        ? item.w / POINTS_PER_UNIT
+        : (text.length * fontSize * 0.5) / POINTS_PER_UNIT;
+
+      items.push({ x: item.x, y: item.y, width, text, confidence: item.confidence });
+    }
+
+    return items;
+  }
+
+  /**
+   * Lowest confidence among a line's items (undefined for text-based PDFs)
+   */
+  private static lowestConfidence(line: TextItem[], current?: number): number | undefined {
+    const scores = line.map(item => item.confidence).filter((c): c is number => c !== undefined);
+    if (current !== undefined) scores.push(current);
+    return scores.length > 0 ? Math.min(...scores) : undefined;
+  }
+
+  /**
+   * Older pdf2json versions URI-encode text runs; newer ones don't
+   */
+  private static decode(text: string): string {
+    try {
+      return decodeURIComponent(text);
+    } catch {
+      return text;
+    }
+  }
+
+  /**
+   * Group items into lines (top to bottom), each sorted left to right
+   */
+  private static groupLines(items: TextItem[]): TextItem[][] {
+    const sorted = [...items].sort((a, b) => a.y - b.y || a.x - b.x);
+    const lines: TextItem[][] = [];
+
+    for (const item of sorted) {
+      const line = lines[lines.length - 1];
+      if (line && Math.abs(line[0].y - item.y) <= LINE_TOLERANCE) {
+        line.push(item);
+      } else {
+        lines.push([item]);
+      }
+    }
+
+    return lines.map(line => line.sort((a, b) => a.x - b.x));
+  }
+
+  /**
+   * Read a line as a table header. It must have a date column and either
+   * an amount column or a debit/credit column to count.
+   */
+  private static readHeader(line: TextItem[]): ColumnAnchor[] | null {
+    // Merge items that are close together into header cells
+    const cells: TextItem[] = [];
+    for (const item of line) {
+      const previous = cells[cells.length - 1];
+      if (previous && item.x - (previous.x + previous.width) < HEADER_CELL_GAP) {
+        previous.text = `${previous.text} ${item.text}`;
+        previous.width = item.x + item.width - previous.x;
+      } else {
+        cells.push({ ...item });
+      }
+    }
+
+    const anchors: ColumnAnchor[] = [];
+    for (const cell of cells) {
+      const match = HEADER_PATTERNS.find(h => h.pattern.test(cell.text.trim()));
+      // First column of each kind wins ("Posting Date" before "Value Date")
+      if (match && !anchors.some(a => a.column === match.column)) {
+        anchors.push({ column: match.column, left: cell.x, right: cell.x + cell.width });
+      }
+    }
+
+    const has = (column: PDFColumn) => anchors.some(a => a.column === column);
+    if (!has('date') || !(has('amount') || has('debit') || has('credit'))) {
+      return null;
+    }
+
+    return anchors;
+  }
+
+  /**
+   * Place each item on a line under a header column. Numbers are usually
+   * right-aligned and text left-aligned, so an item belongs to the column
+   * whose header it overlaps most, or failing that whose header is nearest.
+   */
+  private static assignColumns(line: TextItem[], anchors: ColumnAnchor[]): Partial<Record<PDFColumn, string>> {
+    const cells: Partial<Record<PDFColumn, string>> = {};
+
+    for (const item of line) {
+      let best: ColumnAnchor | null = null;
+      let bestScore = -Infinity;
+
+      for (const anchor of anchors) {
+        const overlap = Math.min(item.x + item.width, anchor.right) - Math.max(item.x, anchor.left);
+        const centerDistance = Math.abs((item.x + item.width / 2) - (anchor.left + anchor.right) / 2);
+        const score = overlap > 0 ? overlap : -centerDistance;
+        if (score > bestScore) {
+          best = anchor;
+          bestScore = score;
+        }
+      }
+
+      if (!best) continue;
+      const column = best.column;
+
+      cells[column] = cells[column] ? `${cells[column]} ${item.text}` : item.text;
+    }
+
+    return cells;
+  }
+}
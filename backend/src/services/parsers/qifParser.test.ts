@@ -0,0 +1,150 @@
+import { QIFParser } from './qifParser';
+
+const BANK_EXPORT = `!Type:Bank
+D01/05/2025
+T-42.50
+PWhole Foods
+LFood & Dining:Groceries
+^
+D1/15'25
+U1,500.00
+T1,500.00
+PAcme Payroll
+LIncome
+^
+D01/20/2025
+T-100.00
+PCostco
+SFood & Dining:Groceries
+$-60.00
+EFood
+SShopping
+$-40.00
+EHousehold
+^
+D01/25/2025
+T-250.00
+PTransfer to savings
+L[Savings]
+^
+`;
+
+describe('QIFParser', () => {
+  it('recognizes QIF content', () => {
+    expect(QIFParser.isQIF(BANK_EXPORT)).toBe(true);
+    expect(QIFParser.isQIF('Date,Description,Amount')).toBe(false);
+  });
+
+  it('parses bank records with categories', () => {
+    const transactions = QIFParser.parse(BANK_EXPORT);
+
+    expect(transactions[0]).toEqual({
+      rawDate: '01/05/2025',
+      line: 2,
+      source: 'D01/05/2025 T-42.50 PWhole Foods LFood & Dining:Groceries',
+      description: 'Whole Foods',
+      amount: 42.5,
+      isIncome: false,
+      category: 'Food & Dining',
+      subcategory: 'Groceries',
+    });
+    expect(transactions[1]).toMatchObject({ amount: 1500, isIncome: true, category: 'Income' });
+  });
+
+  it('leaves dates as written, apart from the apostrophe year marker', () => {
+    const dates = QIFParser.parse(`!Type:Bank
+D1/15'25
+T-1.00
+^
+D 3/ 4/2025
+T-1.00
+^
+D2025-01-02
+T-1.00
+^`).map(t => t.rawDate);
+
+    expect(dates).toEqual(['1/15/2025', '3/4/2025', '2025-01-02']);
+  });
+
+  it('splits records whose splits add up to the total', () => {
+    const splits = QIFParser.parse(BANK_EXPORT).filter(t => t.description.startsWith('Costco'));
+
+    expect(splits).toEqual([
+      expect.objectContaining({ rawDate: '01/20/2025', description: 'Costco (Food)', amount: 60, category: 'Food & Dining', subcategory: 'Groceries' }),
+      expect.objectContaining({ rawDate: '01/20/2025', description: 'Costco (Household)', amount: 40, category: 'Shopping', subcategory: undefined }),
+    ]);
+  });
+
+  it('does not treat transfers as categories', () => {
+    const transfer = QIFParser.parse(BANK_EXPORT).find(t => t.description === 'Transfer to savings');
+    expect(transfer?.category).toBeUndefined();
+  });
+
+  it('skips investment sections and account lists', () => {
+    const content = `!Account
+NChecking
+TBank
+^
+!Type:Invst
+D01/02/2025
+T-10.00
+PBuy shares
+^
+!Type:CCard
+D01/03/2025
+T-12.00
+PLunch
+^`;
+
+    expect(QIFParser.parse(content).map(t => t.description)).toEqual(['Lunch']);
+  });
+
+  it('serializes transactions as a bank section', () => {
+    const output = QIFParser.serialize([
+      {
+        transaction_date: new Date('2025-01-05T00:00:00Z'),
+        description: 'Whole Foods\nMarket',
+        amount: '42.50',
+        category: 'Food & Dining',
+        subcategory: 'Groceries',
+        is_income: false,
+      },
+      {
+        transaction_date: new Date('2025-01-15T00:00:00Z'),
+        description: '[Bonus]',
+        amount: 1500,
+        category: null,
+        subcategory: null,
+        is_income: true,
+      },
+    ]);
+
+    expect(output).toBe([
+      '!Type:Bank',
+      'D01/05/2025', 'T-42.50', 'PWhole Foods Market', 'LFood & Dining:Groceries', '^',
+      'D01/15/2025', 'T1500.00', 'P(Bonus]', '^',
+    ].join('\r\n') + '\r\n');
+  });
+
+  it('reads back what it writes', () => {
+    const output = QIFParser.serialize([{
+      transaction_date: new Date('2025-02-28T00:00:00Z'),
+      description: 'Rent',
+      amount: 1200,
+      category: 'Housing',
+      subcategory: 'Rent',
+      is_income: false,
+    }]);
+
+    expect(QIFParser.parse(output)).toEqual([{
+      rawDate: '02/28/2025',
+      line: 2,
+      source: 'D02/28/2025 T-1200.00 PRent LHousing:Rent',
+      description: 'Rent',
+      amount: 1200,
+      isIncome: false,
+      category: 'Housing',
+      subcategory: 'Rent',
+    }]);
+  });
+});
@@ -0,0 +1,252 @@
+/**
+ * QIF Parser / Writer
+ *
+ * Quicken Interchange Format is a line-based text format. Each record is a
+ * list of lines that start with a one-letter field code and ends with "^".
+ * We read bank and credit card sections and write bank sections so data can
+ * round-trip into desktop finance tools.
+ */
+
+import { ExtractedTransaction } from '../fileProcessorService';
+
+// Account types we import. Investment sections use different field codes.
+const SUPPORTED_TYPES = ['bank', 'ccard', 'cash', 'oth a', 'oth l'];
+
+interface QIFSplit {
+  category?: string;
+  memo?: string;
+  amount?: number;
+}
+
+interface QIFRecord {
+  date?: string;  // As written, resolved later (see QIFTransaction)
+  line?: number;  // 1-based line the record starts on
+  lines: string[];
+  amount?: number;
+  payee?: string;
+  memo?: string;
+  category?: string;
+  splits: QIFSplit[];
+}
+
+// A transaction whose date is still as written. QIF has no locale marker,
+// so the day/month order is worked out for the whole file at once (see
+// FileProcessorService.resolveDates).
+export interface QIFTransaction extends Omit<ExtractedTransaction, 'date'> {
+  rawDate: string;
+  line?: number;  // 1-based line the record starts on
+  source: string; // The record as it appeared, for reporting
+}
+
+// Row shape used when exporting (matches the transactions table)
+export interface QIFExportRow {
+  transaction_date: Date;
+  description: string | null;
+  amount: string | number;
+  category: string | null;
+  subcategory: string | null;
+  is_income: boolean;
+}
+
+export class QIFParser {
+  /**
+   * Quick check to see if text content looks like QIF
+   */
+  static isQIF(content: string): boolean {
+    return /^\s*!(Type|Account|Option)/i.test(content);
+  }
+
+  /**
+   * Parse QIF content into transactions, with their dates as written
+   */
+  static parse(content: string): QIFTransaction[] {
+    const transactions: QIFTransaction[] = [];
+    const lines = content.split(/\r?\n/);
+
+    let inSupportedSection = false;
+    let inAccountList = false;
+    let record: QIFRecord = { splits: [], lines: [] };
+
+    for (const [index, rawLine] of lines.entries()) {
+      const line = rawLine.trimEnd();
+      if (!line) continue;
+
+      // Section headers
+      if (line.startsWith('!')) {
+        const header = line.toLowerCase();
+        if (header.startsWith('!type:')) {
+          inSupportedSection = SUPPORTED_TYPES.includes(header.slice(6).trim());
+          inAccountList = false;
+        } else if (header.startsWith('!account')) {
+          // Account list block, ends at the next "^"
+          inAccountList = true;
+        }
+        // !Option:AutoSwitch / !Clear:AutoSwitch need no handling
+        continue;
+      }
+
+      if (inAccountList) {
+        if (line === '^') inAccountList = false;
+        continue;
+      }
+
+      if (!inSupportedSection) continue;
+
+      // End of record
+      if (line === '^') {
+        transactions.push(...this.recordToTransactions(record));
+        record = { splits: [], lines: [] };
+        continue;
+      }
+
+      record.line ??= index + 1;
+      record.lines.push(line);
+
+      const code = line[0];
+      const value = line.slice(1).trim();
+
+      switch (code) {
+        case 'D':
+          record.date = this.normalizeDate(value);
+          break;
+        case 'T':
+        case 'U':
+          // U is the same amount with more precision in newer Quicken exports
+          if (record.amount === undefined || code === 'T') {
+            record.amount = this.parseAmount(value);
+          }
+          break;
+        case 'P':
+          record.payee = value;
+          break;
+        case 'M':
+          record.memo = value;
+          break;
+        case 'L':
+          record.category = value;
+          break;
+        case 'S':
+          record.splits.push({ category: value });
+          break;
+        case 'E':
+          if (record.splits.length > 0) {
+            record.splits[record.splits.length - 1].memo = value;
+          }
+          break;
+        case '$':
+          if (record.splits.length > 0) {
+            record.splits[record.splits.length - 1].amount = this.parseAmount(value);
+          }
+          break;
+        // N (check number), C (cleared), A (address) etc. are ignored
+      }
+    }
+
+    // Some exporters omit the final "^"
+    transactions.push(...this.recordToTransactions(record));
+
+    return transactions;
+  }
+
+  /**
+   * Turn a parsed record into one transaction, or one per split when the
+   * splits add up to the total
+   */
+  private static recordToTransactions(record: QIFRecord): QIFTransaction[] {
+    if (!record.date || record.amount === undefined || isNaN(record.amount) || record.amount === 0) {
+      return [];
+    }
+
+    const origin = { rawDate: record.date, line: record.line, source: record.lines.join(' ') };
+    const baseDescription = (record.payee || record.memo || 'Unknown transaction').replace(/\s+/g, ' ').trim();
+
+    const splitTotal = record.splits.reduce((sum, s) => sum + (s.amount || 0), 0);
+    const useSplits = record.splits.length > 1
+      && record.splits.every(s => s.amount !== undefined && !isNaN(s.amount))
+      && Math.abs(splitTotal - record.amount) < 0.01;
+
+    if (useSplits) {
+      return record.splits
+        .filter(s => s.amount !== 0)
+        .map(s => ({
+          ...origin,
+          description: s.memo ? `${baseDescription} (${s.memo})` : baseDescription,
+          amount: Math.abs(s.amount!),
+          isIncome: s.amount! > 0,
+          ...this.splitCategory(s.category),
+        }));
+    }
+
+    return [{
+      ...origin,
+      description: baseDescription,
+      amount: Math.abs(record.amount),
+      isIncome: record.amount > 0,
+      ...this.splitCategory(record.category || record.splits[0]?.category),
+    }];
+  }
+
+  /**
+   * "Food:Groceries" -> category Food, subcategory Groceries.
+   * "[Savings]" is a transfer to another account, not a category.
+   */
+  private static splitCategory(value?: string): { category?: string; subcategory?: string } {
+    if (!value || value.startsWith('[')) {
+      return {};
+    }
+    // Anything after "/" is a Quicken class, not part of the category
+    const [category, subcategory] = value.split('/')[0].split(':');
+    return {
+      category: category.trim() || undefined,
+      subcategory: subcategory?.trim() || undefined,
+    };
+  }
+
+  /**
+   * Tidy a QIF date for DateParser: 01/02/2025, 1/ 2/25, 1/2'05, 01.02.2025,
+   * 2025-01-02. An apostrophe before the year marks years from 2000 onwards.
+   */
+  private static normalizeDate(value: string): string | undefined {
+    const cleaned = value
+      .replace(/\s/g, '')
+      .replace(/'(\d{2})$/, '/20$1')
+      .replace(/'(\d{4})$/, '/$1');
+    return cleaned || undefined;
+  }
+
+  private static parseAmount(value: string): number {
+    return parseFloat(value.replace(/[$,\s]/g, ''));
+  }
+
+  /**
+   * Write transactions as a QIF bank account section
+   */
+  static serialize(rows: QIFExportRow[]): string {
+    const lines = ['!Type:Bank'];
+
+    for (const row of rows) {
+      const date = row.transaction_date.toISOString().split('T')[0];
+      const [year, month, day] = date.split('-');
+      const amount = Math.abs(parseFloat(String(row.amount)));
+      const signed = row.is_income ? amount : -amount;
+
+      lines.push(`D${month}/${day}/${year}`);
+      lines.push(`T${signed.toFixed(2)}`);
+      lines.push(`P${this.sanitize(row.description || '')}`);
+      if (row.category) {
+        const category = row.subcategory ? `${row.category}:${row.subcategory}` : row.category;
+        lines.push(`L${this.sanitize(category)}`);
+      }
+      lines.push('^');
+    }
+
+    return lines.join('\r\n') + '\r\n';
+  }
+
+  /**
+   * Fields are single lines, and a leading "[" would turn a category into a transfer
+   */
+  private static sanitize(value: string): string {
+    return value.replace(/[\r\n]+/g, ' ').replace(/^\[/, '(').trim();
+  }
+}
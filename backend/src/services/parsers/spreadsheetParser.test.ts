@@ -0,0 +1,60 @@
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import ExcelJS from 'exceljs';
+import { SpreadsheetParser } from './spreadsheetParser';
+
+const scoreHeader = (cells: string[]) => (cells.includes('Date') && cells.includes('Amount') ? 1 : 0);
+
+describe('SpreadsheetParser', () => {
+  let dir: string;
+
+  beforeAll(() => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), 'spreadsheet-test-'));
+  });
+
+  afterAll(() => {
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  it('finds the transaction table below a title', async () => {
+    const workbook = new ExcelJS.Workbook();
+    workbook.addWorksheet('Summary').addRow(['Nothing to see here']);
+    const sheet = workbook.addWorksheet('Transactions');
+    sheet.addRow(['Card statement']);
+    sheet.addRow([]);
+    sheet.addRow(['Date', 'Description', 'Amount']);
+    sheet.addRow([new Date(Date.UTC(2025, 0, 5)), { richText: [{ text: 'WHOLE ' }, { text: 'FOODS' }] }, -42.5]);
+    sheet.addRow([45672, 'ACME PAYROLL', { formula: '1000+500', result: 1500 }]);
+    const filePath = path.join(dir, 'statement.xlsx');
+    await workbook.xlsx.writeFile(filePath);
+
+    const table = await SpreadsheetParser.readTable(filePath, scoreHeader);
+
+    expect(table).toEqual({
+      sheetName: 'Transactions',
+      headers: ['Date', 'Description', 'Amount'],
+      rows: [
+        { Date: '2025-01-05', Description: 'WHOLE FOODS', Amount: -42.5 },
+        { Date: 45672, Description: 'ACME PAYROLL', Amount: 1500 },
+      ],
+      date1904: false,
+    });
+  });
+
+  it('returns null when no sheet has a transaction table', async () => {
+    const workbook = new ExcelJS.Workbook();
+    workbook.addWorksheet('Sheet1').addRow(['Name', 'Value']);
+    const filePath = path.join(dir, 'other.xlsx');
+    await workbook.xlsx.writeFile(filePath);
+
+    expect(await SpreadsheetParser.readTable(filePath, scoreHeader)).toBeNull();
+  });
+
+  it('converts serial dates', () => {
+    expect(SpreadsheetParser.serialToDate(45672)).toBe('2025-01-15');
+    expect(SpreadsheetParser.serialToDate(44210, true)).toBe('2025-01-15');
+    expect(SpreadsheetParser.serialToDate(1)).toBe('1900-01-01');
+    expect(SpreadsheetParser.serialToDate(-3)).toBeNull();
+  });
+});
@@ -0,0 +1,128 @@
+/**
+ * Spreadsheet Parser
+ *
+ * Reads .xlsx statements exported by card and business banking portals.
+ * These rarely start with the header on row 1 (there's usually a title,
+ * account details or a date range first), and may have several sheets,
+ * so we look for the sheet and row that look most like a transaction table.
+ * Legacy binary .xls workbooks can't be read; banks' ".xls" exports that are
+ * really text are read as CSV (see FileProcessorService.detectFormat).
+ */
+
+import ExcelJS from 'exceljs';
+
+// How far down each sheet we look for the header row
+const MAX_HEADER_SEARCH_ROWS = 30;
+
+export interface SpreadsheetTable {
+  sheetName: string;
+  headers: string[];
+  rows: Record<string, any>[];
+  date1904: boolean; // Workbook uses the 1904 date system
+}
+
+/**
+ * Scores a candidate header row: 0 means "not a header",
+ * higher means a better match
+ */
+export type HeaderScorer = (cells: string[]) => number;
+
+export class SpreadsheetParser {
+  /**
+   * Find the transaction table in a workbook and return its rows keyed by header
+   */
+  static async readTable(filePath: string, scoreHeader: HeaderScorer): Promise<SpreadsheetTable | null> {
+    const workbook = new ExcelJS.Workbook();
+    await workbook.xlsx.readFile(filePath);
+    const date1904 = !!workbook.properties?.date1904;
+
+    let best: { sheetName: string; headerIndex: number; score: number; rows: any[][] } | null = null;
+
+    for (const worksheet of workbook.worksheets) {
+      const sheetName = worksheet.name;
+      const rows: any[][] = [];
+      worksheet.eachRow((row) => {
+        const cells = Array.from({ length: row.cellCount }, (_, index) => this.cellValue(row.getCell(index + 1).value));
+        if (cells.some(cell => cell !== null && cell !== '')) {
+          rows.push(cells);
+        }
+      });
+
+      const searchLimit = Math.min(rows.length, MAX_HEADER_SEARCH_ROWS);
+      for (let i = 0; i < searchLimit; i++) {
+        const cells = rows[i].map(cell => (cell === null ? '' : String(cell).trim()));
+        const score = scoreHeader(cells);
+        if (score === 0) continue;
+
+        // Prefer the best header; on a tie, prefer the sheet with more data below it
+        const dataRows = rows.length - i - 1;
+        const bestDataRows = best ? best.rows.length - best.headerIndex - 1 : -1;
+        if (!best || score > best.score || (score === best.score && dataRows > bestDataRows)) {
+          best = { sheetName, headerIndex: i, score, rows };
+        }
+        break;
+      }
+    }
+
+    if (!best) {
+      return null;
+    }
+
+    const headers = best.rows[best.headerIndex].map((cell, index) =>
+      cell === null || String(cell).trim() === '' ? `Column ${index + 1}` : String(cell).trim()
+    );
+
+    const rows = best.rows.slice(best.headerIndex + 1).map(cells => {
+      const row: Record<string, any> = {};
+      headers.forEach((header, index) => {
+        row[header] = cells[index] ?? null;
+      });
+      return row;
+    });
+
+    return { sheetName: best.sheetName, headers, rows, date1904 };
+  }
+
+  /**
+   * Plain value of a cell: formulas give their result, rich text and links
+   * their text, and date-formatted cells YYYY-MM-DD
+   */
+  private static cellValue(value: ExcelJS.CellValue): string | number | boolean | null {
+    if (value === null || value === undefined) {
+      return null;
+    }
+    if (value instanceof Date) {
+      // Cell dates have no time zone; exceljs reads them as UTC midnight
+      return isNaN(value.getTime()) ? null : value.toISOString().split('T')[0];
+    }
+    if (typeof value !== 'object') {
+      return value;
+    }
+    if ('result' in value) {
+      return value.result === undefined ? null : this.cellValue(value.result as ExcelJS.CellValue);
+    }
+    if ('richText' in value) {
+      return value.richText.map(part => part.text).join('');
+    }
+    if ('text' in value) {
+      return value.text;
+    }
+    // Error cells (#N/A, #VALUE!)
+    return null;
+  }
+
+  /**
+   * Convert an Excel serial date (days since 1899-12-30, or 1904-01-01
+   * for old Mac workbooks) to YYYY-MM-DD
+   */
+  static serialToDate(serial: number, date1904 = false): string | null {
+    // Serial dates for plausible statement years are well within this range
+    if (!isFinite(serial) || serial < 1 || serial > 2958465) {
+      return null;
+    }
+
+    // Excel counts a 29 February 1900 that never existed, so earlier serials count from a day later
+    const days = Math.floor(serial) + (date1904 ? 1462 : serial < 60 ? 1 : 0);
+    return new Date(Date.UTC(1899, 11, 30) + days * 86400000).toISOString().split('T')[0];
+  }
+}
@@ -0,0 +1,29 @@
+import { EventEmitter } from 'events';
+import { ProcessingProgressService } from './processingProgressService';
+import { pool } from '../config/database';
+
+jest.mock('../config/database', () => ({ pool: { connect: jest.fn() }, query: jest.fn() }));
+
+// A pooled client whose LISTEN fails once, then succeeds
+const fakeClient = () => Object.assign(new EventEmitter(), {
+  query: jest.fn().mockRejectedValueOnce(new Error('connection reset')).mockResolvedValue({}),
+  release: jest.fn(),
+});
+
+describe('ProcessingProgressService.subscribe', () => {
+  it('gives the connection back when LISTEN fails, and tries again next time', async () => {
+    const client = fakeClient();
+    (pool.connect as jest.Mock).mockResolvedValue(client);
+
+    await expect(ProcessingProgressService.subscribe('file-1', jest.fn())).rejects.toThrow('connection reset');
+    expect(client.release).toHaveBeenCalledWith(expect.objectContaining({ message: 'connection reset' }));
+
+    const onEvent = jest.fn();
+    const unsubscribe = await ProcessingProgressService.subscribe('file-1', onEvent);
+    expect(pool.connect).toHaveBeenCalledTimes(2);
+
+    client.emit('notification', { channel: 'file_progress', payload: JSON.stringify({ fileId: 'file-1', stage: 'parsing' }) });
+    expect(onEvent).toHaveBeenCalledWith({ fileId: 'file-1', stage: 'parsing' });
+    unsubscribe();
+  });
+});
@@ -0,0 +1,111 @@
+/**
+ * Processing Progress Service
+ *
+ * Carries per-file progress from the worker that processes a statement to
+ * the API server that streams it to the browser (Server-Sent Events).
+ * The two run in different processes, so events travel over Postgres
+ * LISTEN/NOTIFY. The latest event is also saved on the file, so a client
+ * that connects mid-way starts from the current state.
+ */
+
+import { EventEmitter } from 'events';
+import { PoolClient } from 'pg';
+import { pool, query } from '../config/database';
+import { ProcessingProgress } from '../types';
+
+const CHANNEL = 'file_progress';
+
+// Stages after which nothing more will be reported for this run
+export const FINAL_STAGES: ProcessingProgress['stage'][] = ['completed', 'failed'];
+
+const emitter = new EventEmitter();
+emitter.setMaxListeners(0); // One listener per open stream
+
+let listener: Promise<PoolClient> | null = null;
+
+export class ProcessingProgressService {
+  /**
+   * Record and broadcast a file's progress
+   */
+  static async publish(progress: Omit<ProcessingProgress, 'at'>): Promise<void> {
+    const event: ProcessingProgress = { ...progress, at: new Date().toISOString() };
+    const payload = JSON.stringify(event);
+
+    await query('UPDATE uploaded_files SET processing_progress = $1 WHERE id = $2', [payload, event.fileId]);
+    await query('SELECT pg_notify($1, $2)', [CHANNEL, payload]);
+  }
+
+  /**
+   * The last progress recorded for a file (scoped to the owner)
+   */
+  static async getLatest(fileId: string, userId: string): Promise<ProcessingProgress | null> {
+    const result = await query(
+      'SELECT processing_progress FROM uploaded_files WHERE id = $1 AND user_id = $2',
+      [fileId, userId]
+    );
+
+    return result.rows[0]?.processing_progress || null;
+  }
+
+  /**
+   * Receive a file's progress events. Returns a function that stops listening.
+   */
+  static async subscribe(fileId: string, onEvent: (event: ProcessingProgress) => void): Promise<() => void> {
+    await this.listen();
+    emitter.on(fileId, onEvent);
+    return () => {
+      emitter.off(fileId, onEvent);
+    };
+  }
+
+  /**
+   * Start the server's single LISTEN connection (on first use), fanning
+   * notifications out to the subscribers of each file
+   */
+  private static listen(): Promise<PoolClient> {
+    if (!listener) {
+      listener = (async () => {
+        const client = await pool.connect();
+
+        client.on('notification', (message) => {
+          if (message.channel !== CHANNEL || !message.payload) return;
+          try {
+            const event: ProcessingProgress = JSON.parse(message.payload);
+            emitter.emit(event.fileId, event);
+          } catch (error) {
+            console.error('Invalid progress notification:', error);
+          }
+        });
+
+        // Passing the error makes the pool discard the connection instead of reusing it
+        let released = false;
+        const release = (error: Error) => {
+          if (released) return;
+          released = true;
+          client.release(error);
+        };
+
+        // Reconnect on the next subscription if the connection drops
+        client.on('error', (error) => {
+          console.error('Progress listener error:', error);
+          listener = null;
+          release(error);
+        });
+
+        try {
+          await client.query(`LISTEN ${CHANNEL}`);
+        } catch (error) {
+          release(error as Error);
+          throw error;
+        }
+        return client;
+      })();
+
+      listener.catch(() => {
+        listener = null;
+      });
+    }
+
+    return listener;
+  }
+}
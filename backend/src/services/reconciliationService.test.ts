@@ -0,0 +1,56 @@
+import { ReconciliationService } from './reconciliationService';
+import { ExtractedTransaction } from './fileProcessorService';
+
+const transactions: ExtractedTransaction[] = [
+  { date: '2025-01-05', description: 'Whole Foods', amount: 42.5, isIncome: false },
+  { date: '2025-01-15', description: 'Acme Payroll', amount: 1500, isIncome: true },
+  { date: '2025-01-20', description: 'Rent', amount: 1200.1, isIncome: false },
+];
+
+// Every row read with the wrong sign, e.g. a CSV imported with the wrong sign convention
+const inverted = transactions.map(t => ({ ...t, isIncome: !t.isIncome }));
+
+describe('ReconciliationService.reconcile', () => {
+  it('balances a deposit account', () => {
+    const result = ReconciliationService.reconcile(transactions, {
+      openingBalance: 1000, closingBalance: 1257.4, periodStart: '2025-01-01', periodEnd: '2025-01-31',
+    });
+
+    expect(result).toEqual({
+      status: 'balanced',
+      openingBalance: 1000,
+      closingBalance: 1257.4,
+      totalCredits: 1500,
+      totalDebits: 1242.6,
+      difference: 0,
+      periodStart: '2025-01-01',
+      periodEnd: '2025-01-31',
+    });
+  });
+
+  it('reports how far off the closing balance is', () => {
+    const result = ReconciliationService.reconcile(transactions.slice(1), { openingBalance: 1000, closingBalance: 1257.4 });
+
+    expect(result).toMatchObject({ status: 'mismatch', difference: -42.5 });
+  });
+
+  it('flags balances that only add up with every sign reversed', () => {
+    const result = ReconciliationService.reconcile(inverted, { openingBalance: 1000, closingBalance: 1257.4 });
+
+    expect(result).toMatchObject({ status: 'reversed', difference: 514.8 });
+  });
+
+  it('reads credit card balances as the amount owed', () => {
+    const card = { openingBalance: 500, closingBalance: 242.6, accountType: 'credit_card' as const };
+
+    expect(ReconciliationService.reconcile(transactions, card).status).toBe('balanced');
+    expect(ReconciliationService.reconcile(inverted, card).status).toBe('reversed');
+  });
+
+  it('is unavailable without both balances', () => {
+    expect(ReconciliationService.reconcile(transactions, { closingBalance: 1257.4 })).toMatchObject({
+      status: 'unavailable', difference: null, totalCredits: 1500,
+    });
+    expect(ReconciliationService.reconcile(transactions).status).toBe('unavailable');
+  });
+});
@@ -0,0 +1,74 @@
+/**
+ * Reconciliation Service
+ *
+ * Checks an import against the balances printed on the statement:
+ * opening balance + credits - debits should equal the closing balance.
+ * Credit card statements print the amount owed, which goes up with
+ * spending, so there it's opening - credits + debits. A difference means
+ * rows were missed; balances that only add up the other way round mean
+ * every row was read with the wrong sign.
+ */
+
+import { ExtractedTransaction, StatementSummary } from './fileProcessorService';
+
+// 'reversed': the balances only add up with every amount's sign flipped
+export type ReconciliationStatus = 'balanced' | 'reversed' | 'mismatch' | 'unavailable';
+
+export interface ReconciliationResult {
+  status: ReconciliationStatus;
+  openingBalance: number | null;
+  closingBalance: number | null;
+  totalCredits: number;
+  totalDebits: number;
+  difference: number | null; // Closing balance minus the expected closing balance
+  periodStart: string | null;
+  periodEnd: string | null;
+}
+
+// Allow for rounding in the statement's own arithmetic
+const TOLERANCE = 0.01;
+
+export class ReconciliationService {
+  /**
+   * Reconcile extracted transactions against the statement's balances.
+   * Statements are read as deposit accounts unless the format says it's
+   * a credit card.
+   */
+  static reconcile(transactions: ExtractedTransaction[], statement?: StatementSummary): ReconciliationResult {
+    const totalCredits = this.round(transactions.filter(t => t.isIncome).reduce((sum, t) => sum + t.amount, 0));
+    const totalDebits = this.round(transactions.filter(t => !t.isIncome).reduce((sum, t) => sum + t.amount, 0));
+
+    const openingBalance = statement?.openingBalance ?? null;
+    const closingBalance = statement?.closingBalance ?? null;
+
+    const result: ReconciliationResult = {
+      status: 'unavailable',
+      openingBalance,
+      closingBalance,
+      totalCredits,
+      totalDebits,
+      difference: null,
+      periodStart: statement?.periodStart || null,
+      periodEnd: statement?.periodEnd || null,
+    };
+
+    if (openingBalance === null || closingBalance === null) {
+      return result;
+    }
+
+    const change = statement?.accountType === 'credit_card' ? totalDebits - totalCredits : totalCredits - totalDebits;
+    const difference = this.round(closingBalance - (openingBalance + change));
+
+    if (Math.abs(difference) < TOLERANCE) {
+      return { ...result, status: 'balanced', difference: 0 };
+    }
+    if (Math.abs(this.round(closingBalance - (openingBalance - change))) < TOLERANCE) {
+      return { ...result, status: 'reversed', difference };
+    }
+    return { ...result, status: 'mismatch', difference };
+  }
+
+  private static round(value: number): number {
+    return Math.round(value * 100) / 100;
+  }
+}
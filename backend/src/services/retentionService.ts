@@ -0,0 +1,163 @@
+/**
+ * Retention Service
+ *
+ * Enforces how long uploaded statements are kept:
+ * - Files the user deleted (soft-deleted, deleted_at set) are purged for
+ *   good after RETENTION_GRACE_DAYS: the stored file and the database row.
+ *   Transactions imported from them are kept.
+ * - Users who turned on delete_statements_after_processing have the
+ *   original file removed once its transactions are imported; the row
+ *   stays so the import can still be reviewed or reverted.
+ * Every purge is recorded in audit_logs. The worker runs purgeExpired()
+ * every RETENTION_INTERVAL_MINUTES.
+ */
+
+import { PoolClient } from 'pg';
+import { query, withTransaction } from '../config/database';
+import { StorageService } from './storageService';
+
+const GRACE_DAYS = parseInt(process.env.RETENTION_GRACE_DAYS || '30');
+
+// Files handled per run and kind, so one run can't hold the worker for long
+const BATCH_SIZE = 200;
+
+export interface PurgeSummary {
+  filesPurged: number;           // Deleted files removed entirely
+  processedFilesRemoved: number; // Originals of imported statements removed
+  failed: number;
+}
+
+/**
+ * Record a purge, in the same transaction as the purge itself
+ */
+async function recordPurge(client: PoolClient, userId: string, action: string, details: Record<string, any>): Promise<void> {
+  await client.query(
+    'INSERT INTO audit_logs (user_id, action, details) VALUES ($1, $2, $3)',
+    [userId, action, JSON.stringify(details)]
+  );
+}
+
+export class RetentionService {
+  /**
+   * Purge everything the retention policy says is due
+   */
+  static async purgeExpired(): Promise<PurgeSummary> {
+    const summary: PurgeSummary = { filesPurged: 0, processedFilesRemoved: 0, failed: 0 };
+
+    const deleted = await query(
+      `SELECT id FROM uploaded_files
+       WHERE deleted_at < CURRENT_TIMESTAMP - ($1 * INTERVAL '1 day')
+       ORDER BY deleted_at
+       LIMIT $2`,
+      [GRACE_DAYS, BATCH_SIZE]
+    );
+
+    for (const file of deleted.rows) {
+      try {
+        if (await this.purgeDeletedFile(file.id)) {
+          summary.filesPurged++;
+        }
+      } catch (error) {
+        console.error(`Retention purge of file ${file.id} failed:`, error);
+        summary.failed++;
+      }
+    }
+
+    const processed = await query(
+      `SELECT f.id FROM uploaded_files f
+       JOIN users u ON u.id = f.user_id
+       WHERE u.delete_statements_after_processing = true
+         AND f.status = 'completed' AND f.file_purged_at IS NULL AND f.deleted_at IS NULL
+       LIMIT $1`,
+      [BATCH_SIZE]
+    );
+
+    for (const file of processed.rows) {
+      try {
+        if (await this.removeProcessedFile(file.id)) {
+          summary.processedFilesRemoved++;
+        }
+      } catch (error) {
+        console.error(`Retention removal of file ${file.id} failed:`, error);
+        summary.failed++;
+      }
+    }
+
+    return summary;
+  }
+
+  /**
+   * Remove a soft-deleted file's stored copy and row. Returns false when
+   * the file is no longer due (restored, or handled by another worker).
+   */
+  private static async purgeDeletedFile(fileId: string): Promise<boolean> {
+    return withTransaction(async (client) => {
+      const result = await client.query(
+        `SELECT id, user_id, file_path, file_size, status, uploaded_at, deleted_at, file_purged_at
+         FROM uploaded_files
+         WHERE id = $1 AND deleted_at < CURRENT_TIMESTAMP - ($2 * INTERVAL '1 day')
+         FOR UPDATE SKIP LOCKED`,
+        [fileId, GRACE_DAYS]
+      );
+      const file = result.rows[0];
+      if (!file) {
+        return false;
+      }
+
+      // Deleting a missing object is fine, so a retry after a failed commit is safe
+      if (!file.file_purged_at) {
+        await StorageService.delete(file.file_path);
+      }
+      await client.query('DELETE FROM uploaded_files WHERE id = $1', [file.id]);
+
+      await recordPurge(client, file.user_id, 'statement_purged', {
+        fileId: file.id,
+        reason: 'deleted',
+        graceDays: GRACE_DAYS,
+        status: file.status,
+        fileSize: file.file_size,
+        uploadedAt: file.uploaded_at,
+        deletedAt: file.deleted_at,
+      });
+
+      return true;
+    });
+  }
+
+  /**
+   * Remove the original of an imported statement, keeping its row.
+   * Returns false when it is no longer due.
+   */
+  private static async removeProcessedFile(fileId: string): Promise<boolean> {
+    return withTransaction(async (client) => {
+      const result = await client.query(
+        `SELECT f.id, f.user_id, f.file_path, f.file_size, f.uploaded_at
+         FROM uploaded_files f
+         JOIN users u ON u.id = f.user_id
+         WHERE f.id = $1 AND u.delete_statements_after_processing = true
+           AND f.status = 'completed' AND f.file_purged_at IS NULL AND f.deleted_at IS NULL
+         FOR UPDATE OF f SKIP LOCKED`,
+        [fileId]
+      );
+      const file = result.rows[0];
+      if (!file) {
+        return false;
+      }
+
+      await StorageService.delete(file.file_path);
+      await client.query(
+        'UPDATE uploaded_files SET file_purged_at = CURRENT_TIMESTAMP WHERE id = $1',
+        [file.id]
+      );
+
+      await recordPurge(client, file.user_id, 'statement_file_removed', {
+        fileId: file.id,
+        reason: 'processed',
+        fileSize: file.file_size,
+        uploadedAt: file.uploaded_at,
+      });
+
+      return true;
+    });
+  }
+}
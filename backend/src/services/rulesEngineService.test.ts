@@ -0,0 +1,208 @@
+import { RulesEngineService, RuleSubject, RuleError } from './rulesEngineService';
+import { CategorizationRule } from '../types';
+import { query, withTransaction } from '../config/database';
+import { CategorizationRuleModel } from '../models/CategorizationRule';
+import { CategoryService } from './categoryService';
+
+jest.mock('../config/database', () => ({ query: jest.fn(), withTransaction: jest.fn() }));
+jest.mock('../models/CategorizationRule');
+
+let nextId = 1;
+const rule = (fields: Partial<CategorizationRule>): CategorizationRule => ({
+  id: `rule-${nextId++}`,
+  user_id: 'user-1',
+  name: 'Rule',
+  priority: 0,
+  enabled: true,
+  add_tags: [],
+  created_at: new Date(),
+  updated_at: new Date(),
+  ...fields,
+});
+
+const coffee: RuleSubject = {
+  description: 'SQ *BLUE BOTTLE 0423 SAN FRANCISCO CA',
+  merchantName: 'Blue Bottle Coffee',
+  amount: 4.5,
+  isIncome: false,
+  accountId: '****9012',
+};
+
+describe('RulesEngineService.apply', () => {
+  it('returns null when no rule matches', () => {
+    expect(RulesEngineService.apply([rule({ description_contains: 'netflix', set_category: 'Entertainment' })], coffee)).toBeNull();
+  });
+
+  it('never matches a rule without conditions', () => {
+    expect(RulesEngineService.apply([rule({ set_category: 'Food & Dining' })], coffee)).toBeNull();
+  });
+
+  it('lets the first matching rule set a field and adds every tag', () => {
+    const first = rule({ merchant_equals: 'blue bottle coffee', set_category: 'Food & Dining', set_subcategory: 'Coffee', add_tags: ['coffee'] });
+    const second = rule({ description_contains: 'blue', set_category: 'Shopping', set_description: 'Blue Bottle', add_tags: ['coffee', 'treat'] });
+
+    expect(RulesEngineService.apply([first, second], coffee)).toEqual({
+      category: 'Food & Dining',
+      subcategory: 'Coffee',
+      description: 'Blue Bottle',
+      tags: ['coffee', 'treat'],
+      ruleId: first.id,
+      matchedRuleIds: [first.id, second.id],
+    });
+  });
+
+  it('requires every condition a rule sets', () => {
+    const conditions = { description_regex: 'blue\\s+bottle', direction: 'expense' as const, set_category: 'Food & Dining' };
+
+    expect(RulesEngineService.apply([rule({ ...conditions, amount_min: 1, amount_max: 10 })], coffee)).not.toBeNull();
+    expect(RulesEngineService.apply([rule({ ...conditions, amount_min: 5 })], coffee)).toBeNull();
+    expect(RulesEngineService.apply([rule({ ...conditions, direction: 'income' })], coffee)).toBeNull();
+  });
+
+  it('matches accounts by their last four digits', () => {
+    const sameAccount = rule({ account_id: '1234-5678-9012', set_category: 'Food & Dining' });
+    const otherAccount = rule({ account_id: '****0000', set_category: 'Food & Dining' });
+
+    expect(RulesEngineService.apply([sameAccount], coffee)?.category).toBe('Food & Dining');
+    expect(RulesEngineService.apply([otherAccount], coffee)).toBeNull();
+  });
+
+  it('keeps a subcategory with the category it was set alongside', () => {
+    const category = rule({ description_contains: 'blue', set_category: 'Food & Dining' });
+    const subcategory = rule({ description_contains: 'bottle', set_subcategory: 'Coffee' });
+
+    expect(RulesEngineService.apply([category, subcategory], coffee)).toMatchObject({ category: 'Food & Dining', subcategory: 'Coffee' });
+    expect(RulesEngineService.apply([rule({ description_contains: 'blue', set_category: 'Shopping' }), rule({
+      description_contains: 'blue', set_category: 'Food & Dining', set_subcategory: 'Coffee',
+    })], coffee)).toMatchObject({ category: 'Shopping', subcategory: undefined });
+  });
+});
+
+describe('RulesEngineService.checkPattern', () => {
+  it('accepts ordinary patterns', () => {
+    expect(RulesEngineService.checkPattern('^(amzn|amazon)\\b.*mktp')).toBeNull();
+    expect(RulesEngineService.checkPattern('tfr [0-9]{4,}( ref \\d+)?')).toBeNull();
+    expect(RulesEngineService.checkPattern('\\(+\\)*[(+)*]')).toBeNull();
+  });
+
+  it('rejects invalid patterns', () => {
+    expect(RulesEngineService.checkPattern('(unclosed')).toMatch(/unterminated group/i);
+  });
+
+  it('rejects patterns that repeat a repeating group', () => {
+    for (const pattern of ['(a+)+$', '(a*)*', '(\\w+\\s?)+x', '((ab)+c)*', '(?:x+){2,}']) {
+      expect(RulesEngineService.checkPattern(pattern)).toMatch(/repeat/);
+    }
+  });
+
+  it('caps the pattern length', () => {
+    expect(RulesEngineService.checkPattern('a'.repeat(201))).toMatch(/at most 200/);
+  });
+
+  it('never matches with an unsafe pattern', () => {
+    const slow = rule({ description_regex: '(a+)+$', set_category: 'Shopping' });
+    expect(RulesEngineService.apply([slow], { ...coffee, description: 'a'.repeat(40) + '!' })).toBeNull();
+  });
+});
+
+describe('RulesEngineService.applyToExisting', () => {
+  const client = { query: jest.fn() };
+  const row = (fields: Record<string, unknown>) => ({
+    description: 'SQ *BLUE BOTTLE', original_description: null, counterparty: null, amount: '4.50',
+    is_income: false, account_id: null, category: null, subcategory: null, tags: [], merchant_name: null,
+    ...fields,
+  });
+
+  beforeEach(() => {
+    jest.resetAllMocks();
+    (withTransaction as jest.Mock).mockImplementation(async (callback) => callback(client));
+    jest.spyOn(CategoryService, 'getHierarchy').mockResolvedValue(new Map([
+      ['food & dining', { name: 'Food & Dining', subcategories: new Map([['coffee', 'Coffee']]) }],
+      ['shopping', { name: 'Shopping', subcategories: new Map() }],
+    ]));
+  });
+
+  it('only changes transactions whose tags differ as a set', async () => {
+    (CategorizationRuleModel.findEnabledByUser as jest.Mock).mockResolvedValue([
+      rule({ description_contains: 'blue bottle', add_tags: ['coffee', 'treats'] }),
+    ]);
+    (query as jest.Mock).mockResolvedValue({ rows: [
+      row({ id: 'tx-1', tags: ['treats', 'coffee'] }),
+      row({ id: 'tx-2', tags: ['coffee'] }),
+    ] });
+
+    const result = await RulesEngineService.applyToExisting('user-1');
+
+    expect(result).toMatchObject({ matched: 2, updated: 1 });
+    expect(result.changes[0]).toMatchObject({ id: 'tx-2', after: { tags: ['coffee', 'treats'] } });
+  });
+
+  it('saves every change in one statement', async () => {
+    (CategorizationRuleModel.findEnabledByUser as jest.Mock).mockResolvedValue([
+      rule({ id: 'rule-coffee', description_contains: 'blue bottle', set_category: 'Food & Dining', set_description: 'Blue Bottle' }),
+    ]);
+    (query as jest.Mock).mockResolvedValue({ rows: [row({ id: 'tx-1' }), row({ id: 'tx-2', category: 'Shopping' })] });
+
+    await RulesEngineService.applyToExisting('user-1');
+
+    expect(client.query).toHaveBeenCalledTimes(1);
+    const [, [changes, userId]] = client.query.mock.calls[0];
+    expect(userId).toBe('user-1');
+    expect(JSON.parse(changes)).toEqual([
+      expect.objectContaining({ id: 'tx-1', category: 'Food & Dining', description: 'Blue Bottle', bank_description: 'SQ *BLUE BOTTLE', rule_id: 'rule-coffee' }),
+      expect.objectContaining({ id: 'tx-2', category: 'Food & Dining' }),
+    ]);
+  });
+
+  it('keeps a subcategory only within the category the transaction ends up with', async () => {
+    (CategorizationRuleModel.findEnabledByUser as jest.Mock).mockResolvedValue([rule({ description_contains: 'blue', set_subcategory: 'coffee' })]);
+    (query as jest.Mock).mockResolvedValue({ rows: [
+      row({ id: 'tx-1', category: 'Food & Dining' }),
+      row({ id: 'tx-2', category: 'Shopping', subcategory: 'Gifts' }),
+      row({ id: 'tx-3' }),
+    ] });
+
+    const result = await RulesEngineService.applyToExisting('user-1', { dryRun: true });
+
+    expect(result).toMatchObject({ matched: 3, updated: 1 });
+    expect(result.changes[0]).toMatchObject({ id: 'tx-1', after: { category: 'Food & Dining', subcategory: 'Coffee' } });
+  });
+
+  it('saves nothing on a dry run', async () => {
+    (CategorizationRuleModel.findEnabledByUser as jest.Mock).mockResolvedValue([rule({ description_contains: 'blue', set_category: 'Shopping' })]);
+    (query as jest.Mock).mockResolvedValue({ rows: [row({ id: 'tx-1' })] });
+
+    expect(await RulesEngineService.applyToExisting('user-1', { dryRun: true })).toMatchObject({ updated: 1 });
+    expect(withTransaction).not.toHaveBeenCalled();
+  });
+});
+
+describe('RulesEngineService.updateRule', () => {
+  const stored = rule({ id: 'rule-stored', description_contains: 'blue bottle', amount_max: 20, set_category: 'Food & Dining' });
+
+  beforeEach(() => {
+    jest.resetAllMocks();
+    (CategorizationRuleModel.findById as jest.Mock).mockResolvedValue(stored);
+    (CategorizationRuleModel.update as jest.Mock).mockImplementation(async (_id, _userId, updates) => ({ ...stored, ...updates }));
+  });
+
+  it('checks the rule as it would be after the update', async () => {
+    await expect(RulesEngineService.updateRule('rule-stored', 'user-1', { description_contains: '', amount_max: null }))
+      .rejects.toThrow('Add at least one condition');
+    await expect(RulesEngineService.updateRule('rule-stored', 'user-1', { set_category: ' ' }))
+      .rejects.toThrow('Add at least one action');
+    await expect(RulesEngineService.updateRule('rule-stored', 'user-1', { amount_min: 50 }))
+      .rejects.toBeInstanceOf(RuleError);
+    expect(CategorizationRuleModel.update).not.toHaveBeenCalled();
+  });
+
+  it('saves changes that leave a usable rule', async () => {
+    await RulesEngineService.updateRule('rule-stored', 'user-1', { description_contains: '', merchant_equals: 'Blue Bottle', name: undefined });
+    expect(CategorizationRuleModel.update).toHaveBeenCalledWith('rule-stored', 'user-1', expect.objectContaining({ merchant_equals: 'Blue Bottle' }));
+  });
+
+  it('returns null for a missing rule', async () => {
+    (CategorizationRuleModel.findById as jest.Mock).mockResolvedValue(null);
+    expect(await RulesEngineService.updateRule('missing', 'user-1', { name: 'x' })).toBeNull();
+  });
+});
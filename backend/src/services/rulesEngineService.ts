@@ -0,0 +1,389 @@
+/**
+ * Rules Engine Service
+ *
+ * Applies a user's categorization rules to transactions. Rules run in
+ * priority order before AI categorization:
+ * - A rule matches when every condition it sets matches
+ * - The first matching rule to set a field (category, subcategory,
+ *   description) decides it; later rules can only fill fields still unset
+ * - Tags from every matching rule are added
+ * Rules match on the bank's own description, even after a rule has
+ * replaced it, so re-applying rules gives the same result.
+ */
+
+import { query, withTransaction } from '../config/database';
+import { CategorizationRuleModel, RuleInput } from '../models/CategorizationRule';
+import { CategorizationRule } from '../types';
+import { AccountNumber } from './parsers/accountNumber';
+import { CategoryService } from './categoryService';
+
+// What rules look at in a transaction
+export interface RuleSubject {
+  description: string;          // The bank's description
+  counterparty?: string | null;
+  merchantName?: string | null; // Canonical merchant (see MerchantNormalizationService)
+  amount: number;
+  isIncome: boolean;
+  accountId?: string | null;    // Masked, see AccountNumber
+}
+
+// What the matching rules decided
+export interface RuleOutcome {
+  category?: string;
+  subcategory?: string;
+  description?: string;
+  tags: string[];
+  ruleId?: string;              // Rule that set the category
+  matchedRuleIds: string[];
+}
+
+// A change applying rules would make to an existing transaction
+export interface RuleChange {
+  id: string;
+  description: string;
+  before: { category?: string; subcategory?: string; description: string; tags: string[] };
+  after: { category?: string; subcategory?: string; description: string; tags: string[] };
+}
+
+/**
+ * Thrown when a rule change would leave an unusable rule; the controller
+ * returns the message with a 400
+ */
+export class RuleError extends Error {
+  constructor(message: string, public status: number = 400) {
+    super(message);
+    this.name = 'RuleError';
+  }
+}
+
+const CONDITION_FIELDS: (keyof RuleInput)[] = [
+  'description_contains', 'description_regex', 'merchant_equals',
+  'amount_min', 'amount_max', 'account_id', 'direction',
+];
+const ACTION_FIELDS: (keyof RuleInput)[] = ['set_category', 'set_subcategory', 'add_tags', 'set_description'];
+
+// Blank conditions and actions are stored as unset (see CategorizationRuleModel)
+const isSet = (value: unknown) =>
+  value !== undefined && value !== null &&
+  !(typeof value === 'string' && value.trim() === '') &&
+  !(Array.isArray(value) && value.length === 0);
+
+// Changes listed in the response (all of them are applied)
+const MAX_PREVIEW_CHANGES = 50;
+
+// Rows per UPDATE when saving changes to existing transactions
+const UPDATE_BATCH_SIZE = 500;
+
+// Longest description_regex rules accept
+const MAX_PATTERN_LENGTH = 200;
+
+const normalize = (text: string) => text.trim().replace(/\s+/g, ' ').toLowerCase();
+
+const sameTags = (a: string[], b: string[]) => {
+  const set = new Set(a);
+  return set.size === new Set(b).size && b.every(tag => set.has(tag));
+};
+
+/**
+ * Does a pattern repeat a group that itself repeats, like (a+)+ or (\w*\s?)*?
+ * Those can take exponentially long to fail on a description that almost matches.
+ */
+function hasNestedQuantifier(source: string): boolean {
+  // For each open group (and the top level), whether it contains a repeat
+  const repeats: boolean[] = [false];
+  const isQuantifier = (char: string | undefined) => char === '+' || char === '*' || char === '{';
+
+  for (let i = 0; i < source.length; i++) {
+    const char = source[i];
+
+    if (char === '\\') {
+      i++;
+    } else if (char === '[') {
+      // Quantifier characters are literal inside a class
+      for (i++; i < source.length && source[i] !== ']'; i++) {
+        if (source[i] === '\\') {
+          i++;
+        }
+      }
+    } else if (char === '(') {
+      repeats.push(false);
+    } else if (char === ')' && repeats.length > 1) {
+      const inner = repeats.pop()!;
+      if (inner && isQuantifier(source[i + 1])) {
+        return true;
+      }
+      repeats[repeats.length - 1] ||= inner;
+    } else if (isQuantifier(char)) {
+      repeats[repeats.length - 1] = true;
+    }
+  }
+
+  return false;
+}
+
+// Compiled patterns, so a rule's regex isn't rebuilt for every transaction
+const patternCache = new Map<string, RegExp | null>();
+
+function compilePattern(source: string): RegExp | null {
+  if (!patternCache.has(source)) {
+    // Rules are validated on save; a bad or unsafe one just never matches
+    patternCache.set(source, RulesEngineService.checkPattern(source) ? null : new RegExp(source, 'i'));
+  }
+  return patternCache.get(source)!;
+}
+
+export class RulesEngineService {
+  /**
+   * Is this a regular expression rules can use? Returns the problem, or null.
+   */
+  static checkPattern(source: string): string | null {
+    if (source.length > MAX_PATTERN_LENGTH) {
+      return `patterns can be at most ${MAX_PATTERN_LENGTH} characters`;
+    }
+    try {
+      new RegExp(source, 'i');
+    } catch (error: any) {
+      return error.message;
+    }
+    if (hasNestedQuantifier(source)) {
+      return 'a repeated group can\'t contain another repeat, like (a+)+, as it can take too long to match';
+    }
+    return null;
+  }
+
+  /**
+   * Is this a rule that can ever do something? Returns the problem, or null.
+   */
+  static checkRule(rule: RuleInput): string | null {
+    if (isSet(rule.amount_min) && isSet(rule.amount_max) && Number(rule.amount_min) > Number(rule.amount_max)) {
+      return 'Minimum amount must not be above the maximum';
+    }
+    if (!CONDITION_FIELDS.some(field => isSet(rule[field]))) {
+      return 'Add at least one condition';
+    }
+    if (!ACTION_FIELDS.some(field => isSet(rule[field]))) {
+      return 'Add at least one action';
+    }
+    return null;
+  }
+
+  /**
+   * Update a rule. The rule as it would be after the update must still pass
+   * checkRule, so clearing its only condition or action is refused.
+   * Returns null when the rule doesn't exist.
+   */
+  static async updateRule(id: string, userId: string, updates: RuleInput): Promise<CategorizationRule | null> {
+    const rule = await CategorizationRuleModel.findById(id, userId);
+    if (!rule) {
+      return null;
+    }
+
+    const changed = Object.fromEntries(Object.entries(updates).filter(([, value]) => value !== undefined));
+    const problem = this.checkRule({ ...rule, ...changed });
+    if (problem) {
+      throw new RuleError(problem);
+    }
+
+    return CategorizationRuleModel.update(id, userId, updates);
+  }
+
+  /**
+   * Does a rule match a transaction?
+   */
+  static matches(rule: CategorizationRule, subject: RuleSubject): boolean {
+    const hasCondition = [
+      rule.description_contains, rule.description_regex, rule.merchant_equals,
+      rule.amount_min, rule.amount_max, rule.account_id, rule.direction,
+    ].some(condition => condition !== null && condition !== undefined);
+
+    if (!hasCondition) {
+      return false;
+    }
+
+    const description = subject.description || '';
+    const amount = Math.abs(subject.amount);
+
+    if (rule.description_contains && !description.toLowerCase().includes(rule.description_contains.toLowerCase())) {
+      return false;
+    }
+    if (rule.description_regex && !compilePattern(rule.description_regex)?.test(description)) {
+      return false;
+    }
+    if (rule.merchant_equals) {
+      const merchant = normalize(rule.merchant_equals);
+      if (normalize(subject.counterparty || description) !== merchant && normalize(subject.merchantName || '') !== merchant) {
+        return false;
+      }
+    }
+    if (rule.amount_min !== null && rule.amount_min !== undefined && amount < rule.amount_min) {
+      return false;
+    }
+    if (rule.amount_max !== null && rule.amount_max !== undefined && amount > rule.amount_max) {
+      return false;
+    }
+    if (rule.account_id && AccountNumber.mask(rule.account_id) !== subject.accountId) {
+      return false;
+    }
+    if (rule.direction && (rule.direction === 'income') !== subject.isIncome) {
+      return false;
+    }
+
+    return true;
+  }
+
+  /**
+   * Run rules (already in priority order) against a transaction.
+   * Returns null when no rule matched.
+   */
+  static apply(rules: CategorizationRule[], subject: RuleSubject): RuleOutcome | null {
+    const outcome: RuleOutcome = { tags: [], matchedRuleIds: [] };
+
+    for (const rule of rules) {
+      if (!this.matches(rule, subject)) {
+        continue;
+      }
+
+      outcome.matchedRuleIds.push(rule.id);
+
+      if (rule.set_category && !outcome.category) {
+        outcome.category = rule.set_category;
+        outcome.ruleId = rule.id;
+        // A subcategory belongs with the category it was set alongside
+        outcome.subcategory = rule.set_subcategory || undefined;
+      } else if (rule.set_subcategory && !outcome.subcategory && !rule.set_category) {
+        outcome.subcategory = rule.set_subcategory;
+      }
+
+      if (rule.set_description && !outcome.description) {
+        outcome.description = rule.set_description;
+      }
+
+      for (const tag of rule.add_tags || []) {
+        if (!outcome.tags.includes(tag)) {
+          outcome.tags.push(tag);
+        }
+      }
+    }
+
+    return outcome.matchedRuleIds.length > 0 ? outcome : null;
+  }
+
+  /**
+   * Apply the user's enabled rules (or just the given ones) to the
+   * transactions they already have. Returns how many matched and how many
+   * changed, with the first changes listed. With dryRun nothing is saved.
+   */
+  static async applyToExisting(
+    userId: string,
+    options: { ruleIds?: string[]; dryRun?: boolean } = {}
+  ): Promise<{ matched: number; updated: number; changes: RuleChange[] }> {
+    let rules = await CategorizationRuleModel.findEnabledByUser(userId);
+    if (options.ruleIds) {
+      rules = rules.filter(rule => options.ruleIds!.includes(rule.id));
+    }
+
+    if (rules.length === 0) {
+      return { matched: 0, updated: 0, changes: [] };
+    }
+
+    const result = await query(
+      `SELECT t.id, t.description, t.original_description, t.counterparty, t.amount, t.is_income, t.account_id,
+              t.category, t.subcategory, t.tags, m.name AS merchant_name
+       FROM transactions t
+       LEFT JOIN merchants m ON m.id = t.merchant_id
+       WHERE t.user_id = $1
+       ORDER BY t.transaction_date DESC`,
+      [userId]
+    );
+
+    const hierarchy = await CategoryService.getHierarchy(userId);
+    let matched = 0;
+    const changes: (RuleChange & { ruleId?: string })[] = [];
+
+    for (const row of result.rows) {
+      const bankDescription = row.original_description || row.description || '';
+      const outcome = this.apply(rules, {
+        description: bankDescription,
+        counterparty: row.counterparty,
+        merchantName: row.merchant_name,
+        amount: parseFloat(row.amount),
+        isIncome: row.is_income,
+        accountId: row.account_id,
+      });
+
+      if (!outcome) {
+        continue;
+      }
+      matched++;
+
+      const before = {
+        category: row.category || undefined,
+        subcategory: row.subcategory || undefined,
+        description: row.description || '',
+        tags: row.tags || [],
+      };
+      // A subcategory is only kept when it's one of the category's subcategories
+      const category = outcome.category || before.category;
+      const subcategory = category ? CategoryService.fitSubcategory(hierarchy, category, outcome.subcategory) : undefined;
+      const after = {
+        category,
+        subcategory: outcome.category ? subcategory : (subcategory || before.subcategory),
+        description: outcome.description || before.description,
+        tags: [...before.tags, ...outcome.tags.filter(tag => !before.tags.includes(tag))],
+      };
+
+      if (
+        after.category !== before.category ||
+        after.subcategory !== before.subcategory ||
+        after.description !== before.description ||
+        !sameTags(after.tags, before.tags)
+      ) {
+        changes.push({
+          id: row.id,
+          description: bankDescription,
+          before,
+          after,
+          ruleId: outcome.ruleId,
+        });
+      }
+    }
+
+    if (!options.dryRun && changes.length > 0) {
+      await withTransaction(async (client) => {
+        for (let start = 0; start < changes.length; start += UPDATE_BATCH_SIZE) {
+          const batch = changes.slice(start, start + UPDATE_BATCH_SIZE).map(change => ({
+            id: change.id,
+            category: change.after.category || null,
+            subcategory: change.after.subcategory || null,
+            description: change.after.description.substring(0, 500),
+            tags: change.after.tags,
+            bank_description: change.after.description !== change.before.description ? change.description : null,
+            rule_id: change.ruleId || null,
+          }));
+
+          await client.query(
+            `UPDATE transactions t
+             SET category = c.category, subcategory = c.subcategory, description = c.description, tags = c.tags,
+                 original_description = COALESCE(t.original_description, c.bank_description),
+                 categorization_rule_id = COALESCE(c.rule_id, t.categorization_rule_id),
+                 updated_at = CURRENT_TIMESTAMP
+             FROM jsonb_to_recordset($1::jsonb) AS c(
+               id UUID, category VARCHAR, subcategory VARCHAR, description VARCHAR, tags JSONB,
+               bank_description VARCHAR, rule_id UUID
+             )
+             WHERE t.id = c.id AND t.user_id = $2`,
+            [JSON.stringify(batch), userId]
+          );
+        }
+      });
+    }
+
+    return {
+      matched,
+      updated: changes.length,
+      changes: changes.slice(0, MAX_PREVIEW_CHANGES).map(({ id, description, before, after }) => ({
+        id, description, before, after,
+      })),
+    };
+  }
+}
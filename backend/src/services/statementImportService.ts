@@ -0,0 +1,389 @@
+/**
+ * Statement Import Service
+ *
+ * Turns an uploaded statement into staged transactions for the review
+ * screen: extract the rows, link them to merchants, categorize them (the
+ * user's rules first, then AI for whatever the rules left), flag likely duplicates,
+ * reconcile against the printed balances and record an import batch.
+ * Runs in a worker as the 'process_statement' job (see worker.ts), since
+ * OCR and AI categorization of a long statement can take minutes.
+ */
+
+import { query, withTransaction } from '../config/database';
+import { FileProcessorService, RejectedRow, StatementFormat } from './fileProcessorService';
+import { AICategorizationService, CategorizedTransaction } from './aiCategorizationService';
+import { RulesEngineService } from './rulesEngineService';
+import { MerchantNormalizationService } from './merchantNormalizationService';
+import { CategoryService } from './categoryService';
+import { ReconciliationService, ReconciliationResult } from './reconciliationService';
+import { DuplicateFileService } from './duplicateFileService';
+import { JobQueueService, PermanentJobError } from './jobQueueService';
+import { ProcessingProgressService } from './processingProgressService';
+import { ImportProfileService } from './importProfileService';
+import { ImportProfileModel } from '../models/ImportProfile';
+import { StagedTransactionModel, NewStagedTransaction } from '../models/StagedTransaction';
+import { ImportBatchModel } from '../models/ImportBatch';
+import { CategorizationRuleModel } from '../models/CategorizationRule';
+import { ImportMapping, ImportProfile, Job, ProcessingProgress, SignConvention } from '../types';
+
+export const PROCESS_STATEMENT_JOB = 'process_statement';
+
+// Unreadable rows kept for the client (the count is always exact)
+export const MAX_REPORTED_ROWS = 50;
+
+// OCR confidence below which a scanned transaction should be double-checked
+const LOW_OCR_CONFIDENCE = 70;
+
+// How often the duplicate check reports its progress
+const PROGRESS_EVERY_ROWS = 25;
+
+// What the processing request asked for (the job's payload)
+export interface StatementImportRequest {
+  userId: string;
+  fileId: string;
+  profileId?: string;             // Saved import profile to apply (CSV)
+  mapping?: ImportMapping;        // One-off column mapping (CSV)
+  signConvention?: SignConvention;
+  format?: StatementFormat;       // Parser to use instead of detecting the format
+  locale?: string;                // User's Accept-Language, for ambiguous dates
+}
+
+export interface StatementImportResult {
+  message: string;
+  fileId: string;
+  batchId: string;
+  stagedCount: number;
+  duplicatesFound: number;
+  rejectedRowsCount: number;
+  lowConfidenceCount: number;
+  reconciliation: ReconciliationResult;
+  rejectedRows: RejectedRow[];
+  importProfile: string | null;
+  overlapsFile: { id: string; filename: string } | null; // Earlier statement covering the same dates
+}
+
+export class StatementImportService {
+  /**
+   * Queue a file for processing by a worker
+   */
+  static async enqueue(request: StatementImportRequest): Promise<Job> {
+    const job = await JobQueueService.enqueue(PROCESS_STATEMENT_JOB, request, { userId: request.userId });
+
+    await query(
+      'UPDATE uploaded_files SET status = $1, processing_job_id = $2 WHERE id = $3',
+      ['queued', job.id, request.fileId]
+    );
+    await ProcessingProgressService.publish({ fileId: request.fileId, jobId: job.id, stage: 'queued' });
+
+    return job;
+  }
+
+  /**
+   * Process a file and stage its transactions for review, publishing
+   * progress as it goes. Throws PermanentJobError when retrying wouldn't help.
+   * Run as a job (jobId and the workerId running it), the results are only
+   * saved while that job still owns the file.
+   */
+  static async stageFile(request: StatementImportRequest, jobId?: string, workerId?: string): Promise<StatementImportResult> {
+    const { userId, fileId } = request;
+    const progress = this.progressReporter(fileId, jobId);
+
+    const fileResult = await query(
+      'SELECT * FROM uploaded_files WHERE id = $1 AND user_id = $2 AND deleted_at IS NULL',
+      [fileId, userId]
+    );
+
+    if (fileResult.rows.length === 0) {
+      throw new PermanentJobError('File not found');
+    }
+
+    const file = fileResult.rows[0];
+
+    if (file.file_purged_at) {
+      throw new PermanentJobError('The original statement was deleted under your retention settings');
+    }
+
+    // Work out which column mapping (if any) to use for CSV files
+    let profile: ImportProfile | null = null;
+
+    if (request.profileId) {
+      profile = await ImportProfileModel.findById(request.profileId, userId);
+      if (!profile) {
+        throw new PermanentJobError('Import profile not found');
+      }
+    }
+
+    const format = request.format || await FileProcessorService.detectFormat(file.file_path, file.mime_type, file.original_filename);
+
+    if (!profile && !request.mapping && format === 'csv') {
+      profile = await ImportProfileService.findMatchForFile(userId, file.file_path);
+    }
+
+    if (profile) {
+      await ImportProfileModel.markUsed(profile.id);
+    }
+    const mapping: ImportMapping | undefined = profile || request.mapping;
+
+    await query(
+      'UPDATE uploaded_files SET status = $1 WHERE id = $2',
+      ['processing', fileId]
+    );
+    progress.report({ stage: 'parsing' });
+
+    // Extract transactions from file
+    const { transactions: extractedTransactions, rejectedRows, statement } = await FileProcessorService.processFile(
+      file.file_path,
+      file.mime_type,
+      {
+        mapping,
+        signConvention: request.signConvention || file.sign_convention || undefined,
+        locale: request.locale,
+        format,
+        filename: file.original_filename,
+        onPageParsed: (pagesParsed, totalPages) => progress.report({ pagesParsed, totalPages }),
+      }
+    );
+    progress.report({ rowsExtracted: extractedTransactions.length, rejectedRows: rejectedRows.length });
+
+    if (extractedTransactions.length === 0) {
+      throw new PermanentJobError(
+        rejectedRows.length > 0
+          ? `No transactions could be imported: ${rejectedRows.length} row(s) had dates we couldn't read`
+          : 'No transactions found in file',
+        { rejectedRows: rejectedRows.slice(0, MAX_REPORTED_ROWS) }
+      );
+    }
+
+    // Canonical merchant behind each raw description ("SQ *BLUE BOTTLE 0423" -> Blue Bottle Coffee)
+    const merchants = await MerchantNormalizationService.resolve(userId, extractedTransactions);
+
+    // The user's rules come first; AI categorizes whatever they leave without a category
+    const rules = await CategorizationRuleModel.findEnabledByUser(userId);
+    const ruleOutcomes = extractedTransactions.map((t, i) => RulesEngineService.apply(rules, {
+      description: t.description,
+      counterparty: t.counterparty,
+      merchantName: merchants[i]?.name,
+      amount: t.amount,
+      isIncome: t.isIncome,
+      accountId: t.accountId,
+    }));
+    const needsAI = extractedTransactions
+      .map((t, i) => ({ ...t, merchantCategory: merchants[i]?.default_category }))
+      .filter((_, i) => !ruleOutcomes[i]?.category);
+    const categorizedByRules = extractedTransactions.length - needsAI.length;
+
+    progress.report({ stage: 'categorizing', rowsCategorized: categorizedByRules });
+    const aiCategorized = await AICategorizationService.categorizeTransactions(
+      needsAI.map(t => ({
+        description: t.description,
+        amount: t.amount,
+        isIncome: t.isIncome,
+        counterparty: t.counterparty,
+        merchantCategory: t.merchantCategory,
+        category: t.category,
+        subcategory: t.subcategory,
+      })),
+      (rowsCategorized) => progress.report({ rowsCategorized: categorizedByRules + rowsCategorized }),
+      userId
+    );
+
+    // A subcategory is only kept when it's one of the category's subcategories
+    const hierarchy = await CategoryService.getHierarchy(userId);
+    let nextAIResult = 0;
+    const categorized: CategorizedTransaction[] = extractedTransactions.map((t, i) => {
+      const outcome = ruleOutcomes[i];
+      const result = outcome?.category
+        ? { description: t.description, category: outcome.category, subcategory: outcome.subcategory, confidence: 1 }
+        : aiCategorized[nextAIResult++];
+      return { ...result, subcategory: CategoryService.fitSubcategory(hierarchy, result.category, result.subcategory) };
+    });
+    progress.report({ stage: 'checking_duplicates', duplicatesFound: 0 });
+
+    // Stage the rows for review, flagging likely duplicates of transactions already imported
+    const staged: NewStagedTransaction[] = [];
+    let duplicateCount = 0;
+    let lowConfidenceCount = 0;
+
+    for (let i = 0; i < extractedTransactions.length; i++) {
+      const transaction = extractedTransactions[i];
+      const category = categorized[i];
+      const ruleOutcome = ruleOutcomes[i];
+
+      // Truncate description to fit database constraint (500 chars)
+      const description = transaction.description.length > 500
+        ? transaction.description.substring(0, 497) + '...'
+        : transaction.description;
+
+      // Check for duplicate: same bank transaction ID when the file has one (OFX FITID),
+      // otherwise same user, date, description, and amount
+      const duplicateCheck = transaction.externalId
+        ? await query(
+            `SELECT id FROM transactions
+             WHERE user_id = $1
+             AND external_id = $2
+             AND account_id IS NOT DISTINCT FROM $3`,
+            [userId, transaction.externalId, transaction.accountId || null]
+          )
+        : await query(
+            `SELECT id FROM transactions
+             WHERE user_id = $1
+             AND transaction_date = $2
+             AND COALESCE(original_description, description) = $3
+             AND amount = $4`,
+            [userId, transaction.date, description, transaction.amount]
+          );
+
+      const duplicateOf = duplicateCheck.rows[0]?.id || null;
+      const warnings: string[] = [];
+
+      if (duplicateOf) {
+        duplicateCount++;
+        warnings.push('Already imported');
+      }
+      if (transaction.confidence !== undefined && transaction.confidence < LOW_OCR_CONFIDENCE) {
+        lowConfidenceCount++;
+        warnings.push('Hard to read on the scan; check the date and amount');
+      }
+
+      staged.push({
+        transaction_date: transaction.date,
+        // A rule's cleaned-up description is shown; the bank's is kept for matching
+        description: ruleOutcome?.description || description,
+        original_description: ruleOutcome?.description ? description : undefined,
+        amount: transaction.amount,
+        category: category.category,
+        subcategory: category.subcategory,
+        tags: ruleOutcome?.tags || [],
+        categorization_rule_id: ruleOutcome?.ruleId,
+        merchant_id: merchants[i]?.id,
+        is_income: transaction.isIncome,
+        external_id: transaction.externalId,
+        account_id: transaction.accountId,
+        value_date: transaction.valueDate,
+        counterparty: transaction.counterparty?.substring(0, 255),
+        currency: transaction.currency,
+        ocr_confidence: transaction.confidence !== undefined ? Math.round(transaction.confidence) : undefined,
+        duplicate_of: duplicateOf || undefined,
+        excluded: !!duplicateOf, // Duplicates start excluded; the user can bring them back
+        warnings,
+      });
+
+      if ((i + 1) % PROGRESS_EVERY_ROWS === 0) {
+        progress.report({ duplicatesFound: duplicateCount });
+      }
+    }
+    progress.report({ duplicatesFound: duplicateCount });
+
+    // Check the whole statement (duplicates included) against its printed balances
+    const reconciliation = ReconciliationService.reconcile(extractedTransactions, statement);
+
+    // Another statement of the same account covering some of the same dates
+    const accountId = extractedTransactions.find(t => t.accountId)?.accountId || null;
+    const overlapping = await DuplicateFileService.findOverlappingStatement(
+      userId, fileId, accountId, reconciliation.periodStart, reconciliation.periodEnd
+    );
+
+    const batch = await withTransaction(async (client) => {
+      // A run whose job was released as stale (and picked up by another worker),
+      // or replaced by a newer job for the file, must not overwrite its results
+      if (jobId) {
+        const owned = await client.query(
+          `SELECT f.id FROM uploaded_files f
+           JOIN jobs j ON j.id = f.processing_job_id
+           WHERE f.id = $1 AND f.processing_job_id = $2 AND j.status = 'running' AND j.locked_by = $3
+           FOR UPDATE OF f`,
+          [fileId, jobId, workerId || null]
+        );
+        if (owned.rows.length === 0) {
+          throw new PermanentJobError('This processing run no longer owns the file');
+        }
+      }
+
+      // Each processing run is its own batch, so a committed import can be reverted as a whole
+      const batch = await ImportBatchModel.create(client, userId, fileId, format, profile?.id || null);
+      await StagedTransactionModel.replaceForFile(client, userId, fileId, staged);
+
+      // The file waits in review until the user commits or discards the import
+      await client.query(
+        `UPDATE uploaded_files
+         SET status = $1, processed_at = CURRENT_TIMESTAMP,
+             period_start = $3, period_end = $4, opening_balance = $5, closing_balance = $6,
+             reconciliation_status = $7, reconciliation_difference = $8, parse_warnings = $9,
+             account_id = $10, overlaps_file_id = $11
+         WHERE id = $2`,
+        [
+          'review',
+          fileId,
+          reconciliation.periodStart,
+          reconciliation.periodEnd,
+          reconciliation.openingBalance,
+          reconciliation.closingBalance,
+          reconciliation.status,
+          reconciliation.difference,
+          JSON.stringify(rejectedRows.slice(0, MAX_REPORTED_ROWS)),
+          accountId,
+          overlapping?.id || null,
+        ]
+      );
+
+      return batch;
+    });
+
+    let message = `File processed. ${staged.length} transaction(s) are ready to review.`;
+    if (duplicateCount > 0) {
+      message += ` ${duplicateCount} look like duplicate(s) and are excluded.`;
+    }
+    if (rejectedRows.length > 0) {
+      message += ` ${rejectedRows.length} row(s) could not be read.`;
+    }
+    if (lowConfidenceCount > 0) {
+      message += ` ${lowConfidenceCount} scanned transaction(s) were hard to read; please check them.`;
+    }
+    if (overlapping) {
+      message += ` Its period overlaps "${overlapping.original_filename}" for the same account; rows imported from both are flagged as duplicates.`;
+    }
+    if (reconciliation.status === 'mismatch') {
+      message += ` Statement balances don't add up (off by ${reconciliation.difference?.toFixed(2)}); some rows may be missing or have the wrong sign.`;
+    }
+    if (reconciliation.status === 'reversed') {
+      message += ' Statement balances only add up with every amount\'s sign reversed; check the sign convention.';
+    }
+
+    progress.report({ stage: 'completed' });
+    await progress.flush();
+
+    return {
+      message,
+      fileId,
+      batchId: batch.id,
+      stagedCount: staged.length,
+      duplicatesFound: duplicateCount,
+      rejectedRowsCount: rejectedRows.length,
+      lowConfidenceCount,
+      reconciliation,
+      rejectedRows: rejectedRows.slice(0, MAX_REPORTED_ROWS),
+      importProfile: profile?.name || null,
+      overlapsFile: overlapping ? { id: overlapping.id, filename: overlapping.original_filename } : null,
+    };
+  }
+
+  /**
+   * Publish cumulative progress for a run. Events are sent in order in the
+   * background so reporting never holds up processing; flush() waits for them.
+   */
+  private static progressReporter(fileId: string, jobId?: string) {
+    const state: Omit<ProcessingProgress, 'at'> = { fileId, jobId, stage: 'parsing' };
+    let pending: Promise<void> = Promise.resolve();
+
+    return {
+      report: (changes: Partial<Omit<ProcessingProgress, 'at'>>) => {
+        Object.assign(state, changes);
+        const snapshot = { ...state };
+        pending = pending
+          .then(() => ProcessingProgressService.publish(snapshot))
+          .catch(error => console.error('Progress publish error:', error));
+      },
+      flush: () => pending,
+    };
+  }
+}
@@ -0,0 +1,110 @@
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { CreateBucketCommand, S3Client } from '@aws-sdk/client-s3';
+import { LocalStorageDriver, S3StorageDriver, StorageDriver, StorageNotFoundError, StorageService } from './storageService';
+
+const readAll = async (stream: NodeJS.ReadableStream): Promise<Buffer> => {
+  const chunks: Buffer[] = [];
+  for await (const chunk of stream) {
+    chunks.push(Buffer.from(chunk));
+  }
+  return Buffer.concat(chunks);
+};
+
+/**
+ * put/get/stream/delete round trip every driver must pass
+ */
+const roundTrip = (getDriver: () => StorageDriver) => {
+  it('stores, reads and deletes a file', async () => {
+    const driver = getDriver();
+    const key = StorageService.newKey('test');
+    const body = Buffer.from('Date,Description,Amount\n2025-01-05,Whole Foods,-42.50\n');
+
+    await driver.put(key, body);
+    expect(await driver.get(key)).toEqual(body);
+    expect(await readAll(await driver.stream(key))).toEqual(body);
+
+    await driver.delete(key);
+    await expect(driver.get(key)).rejects.toBeInstanceOf(StorageNotFoundError);
+    // Deleting twice is fine
+    await driver.delete(key);
+  });
+
+  it('rejects keys that climb out of the store', async () => {
+    await expect(getDriver().get('../etc/passwd')).rejects.toThrow('Invalid storage key');
+  });
+};
+
+describe('LocalStorageDriver', () => {
+  let root: string;
+  let driver: LocalStorageDriver;
+
+  beforeAll(() => {
+    root = fs.mkdtempSync(path.join(os.tmpdir(), 'storage-test-'));
+    driver = new LocalStorageDriver(root, 'http://localhost:3001/api/storage', 'test-secret');
+  });
+
+  afterAll(() => {
+    fs.rmSync(root, { recursive: true, force: true });
+  });
+
+  roundTrip(() => driver);
+
+  it('presigns URLs that verify until they expire', async () => {
+    const url = new URL(await driver.presign('statements/abc', 60));
+    const expires = Number(url.searchParams.get('expires'));
+    const signature = url.searchParams.get('signature')!;
+
+    expect(url.pathname).toBe('/api/storage/statements/abc');
+    expect(driver.verifyPresigned('statements/abc', expires, signature)).toBe(true);
+    expect(driver.verifyPresigned('statements/other', expires, signature)).toBe(false);
+    expect(driver.verifyPresigned('statements/abc', Math.floor(Date.now() / 1000) - 1, signature)).toBe(false);
+  });
+});
+
+// Runs against a real S3-compatible service when S3_ENDPOINT is set, e.g. a
+// local MinIO (see .env.example) with S3_FORCE_PATH_STYLE=true and its credentials
+const describeS3 = process.env.S3_ENDPOINT ? describe : describe.skip;
+
+describeS3('S3StorageDriver (integration)', () => {
+  const bucket = process.env.S3_BUCKET || 'budget-statements-test';
+  let driver: S3StorageDriver;
+
+  beforeAll(async () => {
+    const client = new S3Client({
+      region: process.env.S3_REGION || 'us-east-1',
+      endpoint: process.env.S3_ENDPOINT,
+      forcePathStyle: process.env.S3_FORCE_PATH_STYLE === 'true',
+      credentials: process.env.S3_ACCESS_KEY_ID && process.env.S3_SECRET_ACCESS_KEY
+        ? { accessKeyId: process.env.S3_ACCESS_KEY_ID, secretAccessKey: process.env.S3_SECRET_ACCESS_KEY }
+        : undefined,
+    });
+
+    try {
+      await client.send(new CreateBucketCommand({ Bucket: bucket }));
+    } catch (error: any) {
+      if (!['BucketAlreadyOwnedByYou', 'BucketAlreadyExists'].includes(error?.name)) {
+        throw error;
+      }
+    }
+
+    driver = new S3StorageDriver(bucket, 'integration-test', client);
+  });
+
+  roundTrip(() => driver);
+
+  it('presigns URLs that fetch the file without credentials', async () => {
+    const key = StorageService.newKey('test');
+    const body = Buffer.from('presigned contents');
+    await driver.put(key, body);
+
+    try {
+      const response = await fetch(await driver.presign(key, 60));
+      expect(response.status).toBe(200);
+      expect(Buffer.from(await response.arrayBuffer())).toEqual(body);
+    } finally {
+      await driver.delete(key);
+    }
+  });
+});
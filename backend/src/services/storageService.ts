@@ -0,0 +1,266 @@
+/**
+ * Storage Service
+ *
+ * Where uploaded statements are kept. Files are addressed by a key
+ * ("statements/<id>", "quarantine/<id>") rather than a path, so the
+ * same code runs against local disk in development and S3 in production.
+ * The driver is pluggable: anything implementing StorageDriver can be
+ * installed with StorageService.setDriver().
+ *
+ * Configure with STORAGE_DRIVER=local (default) or s3:
+ * - local: STORAGE_LOCAL_DIR (default backend/uploads). Presigned URLs
+ *   point at /api/storage and are signed with STORAGE_SIGNING_SECRET.
+ * - s3: S3_BUCKET, S3_REGION, S3_PREFIX, and for S3-compatible services
+ *   such as MinIO, S3_ENDPOINT and S3_FORCE_PATH_STYLE=true. Credentials
+ *   come from S3_ACCESS_KEY_ID/S3_SECRET_ACCESS_KEY, else the usual AWS
+ *   credential chain.
+ */
+
+import crypto from 'crypto';
+import fs from 'fs';
+import path from 'path';
+import { Readable } from 'stream';
+import {
+  S3Client,
+  PutObjectCommand,
+  GetObjectCommand,
+  DeleteObjectCommand,
+  NoSuchKey,
+} from '@aws-sdk/client-s3';
+import { getSignedUrl } from '@aws-sdk/s3-request-presigner';
+
+export interface StorageDriver {
+  name: string;
+  put(key: string, body: Buffer): Promise<void>;
+  get(key: string): Promise<Buffer>;
+  stream(key: string): Promise<Readable>;
+  // Deleting a missing file is not an error
+  delete(key: string): Promise<void>;
+  // A URL that fetches the file without other credentials until it expires
+  presign(key: string, expiresInSeconds: number): Promise<string>;
+}
+
+/**
+ * Thrown when a key has no file behind it
+ */
+export class StorageNotFoundError extends Error {
+  constructor(key: string) {
+    super(`Stored file not found: ${key}`);
+    this.name = 'StorageNotFoundError';
+  }
+}
+
+// Keys are relative, slash-separated and can't climb out of the store
+const checkKey = (key: string): string => {
+  if (!key || key.startsWith('/') || key.split('/').some(part => part === '' || part === '.' || part === '..')) {
+    throw new Error(`Invalid storage key "${key}"`);
+  }
+  return key;
+};
+
+const isNotFound = (error: any) => error?.code === 'ENOENT';
+
+/**
+ * Keeps files in a directory on this machine
+ */
+export class LocalStorageDriver implements StorageDriver {
+  name = 'local';
+
+  constructor(
+    private root: string = process.env.STORAGE_LOCAL_DIR || path.join(__dirname, '../../uploads'),
+    private publicUrl: string = process.env.STORAGE_PUBLIC_URL || `http://localhost:${process.env.PORT || 3001}/api/storage`,
+    private signingSecret: string = process.env.STORAGE_SIGNING_SECRET || process.env.JWT_SECRET || ''
+  ) {}
+
+  async put(key: string, body: Buffer): Promise<void> {
+    const filePath = this.pathFor(key);
+    await fs.promises.mkdir(path.dirname(filePath), { recursive: true });
+    await fs.promises.writeFile(filePath, body, { mode: 0o600 });
+  }
+
+  async get(key: string): Promise<Buffer> {
+    try {
+      return await fs.promises.readFile(this.pathFor(key));
+    } catch (error) {
+      throw isNotFound(error) ? new StorageNotFoundError(key) : error;
+    }
+  }
+
+  async stream(key: string): Promise<Readable> {
+    const filePath = this.pathFor(key);
+    try {
+      await fs.promises.access(filePath);
+    } catch (error) {
+      throw isNotFound(error) ? new StorageNotFoundError(key) : error;
+    }
+    return fs.createReadStream(filePath);
+  }
+
+  async delete(key: string): Promise<void> {
+    await fs.promises.rm(this.pathFor(key), { force: true });
+  }
+
+  async presign(key: string, expiresInSeconds: number): Promise<string> {
+    const expires = Math.floor(Date.now() / 1000) + expiresInSeconds;
+    const signature = this.sign(checkKey(key), expires);
+    return `${this.publicUrl}/${key.split('/').map(encodeURIComponent).join('/')}?expires=${expires}&signature=${signature}`;
+  }
+
+  /**
+   * Check a presigned URL's signature and expiry
+   */
+  verifyPresigned(key: string, expires: number, signature: string): boolean {
+    if (!Number.isFinite(expires) || expires < Date.now() / 1000) {
+      return false;
+    }
+
+    const expected = Buffer.from(this.sign(key, expires));
+    const given = Buffer.from(signature);
+    return expected.length === given.length && crypto.timingSafeEqual(expected, given);
+  }
+
+  private sign(key: string, expires: number): string {
+    if (!this.signingSecret) {
+      throw new Error('STORAGE_SIGNING_SECRET (or JWT_SECRET) is needed to presign local files');
+    }
+    return crypto.createHmac('sha256', this.signingSecret).update(`${key}\n${expires}`).digest('hex');
+  }
+
+  private pathFor(key: string): string {
+    return path.join(this.root, ...checkKey(key).split('/'));
+  }
+}
+
+/**
+ * Keeps files in an S3 bucket, or any S3-compatible service (MinIO, R2...)
+ */
+export class S3StorageDriver implements StorageDriver {
+  name = 's3';
+  private client: S3Client;
+
+  constructor(
+    private bucket: string = process.env.S3_BUCKET || '',
+    private prefix: string = process.env.S3_PREFIX || '',
+    client?: S3Client
+  ) {
+    if (!this.bucket) {
+      throw new Error('S3_BUCKET is not set');
+    }
+
+    this.client = client || new S3Client({
+      region: process.env.S3_REGION || 'us-east-1',
+      endpoint: process.env.S3_ENDPOINT || undefined,
+      forcePathStyle: process.env.S3_FORCE_PATH_STYLE === 'true',
+      credentials: process.env.S3_ACCESS_KEY_ID && process.env.S3_SECRET_ACCESS_KEY
+        ? { accessKeyId: process.env.S3_ACCESS_KEY_ID, secretAccessKey: process.env.S3_SECRET_ACCESS_KEY }
+        : undefined,
+    });
+  }
+
+  async put(key: string, body: Buffer): Promise<void> {
+    await this.client.send(new PutObjectCommand({
+      Bucket: this.bucket,
+      Key: this.objectKey(key),
+      Body: body,
+      ContentType: 'application/octet-stream',
+    }));
+  }
+
+  async get(key: string): Promise<Buffer> {
+    const body = await this.getObject(key);
+    return Buffer.from(await body.transformToByteArray());
+  }
+
+  async stream(key: string): Promise<Readable> {
+    // In Node the SDK returns the body as a readable stream
+    return (await this.getObject(key)) as unknown as Readable;
+  }
+
+  async delete(key: string): Promise<void> {
+    await this.client.send(new DeleteObjectCommand({ Bucket: this.bucket, Key: this.objectKey(key) }));
+  }
+
+  async presign(key: string, expiresInSeconds: number): Promise<string> {
+    return getSignedUrl(
+      this.client,
+      new GetObjectCommand({ Bucket: this.bucket, Key: this.objectKey(key) }),
+      { expiresIn: expiresInSeconds }
+    );
+  }
+
+  private async getObject(key: string) {
+    try {
+      const result = await this.client.send(new GetObjectCommand({ Bucket: this.bucket, Key: this.objectKey(key) }));
+      if (!result.Body) {
+        throw new StorageNotFoundError(key);
+      }
+      return result.Body;
+    } catch (error) {
+      throw error instanceof NoSuchKey ? new StorageNotFoundError(key) : error;
+    }
+  }
+
+  private objectKey(key: string): string {
+    return this.prefix ? `${this.prefix.replace(/\/+$/, '')}/${checkKey(key)}` : checkKey(key);
+  }
+}
+
+/**
+ * The driver chosen by STORAGE_DRIVER
+ */
+function createDefaultDriver(): StorageDriver {
+  switch ((process.env.STORAGE_DRIVER || 'local').toLowerCase()) {
+    case 'local':
+      return new LocalStorageDriver();
+    case 's3':
+      return new S3StorageDriver();
+    default:
+      throw new Error(`Unknown STORAGE_DRIVER "${process.env.STORAGE_DRIVER}"`);
+  }
+}
+
+let driver: StorageDriver | undefined;
+
+export class StorageService {
+  /**
+   * Install a different driver
+   */
+  static setDriver(custom: StorageDriver): void {
+    driver = custom;
+  }
+
+  static getDriver(): StorageDriver {
+    if (!driver) {
+      driver = createDefaultDriver();
+    }
+    return driver;
+  }
+
+  /**
+   * A new key under the given folder, with a random name that reveals
+   * neither the owner nor the original filename
+   */
+  static newKey(folder: string): string {
+    return `${folder}/${crypto.randomUUID()}`;
+  }
+
+  static put(key: string, body: Buffer): Promise<void> {
+    return this.getDriver().put(key, body);
+  }
+
+  static get(key: string): Promise<Buffer> {
+    return this.getDriver().get(key);
+  }
+
+  static stream(key: string): Promise<Readable> {
+    return this.getDriver().stream(key);
+  }
+
+  static delete(key: string): Promise<void> {
+    return this.getDriver().delete(key);
+  }
+
+  static presign(key: string, expiresInSeconds: number = 15 * 60): Promise<string> {
+    return this.getDriver().presign(key, expiresInSeconds);
+  }
+}
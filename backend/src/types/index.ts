@@ -14,6 +14,8 @@ export interface User {
   last_name?: string;
   agreed_to_terms: boolean;
   terms_agreed_at?: Date;
+  auto_process_uploads: boolean;
+  delete_statements_after_processing: boolean;
   created_at: Date;
   updated_at: Date;
 }
@@ -40,6 +42,8 @@ export interface UserResponse {
   first_name?: string;
   last_name?: string;
   agreed_to_terms: boolean;
+  auto_process_uploads: boolean;
+  delete_statements_after_processing: boolean;
   created_at: Date;
 }
 
@@ -57,9 +61,206 @@ export interface UploadedFile {
   file_path: string;
   file_size?: number;
   mime_type?: string;
-  status: 'pending' | 'processing' | 'completed' | 'error';
+  status: 'pending' | 'queued' | 'processing' | 'review' | 'completed' | 'error' | 'quarantined';
   uploaded_at: Date;
   processed_at?: Date;
+  file_purged_at?: Date; // Stored file removed by the retention policy
+}
+
+// How amounts in a single amount column are signed
+export type SignConvention = 'negative_is_expense' | 'positive_is_expense';
+
+// Column mapping for one bank's CSV export
+export interface ImportMapping {
+  date_column: string;
+  date_format?: string | null;          // e.g. DD/MM/YYYY; null means auto-detect
+  description_columns: string[];        // Concatenated in order
+  amount_column?: string | null;        // Single signed amount column...
+  debit_column?: string | null;         // ...or separate debit/credit columns
+  credit_column?: string | null;
+  sign_convention: SignConvention;
+  skip_rows: number;                    // Lines before the header row
+}
+
+// Saved import profile (named mapping owned by a user)
+export interface ImportProfile extends ImportMapping {
+  id: string;
+  user_id: string;
+  name: string;
+  header_signature: string;             // Normalized header row used for auto-matching
+  last_used_at?: Date;
+  created_at: Date;
+  updated_at: Date;
+}
+
+// User-defined categorization rule (see categorization_rules in schema.sql).
+// Every condition that is set must match; a rule with none matches nothing.
+export type RuleDirection = 'income' | 'expense';
+
+export interface RuleConditions {
+  description_contains?: string | null;  // Case-insensitive substring
+  description_regex?: string | null;     // Case-insensitive regular expression
+  merchant_equals?: string | null;       // Whole merchant (counterparty, else description), ignoring case
+  amount_min?: number | null;            // Absolute amount bounds, inclusive
+  amount_max?: number | null;
+  account_id?: string | null;
+  direction?: RuleDirection | null;
+}
+
+export interface RuleActions {
+  set_category?: string | null;
+  set_subcategory?: string | null;
+  add_tags: string[];
+  set_description?: string | null;       // Cleaned-up description shown instead of the bank's
+}
+
+export interface CategorizationRule extends RuleConditions, RuleActions {
+  id: string;
+  user_id: string;
+  name: string;
+  priority: number;                      // Lower runs first
+  enabled: boolean;
+  created_at: Date;
+  updated_at: Date;
+}
+
+// A spending category. Defaults (user_id null) are shared; users add their own.
+export interface Category {
+  id: string;
+  user_id?: string | null;
+  name: string;
+  parent_id?: string | null;            // Set for subcategories
+  icon?: string | null;
+  color?: string | null;
+  is_default: boolean;
+  archived_at?: Date | null;
+  created_at: Date;
+  updated_at?: Date;
+}
+
+// A top-level category with its subcategories
+export interface CategoryNode extends Category {
+  subcategories: Category[];
+}
+
+// A merchant -> category mapping learned from the user's corrections
+export interface LearnedCategory {
+  id: string;
+  user_id: string;
+  merchant_key: string;
+  merchant_name: string;
+  category: string;
+  subcategory?: string | null;
+  times_corrected: number;
+  times_applied: number;
+  last_applied_at?: Date | null;
+  created_at: Date;
+  updated_at: Date;
+}
+
+// A canonical merchant (see MerchantNormalizationService)
+export interface Merchant {
+  id: string;
+  user_id: string;
+  name: string;
+  normalized_key: string;
+  default_category?: string | null;
+  logo_url?: string | null;
+  color?: string | null;
+  created_at: Date;
+  updated_at: Date;
+}
+
+// One processing run of an uploaded file (see import_batches in schema.sql)
+export type ImportBatchStatus = 'staged' | 'committed' | 'discarded' | 'reverted';
+
+export interface ImportBatch {
+  id: string;
+  user_id: string;
+  file_id: string;
+  status: ImportBatchStatus;
+  format?: string;                      // Parser used
+  import_profile_id?: string;
+  transaction_count: number;
+  created_at: Date;
+  committed_at?: Date;
+  reverted_at?: Date;
+}
+
+// Per-user key that encrypts uploaded files, stored wrapped by a master key
+export interface UserDataKey {
+  id: string;
+  user_id: string;
+  wrapped_key: string;    // base64(iv | auth tag | encrypted key)
+  master_key_id: string;  // Which configured master key wrapped it
+  status: 'active' | 'retired';
+  created_at: Date;
+  retired_at?: Date;
+}
+
+// Parsed row waiting on the import review screen
+export interface StagedTransaction {
+  id: string;
+  user_id: string;
+  file_id: string;
+  row_index: number;
+  transaction_date: Date;
+  description: string;
+  amount: number;
+  category?: string;
+  subcategory?: string;
+  is_income: boolean;
+  external_id?: string;
+  account_id?: string;
+  value_date?: Date;
+  counterparty?: string;
+  currency?: string;
+  ocr_confidence?: number;
+  duplicate_of?: string;                // Existing transaction this row appears to repeat
+  tags: string[];
+  original_description?: string;        // The bank's text, when a rule replaced the description
+  categorization_rule_id?: string;      // Rule that categorized the row
+  merchant_id?: string;
+  excluded: boolean;
+  warnings: string[];
+  created_at: Date;
+}
+
+// Background job (see jobs in schema.sql and JobQueueService)
+export type JobStatus = 'queued' | 'running' | 'completed' | 'dead';
+
+export interface Job {
+  id: string;
+  user_id?: string;
+  type: string;
+  payload: any;
+  status: JobStatus;
+  attempts: number;
+  max_attempts: number;
+  run_at: Date;
+  locked_by?: string;
+  locked_at?: Date;
+  last_error?: string;
+  result?: any;
+  created_at: Date;
+  updated_at: Date;
+  completed_at?: Date;
+}
+
+// Where a file's processing has got to (streamed to the dashboard)
+export interface ProcessingProgress {
+  fileId: string;
+  jobId?: string;
+  stage: 'queued' | 'parsing' | 'categorizing' | 'checking_duplicates' | 'completed' | 'failed';
+  pagesParsed?: number;                 // PDF and scanned statements only
+  totalPages?: number;
+  rowsExtracted?: number;
+  rejectedRows?: number;
+  rowsCategorized?: number;
+  duplicatesFound?: number;
+  error?: string;
+  willRetry?: boolean;                  // Set on 'failed' when the job will run again
+  at: string;                           // ISO timestamp
 }
 
 // Express Request with authenticated user
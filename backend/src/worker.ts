@@ -0,0 +1,184 @@
+/**
+ * Background Worker
+ *
+ * Runs queued jobs (see JobQueueService) outside the API server.
+ * Start one or more worker processes alongside the server:
+ *   npm run worker        (built)
+ *   npm run worker:dev    (from source)
+ * JOB_WORKER_CONCURRENCY sets how many jobs one process runs at a time.
+ * Workers also apply the file retention policy (see RetentionService)
+ * every RETENTION_INTERVAL_MINUTES (0 turns it off).
+ */
+
+import dotenv from 'dotenv';
+import os from 'os';
+import { pool, query } from './config/database';
+import { JobQueueService } from './services/jobQueueService';
+import { StatementImportService, PROCESS_STATEMENT_JOB } from './services/statementImportService';
+import { ProcessingProgressService } from './services/processingProgressService';
+import { RetentionService } from './services/retentionService';
+import { Job } from './types';
+
+dotenv.config();
+
+const POLL_INTERVAL_MS = parseInt(process.env.JOB_POLL_INTERVAL_MS || '2000');
+const CONCURRENCY = parseInt(process.env.JOB_WORKER_CONCURRENCY || '1');
+const RETENTION_INTERVAL_MINUTES = parseInt(process.env.RETENTION_INTERVAL_MINUTES || '60');
+
+const WORKER_ID = `${os.hostname()}:${process.pid}`;
+
+interface JobHandler {
+  run: (job: Job) => Promise<any>;
+  // Called after a failed attempt; the job has already been re-queued or dead-lettered
+  onFailed?: (job: Job) => Promise<void>;
+}
+
+/**
+ * Keep uploaded_files.status in step with its processing job
+ */
+async function setFileStatus(fileId: string, jobId: string, status: string): Promise<void> {
+  await query(
+    'UPDATE uploaded_files SET status = $1 WHERE id = $2 AND processing_job_id = $3',
+    [status, fileId, jobId]
+  );
+}
+
+const handlers: Record<string, JobHandler> = {
+  [PROCESS_STATEMENT_JOB]: {
+    run: (job) => StatementImportService.stageFile(job.payload, job.id, WORKER_ID),
+    onFailed: async (job) => {
+      await setFileStatus(job.payload.fileId, job.id, job.status === 'dead' ? 'error' : 'queued');
+      await ProcessingProgressService.publish({
+        fileId: job.payload.fileId,
+        jobId: job.id,
+        stage: 'failed',
+        error: job.last_error || undefined,
+        willRetry: job.status !== 'dead',
+      });
+    },
+  },
+};
+
+let stopping = false;
+
+const sleep = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+/**
+ * Run one claimed job and record the outcome
+ */
+async function runJob(job: Job): Promise<void> {
+  const handler = handlers[job.type];
+  const stopHeartbeat = JobQueueService.startHeartbeat(job.id, WORKER_ID);
+
+  try {
+    if (!handler) {
+      throw new Error(`No handler for job type "${job.type}"`);
+    }
+
+    const result = await handler.run(job);
+    if (await JobQueueService.complete(job.id, WORKER_ID, result)) {
+      console.log(`✅ Job ${job.id} (${job.type}) completed`);
+    } else {
+      console.warn(`⚠️ Job ${job.id} (${job.type}) finished after being handed to another worker; result dropped`);
+    }
+  } catch (error: any) {
+    const failed = await JobQueueService.fail(job, WORKER_ID, error instanceof Error ? error : new Error(String(error)));
+    if (!failed) {
+      console.warn(`⚠️ Job ${job.id} (${job.type}) failed after being handed to another worker:`, error.message);
+      return;
+    }
+    console.error(
+      `❌ Job ${job.id} (${job.type}) failed on attempt ${failed.attempts}/${failed.max_attempts}:`,
+      error.message,
+      failed.status === 'dead' ? '(dead-lettered)' : '(will retry)'
+    );
+    await handler?.onFailed?.(failed).catch(err => console.error('Job failure handler error:', err));
+  } finally {
+    stopHeartbeat();
+  }
+}
+
+/**
+ * Claim and run jobs until the process is asked to stop
+ */
+async function workLoop(): Promise<void> {
+  while (!stopping) {
+    try {
+      const job = await JobQueueService.claimNext(WORKER_ID);
+      if (job) {
+        await runJob(job);
+      } else {
+        await sleep(POLL_INTERVAL_MS);
+      }
+    } catch (error) {
+      console.error('Worker error:', error);
+      await sleep(POLL_INTERVAL_MS);
+    }
+  }
+}
+
+/**
+ * Recover jobs left running by workers that crashed
+ */
+async function releaseStaleJobs(): Promise<void> {
+  try {
+    for (const job of await JobQueueService.releaseStale()) {
+      await handlers[job.type]?.onFailed?.(job);
+    }
+  } catch (error) {
+    console.error('Stale job check failed:', error);
+  }
+}
+
+/**
+ * Purge statements the retention policy no longer allows us to keep
+ */
+async function applyRetention(): Promise<void> {
+  try {
+    const summary = await RetentionService.purgeExpired();
+    if (summary.filesPurged || summary.processedFilesRemoved || summary.failed) {
+      console.log(
+        `🗑️ Retention: purged ${summary.filesPurged} deleted file(s), ` +
+        `removed ${summary.processedFilesRemoved} processed original(s), ${summary.failed} failed`
+      );
+    }
+  } catch (error) {
+    console.error('Retention run failed:', error);
+  }
+}
+
+async function startWorker() {
+  console.log(`👷 Worker ${WORKER_ID} started (concurrency ${CONCURRENCY})`);
+
+  await releaseStaleJobs();
+  const staleCheck = setInterval(releaseStaleJobs, 60 * 1000);
+
+  const retention = RETENTION_INTERVAL_MINUTES > 0
+    ? setInterval(applyRetention, RETENTION_INTERVAL_MINUTES * 60 * 1000)
+    : null;
+  if (retention) {
+    applyRetention();
+  }
+
+  await Promise.all(Array.from({ length: CONCURRENCY }, () => workLoop()));
+
+  clearInterval(staleCheck);
+  if (retention) {
+    clearInterval(retention);
+  }
+  await pool.end();
+  console.log('👋 Worker stopped');
+}
+
+// Finish the jobs in progress before exiting
+const stop = () => {
+  console.log('Stopping worker after current jobs...');
+  stopping = true;
+};
+process.on('SIGTERM', stop);
+process.on('SIGINT', stop);
+
+startWorker().catch(error => {
+  console.error('❌ Worker failed to start:', error);
+  process.exit(1);
+});
@@ -14,6 +14,9 @@ import WaitlistPage from './pages/WaitlistPage';
 import AnalyticsPage from './pages/AnalyticsPage';
 import BudgetPage from './pages/BudgetPage';
 import TransactionsPage from './pages/TransactionsPage';
+import ImportReviewPage from './pages/ImportReviewPage';
+import RulesPage from './pages/RulesPage';
+import CategoriesPage from './pages/CategoriesPage';
 import LandingPage from './pages/LandingPage';
 import TermsPage from './pages/TermsPage';
 import PrivacyPage from './pages/PrivacyPage';
@@ -102,6 +105,30 @@ function AppRoutes() {
             </ProtectedRoute>
           }
         />
+        <Route
+          path="/rules"
+          element={
+            <ProtectedRoute>
+              <RulesPage />
+            </ProtectedRoute>
+          }
+        />
+        <Route
+          path="/categories"
+          element={
+            <ProtectedRoute>
+              <CategoriesPage />
+            </ProtectedRoute>
+          }
+        />
+        <Route
+          path="/imports/:fileId/review"
+          element={
+            <ProtectedRoute>
+              <ImportReviewPage />
+            </ProtectedRoute>
+          }
+        />
 
         {/* Default Route */}
         <Route path="/" element={<Navigate to="/home" />} />
@@ -0,0 +1,241 @@
+/**
+ * Import Mapping Step
+ *
+ * Shown before processing a CSV we don't recognise. The user picks which
+ * columns hold the date, description and amount, and can save the mapping
+ * as a profile so the same bank's exports are recognised next time.
+ */
+
+import React, { useState } from 'react';
+import { FilePreview, ImportMapping, SignConvention } from '../types';
+import './ImportMappingStep.css';
+
+interface ImportMappingStepProps {
+  filename: string;
+  preview: FilePreview;
+  onSkipRowsChange: (skipRows: number) => void;
+  onSubmit: (mapping: ImportMapping, profileName: string | null) => void;
+  onCancel: () => void;
+}
+
+const DATE_FORMATS = ['', 'YYYY-MM-DD', 'MM/DD/YYYY', 'DD/MM/YYYY', 'DD.MM.YYYY', 'M/D/YY', 'D/M/YY', 'DD MMM YYYY'];
+
+const ImportMappingStep: React.FC<ImportMappingStepProps> = ({
+  filename,
+  preview,
+  onSkipRowsChange,
+  onSubmit,
+  onCancel,
+}) => {
+  const headers = preview.headers || [];
+  const suggested = preview.suggestedMapping || {};
+
+  const [dateColumn, setDateColumn] = useState(suggested.date_column || '');
+  const [dateFormat, setDateFormat] = useState(suggested.date_format || '');
+  const [descriptionColumns, setDescriptionColumns] = useState<string[]>(suggested.description_columns || []);
+  const [splitAmounts, setSplitAmounts] = useState(!suggested.amount_column && !!(suggested.debit_column || suggested.credit_column));
+  const [amountColumn, setAmountColumn] = useState(suggested.amount_column || '');
+  const [debitColumn, setDebitColumn] = useState(suggested.debit_column || '');
+  const [creditColumn, setCreditColumn] = useState(suggested.credit_column || '');
+  const [signConvention, setSignConvention] = useState<SignConvention>(suggested.sign_convention || 'negative_is_expense');
+  const [skipRows, setSkipRows] = useState(suggested.skip_rows || 0);
+  const [saveProfile, setSaveProfile] = useState(true);
+  const [profileName, setProfileName] = useState('');
+  const [error, setError] = useState('');
+
+  const toggleDescriptionColumn = (column: string) => {
+    setDescriptionColumns(current =>
+      current.includes(column) ? current.filter(c => c !== column) : [...current, column]
+    );
+  };
+
+  const handleSkipRowsChange = (value: number) => {
+    setSkipRows(value);
+    onSkipRowsChange(value);
+  };
+
+  const handleSubmit = () => {
+    if (!dateColumn) {
+      setError('Choose the date column');
+      return;
+    }
+    if (descriptionColumns.length === 0) {
+      setError('Choose at least one description column');
+      return;
+    }
+    if (splitAmounts ? !debitColumn && !creditColumn : !amountColumn) {
+      setError('Choose the amount column(s)');
+      return;
+    }
+    if (saveProfile && !profileName.trim()) {
+      setError('Give the profile a name (e.g. your bank) or untick "Save"');
+      return;
+    }
+
+    onSubmit(
+      {
+        date_column: dateColumn,
+        date_format: dateFormat || null,
+        description_columns: descriptionColumns,
+        amount_column: splitAmounts ? null : amountColumn,
+        debit_column: splitAmounts ? debitColumn || null : null,
+        credit_column: splitAmounts ? creditColumn || null : null,
+        sign_convention: signConvention,
+        skip_rows: skipRows,
+      },
+      saveProfile ? profileName.trim() : null
+    );
+  };
+
+  const columnSelect = (value: string, onChange: (value: string) => void, placeholder: string) => (
+    <select value={value} onChange={(e) => onChange(e.target.value)} className="mapping-select">
+      <option value="">{placeholder}</option>
+      {headers.map((header) => (
+        <option key={header} value={header}>{header}</option>
+      ))}
+    </select>
+  );
+
+  return (
+    <div className="mapping-step">
+      <h3>Map columns for "{filename}"</h3>
+      <p className="mapping-hint">
+        We don't recognise this CSV yet. Tell us which columns to use.
+      </p>
+
+      <div className="mapping-grid">
+        <label>
+          Rows to skip before the header
+          <input
+            type="number"
+            min={0}
+            max={100}
+            value={skipRows}
+            onChange={(e) => handleSkipRowsChange(parseInt(e.target.value) || 0)}
+            className="mapping-input"
+          />
+        </label>
+
+        <label>
+          Date column
+          {columnSelect(dateColumn, setDateColumn, 'Select column')}
+        </label>
+
+        <label>
+          Date format
+          <select value={dateFormat} onChange={(e) => setDateFormat(e.target.value)} className="mapping-select">
+            {DATE_FORMATS.map((format) => (
+              <option key={format} value={format}>{format || 'Detect automatically'}</option>
+            ))}
+          </select>
+        </label>
+
+        <div className="mapping-field">
+          Description column(s)
+          <div className="mapping-checkboxes">
+            {headers.map((header) => (
+              <label key={header} className="mapping-checkbox">
+                <input
+                  type="checkbox"
+                  checked={descriptionColumns.includes(header)}
+                  onChange={() => toggleDescriptionColumn(header)}
+                />
+                {header}
+              </label>
+            ))}
+          </div>
+        </div>
+
+        <div className="mapping-field">
+          Amounts
+          <div className="mapping-checkboxes">
+            <label className="mapping-checkbox">
+              <input type="radio" checked={!splitAmounts} onChange={() => setSplitAmounts(false)} />
+              One amount column
+            </label>
+            <label className="mapping-checkbox">
+              <input type="radio" checked={splitAmounts} onChange={() => setSplitAmounts(true)} />
+              Separate debit and credit columns
+            </label>
+          </div>
+        </div>
+
+        {splitAmounts ? (
+          <>
+            <label>
+              Debit (money out) column
+              {columnSelect(debitColumn, setDebitColumn, 'None')}
+            </label>
+            <label>
+              Credit (money in) column
+              {columnSelect(creditColumn, setCreditColumn, 'None')}
+            </label>
+          </>
+        ) : (
+          <>
+            <label>
+              Amount column
+              {columnSelect(amountColumn, setAmountColumn, 'Select column')}
+            </label>
+            <label>
+              Positive amounts are
+              <select
+                value={signConvention}
+                onChange={(e) => setSignConvention(e.target.value as SignConvention)}
+                className="mapping-select"
+              >
+                <option value="negative_is_expense">Income (bank accounts)</option>
+                <option value="positive_is_expense">Spending (most credit cards)</option>
+              </select>
+            </label>
+          </>
+        )}
+      </div>
+
+      {preview.sampleRows && preview.sampleRows.length > 0 && (
+        <div className="mapping-sample">
+          <table>
+            <thead>
+              <tr>
+                {headers.map((header) => <th key={header}>{header}</th>)}
+              </tr>
+            </thead>
+            <tbody>
+              {preview.sampleRows.map((row, index) => (
+                <tr key={index}>
+                  {headers.map((header) => <td key={header}>{row[header]}</td>)}
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+
+      <div className="mapping-save">
+        <label className="mapping-checkbox">
+          <input type="checkbox" checked={saveProfile} onChange={(e) => setSaveProfile(e.target.checked)} />
+          Save as import profile
+        </label>
+        {saveProfile && (
+          <input
+            type="text"
+            placeholder="Profile name, e.g. Chase Checking"
+            value={profileName}
+            onChange={(e) => setProfileName(e.target.value)}
+            className="mapping-input"
+            maxLength={100}
+          />
+        )}
+      </div>
+
+      {error && <div className="error-message">{error}</div>}
+
+      <div className="mapping-actions">
+        <button onClick={handleSubmit} className="btn-primary">Process File</button>
+        <button onClick={onCancel} className="btn-secondary">Cancel</button>
+      </div>
+    </div>
+  );
+};
+
+export default ImportMappingStep;
@@ -0,0 +1,110 @@
+/**
+ * Processing Progress
+ *
+ * Live progress of a file being processed in the background: the current
+ * stage, a progress bar and what has been found so far. Subscribes to the
+ * file's progress stream while it is mounted.
+ */
+
+import React, { useEffect, useRef, useState } from 'react';
+import { progressService } from '../services/api';
+import { ProcessingProgress as Progress } from '../types';
+import './ProcessingProgress.css';
+
+interface ProcessingProgressProps {
+  fileId: string;
+  onFinished?: () => void; // Called once the run completes or fails for good
+}
+
+const STAGE_LABELS: Record<Progress['stage'], string> = {
+  queued: 'Waiting for a worker',
+  parsing: 'Reading statement',
+  categorizing: 'Categorizing',
+  checking_duplicates: 'Checking for duplicates',
+  completed: 'Ready for review',
+  failed: 'Failed',
+};
+
+// Share of the bar each stage covers: [start, end] in percent
+const STAGE_RANGES: Record<Progress['stage'], [number, number]> = {
+  queued: [0, 0],
+  parsing: [0, 30],
+  categorizing: [30, 90],
+  checking_duplicates: [90, 100],
+  completed: [100, 100],
+  failed: [0, 0],
+};
+
+const percentDone = (progress: Progress): number => {
+  const [start, end] = STAGE_RANGES[progress.stage];
+  let fraction = 0;
+
+  if (progress.stage === 'parsing' && progress.totalPages) {
+    fraction = (progress.pagesParsed || 0) / progress.totalPages;
+  } else if (progress.stage === 'categorizing' && progress.rowsExtracted) {
+    fraction = (progress.rowsCategorized || 0) / progress.rowsExtracted;
+  }
+
+  return Math.round(start + (end - start) * Math.min(fraction, 1));
+};
+
+const ProcessingProgress: React.FC<ProcessingProgressProps> = ({ fileId, onFinished }) => {
+  const [progress, setProgress] = useState<Progress | null>(null);
+
+  useEffect(() => {
+    return progressService.subscribe(fileId, setProgress);
+  }, [fileId]);
+
+  // Tell the parent once, when the run finishes (not on every re-render)
+  const onFinishedRef = useRef(onFinished);
+  onFinishedRef.current = onFinished;
+  const finished = progress?.stage === 'completed' || (progress?.stage === 'failed' && !progress.willRetry);
+  useEffect(() => {
+    if (finished) {
+      onFinishedRef.current?.();
+    }
+  }, [finished]);
+
+  if (!progress) {
+    return null;
+  }
+
+  const failed = progress.stage === 'failed';
+  const details: string[] = [];
+
+  if (progress.totalPages) {
+    details.push(`${progress.pagesParsed || 0}/${progress.totalPages} pages`);
+  }
+  if (progress.rowsExtracted !== undefined) {
+    details.push(`${progress.rowsExtracted} rows found`);
+  }
+  if (progress.rejectedRows) {
+    details.push(`${progress.rejectedRows} unreadable`);
+  }
+  if (progress.rowsCategorized !== undefined) {
+    details.push(`${progress.rowsCategorized} categorized`);
+  }
+  if (progress.duplicatesFound) {
+    details.push(`${progress.duplicatesFound} duplicates skipped`);
+  }
+
+  return (
+    <div className={`processing-progress ${failed ? 'processing-progress-failed' : ''}`}>
+      <div className="processing-progress-stage">
+        {failed
+          ? `${progress.error || 'Processing failed'}${progress.willRetry ? ' (retrying soon)' : ''}`
+          : STAGE_LABELS[progress.stage]}
+      </div>
+      {!failed && (
+        <div className="processing-progress-bar">
+          <div className="processing-progress-fill" style={{ width: `${percentDone(progress)}%` }} />
+        </div>
+      )}
+      {details.length > 0 && (
+        <div className="processing-progress-details">{details.join(' • ')}</div>
+      )}
+    </div>
+  );
+};
+
+export default ProcessingProgress;
@@ -14,6 +14,7 @@ interface AuthContextType {
   loading: boolean;
   login: (user: User) => void;
   logout: () => void;
+  updateUser: (user: User) => void;
   isAuthenticated: boolean;
 }
 
@@ -50,6 +51,11 @@ export const AuthProvider: React.FC<{ children: React.ReactNode }> = ({ children
     setUser(null);
   };
 
+  // Keep the context in step after the user changes their settings
+  const updateUser = (user: User) => {
+    setUser(user);
+  };
+
   return (
     <AuthContext.Provider
       value={{
@@ -57,6 +63,7 @@ export const AuthProvider: React.FC<{ children: React.ReactNode }> = ({ children
         loading,
         login,
         logout,
+        updateUser,
         isAuthenticated: !!user,
       }}
     >
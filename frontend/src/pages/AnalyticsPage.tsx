@@ -213,6 +213,33 @@ const AnalyticsPage: React.FC = () => {
           </div>
         </section>
 
+        {/* Merchant Breakdown */}
+        {analytics.merchantBreakdown?.length > 0 && (
+          <section className="top-expenses-section">
+            <h2>Top Merchants</h2>
+            <div className="expenses-list">
+              {analytics.merchantBreakdown.map((merchant: any) => (
+                <div key={merchant.id} className="expense-item">
+                  {merchant.logo_url ? (
+                    <img src={merchant.logo_url} alt="" className="merchant-badge" />
+                  ) : (
+                    <div className="merchant-badge" style={{ background: merchant.color || '#0066CC' }}>
+                      {merchant.name.charAt(0).toUpperCase()}
+                    </div>
+                  )}
+                  <div className="expense-details">
+                    <div className="expense-description">{merchant.name}</div>
+                    <div className="expense-meta">
+                      <span>{merchant.count} transaction(s)</span>
+                    </div>
+                  </div>
+                  <div className="expense-amount">{formatCurrency(Number(merchant.total))}</div>
+                </div>
+              ))}
+            </div>
+          </section>
+        )}
+
         {/* Top Expenses */}
         <section className="top-expenses-section">
           <h2>Top 10 Expenses</h2>
@@ -221,7 +248,7 @@ const AnalyticsPage: React.FC = () => {
               <div key={index} className="expense-item">
                 <div className="expense-rank">#{index + 1}</div>
                 <div className="expense-details">
-                  <div className="expense-description">{expense.description}</div>
+                  <div className="expense-description">{expense.merchant_name || expense.description}</div>
                   <div className="expense-meta">
                     <span className="expense-category">{expense.category}</span>
                     <span>•</span>
@@ -0,0 +1,343 @@
+/**
+ * Categories Page
+ *
+ * Manage the categories transactions are sorted into. Everyone gets the
+ * default categories; users can:
+ * - Add their own categories, and subcategories under any category
+ * - Rename a category (its transactions, rules and merchants follow)
+ * - Merge one category into another
+ * - Archive categories they no longer use, and restore them
+ */
+
+import React, { useState, useEffect, useCallback } from 'react';
+import { Link } from 'react-router-dom';
+import { useAuth } from '../context/AuthContext';
+import { categoryService } from '../services/api';
+import { Category, CategoryNode } from '../types';
+import './Rules.css';
+import './Categories.css';
+
+// What's being changed inline: a rename, or choosing what to merge into
+interface CategoryEdit {
+  id: string;
+  mode: 'rename' | 'merge';
+  value: string;
+}
+
+const CategoriesPage: React.FC = () => {
+  const { logout } = useAuth();
+  const [tree, setTree] = useState<CategoryNode[]>([]);
+  const [showArchived, setShowArchived] = useState(false);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState('');
+  const [success, setSuccess] = useState('');
+
+  // New category form
+  const [newName, setNewName] = useState('');
+  const [newParentId, setNewParentId] = useState('');
+  const [newColor, setNewColor] = useState('#4ECDC4');
+  const [saving, setSaving] = useState(false);
+
+  const [edit, setEdit] = useState<CategoryEdit | null>(null);
+
+  const loadCategories = useCallback(async () => {
+    try {
+      setLoading(true);
+      setTree(await categoryService.getCategories(showArchived));
+    } catch (err: any) {
+      setError(err.response?.data?.error || 'Failed to load categories');
+    } finally {
+      setLoading(false);
+    }
+  }, [showArchived]);
+
+  useEffect(() => {
+    loadCategories();
+  }, [loadCategories]);
+
+  const showError = (err: any, fallback: string) => {
+    const details = err.response?.data?.details;
+    setError(details?.length ? details.map((d: any) => d.msg).join('. ') : err.response?.data?.error || fallback);
+    setSuccess('');
+  };
+
+  const showSuccess = (message: string) => {
+    setSuccess(message);
+    setError('');
+    setTimeout(() => setSuccess(''), 3000);
+  };
+
+  const handleCreate = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    try {
+      setSaving(true);
+      const category = await categoryService.createCategory({
+        name: newName.trim(),
+        parent_id: newParentId || null,
+        color: newParentId ? null : newColor,
+      });
+      setNewName('');
+      showSuccess(`Added ${category.name}`);
+      await loadCategories();
+    } catch (err: any) {
+      showError(err, 'Failed to add category');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleRename = async (category: Category, name: string) => {
+    try {
+      const updated = await categoryService.updateCategory(category.id, { name: name.trim() });
+      setEdit(null);
+      showSuccess(`Renamed ${category.name} to ${updated.name}`);
+      await loadCategories();
+    } catch (err: any) {
+      showError(err, 'Failed to rename category');
+    }
+  };
+
+  const handleColor = async (category: Category, color: string) => {
+    try {
+      await categoryService.updateCategory(category.id, { color });
+      setTree(current => current.map(node => (node.id === category.id ? { ...node, color } : node)));
+    } catch (err: any) {
+      showError(err, 'Failed to update colour');
+    }
+  };
+
+  const handleMerge = async (category: Category, targetId: string) => {
+    const target = mergeTargets(category).find(option => option.id === targetId);
+    if (!target) return;
+    if (!window.confirm(`Move everything in ${category.name} to ${target.label} and archive ${category.name}?`)) return;
+
+    try {
+      const result = await categoryService.mergeCategory(category.id, targetId);
+      setEdit(null);
+      showSuccess(result.message);
+      await loadCategories();
+    } catch (err: any) {
+      showError(err, 'Failed to merge categories');
+    }
+  };
+
+  const handleArchive = async (category: Category) => {
+    if (!window.confirm(`Archive ${category.name}? Transactions keep it, but it won't be offered for new ones.`)) return;
+
+    try {
+      await categoryService.archiveCategory(category.id);
+      showSuccess(`Archived ${category.name}`);
+      await loadCategories();
+    } catch (err: any) {
+      showError(err, 'Failed to archive category');
+    }
+  };
+
+  const handleRestore = async (category: Category) => {
+    try {
+      await categoryService.restoreCategory(category.id);
+      showSuccess(`Restored ${category.name}`);
+      await loadCategories();
+    } catch (err: any) {
+      showError(err, 'Failed to restore category');
+    }
+  };
+
+  // Categories merge into categories, subcategories into subcategories
+  const mergeTargets = (category: Category): { id: string; label: string }[] => {
+    const active = tree.filter(node => !node.archived_at);
+
+    if (!category.parent_id) {
+      return active
+        .filter(node => node.id !== category.id)
+        .map(node => ({ id: node.id, label: node.name }));
+    }
+
+    return active.flatMap(node => node.subcategories
+      .filter(sub => sub.id !== category.id && !sub.archived_at)
+      .map(sub => ({ id: sub.id, label: `${node.name} / ${sub.name}` })));
+  };
+
+  const renderActions = (category: Category) => {
+    if (!category.user_id) {
+      return <span className="category-default">Default</span>;
+    }
+
+    if (category.archived_at) {
+      return (
+        <button className="btn-rule-secondary" onClick={() => handleRestore(category)}>Restore</button>
+      );
+    }
+
+    if (edit?.id === category.id && edit.mode === 'rename') {
+      return (
+        <form
+          className="category-inline-form"
+          onSubmit={(e) => {
+            e.preventDefault();
+            handleRename(category, edit.value);
+          }}
+        >
+          <input
+            type="text"
+            value={edit.value}
+            maxLength={100}
+            onChange={(e) => setEdit({ ...edit, value: e.target.value })}
+            autoFocus
+          />
+          <button type="submit" className="btn-rule-primary" disabled={!edit.value.trim()}>Save</button>
+          <button type="button" className="btn-rule-secondary" onClick={() => setEdit(null)}>Cancel</button>
+        </form>
+      );
+    }
+
+    if (edit?.id === category.id && edit.mode === 'merge') {
+      const targets = mergeTargets(category);
+      return (
+        <div className="category-inline-form">
+          <select value={edit.value} onChange={(e) => setEdit({ ...edit, value: e.target.value })}>
+            <option value="">Merge into...</option>
+            {targets.map((target) => (
+              <option key={target.id} value={target.id}>{target.label}</option>
+            ))}
+          </select>
+          <button
+            className="btn-rule-danger"
+            disabled={!edit.value}
+            onClick={() => handleMerge(category, edit.value)}
+          >
+            Merge
+          </button>
+          <button className="btn-rule-secondary" onClick={() => setEdit(null)}>Cancel</button>
+        </div>
+      );
+    }
+
+    return (
+      <div className="category-actions">
+        <button
+          className="btn-rule-secondary"
+          onClick={() => setEdit({ id: category.id, mode: 'rename', value: category.name })}
+        >
+          Rename
+        </button>
+        <button
+          className="btn-rule-secondary"
+          onClick={() => setEdit({ id: category.id, mode: 'merge', value: '' })}
+        >
+          Merge
+        </button>
+        <button className="btn-rule-danger" onClick={() => handleArchive(category)}>Archive</button>
+      </div>
+    );
+  };
+
+  const activeParents = tree.filter(node => !node.archived_at);
+
+  return (
+    <div className="categories-container">
+      {/* Header */}
+      <header className="categories-header">
+        <div className="header-left">
+          <Link to="/dashboard" className="back-link">← Dashboard</Link>
+          <h1>Categories</h1>
+        </div>
+        <button onClick={logout} className="btn-secondary">Logout</button>
+      </header>
+
+      <main className="categories-main">
+        {error && <div className="error-message">{error}</div>}
+        {success && <div className="success-message">{success}</div>}
+
+        <form className="category-form" onSubmit={handleCreate}>
+          <h2>Add a Category</h2>
+          <div className="category-form-fields">
+            <label className="rule-field">
+              Name
+              <input
+                type="text"
+                value={newName}
+                maxLength={100}
+                onChange={(e) => setNewName(e.target.value)}
+                placeholder="Pets"
+                required
+              />
+            </label>
+            <label className="rule-field">
+              Under
+              <select value={newParentId} onChange={(e) => setNewParentId(e.target.value)}>
+                <option value="">Nothing (a new category)</option>
+                {activeParents.map((node) => (
+                  <option key={node.id} value={node.id}>{node.name}</option>
+                ))}
+              </select>
+            </label>
+            {!newParentId && (
+              <label className="rule-field">
+                Colour
+                <input type="color" value={newColor} onChange={(e) => setNewColor(e.target.value)} />
+              </label>
+            )}
+            <button type="submit" className="btn-rule-primary" disabled={saving || !newName.trim()}>
+              {saving ? 'Adding...' : 'Add'}
+            </button>
+          </div>
+        </form>
+
+        <div className="categories-toolbar">
+          <label className="categories-archived-toggle">
+            <input type="checkbox" checked={showArchived} onChange={(e) => setShowArchived(e.target.checked)} />
+            Show archived
+          </label>
+        </div>
+
+        {loading ? (
+          <div className="loading">Loading categories...</div>
+        ) : (
+          <ul className="categories-list">
+            {tree.map((node) => (
+              <li key={node.id} className={`category-card ${node.archived_at ? 'category-archived' : ''}`}>
+                <div className="category-row">
+                  {node.user_id && !node.archived_at ? (
+                    <input
+                      type="color"
+                      className="category-swatch"
+                      value={node.color || '#CCCCCC'}
+                      onChange={(e) => handleColor(node, e.target.value)}
+                      title="Change colour"
+                    />
+                  ) : (
+                    <span className="category-swatch" style={{ background: node.color || undefined }} />
+                  )}
+                  <span className="category-name">
+                    {node.icon && <span className="category-icon">{node.icon}</span>}
+                    {node.name}
+                    {node.archived_at && <span className="category-status">Archived</span>}
+                  </span>
+                  {renderActions(node)}
+                </div>
+
+                {node.subcategories.length > 0 && (
+                  <ul className="subcategories-list">
+                    {node.subcategories.map((sub) => (
+                      <li key={sub.id} className={`category-row ${sub.archived_at ? 'category-archived' : ''}`}>
+                        <span className="category-name">
+                          {sub.name}
+                          {sub.archived_at && <span className="category-status">Archived</span>}
+                        </span>
+                        {renderActions(sub)}
+                      </li>
+                    ))}
+                  </ul>
+                )}
+              </li>
+            ))}
+          </ul>
+        )}
+      </main>
+    </div>
+  );
+};
+
+export default CategoriesPage;
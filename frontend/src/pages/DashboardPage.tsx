@@ -2,26 +2,39 @@
  * Dashboard Page
  *
  * Main page after login. Users can:
- * - Upload bank statements
+ * - Upload bank statements (several at once, or ZIP archives of them)
+ * - Have uploads processed automatically
+ * - Map CSV columns (saved as import profiles)
+ * - Follow processing progress live
+ * - Review processed files before importing them
+ * - Undo an import and process the file again
  * - View uploaded files
  */
 
 import React, { useState, useEffect } from 'react';
 import { useAuth } from '../context/AuthContext';
-import { uploadService, transactionService } from '../services/api';
-import { UploadedFile } from '../types';
-import { Link } from 'react-router-dom';
+import { authService, uploadService, transactionService, importProfileService, importService, jobService } from '../services/api';
+import { UploadedFile, FilePreview, ImportMapping, RejectedRow, EditedTransaction, SkippedUpload } from '../types';
+import { Link, useNavigate } from 'react-router-dom';
+import ImportMappingStep from '../components/ImportMappingStep';
+import ProcessingProgress from '../components/ProcessingProgress';
 import './Dashboard.css';
 
 const DashboardPage: React.FC = () => {
-  const { user, logout } = useAuth();
+  const { user, logout, updateUser } = useAuth();
+  const navigate = useNavigate();
   const [files, setFiles] = useState<UploadedFile[]>([]);
-  const [selectedFile, setSelectedFile] = useState<File | null>(null);
+  const [selectedFiles, setSelectedFiles] = useState<File[]>([]);
+  const [isCreditCard, setIsCreditCard] = useState(false);
+  const [allowDuplicates, setAllowDuplicates] = useState(false);
   const [uploading, setUploading] = useState(false);
   const [processingFileId, setProcessingFileId] = useState<string | null>(null);
   const [error, setError] = useState('');
   const [success, setSuccess] = useState('');
   const [shake, setShake] = useState(false);
+  const [skippedUploads, setSkippedUploads] = useState<SkippedUpload[]>([]);
+  const [rejectedRows, setRejectedRows] = useState<{ count: number; rows: RejectedRow[] } | null>(null);
+  const [mappingFile, setMappingFile] = useState<{ id: string; filename: string; preview: FilePreview } | null>(null);
 
   // Load user's files when component mounts
   useEffect(() => {
@@ -38,14 +51,14 @@ const DashboardPage: React.FC = () => {
   };
 
   const handleFileSelect = (e: React.ChangeEvent<HTMLInputElement>) => {
-    if (e.target.files && e.target.files[0]) {
-      setSelectedFile(e.target.files[0]);
+    if (e.target.files && e.target.files.length > 0) {
+      setSelectedFiles(Array.from(e.target.files));
       setError('');
     }
   };
 
   const handleUpload = async () => {
-    if (!selectedFile) {
+    if (selectedFiles.length === 0) {
       setError('⚠️ WHOA THERE! Choose a file first, hotshot! 💥');
       setShake(true);
       setTimeout(() => setShake(false), 500);
@@ -55,11 +68,28 @@ const DashboardPage: React.FC = () => {
     setUploading(true);
     setError('');
     setSuccess('');
+    setSkippedUploads([]);
 
     try {
-      await uploadService.uploadFile(selectedFile);
-      setSuccess('File uploaded successfully!');
-      setSelectedFile(null);
+      const result = await uploadService.uploadFiles(
+        selectedFiles,
+        isCreditCard ? 'positive_is_expense' : 'negative_is_expense',
+        allowDuplicates
+      );
+      const recognised = result.files.length === 1 && result.files[0].importProfile;
+      const queued = result.files.filter(file => file.jobId).length;
+      const copies = result.files.filter(file => file.duplicateOf).length;
+      setSuccess(
+        `${result.message}!` +
+        (recognised ? ` Recognised as "${recognised.name}".` : '') +
+        (queued > 0 ? ` ${queued} queued for processing.` : '') +
+        (copies > 0 ? ` ${copies} had been uploaded before.` : '')
+      );
+      if (result.quarantined.length > 0) {
+        setError(`${result.quarantined.length} file(s) were rejected and quarantined: ${result.quarantined.map(q => `${q.filename} (${q.reason})`).join(', ')}`);
+      }
+      setSkippedUploads(result.skipped);
+      setSelectedFiles([]);
       // Reset file input
       const fileInput = document.getElementById('file-input') as HTMLInputElement;
       if (fileInput) fileInput.value = '';
@@ -67,11 +97,24 @@ const DashboardPage: React.FC = () => {
       await loadFiles();
     } catch (err: any) {
       setError(err.response?.data?.error || 'Upload failed');
+      setSkippedUploads(err.response?.data?.skipped || []);
+      // Quarantined files are listed below with the reason
+      await loadFiles();
     } finally {
       setUploading(false);
     }
   };
 
+  const handlePreferenceChange = async (
+    preferences: { auto_process_uploads?: boolean; delete_statements_after_processing?: boolean }
+  ) => {
+    try {
+      updateUser(await authService.updatePreferences(preferences));
+    } catch (err: any) {
+      setError(err.response?.data?.error || 'Failed to save preference');
+    }
+  };
+
   const formatFileSize = (bytes: number): string => {
     if (bytes < 1024) return bytes + ' B';
     if (bytes < 1024 * 1024) return (bytes / 1024).toFixed(1) + ' KB';
@@ -102,26 +145,135 @@ const DashboardPage: React.FC = () => {
     }
   };
 
+  const handleUndoImport = async (file: UploadedFile) => {
+    if (!file.import_batch_id) return;
+    if (!window.confirm(`Remove the ${file.imported_count ?? ''} transaction(s) imported from "${file.filename}"?`)) {
+      return;
+    }
+
+    try {
+      setError('');
+      let result;
+      try {
+        result = await importService.revertBatch(file.import_batch_id);
+      } catch (err: any) {
+        // Transactions edited since the import are reported before anything is removed
+        const edited: EditedTransaction[] | undefined = err.response?.status === 409 ? err.response.data.editedTransactions : undefined;
+        if (!edited) throw err;
+
+        const list = edited.slice(0, 10).map(t => `• ${t.description} (${Number(t.amount).toFixed(2)})`).join('\n');
+        if (!window.confirm(`${err.response.data.error}:\n${list}\n\nUndo the import anyway?`)) {
+          return;
+        }
+        result = await importService.revertBatch(file.import_batch_id, true);
+      }
+
+      await loadFiles();
+
+      // CSVs can be re-run with a different column mapping straight away
+      const preview = await importProfileService.previewFile(file.id);
+      if (preview.format === 'csv') {
+        setMappingFile({
+          id: file.id,
+          filename: file.filename,
+          preview: { ...preview, suggestedMapping: preview.matchedProfile || preview.suggestedMapping },
+        });
+        setSuccess(`${result.message} Adjust the column mapping to process it again, or cancel.`);
+      } else {
+        setSuccess(`${result.message} Process the file again to re-import it.`);
+      }
+    } catch (err: any) {
+      setError(err.response?.data?.error || 'Failed to undo import');
+    }
+  };
+
   const handleProcessFile = async (fileId: string, filename: string) => {
     if (!window.confirm(`Process "${filename}" to extract transactions?`)) {
       return;
     }
 
+    // CSVs we don't have a saved profile for need a column mapping first
+    try {
+      setError('');
+      const preview = await importProfileService.previewFile(fileId);
+      if (preview.requiresMapping) {
+        setMappingFile({ id: fileId, filename, preview });
+        return;
+      }
+    } catch (err: any) {
+      setError(err.response?.data?.error || 'Failed to read file');
+      return;
+    }
+
+    await runProcessing(fileId);
+  };
+
+  const handleMappingSkipRows = async (skipRows: number) => {
+    if (!mappingFile) return;
+
+    try {
+      const preview = await importProfileService.previewFile(mappingFile.id, skipRows);
+      setMappingFile({ ...mappingFile, preview });
+    } catch (err: any) {
+      setError(err.response?.data?.error || 'Failed to read file');
+    }
+  };
+
+  const handleMappingSubmit = async (mapping: ImportMapping, profileName: string | null) => {
+    if (!mappingFile) return;
+
+    const fileId = mappingFile.id;
+    setMappingFile(null);
+
+    if (profileName) {
+      try {
+        const profile = await importProfileService.createProfile(profileName, mappingFile.preview.headers || [], mapping);
+        await runProcessing(fileId, { profileId: profile.id });
+      } catch (err: any) {
+        setError(err.response?.data?.error || 'Failed to save import profile');
+      }
+      return;
+    }
+
+    await runProcessing(fileId, { mapping });
+  };
+
+  const runProcessing = async (fileId: string, options: { profileId?: string; mapping?: ImportMapping } = {}) => {
     try {
       setError('');
+      setRejectedRows(null);
       setProcessingFileId(fileId);
       setSuccess('Processing file... This may take a moment.');
-      const result = await transactionService.processFile(fileId);
-      let successMsg = `Saved ${result.transactionsCount} transactions!`;
-      if (result.duplicatesSkipped && result.duplicatesSkipped > 0) {
-        successMsg += ` (${result.duplicatesSkipped} duplicate(s) skipped)`;
-      }
-      successMsg += ' View them in the Transactions page.';
-      setSuccess(successMsg);
+      const { jobId } = await transactionService.processFile(fileId, options);
       await loadFiles();
+
+      // Processing runs in a background worker; wait for it to finish
+      const job = await jobService.waitForProcessing(jobId, (update) => {
+        if (update.status === 'queued' && update.attempts > 0) {
+          setSuccess(`Processing failed (${update.error}). Retrying, attempt ${update.attempts + 1} of ${update.maxAttempts}...`);
+        }
+      });
+
+      if (job.status === 'dead') {
+        setError(job.error || 'Failed to process file');
+        setSuccess('');
+        const rows: RejectedRow[] | undefined = job.result?.rejectedRows;
+        if (rows && rows.length > 0) {
+          setRejectedRows({ count: rows.length, rows });
+        }
+        await loadFiles();
+        return;
+      }
+
+      // Parsed rows wait on the review screen until the user imports them
+      navigate(`/imports/${fileId}/review`);
     } catch (err: any) {
       setError(err.response?.data?.error || 'Failed to process file');
       setSuccess('');
+      const rows: RejectedRow[] | undefined = err.response?.data?.rejectedRows;
+      if (rows && rows.length > 0) {
+        setRejectedRows({ count: rows.length, rows });
+      }
     } finally {
       setProcessingFileId(null);
     }
@@ -146,19 +298,25 @@ const DashboardPage: React.FC = () => {
         <section className="upload-section">
           <h2>Upload Bank Statement</h2>
           <p className="section-description">
-            Upload your bank statement (PDF or CSV) to analyze your spending and generate a personalized budget.
+            Upload your bank statements (PDF, CSV, Excel, OFX/QFX, QIF, CAMT.053, MT940 or a scan/photo) to analyze your spending and generate a personalized budget.
+            Select several files, or a ZIP of them, to upload a year of statements at once.
           </p>
 
           <div className="upload-box">
             <input
               type="file"
               id="file-input"
-              accept=".pdf,.csv"
+              accept=".pdf,.csv,.xlsx,.xls,.ofx,.qfx,.qif,.xml,.sta,.mt940,.940,.txt,.png,.jpg,.jpeg,.zip"
               onChange={handleFileSelect}
+              multiple
               className="file-input"
             />
             <label htmlFor="file-input" className="file-label">
-              {selectedFile ? selectedFile.name : 'Choose a file (PDF or CSV)'}
+              {selectedFiles.length === 0
+                ? 'Choose statement files'
+                : selectedFiles.length === 1
+                  ? selectedFiles[0].name
+                  : `${selectedFiles.length} files selected`}
             </label>
 
             <button
@@ -169,11 +327,88 @@ const DashboardPage: React.FC = () => {
             </button>
           </div>
 
+          <label className="upload-option">
+            <input
+              type="checkbox"
+              checked={isCreditCard}
+              onChange={(e) => setIsCreditCard(e.target.checked)}
+            />
+            Credit card statement (positive amounts are charges)
+          </label>
+
+          <label className="upload-option">
+            <input
+              type="checkbox"
+              checked={!!user?.auto_process_uploads}
+              onChange={(e) => handlePreferenceChange({ auto_process_uploads: e.target.checked })}
+            />
+            Process statements as soon as they're uploaded
+          </label>
+
+          <label className="upload-option">
+            <input
+              type="checkbox"
+              checked={!!user?.delete_statements_after_processing}
+              onChange={(e) => handlePreferenceChange({ delete_statements_after_processing: e.target.checked })}
+            />
+            Delete original statements once their transactions are imported
+          </label>
+
+          <label className="upload-option">
+            <input
+              type="checkbox"
+              checked={allowDuplicates}
+              onChange={(e) => setAllowDuplicates(e.target.checked)}
+            />
+            Upload files even if I've uploaded them before
+          </label>
+
           {error && <div className="error-message">{error}</div>}
           {success && <div className="success-message">{success}</div>}
 
+          {skippedUploads.length > 0 && (
+            <div className="rejected-rows">
+              <strong>{skippedUploads.length} file(s) were not uploaded:</strong>
+              <ul>
+                {skippedUploads.map((skipped, index) => (
+                  <li key={index}>
+                    <code>{skipped.name}</code> — {skipped.reason}
+                  </li>
+                ))}
+              </ul>
+            </div>
+          )}
+
+          {rejectedRows && (
+            <div className="rejected-rows">
+              <strong>{rejectedRows.count} row(s) were not imported:</strong>
+              <ul>
+                {rejectedRows.rows.map((row, index) => (
+                  <li key={index}>
+                    {row.line ? `Line ${row.line}: ` : ''}{row.reason} — <code>{row.text}</code>
+                  </li>
+                ))}
+              </ul>
+              {rejectedRows.count > rejectedRows.rows.length && (
+                <p>...and {rejectedRows.count - rejectedRows.rows.length} more.</p>
+              )}
+            </div>
+          )}
+
+          {mappingFile && (
+            <ImportMappingStep
+              key={(mappingFile.preview.headers || []).join('|')}
+              filename={mappingFile.filename}
+              preview={mappingFile.preview}
+              onSkipRowsChange={handleMappingSkipRows}
+              onSubmit={handleMappingSubmit}
+              onCancel={() => setMappingFile(null)}
+            />
+          )}
+
           <div className="info-box">
-            <strong>Note:</strong> We support bank statements in PDF or CSV format.
+            <strong>Note:</strong> We support bank statements in PDF, CSV, Excel, OFX/QFX, QIF, CAMT.053 or MT940 format,
+            as well as scanned PDFs and PNG/JPEG photos (read with OCR).
             Maximum file size: 10MB.
           </div>
         </section>
@@ -194,13 +429,73 @@ const DashboardPage: React.FC = () => {
                       <span>{formatFileSize(file.size)}</span>
                       <span>•</span>
                       <span>{formatDate(file.uploaded_at)}</span>
+                      {file.source_archive && (
+                        <>
+                          <span>•</span>
+                          <span>from {file.source_archive}</span>
+                        </>
+                      )}
+                      {file.file_purged_at && (
+                        <>
+                          <span>•</span>
+                          <span>original deleted</span>
+                        </>
+                      )}
                     </div>
+                    {file.quarantine_reason && (
+                      <div className="file-warning file-warning-danger">
+                        ⛔ Quarantined: {file.quarantine_reason}
+                      </div>
+                    )}
+                    {file.duplicate_of_filename && (
+                      <div className="file-warning">
+                        ⚠️ Same file as "{file.duplicate_of_filename}"
+                      </div>
+                    )}
+                    {file.overlaps_filename && (
+                      <div className="file-warning">
+                        ⚠️ Covers some of the same dates as "{file.overlaps_filename}"
+                      </div>
+                    )}
+                    {file.reconciliation_status === 'mismatch' && (
+                      <div className="reconciliation reconciliation-mismatch">
+                        ⚠️ Balances don't add up: off by {Math.abs(file.reconciliation_difference || 0).toFixed(2)}.
+                        Some rows may be missing or have the wrong sign.
+                      </div>
+                    )}
+                    {file.reconciliation_status === 'reversed' && (
+                      <div className="reconciliation reconciliation-mismatch">
+                        ⚠️ Balances only add up with every amount's sign reversed. Check the sign convention used for this file.
+                      </div>
+                    )}
+                    {file.reconciliation_status === 'balanced' && (
+                      <div className="reconciliation reconciliation-balanced">
+                        ✓ Reconciled: {file.opening_balance?.toFixed(2)} → {file.closing_balance?.toFixed(2)}
+                      </div>
+                    )}
+                    {(file.status === 'queued' || file.status === 'processing') && (
+                      <ProcessingProgress fileId={file.id} onFinished={loadFiles} />
+                    )}
                   </div>
                   <div className="file-actions">
                     <span className={`status-badge status-${file.status}`}>
                       {file.status.toUpperCase()}
                     </span>
-                    {file.status === 'pending' && processingFileId !== file.id && (
+                    {file.status === 'review' && (
+                      <Link to={`/imports/${file.id}/review`} className="btn-review" title="Review and import">
+                        Review
+                      </Link>
+                    )}
+                    {file.status === 'completed' && file.import_batch_id && (
+                      <button
+                        onClick={() => handleUndoImport(file)}
+                        className="btn-undo"
+                        title="Undo this import"
+                      >
+                        ↶
+                      </button>
+                    )}
+                    {file.status === 'pending' && !file.file_purged_at && processingFileId !== file.id && (
                       <button
                         onClick={() => handleProcessFile(file.id, file.filename)}
                         className="btn-process"
@@ -247,6 +542,16 @@ const DashboardPage: React.FC = () => {
               <h3>Budget Planner</h3>
               <p>Get AI-powered budget recommendations</p>
             </Link>
+            <Link to="/rules" className="action-card">
+              <span className="action-icon">🧭</span>
+              <h3>Rules</h3>
+              <p>Categorize recurring transactions your way</p>
+            </Link>
+            <Link to="/categories" className="action-card">
+              <span className="action-icon">🗂️</span>
+              <h3>Categories</h3>
+              <p>Add your own categories and subcategories</p>
+            </Link>
           </div>
         </section>
       </main>
@@ -0,0 +1,284 @@
+/**
+ * Import Review Page
+ *
+ * Shown after a statement is processed. Users can:
+ * - Check the parsed rows, proposed categories and warnings
+ * - Correct a row's date, description, amount, type or category
+ * - Exclude rows (likely duplicates start excluded)
+ * - Import the approved rows, or discard the import
+ */
+
+import React, { useState, useEffect, useCallback } from 'react';
+import { Link, useNavigate, useParams } from 'react-router-dom';
+import { useAuth } from '../context/AuthContext';
+import { importService, transactionService } from '../services/api';
+import { StagedImport, StagedTransaction, StagedTransactionEdit } from '../types';
+import './ImportReview.css';
+
+const EDITABLE_FIELDS = ['transaction_date', 'description', 'amount', 'category', 'is_income', 'excluded'] as const;
+
+interface Category {
+  name: string;
+}
+
+const ImportReviewPage: React.FC = () => {
+  const { fileId } = useParams<{ fileId: string }>();
+  const navigate = useNavigate();
+  const { logout } = useAuth();
+  const [staged, setStaged] = useState<StagedImport | null>(null);
+  const [rows, setRows] = useState<StagedTransaction[]>([]);
+  const [categories, setCategories] = useState<Category[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [committing, setCommitting] = useState(false);
+  const [error, setError] = useState('');
+
+  const loadImport = useCallback(async () => {
+    if (!fileId) return;
+
+    try {
+      setLoading(true);
+      const data = await importService.getStagedImport(fileId);
+      setStaged(data);
+      setRows(data.transactions);
+    } catch (err: any) {
+      setError(err.response?.data?.error || 'Failed to load import');
+    } finally {
+      setLoading(false);
+    }
+  }, [fileId]);
+
+  useEffect(() => {
+    loadImport();
+    transactionService.getCategories()
+      .then(setCategories)
+      .catch((err: any) => console.error('Failed to load categories:', err));
+  }, [loadImport]);
+
+  const updateRow = (id: string, changes: Partial<StagedTransaction>) => {
+    setRows(current => current.map(row => (row.id === id ? { ...row, ...changes } : row)));
+  };
+
+  // Only send the fields the user actually changed
+  const collectEdits = (): StagedTransactionEdit[] => {
+    const original = new Map((staged?.transactions || []).map(row => [row.id, row]));
+    const edits: StagedTransactionEdit[] = [];
+
+    for (const row of rows) {
+      const before = original.get(row.id);
+      if (!before) continue;
+
+      const edit: StagedTransactionEdit = { id: row.id };
+      for (const field of EDITABLE_FIELDS) {
+        if (row[field] !== before[field]) {
+          (edit as any)[field] = row[field];
+        }
+      }
+      if (Object.keys(edit).length > 1) {
+        edits.push(edit);
+      }
+    }
+
+    return edits;
+  };
+
+  const handleCommit = async () => {
+    if (!fileId) return;
+
+    const invalid = rows.find(row => !row.excluded && (!row.description.trim() || !(row.amount > 0) || !row.transaction_date));
+    if (invalid) {
+      setError('Every included row needs a date, a description and an amount above zero');
+      return;
+    }
+
+    try {
+      setError('');
+      setCommitting(true);
+      await importService.commitImport(fileId, collectEdits());
+      navigate('/transactions');
+    } catch (err: any) {
+      setError(err.response?.data?.error || 'Failed to import transactions');
+      setCommitting(false);
+    }
+  };
+
+  const handleDiscard = async () => {
+    if (!fileId || !window.confirm('Discard this import? No transactions will be saved.')) return;
+
+    try {
+      await importService.discardImport(fileId);
+      navigate('/dashboard');
+    } catch (err: any) {
+      setError(err.response?.data?.error || 'Failed to discard import');
+    }
+  };
+
+  const included = rows.filter(row => !row.excluded);
+  const totalIncome = included.filter(row => row.is_income).reduce((sum, row) => sum + row.amount, 0);
+  const totalExpenses = included.filter(row => !row.is_income).reduce((sum, row) => sum + row.amount, 0);
+  const reconciliation = staged?.reconciliation;
+
+  return (
+    <div className="review-container">
+      {/* Header */}
+      <header className="review-header">
+        <div className="header-left">
+          <Link to="/dashboard" className="back-link">← Dashboard</Link>
+          <h1>Review Import</h1>
+        </div>
+        <button onClick={logout} className="btn-secondary">Logout</button>
+      </header>
+
+      <main className="review-main">
+        {error && <div className="error-message">{error}</div>}
+
+        {loading ? (
+          <div className="loading">Loading import...</div>
+        ) : !staged ? (
+          <div className="empty-state">
+            <p>This import is no longer waiting for review.</p>
+            <Link to="/dashboard" className="btn-primary">Back to Dashboard</Link>
+          </div>
+        ) : (
+          <>
+            <section className="review-summary">
+              <h2>{staged.file.filename}</h2>
+              <p>
+                {included.length} of {rows.length} transaction(s) will be imported:
+                {' '}<span className="income">+${totalIncome.toFixed(2)}</span>
+                {' '}<span className="expense">-${totalExpenses.toFixed(2)}</span>
+              </p>
+
+              {reconciliation?.status === 'mismatch' && (
+                <div className="reconciliation reconciliation-mismatch">
+                  ⚠️ Balances don't add up: off by {Math.abs(reconciliation.difference || 0).toFixed(2)}.
+                  Some rows may be missing or have the wrong sign.
+                </div>
+              )}
+              {reconciliation?.status === 'reversed' && (
+                <div className="reconciliation reconciliation-mismatch">
+                  ⚠️ Balances only add up with every amount's sign reversed. Check the sign convention used for this file.
+                </div>
+              )}
+              {reconciliation?.status === 'balanced' && (
+                <div className="reconciliation reconciliation-balanced">
+                  ✓ Reconciled: {reconciliation.openingBalance?.toFixed(2)} → {reconciliation.closingBalance?.toFixed(2)}
+                </div>
+              )}
+              {staged.overlapsFile && (
+                <div className="file-warning">
+                  ⚠️ Covers some of the same dates as "{staged.overlapsFile.filename}" for the same account.
+                  Rows already imported from it are marked as duplicates and excluded.
+                </div>
+              )}
+
+              {staged.rejectedRows.length > 0 && (
+                <div className="rejected-rows">
+                  <strong>{staged.rejectedRows.length} row(s) could not be read and won't be imported:</strong>
+                  <ul>
+                    {staged.rejectedRows.map((row, index) => (
+                      <li key={index}>
+                        {row.line ? `Line ${row.line}: ` : ''}{row.reason} — <code>{row.text}</code>
+                      </li>
+                    ))}
+                  </ul>
+                </div>
+              )}
+            </section>
+
+            <table className="review-table">
+              <thead>
+                <tr>
+                  <th>Import</th>
+                  <th>Date</th>
+                  <th>Description</th>
+                  <th>Category</th>
+                  <th>Type</th>
+                  <th>Amount</th>
+                </tr>
+              </thead>
+              <tbody>
+                {rows.map((row) => (
+                  <tr key={row.id} className={row.excluded ? 'excluded-row' : ''}>
+                    <td>
+                      <input
+                        type="checkbox"
+                        checked={!row.excluded}
+                        onChange={(e) => updateRow(row.id, { excluded: !e.target.checked })}
+                        title={row.excluded ? 'Include this row' : 'Exclude this row'}
+                      />
+                    </td>
+                    <td>
+                      <input
+                        type="date"
+                        value={row.transaction_date}
+                        onChange={(e) => updateRow(row.id, { transaction_date: e.target.value })}
+                        className="review-input"
+                      />
+                    </td>
+                    <td className="review-description">
+                      <input
+                        type="text"
+                        value={row.description}
+                        maxLength={500}
+                        onChange={(e) => updateRow(row.id, { description: e.target.value })}
+                        className="review-input"
+                      />
+                      {row.warnings.map((warning) => (
+                        <span key={warning} className="review-warning">{warning}</span>
+                      ))}
+                    </td>
+                    <td>
+                      <select
+                        value={row.category}
+                        onChange={(e) => updateRow(row.id, { category: e.target.value })}
+                        className="review-input"
+                      >
+                        {!categories.some(cat => cat.name === row.category) && (
+                          <option value={row.category}>{row.category}</option>
+                        )}
+                        {categories.map((cat) => (
+                          <option key={cat.name} value={cat.name}>{cat.name}</option>
+                        ))}
+                      </select>
+                    </td>
+                    <td>
+                      <select
+                        value={row.is_income ? 'income' : 'expense'}
+                        onChange={(e) => updateRow(row.id, { is_income: e.target.value === 'income' })}
+                        className="review-input"
+                      >
+                        <option value="expense">Expense</option>
+                        <option value="income">Income</option>
+                      </select>
+                    </td>
+                    <td>
+                      <input
+                        type="number"
+                        min="0.01"
+                        step="0.01"
+                        value={Number.isNaN(row.amount) ? '' : row.amount}
+                        onChange={(e) => updateRow(row.id, { amount: parseFloat(e.target.value) })}
+                        className={`review-input review-amount ${row.is_income ? 'income' : 'expense'}`}
+                      />
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+
+            <div className="review-actions">
+              <button onClick={handleDiscard} className="btn-discard" disabled={committing}>
+                Discard
+              </button>
+              <button onClick={handleCommit} className="btn-commit" disabled={committing || included.length === 0}>
+                {committing ? 'Importing...' : `Import ${included.length} transaction(s)`}
+              </button>
+            </div>
+          </>
+        )}
+      </main>
+    </div>
+  );
+};
+
+export default ImportReviewPage;
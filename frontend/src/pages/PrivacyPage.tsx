@@ -160,6 +160,10 @@ const PrivacyPage: React.FC = () => {
               90 days, except where we are required to retain it for legal, regulatory, or legitimate
               business purposes. Certain data may be retained in backups for a limited period.
             </p>
+            <p>
+              Bank statements you delete are permanently removed from our storage and database within
+              30 days. Transactions you imported from them are kept until you delete them or your account.
+            </p>
           </section>
 
           <section>
@@ -368,8 +372,15 @@ const PrivacyPage: React.FC = () => {
               We take extra precautions with your financial data:
             </p>
             <ul>
-              <li>Bank statements are processed and the original files are deleted after extraction</li>
-              <li>We do not store bank account numbers, routing numbers, or full card numbers</li>
+              <li>
+                Original statement files are stored encrypted. Files you delete are permanently removed
+                within 30 days, and you can choose to have originals deleted as soon as their transactions
+                are imported
+              </li>
+              <li>
+                We do not store full bank account numbers, routing numbers, or full card numbers. Only the
+                last four digits of an account number are kept, to tell your accounts apart
+              </li>
               <li>Transaction data is stored in encrypted form</li>
               <li>We do not have access to your bank accounts or the ability to initiate transactions</li>
               <li>Uploaded documents are processed in isolated, secure environments</li>
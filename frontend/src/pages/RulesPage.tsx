@@ -0,0 +1,582 @@
+/**
+ * Rules Page
+ *
+ * Manage categorization rules. Rules run in order before AI
+ * categorization when a statement is imported. Users can:
+ * - Create, edit, enable/disable and delete rules
+ * - Change the order rules run in
+ * - Preview and apply rules to transactions already imported
+ * - See and forget the categories learned from their corrections
+ */
+
+import React, { useState, useEffect, useCallback } from 'react';
+import { Link } from 'react-router-dom';
+import { useAuth } from '../context/AuthContext';
+import { learnedCategoryService, ruleService, transactionService } from '../services/api';
+import {
+  CategorizationRule,
+  CategorizationRuleInput,
+  LearnedCategory,
+  RuleApplicationResult,
+  RuleDirection,
+} from '../types';
+import './Rules.css';
+
+interface Category {
+  name: string;
+  subcategories?: string[];
+}
+
+// The rule form keeps every field as text until it is saved
+interface RuleForm {
+  name: string;
+  description_contains: string;
+  description_regex: string;
+  merchant_equals: string;
+  amount_min: string;
+  amount_max: string;
+  account_id: string;
+  direction: '' | RuleDirection;
+  set_category: string;
+  set_subcategory: string;
+  add_tags: string;
+  set_description: string;
+}
+
+const EMPTY_FORM: RuleForm = {
+  name: '',
+  description_contains: '',
+  description_regex: '',
+  merchant_equals: '',
+  amount_min: '',
+  amount_max: '',
+  account_id: '',
+  direction: '',
+  set_category: '',
+  set_subcategory: '',
+  add_tags: '',
+  set_description: '',
+};
+
+const formFromRule = (rule: CategorizationRule): RuleForm => ({
+  name: rule.name,
+  description_contains: rule.description_contains || '',
+  description_regex: rule.description_regex || '',
+  merchant_equals: rule.merchant_equals || '',
+  amount_min: rule.amount_min != null ? String(rule.amount_min) : '',
+  amount_max: rule.amount_max != null ? String(rule.amount_max) : '',
+  account_id: rule.account_id || '',
+  direction: rule.direction || '',
+  set_category: rule.set_category || '',
+  set_subcategory: rule.set_subcategory || '',
+  add_tags: (rule.add_tags || []).join(', '),
+  set_description: rule.set_description || '',
+});
+
+// Blank fields are sent as null so editing can clear a condition
+const ruleFromForm = (form: RuleForm): CategorizationRuleInput => {
+  const text = (value: string) => value.trim() || null;
+  const amount = (value: string) => (value.trim() ? parseFloat(value) : null);
+
+  return {
+    name: form.name.trim(),
+    description_contains: text(form.description_contains),
+    description_regex: text(form.description_regex),
+    merchant_equals: text(form.merchant_equals),
+    amount_min: amount(form.amount_min),
+    amount_max: amount(form.amount_max),
+    account_id: text(form.account_id),
+    direction: form.direction || null,
+    set_category: text(form.set_category),
+    set_subcategory: text(form.set_subcategory),
+    add_tags: form.add_tags.split(',').map(tag => tag.trim()).filter(Boolean),
+    set_description: text(form.set_description),
+  };
+};
+
+/**
+ * One-line summary of when a rule applies
+ */
+const describeConditions = (rule: CategorizationRule): string => {
+  const parts: string[] = [];
+  if (rule.description_contains) parts.push(`description contains "${rule.description_contains}"`);
+  if (rule.description_regex) parts.push(`description matches /${rule.description_regex}/`);
+  if (rule.merchant_equals) parts.push(`merchant is "${rule.merchant_equals}"`);
+  if (rule.amount_min != null) parts.push(`amount ≥ ${rule.amount_min.toFixed(2)}`);
+  if (rule.amount_max != null) parts.push(`amount ≤ ${rule.amount_max.toFixed(2)}`);
+  if (rule.account_id) parts.push(`account is ${rule.account_id}`);
+  if (rule.direction) parts.push(rule.direction === 'income' ? 'money in' : 'money out');
+  return parts.join(' and ');
+};
+
+/**
+ * One-line summary of what a rule does
+ */
+const describeActions = (rule: CategorizationRule): string => {
+  const parts: string[] = [];
+  if (rule.set_category) {
+    parts.push(`category ${rule.set_category}${rule.set_subcategory ? ` / ${rule.set_subcategory}` : ''}`);
+  } else if (rule.set_subcategory) {
+    parts.push(`subcategory ${rule.set_subcategory}`);
+  }
+  if (rule.add_tags?.length) parts.push(`tag ${rule.add_tags.join(', ')}`);
+  if (rule.set_description) parts.push(`rename to "${rule.set_description}"`);
+  return parts.join('; ');
+};
+
+const RulesPage: React.FC = () => {
+  const { logout } = useAuth();
+  const [rules, setRules] = useState<CategorizationRule[]>([]);
+  const [categories, setCategories] = useState<Category[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState('');
+  const [success, setSuccess] = useState('');
+
+  // Form state (editingId is null when creating a rule)
+  const [showForm, setShowForm] = useState(false);
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [form, setForm] = useState<RuleForm>(EMPTY_FORM);
+  const [saving, setSaving] = useState(false);
+
+  // Applying rules to existing transactions
+  const [preview, setPreview] = useState<RuleApplicationResult | null>(null);
+  const [applying, setApplying] = useState(false);
+
+  // Categories learned from corrections on the transactions page
+  const [learned, setLearned] = useState<LearnedCategory[]>([]);
+
+  const loadRules = useCallback(async () => {
+    try {
+      setLoading(true);
+      setRules(await ruleService.getRules());
+    } catch (err: any) {
+      setError(err.response?.data?.error || 'Failed to load rules');
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    loadRules();
+    transactionService.getCategories()
+      .then(setCategories)
+      .catch((err: any) => console.error('Failed to load categories:', err));
+    learnedCategoryService.getMappings()
+      .then(setLearned)
+      .catch((err: any) => console.error('Failed to load learned categories:', err));
+  }, [loadRules]);
+
+  const showError = (err: any, fallback: string) => {
+    const details = err.response?.data?.details;
+    setError(details?.length ? details.map((d: any) => d.msg).join('. ') : err.response?.data?.error || fallback);
+    setSuccess('');
+  };
+
+  const showSuccess = (message: string) => {
+    setSuccess(message);
+    setError('');
+    setTimeout(() => setSuccess(''), 3000);
+  };
+
+  const openForm = (rule?: CategorizationRule) => {
+    setEditingId(rule?.id || null);
+    setForm(rule ? formFromRule(rule) : EMPTY_FORM);
+    setShowForm(true);
+  };
+
+  const closeForm = () => {
+    setShowForm(false);
+    setEditingId(null);
+    setForm(EMPTY_FORM);
+  };
+
+  const updateForm = (changes: Partial<RuleForm>) => {
+    setForm(current => ({ ...current, ...changes }));
+  };
+
+  const handleSave = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    try {
+      setSaving(true);
+      if (editingId) {
+        await ruleService.updateRule(editingId, ruleFromForm(form));
+        showSuccess('Rule updated');
+      } else {
+        await ruleService.createRule(ruleFromForm(form));
+        showSuccess('Rule saved');
+      }
+      closeForm();
+      setPreview(null);
+      await loadRules();
+    } catch (err: any) {
+      showError(err, 'Failed to save rule');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleToggle = async (rule: CategorizationRule) => {
+    try {
+      const updated = await ruleService.updateRule(rule.id, { enabled: !rule.enabled });
+      setRules(current => current.map(r => (r.id === rule.id ? updated : r)));
+      setPreview(null);
+    } catch (err: any) {
+      showError(err, 'Failed to update rule');
+    }
+  };
+
+  const handleDelete = async (rule: CategorizationRule) => {
+    if (!window.confirm(`Delete the rule "${rule.name}"? Transactions it already categorized keep their category.`)) return;
+
+    try {
+      await ruleService.deleteRule(rule.id);
+      setRules(current => current.filter(r => r.id !== rule.id));
+      setPreview(null);
+      showSuccess('Rule deleted');
+    } catch (err: any) {
+      showError(err, 'Failed to delete rule');
+    }
+  };
+
+  // Swap a rule with its neighbour, so it runs earlier (-1) or later (+1)
+  const handleMove = async (index: number, offset: -1 | 1) => {
+    const target = index + offset;
+    if (target < 0 || target >= rules.length) return;
+
+    const reordered = [...rules];
+    [reordered[index], reordered[target]] = [reordered[target], reordered[index]];
+    setRules(reordered);
+
+    try {
+      setRules(await ruleService.reorderRules(reordered.map(rule => rule.id)));
+      setPreview(null);
+    } catch (err: any) {
+      showError(err, 'Failed to reorder rules');
+      loadRules();
+    }
+  };
+
+  const handlePreview = async () => {
+    try {
+      setApplying(true);
+      setPreview(await ruleService.applyRules({ dryRun: true }));
+      setError('');
+    } catch (err: any) {
+      showError(err, 'Failed to preview rules');
+    } finally {
+      setApplying(false);
+    }
+  };
+
+  const handleApply = async () => {
+    if (!window.confirm('Apply your enabled rules to all existing transactions?')) return;
+
+    try {
+      setApplying(true);
+      const result = await ruleService.applyRules();
+      setPreview(null);
+      showSuccess(result.message);
+    } catch (err: any) {
+      showError(err, 'Failed to apply rules');
+    } finally {
+      setApplying(false);
+    }
+  };
+
+  const handleForget = async (mapping: LearnedCategory) => {
+    try {
+      await learnedCategoryService.forgetMapping(mapping.id);
+      setLearned(current => current.filter(m => m.id !== mapping.id));
+      showSuccess(`Forgot ${mapping.merchant_name}`);
+    } catch (err: any) {
+      showError(err, 'Failed to forget learned category');
+    }
+  };
+
+  const handleForgetAll = async () => {
+    if (!window.confirm('Forget every category learned from your corrections?')) return;
+
+    try {
+      const result = await learnedCategoryService.forgetAll();
+      setLearned([]);
+      showSuccess(result.message);
+    } catch (err: any) {
+      showError(err, 'Failed to forget learned categories');
+    }
+  };
+
+  const enabledCount = rules.filter(rule => rule.enabled).length;
+  const formSubcategories = categories.find(cat => cat.name === form.set_category)?.subcategories || [];
+
+  return (
+    <div className="rules-container">
+      {/* Header */}
+      <header className="rules-header">
+        <div className="header-left">
+          <Link to="/dashboard" className="back-link">← Dashboard</Link>
+          <h1>Rules</h1>
+        </div>
+        <button onClick={logout} className="btn-secondary">Logout</button>
+      </header>
+
+      <main className="rules-main">
+        {error && <div className="error-message">{error}</div>}
+        {success && <div className="success-message">{success}</div>}
+
+        <section className="rules-intro">
+          <p>
+            Rules run from top to bottom before AI categorization whenever you import a statement.
+            The first matching rule to set a category wins; tags from every matching rule are added.
+          </p>
+          {!showForm && (
+            <button onClick={() => openForm()} className="btn-rule-primary">+ New Rule</button>
+          )}
+        </section>
+
+        {showForm && (
+          <form className="rule-form" onSubmit={handleSave}>
+            <h2>{editingId ? 'Edit Rule' : 'New Rule'}</h2>
+
+            <label className="rule-field rule-field-wide">
+              Name
+              <input
+                type="text"
+                value={form.name}
+                maxLength={100}
+                required
+                onChange={(e) => updateForm({ name: e.target.value })}
+                placeholder="e.g. Coffee shops"
+              />
+            </label>
+
+            <fieldset>
+              <legend>When (all set conditions must match)</legend>
+              <label className="rule-field">
+                Description contains
+                <input type="text" value={form.description_contains} maxLength={255}
+                  onChange={(e) => updateForm({ description_contains: e.target.value })} />
+              </label>
+              <label className="rule-field">
+                Description matches (regex)
+                <input type="text" value={form.description_regex} maxLength={255}
+                  onChange={(e) => updateForm({ description_regex: e.target.value })} placeholder="^AMZN\s" />
+              </label>
+              <label className="rule-field">
+                Merchant is exactly
+                <input type="text" value={form.merchant_equals} maxLength={255}
+                  onChange={(e) => updateForm({ merchant_equals: e.target.value })} />
+              </label>
+              <label className="rule-field">
+                Account (last 4 digits are kept)
+                <input type="text" value={form.account_id} maxLength={100}
+                  onChange={(e) => updateForm({ account_id: e.target.value })} placeholder="****1234" />
+              </label>
+              <label className="rule-field">
+                Amount from
+                <input type="number" min="0" step="0.01" value={form.amount_min}
+                  onChange={(e) => updateForm({ amount_min: e.target.value })} />
+              </label>
+              <label className="rule-field">
+                Amount to
+                <input type="number" min="0" step="0.01" value={form.amount_max}
+                  onChange={(e) => updateForm({ amount_max: e.target.value })} />
+              </label>
+              <label className="rule-field">
+                Type
+                <select value={form.direction} onChange={(e) => updateForm({ direction: e.target.value as RuleForm['direction'] })}>
+                  <option value="">Income or expense</option>
+                  <option value="expense">Expense</option>
+                  <option value="income">Income</option>
+                </select>
+              </label>
+            </fieldset>
+
+            <fieldset>
+              <legend>Then</legend>
+              <label className="rule-field">
+                Set category
+                <select
+                  value={form.set_category}
+                  onChange={(e) => updateForm({ set_category: e.target.value, set_subcategory: '' })}
+                >
+                  <option value="">Leave to AI</option>
+                  {form.set_category && !categories.some(cat => cat.name === form.set_category) && (
+                    <option value={form.set_category}>{form.set_category}</option>
+                  )}
+                  {categories.map((cat) => (
+                    <option key={cat.name} value={cat.name}>{cat.name}</option>
+                  ))}
+                </select>
+              </label>
+              <label className="rule-field">
+                Set subcategory
+                {form.set_category ? (
+                  <select value={form.set_subcategory} onChange={(e) => updateForm({ set_subcategory: e.target.value })}>
+                    <option value="">None</option>
+                    {form.set_subcategory && !formSubcategories.includes(form.set_subcategory) && (
+                      <option value={form.set_subcategory}>{form.set_subcategory}</option>
+                    )}
+                    {formSubcategories.map((sub) => (
+                      <option key={sub} value={sub}>{sub}</option>
+                    ))}
+                  </select>
+                ) : (
+                  <input type="text" value={form.set_subcategory} maxLength={100}
+                    onChange={(e) => updateForm({ set_subcategory: e.target.value })} />
+                )}
+              </label>
+              <label className="rule-field">
+                Add tags (comma separated)
+                <input type="text" value={form.add_tags}
+                  onChange={(e) => updateForm({ add_tags: e.target.value })} placeholder="work, reimbursable" />
+              </label>
+              <label className="rule-field">
+                Rename description to
+                <input type="text" value={form.set_description} maxLength={500}
+                  onChange={(e) => updateForm({ set_description: e.target.value })} />
+              </label>
+            </fieldset>
+
+            <div className="rule-form-actions">
+              <button type="button" onClick={closeForm} className="btn-rule-secondary" disabled={saving}>
+                Cancel
+              </button>
+              <button type="submit" className="btn-rule-primary" disabled={saving}>
+                {saving ? 'Saving...' : 'Save Rule'}
+              </button>
+            </div>
+          </form>
+        )}
+
+        {loading ? (
+          <div className="loading">Loading rules...</div>
+        ) : rules.length === 0 ? (
+          <div className="rules-empty">
+            <p>No rules yet. Add one to categorize recurring transactions the same way every time.</p>
+          </div>
+        ) : (
+          <ol className="rules-list">
+            {rules.map((rule, index) => (
+              <li key={rule.id} className={`rule-card ${rule.enabled ? '' : 'rule-disabled'}`}>
+                <div className="rule-order">
+                  <button onClick={() => handleMove(index, -1)} disabled={index === 0} title="Run earlier">▲</button>
+                  <button onClick={() => handleMove(index, 1)} disabled={index === rules.length - 1} title="Run later">▼</button>
+                </div>
+                <div className="rule-body">
+                  <h3>{rule.name}</h3>
+                  <p><strong>When</strong> {describeConditions(rule)}</p>
+                  <p><strong>Then</strong> {describeActions(rule)}</p>
+                </div>
+                <div className="rule-controls">
+                  <label className="rule-toggle">
+                    <input type="checkbox" checked={rule.enabled} onChange={() => handleToggle(rule)} />
+                    {rule.enabled ? 'On' : 'Off'}
+                  </label>
+                  <button onClick={() => openForm(rule)} className="btn-rule-secondary">Edit</button>
+                  <button onClick={() => handleDelete(rule)} className="btn-rule-danger">Delete</button>
+                </div>
+              </li>
+            ))}
+          </ol>
+        )}
+
+        {/* Apply to existing transactions */}
+        {enabledCount > 0 && (
+          <section className="rules-apply">
+            <h2>Existing Transactions</h2>
+            <p>Run your {enabledCount} enabled rule(s) over the transactions you've already imported.</p>
+            <div className="rule-form-actions">
+              <button onClick={handlePreview} className="btn-rule-secondary" disabled={applying}>
+                Preview Changes
+              </button>
+              <button onClick={handleApply} className="btn-rule-primary" disabled={applying}>
+                {applying ? 'Working...' : 'Apply to Existing Transactions'}
+              </button>
+            </div>
+
+            {preview && (
+              <div className="rules-preview">
+                <p>{preview.message}</p>
+                {preview.changes.length > 0 && (
+                  <table className="rules-preview-table">
+                    <thead>
+                      <tr>
+                        <th>Transaction</th>
+                        <th>Now</th>
+                        <th>After</th>
+                      </tr>
+                    </thead>
+                    <tbody>
+                      {preview.changes.map((change) => (
+                        <tr key={change.id}>
+                          <td>{change.description}</td>
+                          <td>
+                            {change.before.category}{change.before.subcategory ? ` / ${change.before.subcategory}` : ''}
+                            {change.before.tags.length > 0 && <small> [{change.before.tags.join(', ')}]</small>}
+                          </td>
+                          <td>
+                            {change.after.category}{change.after.subcategory ? ` / ${change.after.subcategory}` : ''}
+                            {change.after.tags.length > 0 && <small> [{change.after.tags.join(', ')}]</small>}
+                            {change.after.description !== change.before.description && (
+                              <div className="rules-preview-rename">→ {change.after.description}</div>
+                            )}
+                          </td>
+                        </tr>
+                      ))}
+                    </tbody>
+                  </table>
+                )}
+                {preview.updated > preview.changes.length && (
+                  <p>…and {preview.updated - preview.changes.length} more.</p>
+                )}
+              </div>
+            )}
+          </section>
+        )}
+
+        {/* Learned from corrections */}
+        <section className="rules-apply">
+          <h2>Learned From Your Corrections</h2>
+          <p>
+            When you change a transaction's category, we remember it for that merchant and use it on
+            future imports (after your rules, before the AI).
+          </p>
+          {learned.length === 0 ? (
+            <p>Nothing learned yet.</p>
+          ) : (
+            <>
+              <table className="rules-preview-table">
+                <thead>
+                  <tr>
+                    <th>Merchant</th>
+                    <th>Category</th>
+                    <th>Used</th>
+                    <th></th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {learned.map((mapping) => (
+                    <tr key={mapping.id}>
+                      <td title={`Matches "${mapping.merchant_key}"`}>{mapping.merchant_name}</td>
+                      <td>{mapping.category}{mapping.subcategory ? ` / ${mapping.subcategory}` : ''}</td>
+                      <td>{mapping.times_applied} time(s)</td>
+                      <td>
+                        <button onClick={() => handleForget(mapping)} className="btn-rule-danger">Forget</button>
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+              <div className="rule-form-actions">
+                <button onClick={handleForgetAll} className="btn-rule-secondary">Forget All</button>
+              </div>
+            </>
+          )}
+        </section>
+      </main>
+    </div>
+  );
+};
+
+export default RulesPage;
@@ -18,12 +18,20 @@ interface Transaction {
   category: string;
   subcategory?: string;
   is_income: boolean;
+  ocr_confidence?: number | null;
+  tags?: string[];
+  merchant_name?: string | null;
+  merchant_color?: string | null;
 }
 
+// Transactions read from scans below this OCR confidence are flagged for checking
+const LOW_OCR_CONFIDENCE = 70;
+
 interface Category {
   name: string;
   icon?: string;
   color?: string;
+  subcategories?: string[];
 }
 
 const TransactionsPage: React.FC = () => {
@@ -42,7 +50,9 @@ const TransactionsPage: React.FC = () => {
   // Edit state
   const [editingId, setEditingId] = useState<string | null>(null);
   const [editCategory, setEditCategory] = useState('');
+  const [editSubcategory, setEditSubcategory] = useState('');
   const [editDescription, setEditDescription] = useState('');
+  const [editApplyToSimilar, setEditApplyToSimilar] = useState(false);
 
   const loadTransactions = useCallback(async () => {
     try {
@@ -93,18 +103,27 @@ const TransactionsPage: React.FC = () => {
   const handleEdit = (transaction: Transaction) => {
     setEditingId(transaction.id);
     setEditCategory(transaction.category);
+    setEditSubcategory(transaction.subcategory || '');
     setEditDescription(transaction.description);
+    setEditApplyToSimilar(false);
   };
 
   const handleSave = async () => {
     if (!editingId) return;
 
+    // An unchanged subcategory is left alone (the server drops it if the category changed)
+    const original = transactions.find(t => t.id === editingId);
+    const subcategoryChanged = editSubcategory !== (original?.subcategory || '');
+
     try {
-      await transactionService.updateTransaction(editingId, {
+      // Category corrections are remembered for the merchant's future imports
+      const result = await transactionService.updateTransaction(editingId, {
         category: editCategory,
+        subcategory: subcategoryChanged ? editSubcategory : undefined,
         description: editDescription,
+        applyToSimilar: editApplyToSimilar,
       });
-      setSuccess('Transaction updated!');
+      setSuccess(result.similarUpdated > 0 ? `${result.message}!` : 'Transaction updated!');
       setEditingId(null);
       await loadTransactions();
       setTimeout(() => setSuccess(''), 3000);
@@ -116,7 +135,9 @@ const TransactionsPage: React.FC = () => {
   const handleCancel = () => {
     setEditingId(null);
     setEditCategory('');
+    setEditSubcategory('');
     setEditDescription('');
+    setEditApplyToSimilar(false);
   };
 
   const handleDelete = async (id: string) => {
@@ -132,9 +153,9 @@ const TransactionsPage: React.FC = () => {
     }
   };
 
-  const handleExport = async () => {
+  const handleExport = async (format: 'csv' | 'qif') => {
     try {
-      await transactionService.exportTransactions(selectedMonth, selectedYear);
+      await transactionService.exportTransactions(selectedMonth, selectedYear, format);
       setSuccess('Export downloaded!');
       setTimeout(() => setSuccess(''), 3000);
     } catch (err: any) {
@@ -162,6 +183,8 @@ const TransactionsPage: React.FC = () => {
 
   const years = Array.from({ length: 5 }, (_, i) => new Date().getFullYear() - i);
 
+  const editSubcategories = categories.find(cat => cat.name === editCategory)?.subcategories || [];
+
   const totalIncome = transactions.filter(t => t.is_income).reduce((sum, t) => sum + Math.abs(t.amount), 0);
   const totalExpenses = transactions.filter(t => !t.is_income).reduce((sum, t) => sum + Math.abs(t.amount), 0);
 
@@ -211,9 +234,14 @@ const TransactionsPage: React.FC = () => {
           </select>
         </div>
 
-        <button onClick={handleExport} className="btn-export">
-          Export CSV
-        </button>
+        <div className="export-actions">
+          <button onClick={() => handleExport('csv')} className="btn-export">
+            Export CSV
+          </button>
+          <button onClick={() => handleExport('qif')} className="btn-export">
+            Export QIF
+          </button>
+        </div>
       </div>
 
       {/* Summary */}
@@ -271,22 +299,75 @@ const TransactionsPage: React.FC = () => {
                         className="edit-input"
                       />
                     ) : (
-                      transaction.description
+                      <>
+                        {transaction.description}
+                        {transaction.ocr_confidence != null && transaction.ocr_confidence < LOW_OCR_CONFIDENCE && (
+                          <span
+                            className="ocr-warning"
+                            title={`Read from a scanned statement (OCR confidence ${transaction.ocr_confidence}%). Please check the details.`}
+                          >
+                            Check
+                          </span>
+                        )}
+                        {transaction.merchant_name && (
+                          <span
+                            className="merchant-chip"
+                            style={{ borderLeftColor: transaction.merchant_color || undefined }}
+                            title="Merchant"
+                          >
+                            {transaction.merchant_name}
+                          </span>
+                        )}
+                        {transaction.tags?.map((tag) => (
+                          <span key={tag} className="transaction-tag">{tag}</span>
+                        ))}
+                      </>
                     )}
                   </td>
                   <td className="category-cell">
                     {editingId === transaction.id ? (
-                      <select
-                        value={editCategory}
-                        onChange={(e) => setEditCategory(e.target.value)}
-                        className="edit-select"
-                      >
-                        {categories.map((cat) => (
-                          <option key={cat.name} value={cat.name}>{cat.name}</option>
-                        ))}
-                      </select>
+                      <>
+                        <select
+                          value={editCategory}
+                          onChange={(e) => {
+                            setEditCategory(e.target.value);
+                            setEditSubcategory('');
+                          }}
+                          className="edit-select"
+                        >
+                          {categories.map((cat) => (
+                            <option key={cat.name} value={cat.name}>{cat.name}</option>
+                          ))}
+                        </select>
+                        {(editSubcategories.length > 0 || editSubcategory) && (
+                          <select
+                            value={editSubcategory}
+                            onChange={(e) => setEditSubcategory(e.target.value)}
+                            className="edit-select"
+                          >
+                            <option value="">No subcategory</option>
+                            {editSubcategory && !editSubcategories.includes(editSubcategory) && (
+                              <option value={editSubcategory}>{editSubcategory}</option>
+                            )}
+                            {editSubcategories.map((sub) => (
+                              <option key={sub} value={sub}>{sub}</option>
+                            ))}
+                          </select>
+                        )}
+                        <label className="apply-similar" title="Also recategorize other transactions from this merchant">
+                          <input
+                            type="checkbox"
+                            checked={editApplyToSimilar}
+                            onChange={(e) => setEditApplyToSimilar(e.target.checked)}
+                          />
+                          Apply to all similar
+                        </label>
+                      </>
                     ) : (
-                      <span className="category-badge">{transaction.category}</span>
+                      <span className="category-badge">
+                        {transaction.category}
+                        {transaction.subcategory && ` / ${transaction.subcategory}`}
+                      </span>
                     )}
                   </td>
                   <td className={`amount-cell ${transaction.is_income ? 'income' : 'expense'}`}>
@@ -316,6 +397,8 @@ const TransactionsPage: React.FC = () => {
       <div className="quick-nav">
         <Link to="/analytics" className="nav-link">View Analytics →</Link>
         <Link to="/budget" className="nav-link">Budget Planner →</Link>
+        <Link to="/rules" className="nav-link">Rules & Learned Categories →</Link>
+        <Link to="/categories" className="nav-link">Manage Categories →</Link>
       </div>
     </div>
   );
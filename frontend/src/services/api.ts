@@ -6,11 +6,37 @@
  */
 
 import axios from 'axios';
-import { RegisterData, LoginData, AuthResponse, User, UploadedFile } from '../types';
+import {
+  RegisterData,
+  LoginData,
+  AuthResponse,
+  User,
+  UploadedFile,
+  UploadResult,
+  ImportMapping,
+  ImportProfile,
+  FilePreview,
+  SignConvention,
+  ProcessFileResult,
+  Job,
+  ProcessingProgress,
+  StagedImport,
+  StagedTransactionEdit,
+  CategorizationRule,
+  CategorizationRuleInput,
+  RuleApplicationResult,
+  LearnedCategory,
+  Category,
+  CategoryNode,
+  CategoryInput,
+} from '../types';
 
 // Base URL for API
 const API_URL = process.env.REACT_APP_API_URL || 'http://localhost:3001/api';
 
+// How often to check on a background job
+const JOB_POLL_INTERVAL_MS = 2000;
+
 // Create axios instance with default config
 const api = axios.create({
   baseURL: API_URL,
@@ -59,6 +85,16 @@ export const authService = {
     return response.data.user;
   },
 
+  /**
+   * Update the current user's preferences
+   */
+  updatePreferences: async (
+    preferences: { auto_process_uploads?: boolean; delete_statements_after_processing?: boolean }
+  ): Promise<User> => {
+    const response = await api.patch<{ user: User }>('/auth/me/preferences', preferences);
+    return response.data.user;
+  },
+
   /**
    * Logout
    */
@@ -78,13 +114,20 @@ export const authService = {
 
 export const uploadService = {
   /**
-   * Upload a bank statement
+   * Upload bank statements (any mix of statement files and ZIP archives of them).
+   * Files uploaded before are skipped unless allowDuplicates is set.
    */
-  uploadFile: async (file: File): Promise<UploadedFile> => {
+  uploadFiles: async (
+    files: File[],
+    signConvention: SignConvention = 'negative_is_expense',
+    allowDuplicates: boolean = false
+  ): Promise<UploadResult> => {
     const formData = new FormData();
-    formData.append('file', file);
+    formData.append('signConvention', signConvention);
+    formData.append('allowDuplicates', String(allowDuplicates));
+    files.forEach(file => formData.append('files', file));
 
-    const response = await api.post<{ message: string; file: UploadedFile }>(
+    const response = await api.post<UploadResult>(
       '/upload',
       formData,
       {
@@ -93,7 +136,7 @@ export const uploadService = {
         },
       }
     );
-    return response.data.file;
+    return response.data;
   },
 
   /**
@@ -108,6 +151,19 @@ export const uploadService = {
       size: file.file_size,
       status: file.status,
       uploaded_at: file.uploaded_at,
+      period_start: file.period_start,
+      period_end: file.period_end,
+      // Postgres DECIMAL columns come back as strings
+      opening_balance: file.opening_balance != null ? Number(file.opening_balance) : null,
+      closing_balance: file.closing_balance != null ? Number(file.closing_balance) : null,
+      reconciliation_status: file.reconciliation_status,
+      reconciliation_difference: file.reconciliation_difference != null ? Number(file.reconciliation_difference) : null,
+      import_batch_id: file.import_batch_id,
+      imported_count: file.imported_count,
+      source_archive: file.source_archive,
+      quarantine_reason: file.quarantine_reason,
+      duplicate_of_filename: file.duplicate_of_filename,
+      overlaps_filename: file.overlaps_filename,
     }));
   },
 
@@ -123,10 +179,14 @@ export const uploadService = {
 
 export const transactionService = {
   /**
-   * Process uploaded file to extract transactions
+   * Queue an uploaded file for processing (follow it with jobService.getJob)
+   * Pass a saved profile or a one-off column mapping for CSV files
    */
-  processFile: async (fileId: string): Promise<{ transactionsCount: number; duplicatesSkipped?: number }> => {
-    const response = await api.post(`/transactions/process/${fileId}`);
+  processFile: async (
+    fileId: string,
+    options: { profileId?: string; mapping?: ImportMapping } = {}
+  ): Promise<{ fileId: string; jobId: string }> => {
+    const response = await api.post(`/transactions/process/${fileId}`, options);
     return response.data;
   },
 
@@ -162,7 +222,10 @@ export const transactionService = {
   /**
    * Update a transaction
    */
-  updateTransaction: async (transactionId: string, updates: { category?: string; subcategory?: string; description?: string }) => {
+  updateTransaction: async (
+    transactionId: string,
+    updates: { category?: string; subcategory?: string; description?: string; applyToSimilar?: boolean }
+  ): Promise<{ message: string; similarUpdated: number }> => {
     const response = await api.put(`/transactions/${transactionId}`, updates);
     return response.data;
   },
@@ -176,12 +239,13 @@ export const transactionService = {
   },
 
   /**
-   * Export transactions as CSV
+   * Export transactions as CSV or QIF
    */
-  exportTransactions: async (month?: number, year?: number) => {
+  exportTransactions: async (month?: number, year?: number, format: 'csv' | 'qif' = 'csv') => {
     const params = new URLSearchParams();
     if (month) params.append('month', month.toString());
     if (year) params.append('year', year.toString());
+    params.append('format', format);
 
     const response = await api.get(`/transactions/export?${params.toString()}`, {
       responseType: 'blob',
@@ -191,7 +255,7 @@ export const transactionService = {
     const url = window.URL.createObjectURL(new Blob([response.data]));
     const link = document.createElement('a');
     link.href = url;
-    link.setAttribute('download', `transactions-${month || 'all'}-${year || 'all'}.csv`);
+    link.setAttribute('download', `transactions-${month || 'all'}-${year || 'all'}.${format}`);
     document.body.appendChild(link);
     link.click();
     link.remove();
@@ -199,7 +263,7 @@ export const transactionService = {
   },
 
   /**
-   * Get available categories
+   * Get the categories a transaction can be given, with their subcategory names
    */
   getCategories: async () => {
     const response = await api.get('/transactions/categories');
@@ -207,4 +271,303 @@ export const transactionService = {
   },
 };
 
+// ===== IMPORT PROFILES =====
+
+export const importProfileService = {
+  /**
+   * Get saved CSV column mappings
+   */
+  getProfiles: async (): Promise<ImportProfile[]> => {
+    const response = await api.get<{ profiles: ImportProfile[] }>('/import-profiles');
+    return response.data.profiles;
+  },
+
+  /**
+   * Save a column mapping as a named profile
+   */
+  createProfile: async (name: string, headers: string[], mapping: ImportMapping): Promise<ImportProfile> => {
+    const response = await api.post<{ profile: ImportProfile }>('/import-profiles', { name, headers, ...mapping });
+    return response.data.profile;
+  },
+
+  /**
+   * Delete a profile
+   */
+  deleteProfile: async (profileId: string): Promise<void> => {
+    await api.delete(`/import-profiles/${profileId}`);
+  },
+
+  /**
+   * Get an upload's columns, sample rows and matching profile
+   */
+  previewFile: async (fileId: string, skipRows: number = 0): Promise<FilePreview> => {
+    const response = await api.get<FilePreview>(`/import-profiles/preview/${fileId}?skipRows=${skipRows}`);
+    return response.data;
+  },
+};
+
+// ===== BACKGROUND JOBS =====
+
+export const jobService = {
+  /**
+   * Get a background job's state (and result once finished)
+   */
+  getJob: async <Result = any>(jobId: string): Promise<Job<Result>> => {
+    const response = await api.get<{ job: Job<Result> }>(`/jobs/${jobId}`);
+    return response.data.job;
+  },
+
+  /**
+   * Poll a processing job until it completes or is given up on
+   */
+  waitForProcessing: async (jobId: string, onUpdate?: (job: Job<ProcessFileResult>) => void): Promise<Job<ProcessFileResult>> => {
+    for (;;) {
+      const job = await jobService.getJob<ProcessFileResult>(jobId);
+      onUpdate?.(job);
+      if (job.status === 'completed' || job.status === 'dead') {
+        return job;
+      }
+      await new Promise(resolve => setTimeout(resolve, JOB_POLL_INTERVAL_MS));
+    }
+  },
+};
+
+// ===== PROCESSING PROGRESS =====
+
+export const progressService = {
+  /**
+   * Follow a file's processing progress (Server-Sent Events). Uses fetch
+   * rather than EventSource so the token goes in a header, not the URL.
+   * Returns a function that stops listening.
+   */
+  subscribe: (fileId: string, onEvent: (progress: ProcessingProgress) => void): (() => void) => {
+    const controller = new AbortController();
+    const token = localStorage.getItem('token');
+
+    (async () => {
+      const response = await fetch(`${API_URL}/upload/${fileId}/progress`, {
+        headers: token ? { Authorization: `Bearer ${token}` } : {},
+        signal: controller.signal,
+      });
+      if (!response.ok || !response.body) return;
+
+      const reader = response.body.getReader();
+      const decoder = new TextDecoder();
+      let buffer = '';
+
+      for (;;) {
+        const { done, value } = await reader.read();
+        if (done) break;
+        buffer += decoder.decode(value, { stream: true });
+
+        // Events are separated by a blank line; keep any partial event for the next chunk
+        const events = buffer.split('\n\n');
+        buffer = events.pop() || '';
+        for (const event of events) {
+          const data = event.split('\n').find(line => line.startsWith('data: '));
+          if (data) {
+            onEvent(JSON.parse(data.slice('data: '.length)));
+          }
+        }
+      }
+    })().catch((err) => {
+      // Progress is a nice-to-have; the job's outcome is still polled
+      if (err.name !== 'AbortError') {
+        console.error('Progress stream error:', err);
+      }
+    });
+
+    return () => controller.abort();
+  },
+};
+
+// ===== IMPORT REVIEW =====
+
+const toNumber = (value: any): number | null => (value != null ? Number(value) : null);
+
+export const importService = {
+  /**
+   * Get a processed file's staged rows for review
+   */
+  getStagedImport: async (fileId: string): Promise<StagedImport> => {
+    const response = await api.get<any>(`/imports/${fileId}`);
+    const { file, reconciliation, rejectedRows, overlapsFile, transactions } = response.data;
+    // Postgres DECIMAL columns come back as strings and DATE columns as timestamps
+    return {
+      file,
+      rejectedRows,
+      overlapsFile: overlapsFile || null,
+      reconciliation: {
+        ...reconciliation,
+        openingBalance: toNumber(reconciliation.openingBalance),
+        closingBalance: toNumber(reconciliation.closingBalance),
+        difference: toNumber(reconciliation.difference),
+      },
+      transactions: transactions.map((row: any) => ({
+        ...row,
+        transaction_date: String(row.transaction_date).split('T')[0],
+        amount: Number(row.amount),
+      })),
+    };
+  },
+
+  /**
+   * Import the rows that aren't excluded, applying the user's edits
+   */
+  commitImport: async (fileId: string, rows: StagedTransactionEdit[]): Promise<{ message: string; transactionsCount: number }> => {
+    const response = await api.post(`/imports/${fileId}/commit`, { rows });
+    return response.data;
+  },
+
+  /**
+   * Discard a staged import
+   */
+  discardImport: async (fileId: string): Promise<void> => {
+    await api.delete(`/imports/${fileId}`);
+  },
+
+  /**
+   * Remove the transactions a committed import inserted.
+   * Fails with 409 (and the edited transactions) when some were changed
+   * since the import, unless confirm is set.
+   */
+  revertBatch: async (batchId: string, confirm: boolean = false): Promise<{ message: string; removedCount: number }> => {
+    const response = await api.post(`/imports/batches/${batchId}/revert`, { confirm });
+    return response.data;
+  },
+};
+
+// ===== CATEGORIZATION RULES =====
+
+export const ruleService = {
+  /**
+   * Get the user's rules in the order they run
+   */
+  getRules: async (): Promise<CategorizationRule[]> => {
+    const response = await api.get<{ rules: CategorizationRule[] }>('/rules');
+    return response.data.rules;
+  },
+
+  /**
+   * Create a rule (it runs after the existing ones)
+   */
+  createRule: async (rule: CategorizationRuleInput): Promise<CategorizationRule> => {
+    const response = await api.post<{ rule: CategorizationRule }>('/rules', rule);
+    return response.data.rule;
+  },
+
+  /**
+   * Update a rule
+   */
+  updateRule: async (ruleId: string, rule: CategorizationRuleInput): Promise<CategorizationRule> => {
+    const response = await api.put<{ rule: CategorizationRule }>(`/rules/${ruleId}`, rule);
+    return response.data.rule;
+  },
+
+  /**
+   * Delete a rule
+   */
+  deleteRule: async (ruleId: string): Promise<void> => {
+    await api.delete(`/rules/${ruleId}`);
+  },
+
+  /**
+   * Set the order rules run in (first runs first)
+   */
+  reorderRules: async (ruleIds: string[]): Promise<CategorizationRule[]> => {
+    const response = await api.put<{ rules: CategorizationRule[] }>('/rules/order', { ruleIds });
+    return response.data.rules;
+  },
+
+  /**
+   * Apply rules to existing transactions. With dryRun, only reports what
+   * would change.
+   */
+  applyRules: async (options: { ruleIds?: string[]; dryRun?: boolean } = {}): Promise<RuleApplicationResult> => {
+    const response = await api.post<RuleApplicationResult>('/rules/apply', options);
+    return response.data;
+  },
+};
+
+// ===== LEARNED CATEGORIES =====
+
+export const learnedCategoryService = {
+  /**
+   * Get the merchant -> category mappings learned from corrections
+   */
+  getMappings: async (): Promise<LearnedCategory[]> => {
+    const response = await api.get<{ mappings: LearnedCategory[] }>('/learned-categories');
+    return response.data.mappings;
+  },
+
+  /**
+   * Forget one mapping
+   */
+  forgetMapping: async (mappingId: string): Promise<void> => {
+    await api.delete(`/learned-categories/${mappingId}`);
+  },
+
+  /**
+   * Forget every mapping
+   */
+  forgetAll: async (): Promise<{ message: string; forgotten: number }> => {
+    const response = await api.delete('/learned-categories');
+    return response.data;
+  },
+};
+
+// ===== CATEGORIES =====
+
+export const categoryService = {
+  /**
+   * Get the category tree (defaults and the user's own)
+   */
+  getCategories: async (includeArchived = false): Promise<CategoryNode[]> => {
+    const response = await api.get<{ categories: CategoryNode[] }>(
+      `/categories${includeArchived ? '?includeArchived=true' : ''}`
+    );
+    return response.data.categories;
+  },
+
+  /**
+   * Create a category, or a subcategory with parent_id
+   */
+  createCategory: async (category: CategoryInput): Promise<Category> => {
+    const response = await api.post<{ category: Category }>('/categories', category);
+    return response.data.category;
+  },
+
+  /**
+   * Rename a category (its transactions follow) or change its icon or colour
+   */
+  updateCategory: async (categoryId: string, updates: CategoryInput): Promise<Category> => {
+    const response = await api.put<{ category: Category }>(`/categories/${categoryId}`, updates);
+    return response.data.category;
+  },
+
+  /**
+   * Move everything in a category into another, then archive it
+   */
+  mergeCategory: async (categoryId: string, targetId: string): Promise<{ message: string; category: Category }> => {
+    const response = await api.post(`/categories/${categoryId}/merge`, { targetId });
+    return response.data;
+  },
+
+  /**
+   * Archive a category (and its subcategories)
+   */
+  archiveCategory: async (categoryId: string): Promise<Category> => {
+    const response = await api.delete<{ category: Category }>(`/categories/${categoryId}`);
+    return response.data.category;
+  },
+
+  /**
+   * Restore an archived category
+   */
+  restoreCategory: async (categoryId: string): Promise<Category> => {
+    const response = await api.post<{ category: Category }>(`/categories/${categoryId}/restore`);
+    return response.data.category;
+  },
+};
+
 export default api;
@@ -10,6 +10,8 @@ export interface User {
   first_name?: string;
   last_name?: string;
   agreed_to_terms: boolean;
+  auto_process_uploads?: boolean; // Queue statements for processing as soon as they're uploaded
+  delete_statements_after_processing?: boolean; // Remove original files once their transactions are imported
   created_at: string;
 }
 
@@ -36,6 +38,277 @@ export interface UploadedFile {
   id: string;
   filename: string;
   size: number;
-  status: 'pending' | 'processing' | 'completed' | 'error';
+  status: 'pending' | 'queued' | 'processing' | 'review' | 'completed' | 'error' | 'quarantined';
   uploaded_at: string;
+  importProfile?: { id: string; name: string } | null; // Saved CSV mapping recognised on upload
+  jobId?: string | null; // Set when the upload was queued for processing straight away
+  source_archive?: string | null; // ZIP the statement was unpacked from
+  quarantine_reason?: string | null; // Why the file was rejected (it is never processed)
+  file_purged_at?: string | null; // Original removed under the user's retention setting
+  duplicateOf?: MatchingUpload | null; // Identical earlier upload (kept anyway)
+  duplicate_of_filename?: string | null;
+  overlaps_filename?: string | null; // Statement of the same account covering the same dates
+  period_start?: string | null;
+  period_end?: string | null;
+  opening_balance?: number | null;
+  closing_balance?: number | null;
+  reconciliation_status?: ReconciliationStatus | null; // Set once the file is processed
+  reconciliation_difference?: number | null;
+  import_batch_id?: string | null; // Current committed import, which can be reverted
+  imported_count?: number | null;
+}
+
+// An earlier upload that a new file is identical to
+export interface MatchingUpload {
+  id: string;
+  filename: string;
+  uploaded_at: string;
+}
+
+// A file in an upload that wasn't kept (e.g. an unsupported file inside a ZIP)
+export interface SkippedUpload {
+  name: string;
+  reason: string;
+  duplicateOf?: MatchingUpload; // Set when the same file was uploaded before
+}
+
+// An upload that failed validation or the virus scan
+export interface QuarantinedUpload {
+  id: string;
+  filename: string;
+  reason: string;
+}
+
+export interface UploadResult {
+  message: string;
+  files: UploadedFile[];
+  skipped: SkippedUpload[];
+  quarantined: QuarantinedUpload[];
+}
+
+// Whether a processed statement's transactions add up to its printed balances
+// ('reversed': they only do with every amount's sign flipped)
+export type ReconciliationStatus = 'balanced' | 'reversed' | 'mismatch' | 'unavailable';
+
+export type SignConvention = 'negative_is_expense' | 'positive_is_expense';
+
+// Column mapping for a bank's CSV export
+export interface ImportMapping {
+  date_column: string;
+  date_format?: string | null;
+  description_columns: string[];
+  amount_column?: string | null;
+  debit_column?: string | null;
+  credit_column?: string | null;
+  sign_convention: SignConvention;
+  skip_rows: number;
+}
+
+export interface ImportProfile extends ImportMapping {
+  id: string;
+  name: string;
+  last_used_at?: string;
+  created_at: string;
+}
+
+// Result of previewing an upload before processing
+export interface FilePreview {
+  format: string;
+  requiresMapping: boolean;
+  headers?: string[];
+  sampleRows?: Record<string, string>[];
+  matchedProfile?: ImportProfile | null;
+  suggestedMapping?: Partial<ImportMapping>;
+}
+
+// A statement row that couldn't be imported (e.g. unreadable date)
+export interface RejectedRow {
+  line?: number;
+  text: string;
+  reason: string;
+}
+
+// Background job (statement processing runs in a worker)
+export interface Job<Result = any> {
+  id: string;
+  type: string;
+  status: 'queued' | 'running' | 'completed' | 'dead';
+  attempts: number;
+  maxAttempts: number;
+  nextAttemptAt?: string | null; // Set while waiting to retry
+  error?: string | null;
+  result?: Result | null;
+}
+
+// Live progress of a file being processed (streamed from the server)
+export interface ProcessingProgress {
+  fileId: string;
+  jobId?: string;
+  stage: 'queued' | 'parsing' | 'categorizing' | 'checking_duplicates' | 'completed' | 'failed';
+  pagesParsed?: number;
+  totalPages?: number;
+  rowsExtracted?: number;
+  rejectedRows?: number;
+  rowsCategorized?: number;
+  duplicatesFound?: number;
+  error?: string;
+  willRetry?: boolean; // A failed attempt that will be retried
+  at: string;
+}
+
+// Result of a processing job (the file's rows are staged for review)
+export interface ProcessFileResult {
+  fileId: string;
+  batchId: string;
+  stagedCount: number;
+  duplicatesFound?: number;
+  importProfile?: string | null;
+  rejectedRowsCount?: number;
+  rejectedRows?: RejectedRow[];
+  lowConfidenceCount?: number; // Scanned (OCR) transactions that may be misread
+  overlapsFile?: { id: string; filename: string } | null;
+}
+
+// A transaction changed after it was imported (reported before an import is reverted)
+export interface EditedTransaction {
+  id: string;
+  transaction_date: string;
+  description: string;
+  amount: number;
+  category: string;
+}
+
+// A parsed row waiting on the import review screen
+export interface StagedTransaction {
+  id: string;
+  row_index: number;
+  transaction_date: string; // YYYY-MM-DD
+  description: string;
+  amount: number;
+  category: string;
+  subcategory?: string | null;
+  is_income: boolean;
+  counterparty?: string | null;
+  currency?: string | null;
+  ocr_confidence?: number | null;
+  duplicate_of?: string | null; // Existing transaction this row appears to repeat
+  excluded: boolean;
+  warnings: string[];
+  tags: string[];
+  original_description?: string | null; // Bank's description, when a rule replaced it
+  categorization_rule_id?: string | null;
+}
+
+// A processed file waiting for the user to review and commit it
+export interface StagedImport {
+  file: { id: string; filename: string; uploaded_at: string; processed_at?: string };
+  reconciliation: {
+    status: ReconciliationStatus | null;
+    openingBalance: number | null;
+    closingBalance: number | null;
+    difference: number | null;
+    periodStart: string | null;
+    periodEnd: string | null;
+  };
+  rejectedRows: RejectedRow[];
+  overlapsFile: { id: string; filename: string } | null; // Earlier statement of the same account covering the same dates
+  transactions: StagedTransaction[];
+}
+
+// Changes to a staged row, sent when the import is committed
+export type StagedTransactionEdit = { id: string } & Partial<
+  Pick<StagedTransaction, 'transaction_date' | 'description' | 'amount' | 'category' | 'subcategory' | 'is_income' | 'excluded'>
+>;
+
+// ===== CATEGORIZATION RULES =====
+
+export type RuleDirection = 'income' | 'expense';
+
+// When a rule applies (every condition that is set must match)
+export interface RuleConditions {
+  description_contains?: string | null;
+  description_regex?: string | null;
+  merchant_equals?: string | null;
+  amount_min?: number | null;
+  amount_max?: number | null;
+  account_id?: string | null;
+  direction?: RuleDirection | null;
+}
+
+// What a matching rule does
+export interface RuleActions {
+  set_category?: string | null;
+  set_subcategory?: string | null;
+  add_tags: string[];
+  set_description?: string | null;
+}
+
+export interface CategorizationRule extends RuleConditions, RuleActions {
+  id: string;
+  name: string;
+  priority: number;
+  enabled: boolean;
+  created_at: string;
+  updated_at: string;
+}
+
+export type CategorizationRuleInput = RuleConditions & Partial<RuleActions> & {
+  name?: string;
+  enabled?: boolean;
+};
+
+// A spending category. Defaults (user_id null) are shared; users add their own.
+export interface Category {
+  id: string;
+  user_id?: string | null;
+  name: string;
+  parent_id?: string | null;            // Set for subcategories
+  icon?: string | null;
+  color?: string | null;
+  is_default: boolean;
+  archived_at?: string | null;
+  created_at: string;
+  updated_at?: string;
+}
+
+// A top-level category with its subcategories
+export interface CategoryNode extends Category {
+  subcategories: Category[];
+}
+
+export interface CategoryInput {
+  name?: string;
+  parent_id?: string | null;
+  icon?: string | null;
+  color?: string | null;
+}
+
+// A merchant -> category mapping learned from the user's corrections
+export interface LearnedCategory {
+  id: string;
+  merchant_key: string;
+  merchant_name: string;
+  category: string;
+  subcategory?: string | null;
+  times_corrected: number;
+  times_applied: number;
+  last_applied_at?: string | null;
+  created_at: string;
+  updated_at: string;
+}
+
+// A change applying rules makes (or would make) to an existing transaction
+export interface RuleChange {
+  id: string;
+  description: string;
+  before: { category?: string; subcategory?: string; description: string; tags: string[] };
+  after: { category?: string; subcategory?: string; description: string; tags: string[] };
+}
+
+export interface RuleApplicationResult {
+  message: string;
+  dryRun: boolean;
+  matched: number;
+  updated: number;
+  changes: RuleChange[];
 }